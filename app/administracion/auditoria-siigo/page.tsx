@@ -0,0 +1,13 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import SiigoAuditAdmin from '@/components/administracion/auditoria-siigo';
+
+export default async function SiigoAuditPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/administracion/auditoria-siigo');
+  }
+
+  return <SiigoAuditAdmin />;
+}
@@ -0,0 +1,13 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import CompaniesAdmin from '@/components/administracion/empresas';
+
+export default async function CompaniesPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/administracion/empresas');
+  }
+
+  return <CompaniesAdmin />;
+}
@@ -0,0 +1,13 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import FiscalParametersAdmin from '@/components/administracion/parametros-fiscales';
+
+export default async function FiscalParametersPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/administracion/parametros-fiscales');
+  }
+
+  return <FiscalParametersAdmin />;
+}
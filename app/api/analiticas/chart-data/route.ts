@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { sql } from '@/lib/db';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 export async function GET(request: Request) {
   try {
@@ -7,6 +8,7 @@ export async function GET(request: Request) {
     const documentType = searchParams.get('documentType') || 'FC';
     const timeRange = searchParams.get('timeRange') || 'month';
     const userId = 1; // TODO: Get from session/token
+    const companyId = await getActiveCompanyId();
 
     // Get current date values for filtering
     const now = new Date();
@@ -26,6 +28,7 @@ export async function GET(request: Request) {
           uploaded_files
         WHERE 
           user_id = ${userId}
+          AND company_id = ${companyId}
           AND document_type = ${documentType}
           ${sql.unsafe(timeRange === 'day' ? "AND uploaded_at >= CURRENT_DATE - INTERVAL '30 days'" : '')}
           ${sql.unsafe(timeRange === 'week' ? "AND uploaded_at >= CURRENT_DATE - INTERVAL '12 weeks'" : '')}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { sql } from '@/lib/db';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 import { QueryResult } from '@neondatabase/serverless';
 
 // Funciones auxiliares para colores
@@ -52,6 +53,8 @@ interface ChartData {
 
 export async function GET() {
   try {
+    const companyId = await getActiveCompanyId();
+
     // Obtener datos agrupados por mes y tipo de documento
     const result = await sql`
       SELECT 
@@ -60,6 +63,7 @@ export async function GET() {
         document_type,
         SUM(total_value)::bigint as total_value
       FROM uploaded_files
+      WHERE company_id = ${companyId}
       GROUP BY month, year, document_type
       ORDER BY year, month, document_type
     ` as unknown as QueryResult<DatabaseRow>;
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { sql } from '@/lib/db';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 // Definir tipos para los datos de la base de datos
 interface FilaBaseDatos {
@@ -26,6 +27,8 @@ type ResultadoConsulta = FilaBaseDatos[];
 
 export async function GET() {
   try {
+    const companyId = await getActiveCompanyId();
+
     // Obtener datos de la base de datos para el año 2025
     const result = await sql`
       WITH meses AS (
@@ -38,7 +41,7 @@ export async function GET() {
           SUM(uf.total_value) as valor_total,
           COUNT(uf.id) as cantidad
         FROM uploaded_files uf
-        WHERE uf.year = 2025
+        WHERE uf.year = 2025 AND uf.company_id = ${companyId}
         GROUP BY uf.month, uf.document_type
       )
       SELECT 
@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import * as XLSX from "xlsx"
 import { saveUploadedFile } from "@/lib/db"
+import { getActiveCompanyId } from "@/lib/siigo/companies-store"
 
 /**
  * SISTEMA ROBUSTO DE PROCESAMIENTO DE DOCUMENTOS SIIGO
@@ -899,6 +900,9 @@ export async function POST(request: NextRequest) {
   let memoryPeakUsage = getMemoryUsage()
 
   try {
+    // Los archivos quedan a nombre de la empresa elegida en el encabezado
+    const companyId = await getActiveCompanyId()
+
     // Obtener FormData
     const formData = await request.formData()
     const files: File[] = []
@@ -1014,7 +1018,8 @@ export async function POST(request: NextRequest) {
                 monthToSave,
                 yearToSave,
                 fileResult.totalValue,
-                fileResult.processed || 0
+                fileResult.processed || 0,
+                companyId
               )
               console.log(`[v0] 📊 Datos guardados en la base de datos para ${file.name}`)
             }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { SiigoCompanyError, setActiveCompany } from '@/lib/siigo/companies-store';
+import { activeCompanySchema } from '@/lib/validations';
+
+// Cambia la empresa con la que trabaja el usuario (cookie empresa_activa)
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    const { companyId } = activeCompanySchema.parse(await request.json());
+    const company = await setActiveCompany(companyId);
+    console.log(`[EMPRESAS] ${user.email} cambió a la empresa ${companyId}`);
+    return NextResponse.json({ success: true, data: { activeCompanyId: companyId, company } });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SiigoCompanyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Error en POST /api/empresas/activa:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { siigoClient } from '@/lib/siigo/client';
+import { getActiveCompanyId, listCompanies, saveCompany } from '@/lib/siigo/companies-store';
+import { companySchema } from '@/lib/validations';
+
+// Empresas registradas y la elegida en el selector del encabezado
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    const [companies, activeCompanyId] = await Promise.all([listCompanies(), getActiveCompanyId()]);
+    return NextResponse.json({ success: true, data: { companies, activeCompanyId } });
+  } catch (error) {
+    console.error('Error en GET /api/empresas:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// Crea o actualiza una empresa y sus credenciales de Siigo (área de administración)
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    const input = companySchema.parse(await request.json());
+    const company = await saveCompany(input, user.email);
+    // El siguiente llamado a Siigo vuelve a autenticarse con las credenciales nuevas
+    siigoClient.forgetCompany(company.id);
+    return NextResponse.json({ success: true, data: company });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    console.error('Error en POST /api/empresas:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { fiscalParametersSchema } from '@/lib/validations';
+import type { FiscalParameters } from '@/lib/siigo/fiscal-parameters';
+import {
+  getFiscalParametersForDate,
+  listFiscalParameters,
+  saveFiscalParameters
+} from '@/lib/siigo/fiscal-parameters-store';
+
+// Parámetros fiscales: ?date=YYYY-MM-DD devuelve los vigentes en la fecha, sin parámetros todos los años
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    const date = new URL(request.url).searchParams.get('date');
+    if (date) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return NextResponse.json({ success: false, error: 'La fecha debe tener formato YYYY-MM-DD' }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, data: await getFiscalParametersForDate(date) });
+    }
+
+    return NextResponse.json({ success: true, data: await listFiscalParameters() });
+  } catch (error) {
+    console.error('Error en GET /api/parametros-fiscales:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// Crea o reemplaza los parámetros de un año (área de administración)
+export async function PUT(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    const parameters = fiscalParametersSchema.parse(await request.json()) as FiscalParameters;
+    await saveFiscalParameters(parameters, user.email);
+    return NextResponse.json({ success: true, data: parameters });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    console.error('Error en PUT /api/parametros-fiscales:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,6 +1,7 @@
 // app/api/productos-lista/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { Pool } from 'pg';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -9,6 +10,7 @@ const pool = new Pool({
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const query = searchParams.get('q');
+  const companyId = await getActiveCompanyId();
 
   let sqlQuery = '';
   let values: string[] = [];
@@ -18,27 +20,28 @@ export async function GET(req: NextRequest) {
     sqlQuery = `
       SELECT codigo, nombre 
       FROM productos_ 
+      WHERE company_id = $1
       ORDER BY codigo
     `;
-    values = [];
+    values = [companyId];
   } else if (/^\d/.test(query)) {
     // Empieza con número → buscar por código (SIN LÍMITE)
     sqlQuery = `
       SELECT codigo, nombre 
       FROM productos_ 
-      WHERE codigo ILIKE $1
+      WHERE company_id = $1 AND codigo ILIKE $2
       ORDER BY codigo
     `;
-    values = [`${query}%`];
+    values = [companyId, `${query}%`];
   } else {
     // Empieza con letra → buscar por nombre (SIN LÍMITE)
     sqlQuery = `
       SELECT codigo, nombre 
       FROM productos_ 
-      WHERE nombre ILIKE $1
+      WHERE company_id = $1 AND nombre ILIKE $2
       ORDER BY nombre
     `;
-    values = [`${query}%`];
+    values = [companyId, `${query}%`];
   }
 
   try {
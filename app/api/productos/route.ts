@@ -1,6 +1,7 @@
 // app/api/productos/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { Pool } from 'pg';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -12,6 +13,8 @@ export async function GET(req: NextRequest) {
   const page = parseInt(searchParams.get('page') || '1');
   const limit = parseInt(searchParams.get('limit') || '50');
   const offset = (page - 1) * limit;
+  // El catálogo de productos es de cada empresa
+  const companyId = await getActiveCompanyId();
 
   let sqlQuery = '';
   let countQuery = '';
@@ -20,42 +23,43 @@ export async function GET(req: NextRequest) {
 
   if (!query || query.trim() === '') {
     // Sin parámetro de búsqueda → devolver productos con paginación
-    sqlQuery = ` +
+    sqlQuery = `
       SELECT codigo, nombre, precio_base, tiene_iva 
       FROM productos_ 
+      WHERE company_id = $1
       ORDER BY codigo
-      LIMIT $1 OFFSET $2
+      LIMIT $2 OFFSET $3
     `;
-    values = [limit, offset];
+    values = [companyId, limit, offset];
     
-    countQuery = `SELECT COUNT(*) as total FROM productos_`;
-    countValues = [];
+    countQuery = `SELECT COUNT(*) as total FROM productos_ WHERE company_id = $1`;
+    countValues = [companyId];
   } else if (/^\d/.test(query)) {
     // Empieza con número → buscar por código con paginación
     sqlQuery = `
       SELECT codigo, nombre, precio_base, tiene_iva 
       FROM productos_ 
-      WHERE codigo ILIKE $1
+      WHERE company_id = $1 AND codigo ILIKE $2
       ORDER BY codigo
-      LIMIT $2 OFFSET $3
+      LIMIT $3 OFFSET $4
     `;
-    values = [`%${query}%`, limit, offset];
+    values = [companyId, `%${query}%`, limit, offset];
     
-    countQuery = `SELECT COUNT(*) as total FROM productos_ WHERE codigo ILIKE $1`;
-    countValues = [`%${query}%`];
+    countQuery = `SELECT COUNT(*) as total FROM productos_ WHERE company_id = $1 AND codigo ILIKE $2`;
+    countValues = [companyId, `%${query}%`];
   } else {
     // Empieza con letra → buscar por nombre con paginación
     sqlQuery = `
       SELECT codigo, nombre, precio_base, tiene_iva 
       FROM productos_ 
-      WHERE nombre ILIKE $1
+      WHERE company_id = $1 AND nombre ILIKE $2
       ORDER BY nombre
-      LIMIT $2 OFFSET $3
+      LIMIT $3 OFFSET $4
     `;
-    values = [`%${query}%`, limit, offset];
+    values = [companyId, `%${query}%`, limit, offset];
     
-    countQuery = `SELECT COUNT(*) as total FROM productos_ WHERE nombre ILIKE $1`;
-    countValues = [`%${query}%`];
+    countQuery = `SELECT COUNT(*) as total FROM productos_ WHERE company_id = $1 AND nombre ILIKE $2`;
+    countValues = [companyId, `%${query}%`];
   }
 
   try {
@@ -96,8 +100,8 @@ export async function POST(req: NextRequest) {
     }
 
     const result = await pool.query(
-      'INSERT INTO productos_ (codigo, nombre, precio_base, tiene_iva) VALUES ($1, $2, $3, $4) RETURNING *',
-      [codigo, nombre, precio_base, tiene_iva]
+      'INSERT INTO productos_ (company_id, codigo, nombre, precio_base, tiene_iva) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+      [await getActiveCompanyId(), codigo, nombre, precio_base, tiene_iva]
     );
 
     return NextResponse.json(result.rows[0]);
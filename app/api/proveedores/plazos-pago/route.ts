@@ -0,0 +1,82 @@
+// app/api/proveedores/plazos-pago/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { ZodError } from 'zod';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+import { supplierPaymentTermsSchema } from '@/lib/validations';
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+
+// Plazo de pago guardado para un proveedor (?codigo=) en la empresa activa: la forma de pago es de su cuenta de Siigo
+export async function GET(req: NextRequest) {
+  const codigo = req.nextUrl.searchParams.get('codigo')?.trim();
+  if (!codigo) {
+    return NextResponse.json({ success: false, error: 'El código del proveedor es requerido' }, { status: 400 });
+  }
+
+  try {
+    const result = await pool.query(
+      `SELECT proveedor_codigo, payment_type_id, cuotas, updated_at
+       FROM proveedores_plazos_pago
+       WHERE company_id = $1 AND proveedor_codigo = $2`,
+      [await getActiveCompanyId(), codigo]
+    );
+
+    const row = result.rows[0];
+    return NextResponse.json({
+      success: true,
+      data: row ? {
+        codigo: row.proveedor_codigo,
+        paymentTypeId: row.payment_type_id,
+        installments: row.cuotas,
+        updatedAt: row.updated_at
+      } : null
+    });
+  } catch (error) {
+    console.error('Error al consultar plazos de pago del proveedor:', error);
+    return NextResponse.json({ success: false, error: 'Error al consultar plazos de pago' }, { status: 500 });
+  }
+}
+
+// Guarda o reemplaza el plazo de pago de un proveedor
+export async function PUT(req: NextRequest) {
+  try {
+    const data = supplierPaymentTermsSchema.parse(await req.json());
+
+    const result = await pool.query(
+      `INSERT INTO proveedores_plazos_pago (company_id, proveedor_codigo, payment_type_id, cuotas)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (company_id, proveedor_codigo) DO UPDATE SET
+       payment_type_id = EXCLUDED.payment_type_id,
+       cuotas = EXCLUDED.cuotas,
+       updated_at = CURRENT_TIMESTAMP
+       RETURNING proveedor_codigo, payment_type_id, cuotas, updated_at`,
+      [await getActiveCompanyId(), data.codigo, data.paymentTypeId, JSON.stringify(data.installments)]
+    );
+
+    const row = result.rows[0];
+    return NextResponse.json({
+      success: true,
+      data: {
+        codigo: row.proveedor_codigo,
+        paymentTypeId: row.payment_type_id,
+        installments: row.cuotas,
+        updatedAt: row.updated_at
+      }
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    console.error('Error al guardar plazos de pago del proveedor:', error);
+    return NextResponse.json({ success: false, error: 'Error al guardar plazos de pago' }, { status: 500 });
+  }
+}
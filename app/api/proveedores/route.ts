@@ -1,6 +1,7 @@
 // app/api/proveedores/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { Pool } from 'pg';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -12,6 +13,8 @@ export async function GET(req: NextRequest) {
   const page = parseInt(searchParams.get('page') || '1');
   const limit = parseInt(searchParams.get('limit') || '50');
   const offset = (page - 1) * limit;
+  // El catálogo de proveedores es de cada empresa
+  const companyId = await getActiveCompanyId();
 
   let sqlQuery = '';
   let countQuery = '';
@@ -23,39 +26,40 @@ export async function GET(req: NextRequest) {
     sqlQuery = `
       SELECT codigo, nombre, identification 
       FROM proveedores 
+      WHERE company_id = $1
       ORDER BY nombre
-      LIMIT $1 OFFSET $2
+      LIMIT $2 OFFSET $3
     `;
-    values = [limit, offset];
+    values = [companyId, limit, offset];
     
-    countQuery = `SELECT COUNT(*) as total FROM proveedores`;
-    countValues = [];
+    countQuery = `SELECT COUNT(*) as total FROM proveedores WHERE company_id = $1`;
+    countValues = [companyId];
   } else if (/^\d/.test(query)) {
     // Empieza con número → buscar por código o identificación con paginación
     sqlQuery = `
       SELECT codigo, nombre, identification 
       FROM proveedores 
-      WHERE codigo ILIKE $1 OR identification ILIKE $1
+      WHERE company_id = $1 AND (codigo ILIKE $2 OR identification ILIKE $2)
       ORDER BY codigo
-      LIMIT $2 OFFSET $3
+      LIMIT $3 OFFSET $4
     `;
-    values = [`%${query}%`, limit, offset];
+    values = [companyId, `%${query}%`, limit, offset];
     
-    countQuery = `SELECT COUNT(*) as total FROM proveedores WHERE codigo ILIKE $1 OR identification ILIKE $1`;
-    countValues = [`%${query}%`];
+    countQuery = `SELECT COUNT(*) as total FROM proveedores WHERE company_id = $1 AND (codigo ILIKE $2 OR identification ILIKE $2)`;
+    countValues = [companyId, `%${query}%`];
   } else {
     // Empieza con letra → buscar por nombre con paginación
     sqlQuery = `
       SELECT codigo, nombre, identification 
       FROM proveedores 
-      WHERE nombre ILIKE $1
+      WHERE company_id = $1 AND nombre ILIKE $2
       ORDER BY nombre
-      LIMIT $2 OFFSET $3
+      LIMIT $3 OFFSET $4
     `;
-    values = [`%${query}%`, limit, offset];
+    values = [companyId, `%${query}%`, limit, offset];
     
-    countQuery = `SELECT COUNT(*) as total FROM proveedores WHERE nombre ILIKE $1`;
-    countValues = [`%${query}%`];
+    countQuery = `SELECT COUNT(*) as total FROM proveedores WHERE company_id = $1 AND nombre ILIKE $2`;
+    countValues = [companyId, `%${query}%`];
   }
 
   try {
@@ -97,8 +101,8 @@ export async function POST(req: NextRequest) {
     }
 
     const result = await pool.query(
-      'INSERT INTO proveedores (codigo, nombre) VALUES ($1, $2) RETURNING *',
-      [codigo, nombre]
+      'INSERT INTO proveedores (company_id, codigo, nombre) VALUES ($1, $2, $3) RETURNING *',
+      [await getActiveCompanyId(), codigo, nombre]
     );
 
     return NextResponse.json(result.rows[0]);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { replaySiigoAuditRecord, SiigoAuditReplayError } from '@/lib/siigo/audit-store';
+import { SiigoAuthError } from '@/lib/siigo/client';
+import { siigoAuditReplaySchema } from '@/lib/validations';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Reenvía a Siigo una llamada fallida de la bitácora con el mismo cuerpo
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  const correlationId = startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const { id } = siigoAuditReplaySchema.parse(await request.json());
+    const data = await replaySiigoAuditRecord(id, user.email);
+    console.log(`[SIIGO-AUDIT] Registro ${id} reenviado por ${user.email} (${correlationId})`);
+    return NextResponse.json({ success: true, data, correlationId });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SiigoAuditReplayError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    if (error instanceof SiigoAuthError || error instanceof SiigoApiError) {
+      // El nuevo intento también quedó en la bitácora con este correlation id
+      return NextResponse.json({ success: false, error: error.message, correlationId }, { status: 502 });
+    }
+    console.error('Error en POST /api/siigo/auditoria/reenviar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { replayBlocker } from '@/lib/siigo/audit';
+import { searchSiigoAudit } from '@/lib/siigo/audit-store';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Bitácora de llamadas a Siigo (área de administración); replayBlocker es null si el registro se puede reenviar
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const { searchParams } = new URL(request.url);
+    const records = await searchSiigoAudit({
+      userEmail: searchParams.get('user')?.trim() || undefined,
+      endpoint: searchParams.get('endpoint') || undefined,
+      correlationId: searchParams.get('correlationId')?.trim() || undefined,
+      failedOnly: searchParams.get('failed') === 'true',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined
+    });
+    return NextResponse.json({
+      success: true,
+      data: records.map(record => ({ ...record, replayBlocker: replayBlocker(record) }))
+    });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/auditoria:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { getSiigoCostCenters } from '@/lib/siigo/catalogs';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Centros de costo activos de Siigo en el formato del Autocomplete (?q= filtra por código o nombre)
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const { searchParams } = new URL(request.url);
+    const refresh = searchParams.get('refresh') === 'true';
+    const query = (searchParams.get('q') || '').trim().toLowerCase();
+
+    const costCenters = await getSiigoCostCenters({ refresh });
+    const data = costCenters
+      .filter(costCenter => costCenter.active)
+      .filter(costCenter => !query
+        || costCenter.code?.toLowerCase().includes(query)
+        || costCenter.name.toLowerCase().includes(query))
+      .map(costCenter => ({
+        id: costCenter.id,
+        codigo: costCenter.code,
+        nombre: costCenter.name
+      }));
+
+    return NextResponse.json({ success: true, data });
+
+  } catch (error) {
+    console.error('Error en /api/siigo/centros-costo:', error);
+
+    if (error instanceof SiigoApiError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: typeof error.code === 'number' ? error.code : 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { purchaseDraftSchema } from '@/lib/validations';
+import {
+  createPurchaseDraft,
+  deletePurchaseDraft,
+  getPurchaseDraft,
+  listPurchaseDrafts,
+  updatePurchaseDraft
+} from '@/lib/siigo/purchase-drafts-store';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function draftIdParam(request: NextRequest): string | null {
+  const id = new URL(request.url).searchParams.get('id')?.trim();
+  return id && UUID_PATTERN.test(id) ? id : null;
+}
+
+const notFound = () =>
+  NextResponse.json({ success: false, error: 'El borrador no existe' }, { status: 404 });
+
+function errorResponse(error: unknown, context: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      { success: false, error: error.errors.map((issue) => issue.message).join(', ') },
+      { status: 400 }
+    );
+  }
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+  }
+  console.error(`Error en ${context} /api/siigo/compras/borradores:`, error);
+  return NextResponse.json(
+    { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+    { status: 500 }
+  );
+}
+
+// Borradores del usuario (?id= para abrir uno con su estado completo)
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    if (!new URL(request.url).searchParams.has('id')) {
+      return NextResponse.json({ success: true, data: await listPurchaseDrafts(user.id) });
+    }
+    const id = draftIdParam(request);
+    const draft = id ? await getPurchaseDraft(user.id, id) : null;
+    return draft ? NextResponse.json({ success: true, data: draft }) : notFound();
+  } catch (error) {
+    return errorResponse(error, 'GET');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const input = purchaseDraftSchema.parse(await request.json());
+    const data = await createPurchaseDraft(user.id, input);
+    return NextResponse.json({ success: true, data }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'POST');
+  }
+}
+
+// Autoguardado: reemplaza el estado de un borrador existente (?id=)
+export async function PUT(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  const id = draftIdParam(request);
+  if (!id) return notFound();
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const input = purchaseDraftSchema.parse(await request.json());
+    const data = await updatePurchaseDraft(user.id, id, input);
+    return data ? NextResponse.json({ success: true, data }) : notFound();
+  } catch (error) {
+    return errorResponse(error, 'PUT');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  const id = draftIdParam(request);
+  if (!id) return notFound();
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    return (await deletePurchaseDraft(user.id, id))
+      ? NextResponse.json({ success: true })
+      : notFound();
+  } catch (error) {
+    return errorResponse(error, 'DELETE');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getDefaultCompanyId } from '@/lib/siigo/companies';
+import { getActiveCompanyId, listCompanies } from '@/lib/siigo/companies-store';
+import { OutboxRunSummary, processOutbox } from '@/lib/siigo/outbox-store';
+
+// Un cron puede llamar al worker sin sesión con Authorization: Bearer $CRON_SECRET
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return Boolean(secret) && request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+// El cron recorre la cola de todas las empresas activas; un usuario, la de la empresa elegida
+async function companiesToProcess(cron: boolean): Promise<string[]> {
+  if (!cron) return [await getActiveCompanyId()];
+  const companies = await listCompanies({ activeOnly: true });
+  return Array.from(new Set([getDefaultCompanyId(), ...companies.map(company => company.id)]));
+}
+
+// Worker de la cola: envía a Siigo las compras cuyo próximo intento ya venció
+export async function POST(request: NextRequest) {
+  const cron = isCronRequest(request);
+  const user = cron ? null : await getCurrentUser();
+  if (!cron && !user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    const data: OutboxRunSummary = { processed: 0, sent: 0, pending: 0, failed: 0, needsAttention: 0 };
+    for (const companyId of await companiesToProcess(cron)) {
+      const summary = await processOutbox({ companyId });
+      (Object.keys(data) as Array<keyof OutboxRunSummary>).forEach(key => {
+        data[key] += summary[key];
+      });
+    }
+    if (data.processed > 0) {
+      console.log(`[SIIGO-COMPRAS] Cola procesada por ${user?.email ?? 'cron'}: ${data.sent} enviadas de ${data.processed}`);
+    }
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error en POST /api/siigo/compras/cola/procesar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { retryOutboxItem, SiigoOutboxError } from '@/lib/siigo/outbox-store';
+import { siigoOutboxItemSchema } from '@/lib/validations';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Reintento manual de una compra fallida o que requería atención; data trae el nuevo estado
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const { id } = siigoOutboxItemSchema.parse(await request.json());
+    const { item } = await retryOutboxItem(id);
+    console.log(`[SIIGO-COMPRAS] Compra #${id} de la cola reintentada por ${user.email}: ${item.status}`);
+    return NextResponse.json({ success: true, data: item });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SiigoOutboxError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Error en POST /api/siigo/compras/cola/reintentar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
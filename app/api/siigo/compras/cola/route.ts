@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { OUTBOX_STATUS_LABELS, OutboxStatus } from '@/lib/siigo/outbox';
+import { listOutboxItems } from '@/lib/siigo/outbox-store';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Compras de la cola de envíos a Siigo (?status= para filtrar por estado)
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const status = new URL(request.url).searchParams.get('status');
+    if (status && !(status in OUTBOX_STATUS_LABELS)) {
+      return NextResponse.json({ success: false, error: `Estado inválido: ${status}` }, { status: 400 });
+    }
+    const data = await listOutboxItems({ status: (status as OutboxStatus) || undefined });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/compras/cola:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
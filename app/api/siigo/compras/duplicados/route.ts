@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { findDuplicatePurchases } from '@/lib/siigo/purchases-sync';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Compras ya registradas con la misma factura del proveedor (número o CUFE), en el espejo local y en Siigo;
+// `incomplete` indica que en Siigo no se alcanzó a revisar todo
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  const { searchParams } = new URL(request.url);
+  const supplier = searchParams.get('supplier')?.trim();
+  const number = searchParams.get('number')?.trim() || undefined;
+  const cufe = searchParams.get('cufe')?.trim() || undefined;
+  if (!supplier || (!number && !cufe)) {
+    return NextResponse.json(
+      { success: false, error: 'Los parámetros supplier y number (o cufe) son requeridos' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const data = await findDuplicatePurchases({
+      supplierIdentification: supplier,
+      prefix: searchParams.get('prefix')?.trim() || undefined,
+      number,
+      cufe,
+      date: searchParams.get('date') || undefined
+    });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/compras/duplicados:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { UblParseError } from '@/lib/siigo/ubl';
+import { prefillFromElectronicInvoice, readElectronicInvoiceFile } from '@/lib/siigo/ubl-import';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// Datos para llenar el formulario desde la factura electrónica del proveedor (campo file: .xml o .zip)
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ success: false, error: 'Seleccione el .xml o .zip de la factura electrónica' }, { status: 400 });
+    }
+    if (!/\.(xml|zip)$/i.test(file.name)) {
+      return NextResponse.json({ success: false, error: 'El archivo debe ser .xml o .zip' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ success: false, error: 'El archivo supera los 5 MB' }, { status: 400 });
+    }
+
+    const xml = readElectronicInvoiceFile(Buffer.from(await file.arrayBuffer()), file.name);
+    const data = await prefillFromElectronicInvoice(xml);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof UblParseError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('Error en POST /api/siigo/compras/factura-electronica:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
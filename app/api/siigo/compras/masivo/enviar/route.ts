@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { submitBulkPurchases } from '@/lib/siigo/bulk-purchases-store';
+import { bulkPurchaseSubmissionSchema } from '@/lib/validations';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Envía a Siigo las compras de la vista previa y responde el resultado de cada factura
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const { purchases } = bulkPurchaseSubmissionSchema.parse(await request.json());
+    const data = await submitBulkPurchases(purchases, user.email);
+    return NextResponse.json({
+      success: true,
+      data,
+      summary: {
+        created: data.filter(result => result.status === 'created').length,
+        queued: data.filter(result => result.status === 'queued').length,
+        failed: data.filter(result => result.status === 'failed').length,
+        skipped: data.filter(result => result.status === 'skipped').length
+      }
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    console.error('Error en POST /api/siigo/compras/masivo/enviar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
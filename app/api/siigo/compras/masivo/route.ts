@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { createBulkPurchaseTemplate, readBulkPurchaseWorkbook } from '@/lib/siigo/bulk-purchases-workbook';
+import { previewBulkPurchases } from '@/lib/siigo/bulk-purchases-store';
+import { SiigoAuthError } from '@/lib/siigo/client';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// Plantilla .xlsx de la carga masiva de compras
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  return new NextResponse(new Uint8Array(createBulkPurchaseTemplate()), {
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': 'attachment; filename="plantilla-compras.xlsx"'
+    }
+  });
+}
+
+// Vista previa de un archivo con la plantilla (campo file): errores por fila y compras listas para enviar
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ success: false, error: 'Seleccione un archivo .xlsx' }, { status: 400 });
+    }
+    if (!file.name.toLowerCase().endsWith('.xlsx')) {
+      return NextResponse.json({ success: false, error: 'El archivo debe ser .xlsx' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ success: false, error: 'El archivo supera los 5 MB' }, { status: 400 });
+    }
+
+    let workbook;
+    try {
+      workbook = readBulkPurchaseWorkbook(await file.arrayBuffer());
+    } catch {
+      return NextResponse.json({ success: false, error: 'No se pudo leer el archivo de Excel' }, { status: 400 });
+    }
+
+    const purchases = workbook.purchases.length > 0 ? await previewBulkPurchases(workbook.purchases) : [];
+    return NextResponse.json({ success: true, data: { purchases, errors: workbook.errors } });
+  } catch (error) {
+    console.error('Error en POST /api/siigo/compras/masivo:', error);
+    if (error instanceof SiigoAuthError || error instanceof SiigoApiError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 502 });
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
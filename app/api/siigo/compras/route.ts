@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import {
+  cufeVerificationBodySchema,
+  duplicateOverrideBodySchema,
+  purchaseDraftReferenceSchema,
+  siigoPurchaseSchema,
+  supportDocumentBodySchema
+} from '@/lib/validations';
+import { mapSiigoPurchaseErrors } from '@/lib/siigo/purchaseApi';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { SiigoAuthError } from '@/lib/siigo/client';
+import { findDocumentType } from '@/lib/siigo/document-types';
+import { getDocumentTypeErrors, PURCHASE_DOCUMENT_TYPES, requiresReferencePurchase } from '@/lib/siigo/document-rules';
+import { purchaseIdentityOf } from '@/lib/siigo/duplicates';
+import { attemptOutboxItem, cancelOutboxItem, enqueueOutboxPurchase, findQueuedDraftItem } from '@/lib/siigo/outbox-store';
+import { findDuplicatePurchases, getLocalPurchase, getLocalPurchases } from '@/lib/siigo/purchases-sync';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Compras del espejo local (ver /api/siigo/compras/sync) con su saldo
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const { searchParams } = new URL(request.url);
+    const data = await getLocalPurchases({
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      supplierIdentification: searchParams.get('supplier') || undefined
+    });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/compras:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: 'No autorizado' },
+      { status: 401 }
+    );
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'El cuerpo de la petición debe ser JSON', missingFields: [] },
+        { status: 400 }
+      );
+    }
+
+    // Validar contra SiigoPurchaseRequest antes de gastar una llamada a Siigo
+    const compra = siigoPurchaseSchema.parse(body);
+
+    // Reglas del tipo de documento que Siigo no explica bien en sus errores
+    const documentType = await findDocumentType(compra.document.id, [...PURCHASE_DOCUMENT_TYPES]);
+    if (!documentType || !documentType.active) {
+      const message = 'El tipo de documento no existe o está inactivo en Siigo';
+      return NextResponse.json(
+        { success: false, error: message, missingFields: ['document.id'], details: { Message: message, Errors: [] } },
+        { status: 400 }
+      );
+    }
+
+    const ruleErrors = getDocumentTypeErrors(documentType, compra);
+    if (ruleErrors.length > 0) {
+      const message = ruleErrors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        {
+          success: false,
+          error: message,
+          missingFields: ruleErrors.map(e => e.field),
+          details: { Message: message, Errors: [] }
+        },
+        { status: 400 }
+      );
+    }
+
+    // La nota débito debe ser del mismo proveedor que la compra que ajusta
+    if (requiresReferencePurchase(documentType)) {
+      const original = await getLocalPurchase(compra.purchase ?? '');
+      if (!original || original.supplier.identification !== compra.supplier.identification) {
+        const message = 'La compra de referencia no existe o es de otro proveedor';
+        return NextResponse.json(
+          { success: false, error: message, missingFields: ['purchase'], details: { Message: message, Errors: [] } },
+          { status: 400 }
+        );
+      }
+    }
+
+    // La misma factura del proveedor no se registra dos veces salvo que se justifique
+    const override = duplicateOverrideBodySchema.parse(body).duplicate_override;
+    const draftId = purchaseDraftReferenceSchema.parse(body).draft_id;
+    const cufeVerification = cufeVerificationBodySchema.parse(body).cufe_verification;
+    const identity = purchaseIdentityOf(compra);
+    const { duplicates, incomplete: duplicateCheckIncomplete } = identity
+      ? await findDuplicatePurchases(identity)
+      : { duplicates: [], incomplete: false };
+    if (duplicates.length > 0 && !override) {
+      const message = `La factura del proveedor ya está registrada: ${duplicates.map(d => d.name).join(', ')}`;
+      return NextResponse.json(
+        {
+          success: false,
+          error: message,
+          missingFields: ['duplicate_override.reason'],
+          duplicates,
+          details: { Message: message, Errors: [] }
+        },
+        { status: 409 }
+      );
+    }
+
+    // Un borrador que ya está en la cola lo envía el worker: no se encola otra vez
+    const queued = draftId ? await findQueuedDraftItem(user.id, draftId) : null;
+    if (queued) {
+      const message = `El borrador ya está en la cola de envíos con el número ${queued.id}`;
+      return NextResponse.json(
+        { success: false, error: message, outbox_id: queued.id, details: { Message: message, Errors: [] } },
+        { status: 409 }
+      );
+    }
+
+    // La compra queda guardada en la cola antes de ir a Siigo: si Siigo falla no se pierde
+    const item = await enqueueOutboxPurchase({
+      kind: documentType.document_support
+        ? 'support_document'
+        : requiresReferencePurchase(documentType) ? 'debit_note' : 'purchase',
+      purchase: compra,
+      supportSupplier: documentType.document_support ? supportDocumentBodySchema.parse(body).support_supplier : undefined,
+      duplicateOverride: duplicates.length > 0 && override ? { reason: override.reason, duplicates } : undefined,
+      cufeVerification,
+      // El borrador se elimina cuando Siigo acepta la compra, ahora o en un reintento de la cola
+      draft: draftId ? { userId: user.id, id: draftId } : undefined
+    }, user.email);
+
+    const { item: attempted, delivery, error } = await attemptOutboxItem(item);
+    if (!delivery) {
+      if (attempted.status === 'needs_attention') {
+        // Quien envía corrige los datos en el formulario: no se deja una copia esperando atención
+        await cancelOutboxItem(attempted.id, user.email).catch((cancelError) => {
+          console.error('[SIIGO-COMPRAS] No se pudo cancelar la compra rechazada de la cola:', cancelError);
+        });
+      }
+      if (attempted.status !== 'pending') throw error;
+      // Falla transitoria: el worker la reintenta (ver /api/siigo/compras/cola/procesar)
+      return NextResponse.json({
+        success: true,
+        queued: true,
+        outbox_id: attempted.id,
+        next_attempt_at: attempted.nextAttemptAt,
+        error: attempted.lastError,
+        duplicate_check_incomplete: duplicateCheckIncomplete
+      }, { status: 202 });
+    }
+
+    const creada = delivery.purchase;
+    return NextResponse.json({
+      success: true,
+      id: creada.id,
+      number: creada.number,
+      name: creada.name,
+      status: creada.stamp?.status ?? null,
+      balance: delivery.balance,
+      cufe_check: delivery.cufeCheck,
+      duplicate_check_incomplete: duplicateCheckIncomplete,
+      outbox_id: attempted.id,
+      data: creada
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const missingFields = Array.from(new Set(error.errors.map((issue) => issue.path.join('.'))));
+      const message = error.errors.map((issue) => issue.message).join(', ');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Datos de compra inválidos',
+          missingFields,
+          details: { Message: message, issues: error.errors }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SiigoAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, missingFields: [] },
+        { status: 502 }
+      );
+    }
+
+    if (error instanceof SiigoApiError) {
+      const status = typeof error.code === 'number' ? error.code : 502;
+      return NextResponse.json(
+        { success: false, ...mapSiigoPurchaseErrors(error.details, error.message) },
+        { status: status >= 400 && status < 600 ? status : 502 }
+      );
+    }
+
+    console.error('Error en /api/siigo/compras:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error interno del servidor',
+        missingFields: []
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { SiigoAuthError } from '@/lib/siigo/client';
+import { runWithSiigoPriority } from '@/lib/siigo/scheduler';
+import {
+  getPurchaseSyncState,
+  SiigoSyncInProgressError,
+  syncSiigoPurchases
+} from '@/lib/siigo/purchases-sync';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Estado de la sincronización del espejo local de compras
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const state = await getPurchaseSyncState();
+    return NextResponse.json({ success: true, data: state });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/compras/sync:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// Ejecuta una sincronización incremental (o completa con ?full=true)
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  const full = request.nextUrl.searchParams.get('full') === 'true';
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    // La sincronización cede el turno a las peticiones de los formularios
+    const result = await runWithSiigoPriority('background', () => syncSiigoPurchases({ full }));
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof SiigoSyncInProgressError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    // El progreso queda guardado: la próxima ejecución continúa desde la última página
+    const status = error instanceof SiigoApiError && typeof error.code === 'number'
+      ? error.code
+      : (error instanceof SiigoAuthError ? 502 : 500);
+    console.error('Error en POST /api/siigo/compras/sync:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error interno del servidor',
+        resumable: true
+      },
+      { status: status >= 400 && status < 600 ? status : 502 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
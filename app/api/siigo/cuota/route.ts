@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+import { getSiigoScheduler } from '@/lib/siigo/scheduler';
+
+// Diagnóstico de la cuota de Siigo de la empresa activa en este proceso: peticiones en espera por prioridad y últimos 429
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  const companyId = await getActiveCompanyId();
+  return NextResponse.json({ success: true, data: { companyId, ...getSiigoScheduler(companyId).stats() } });
+}
+
+export const dynamic = 'force-dynamic';
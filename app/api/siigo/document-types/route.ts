@@ -1,32 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSiigoToken } from '@/app/api/siigo/obtener-token/route';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
 import { getDocumentTypes, getAllDocumentTypes } from '@/lib/siigo/document-types';
 import { SiigoApiError } from '@/lib/siigo/api';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 export async function GET(request: NextRequest) {
-  try {
-    // Obtener el token de autenticación
-    const token = await getSiigoToken();
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'No se pudo obtener el token de autenticación' },
-        { status: 401 }
-      );
-    }
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
 
+  try {
+    enterCompany(await getActiveCompanyId());
     // Obtener parámetros de consulta
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') as 'FC' | 'ND' | 'DS' | 'RP' | null;
-    const partnerId = searchParams.get('partnerId') || undefined;
 
     let result;
     
     if (type) {
       // Obtener un tipo específico de documento
-      result = await getDocumentTypes(token, type, partnerId);
+      result = await getDocumentTypes(type);
     } else {
       // Obtener todos los tipos de documentos
-      result = await getAllDocumentTypes(token, partnerId);
+      result = await getAllDocumentTypes();
     }
 
     // Verificar si hubo un error
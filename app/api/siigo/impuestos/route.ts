@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { getSiigoTaxes } from '@/lib/siigo/catalogs';
+import { groupTaxesByKind } from '@/lib/siigo/taxes';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Catálogo de impuestos de Siigo desde la copia local (?refresh=true fuerza la sincronización)
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const { searchParams } = new URL(request.url);
+    const refresh = searchParams.get('refresh') === 'true';
+    const type = searchParams.get('type');
+
+    const taxes = await getSiigoTaxes({ refresh });
+    const data = type ? taxes.filter(tax => tax.type === type) : taxes;
+
+    return NextResponse.json({
+      success: true,
+      data,
+      grouped: groupTaxesByKind(data)
+    });
+
+  } catch (error) {
+    console.error('Error en /api/siigo/impuestos:', error);
+
+    if (error instanceof SiigoApiError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: typeof error.code === 'number' ? error.code : 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
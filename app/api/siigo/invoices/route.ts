@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
 import { obtenerFacturasSiigo } from '@/lib/siigo/facturas';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 // Mapeo de tipos de documento a sus respectivos códigos y endpoints
 const DOCUMENT_CONFIG = {
@@ -43,7 +47,14 @@ const DOCUMENT_CONFIG = {
 type DocumentTypeKey = keyof typeof DOCUMENT_CONFIG;
 
 export async function GET(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
   try {
+    enterCompany(await getActiveCompanyId());
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') as DocumentTypeKey;
     
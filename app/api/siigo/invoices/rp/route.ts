@@ -1,28 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchSiigoWithAuth } from '@/lib/siigo/api-utils';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { siigoClient } from '@/lib/siigo/client';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
 
 export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
   const { searchParams } = new URL(request.url);
   const params = Object.fromEntries(searchParams.entries());
   
-  const result = await fetchSiigoWithAuth('document-types', {
-    type: 'RP',
-    ...params
-  });
+  try {
+    enterCompany(await getActiveCompanyId());
+    const data = await siigoClient.get('document-types', {
+      type: 'RP',
+      ...params
+    });
 
-  if (result.error) {
+    return NextResponse.json({
+      success: true,
+      data,
+      type: 'RP',
+      description: 'Recibos de Pago'
+    });
+  } catch (error) {
+    console.error('Siigo API Error:', error);
     return NextResponse.json(
-      { success: false, error: result.error },
-      { status: result.status || 500 }
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: error instanceof SiigoApiError && typeof error.code === 'number' ? error.code : 500 }
     );
   }
-
-  return NextResponse.json({
-    success: true,
-    data: result.data,
-    type: 'RP',
-    description: 'Recibos de Pago'
-  });
 }
 
 export const dynamic = 'force-dynamic';
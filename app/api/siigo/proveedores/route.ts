@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+import { supportSupplierFromSiigo } from '@/lib/siigo/suppliers';
+import { createSiigoSupplier, getSiigoSupplierBranches, SiigoSupplierError } from '@/lib/siigo/suppliers-store';
+import { siigoSupplierSchema } from '@/lib/validations';
+
+// Proveedor de la copia local de Siigo por identificación, con sus sucursales
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  const identification = request.nextUrl.searchParams.get('identification')?.trim();
+  if (!identification) {
+    return NextResponse.json({ success: false, error: 'La identificación es requerida' }, { status: 400 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const branches = await getSiigoSupplierBranches(identification);
+    if (branches.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `El proveedor ${identification} no está en la copia local de Siigo` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { supplier: branches[0], branches, supportSupplier: supportSupplierFromSiigo(branches[0]) }
+    });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/proveedores:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// Crea el proveedor en Siigo y lo agrega al catálogo local
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const input = siigoSupplierSchema.parse(await request.json());
+    const supplier = await createSiigoSupplier(input);
+    return NextResponse.json({ success: true, data: supplier }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SiigoSupplierError) {
+      return NextResponse.json({ success: false, error: error.message, data: error.supplier }, { status: error.status });
+    }
+    if (error instanceof SiigoApiError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code, details: error.details },
+        { status: typeof error.code === 'number' ? error.code : 502 }
+      );
+    }
+
+    console.error('Error en POST /api/siigo/proveedores:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
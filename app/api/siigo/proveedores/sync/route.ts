@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { SiigoAuthError } from '@/lib/siigo/client';
+import { runWithSiigoPriority } from '@/lib/siigo/scheduler';
+import { SiigoSyncInProgressError } from '@/lib/siigo/purchases-sync';
+import { getSupplierSyncState, listSupplierConflicts, syncSiigoSuppliers } from '@/lib/siigo/suppliers-store';
+import { enterCompany } from '@/lib/siigo/companies';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Estado de la última sincronización de proveedores y los conflictos que dejó
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const [state, conflicts] = await Promise.all([getSupplierSyncState(), listSupplierConflicts()]);
+    return NextResponse.json({ success: true, data: { state, conflicts } });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/proveedores/sync:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// Descarga los terceros de Siigo y los cruza con el catálogo local de proveedores
+export async function POST() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    // La sincronización cede el turno a las peticiones de los formularios
+    const result = await runWithSiigoPriority('background', () => syncSiigoSuppliers());
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof SiigoSyncInProgressError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    const status = error instanceof SiigoApiError && typeof error.code === 'number'
+      ? error.code
+      : (error instanceof SiigoAuthError ? 502 : 500);
+    console.error('Error en POST /api/siigo/proveedores/sync:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: status >= 400 && status < 600 ? status : 502 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { startSiigoAudit } from '@/lib/siigo/audit';
+import { paymentReceiptSchema } from '@/lib/validations';
+import { crearReciboPagoSiigo, mapSiigoPurchaseErrors } from '@/lib/siigo/purchaseApi';
+import { SiigoApiError } from '@/lib/siigo/api';
+import { SiigoAuthError } from '@/lib/siigo/client';
+import { enterCompany, getCurrentCompanyId } from '@/lib/siigo/companies';
+import { findDocumentType } from '@/lib/siigo/document-types';
+import { buildPaymentReceiptRequest, getAllocationErrors } from '@/lib/siigo/payment-receipts';
+import { getOpenPurchases, recordPaymentReceipt } from '@/lib/siigo/purchases-sync';
+import { getActiveCompanyId } from '@/lib/siigo/companies-store';
+
+// Compras abiertas (con saldo) de un proveedor según el espejo local
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  const supplier = new URL(request.url).searchParams.get('supplier')?.trim();
+  if (!supplier) {
+    return NextResponse.json({ success: false, error: 'El parámetro supplier es requerido' }, { status: 400 });
+  }
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const data = await getOpenPurchases(supplier);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error en GET /api/siigo/recibos-pago:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+  startSiigoAudit({ userEmail: user.email });
+
+  try {
+    enterCompany(await getActiveCompanyId());
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'El cuerpo de la petición debe ser JSON', missingFields: [] },
+        { status: 400 }
+      );
+    }
+
+    const draft = paymentReceiptSchema.parse(body);
+
+    const documentType = await findDocumentType(draft.documentId, ['RP']);
+    if (!documentType || !documentType.active) {
+      const message = 'El tipo de documento no existe o está inactivo en Siigo';
+      return NextResponse.json(
+        { success: false, error: message, missingFields: ['documentId'], details: { Message: message, Errors: [] } },
+        { status: 400 }
+      );
+    }
+
+    // Los abonos se validan contra los saldos locales antes de llamar a Siigo
+    const purchases = await getOpenPurchases(draft.supplierIdentification);
+    const allocationErrors = getAllocationErrors(purchases, draft.allocations);
+    if (allocationErrors.length > 0) {
+      const message = allocationErrors.join(', ');
+      return NextResponse.json(
+        { success: false, error: message, missingFields: ['allocations'], details: { Message: message, Errors: [] } },
+        { status: 400 }
+      );
+    }
+
+    const recibo = buildPaymentReceiptRequest(purchases[0].supplier, purchases, draft);
+    const creado = await crearReciboPagoSiigo(recibo);
+
+    console.log(`[SIIGO-RECIBOS] Recibo ${creado.name || creado.number} creado por ${user.email}`);
+
+    // Siigo ya aceptó el recibo: si el espejo local falla se corrige en la próxima sincronización
+    const balances = await recordPaymentReceipt(getCurrentCompanyId(), {
+      receipt: creado,
+      allocations: draft.allocations.filter((allocation) => allocation.value > 0),
+      method: draft.method,
+      createdBy: user.email
+    }).catch((error) => {
+      console.error('[SIIGO-RECIBOS] No se pudo actualizar el espejo local:', error);
+      return null;
+    });
+
+    return NextResponse.json({
+      success: true,
+      id: creado.id,
+      number: creado.number,
+      name: creado.name,
+      balances,
+      data: creado
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const missingFields = Array.from(new Set(error.errors.map((issue) => issue.path.join('.'))));
+      const message = error.errors.map((issue) => issue.message).join(', ');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Datos del recibo inválidos',
+          missingFields,
+          details: { Message: message, issues: error.errors }
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SiigoAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, missingFields: [] },
+        { status: 502 }
+      );
+    }
+
+    if (error instanceof SiigoApiError) {
+      const status = typeof error.code === 'number' ? error.code : 502;
+      return NextResponse.json(
+        { success: false, ...mapSiigoPurchaseErrors(error.details, error.message) },
+        { status: status >= 400 && status < 600 ? status : 502 }
+      );
+    }
+
+    console.error('Error en /api/siigo/recibos-pago:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error interno del servidor',
+        missingFields: []
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
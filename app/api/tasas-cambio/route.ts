@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { exchangeRateImportSchema } from '@/lib/validations';
+import { isForeignCurrency, parseExchangeRateCsv } from '@/lib/siigo/exchange-rates';
+import { findExchangeRate, listExchangeRates, saveExchangeRates } from '@/lib/siigo/exchange-rates-store';
+
+// Tasa vigente de una moneda (?currency=USD&date=YYYY-MM-DD) o su histórico reciente (sin date)
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const currency = searchParams.get('currency')?.trim().toUpperCase();
+  const date = searchParams.get('date');
+  if (!currency || !isForeignCurrency(currency)) {
+    return NextResponse.json({ success: false, error: 'Indique una moneda extranjera en currency' }, { status: 400 });
+  }
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ success: false, error: 'La fecha debe tener formato YYYY-MM-DD' }, { status: 400 });
+  }
+
+  try {
+    const data = date ? await findExchangeRate(currency, date) : await listExchangeRates(currency);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error en GET /api/tasas-cambio:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// Carga un CSV de tasas diarias (p. ej. la serie de la TRM exportada del Banco de la República)
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autorizado' }, { status: 401 });
+  }
+
+  try {
+    const { csv, currency, fileName } = exchangeRateImportSchema.parse(await request.json());
+    const { rates, errors } = parseExchangeRateCsv(csv, currency);
+    if (rates.length === 0) {
+      return NextResponse.json(
+        { success: false, error: errors[0] || 'El archivo no tiene tasas válidas', errors },
+        { status: 400 }
+      );
+    }
+
+    const imported = await saveExchangeRates(rates, `csv:${fileName || 'manual'} (${user.email})`);
+    return NextResponse.json({ success: true, imported, errors });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'El cuerpo de la petición debe ser JSON' }, { status: 400 });
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.errors.map(issue => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+    console.error('Error en POST /api/tasas-cambio:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { PurchaseDraftList } from '@/components/facturas/lista-borradores';
+
+export default async function PurchaseDraftsPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/borradores');
+  }
+
+  return (
+    <div>
+      <PurchaseDraftList />
+    </div>
+  );
+}
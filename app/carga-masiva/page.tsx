@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { BulkPurchaseUpload } from '@/components/facturas/carga-masiva';
+
+export default async function BulkPurchasesPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/carga-masiva');
+  }
+
+  return (
+    <div>
+      <BulkPurchaseUpload />
+    </div>
+  );
+}
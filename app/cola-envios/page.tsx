@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { OutboxQueue } from '@/components/facturas/cola-envios';
+
+export default async function OutboxQueuePage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/cola-envios');
+  }
+
+  return (
+    <div>
+      <OutboxQueue />
+    </div>
+  );
+}
@@ -17,7 +17,7 @@ import { Label } from '@/components/ui/label';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { format, subDays, isSameDay } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { FileText, Search, Loader2, Calendar as CalendarIcon, Eye, RefreshCw } from 'lucide-react';
+import { FileText, Search, Loader2, Calendar as CalendarIcon, Eye, RefreshCw, FilePlus } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import {
@@ -30,6 +30,8 @@ import {
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { InvoiceType } from '@/types/invoice';
+import type { SiigoPurchaseResponse } from '@/types/siigo';
+import { DebitNoteDialog } from '@/components/facturas/formulario-nota-debito';
 
 // Using the imported InvoiceType from types
 
@@ -73,6 +75,7 @@ interface Invoice {
   };
   type: string;
   total: number;
+  balance?: number;
   subtotal?: number;
   tax?: number;
   discount?: number;
@@ -91,6 +94,60 @@ interface Invoice {
     symbol: string;
   };
   metadata?: Record<string, unknown>;
+  // Compra original del espejo local (solo facturas de compra)
+  purchase?: SiigoPurchaseResponse;
+}
+
+// Las facturas de compra se consultan en el espejo local, que conserva el saldo
+function purchaseToInvoice(purchase: SiigoPurchaseResponse): Invoice {
+  const items = purchase.items || [];
+  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.price, 0);
+  return {
+    id: purchase.id,
+    number: purchase.name || String(purchase.number),
+    date: purchase.date,
+    due_date: purchase.payments?.[purchase.payments.length - 1]?.due_date || '',
+    customer: {
+      id: purchase.supplier.identification,
+      name: purchase.supplier.identification,
+      identification: purchase.supplier.identification
+    },
+    type: 'FC',
+    total: Number(purchase.total) || 0,
+    balance: Number(purchase.balance) || 0,
+    subtotal,
+    tax: (Number(purchase.total) || 0) - subtotal,
+    status: Number(purchase.balance) > 0 ? 'posted' : 'paid',
+    created_at: purchase.metadata?.created || purchase.date,
+    updated_at: purchase.metadata?.last_updated || undefined,
+    items: items.map(item => ({
+      id: item.id,
+      code: item.code,
+      description: item.description,
+      quantity: Number(item.quantity) || 0,
+      price: Number(item.price) || 0,
+      total: Number(item.total) || 0
+    })),
+    payments: (purchase.payments || []).map((payment, index) => ({
+      id: `${purchase.id}-${index}`,
+      method: payment.name || String(payment.id),
+      value: Number(payment.value) || 0,
+      due_date: payment.due_date,
+      status: 'pending'
+    })),
+    document_type: { id: 'FC', name: 'Factura de Compra', code: 'FC' },
+    currency: { code: purchase.currency?.code || 'COP', symbol: '$' },
+    purchase
+  };
+}
+
+async function fetchLocalPurchases(): Promise<Invoice[]> {
+  const response = await fetch('/api/siigo/compras');
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Error al cargar las compras del espejo local');
+  }
+  return (result.data as SiigoPurchaseResponse[]).map(purchaseToInvoice);
 }
 
 // Server component wrapper
@@ -130,6 +187,7 @@ function ClientSideConsultarFacturas() {
   const { fetchWithAuth, loading: authLoading } = useSiigoAuth();
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isViewerOpen, setIsViewerOpen] = useState(false);
+  const [isDebitNoteOpen, setIsDebitNoteOpen] = useState(false);
   const [searchPerformed, setSearchPerformed] = useState(false);
   const [filters, setFilters] = useState({
     status: '',
@@ -157,6 +215,12 @@ function ClientSideConsultarFacturas() {
       if (!selectedDocType) {
         throw new Error('Tipo de documento no válido');
       }
+
+      if (selectedType === 'FC') {
+        setInvoices(await fetchLocalPurchases());
+        setSearchPerformed(true);
+        return;
+      }
       
       console.log(`Fetching ${selectedDocType.name} from Siigo API...`);
       
@@ -480,6 +544,12 @@ function ClientSideConsultarFacturas() {
     try {
       setSearching(true);
       setError(null);
+
+      if (selectedType === 'FC') {
+        setInvoices(await fetchLocalPurchases());
+        setSearchPerformed(true);
+        return;
+      }
       
       // Build query parameters
       const params = new URLSearchParams({
@@ -552,6 +622,18 @@ function ClientSideConsultarFacturas() {
     setSelectedInvoice(null);
   };
 
+  // Refleja el saldo actualizado por la nota débito sin volver a consultar
+  const handleDebitNoteCreated = ({ balance }: { name: string; balance: number | null }) => {
+    if (!selectedInvoice || balance === null) return;
+    const updated = {
+      ...selectedInvoice,
+      balance,
+      purchase: selectedInvoice.purchase && { ...selectedInvoice.purchase, balance }
+    };
+    setSelectedInvoice(updated);
+    setInvoices(current => current.map(invoice => invoice.id === updated.id ? updated : invoice));
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-6">
@@ -795,6 +877,14 @@ function ClientSideConsultarFacturas() {
                           <span className="text-sm text-muted-foreground">Vencimiento:</span>
                         </div>
                       )}
+                      {selectedInvoice.balance !== undefined && (
+                        <div className="flex justify-between">
+                          <span className="text-sm text-muted-foreground">Saldo:</span>
+                          <span className="text-sm font-medium">
+                            {formatCurrency(selectedInvoice.balance, selectedInvoice.currency?.code)}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -887,12 +977,25 @@ function ClientSideConsultarFacturas() {
 
               <DialogFooter className="border-t pt-4">
                 <Button variant="outline" onClick={closeViewer}>Cerrar</Button>
+                {selectedInvoice.purchase && (
+                  <Button variant="outline" onClick={() => setIsDebitNoteOpen(true)}>
+                    <FilePlus className="mr-2 h-4 w-4" />
+                    Registrar nota débito
+                  </Button>
+                )}
                 <Button>Descargar PDF</Button>
               </DialogFooter>
             </>
           )}
         </DialogContent>
       </Dialog>
+
+      <DebitNoteDialog
+        purchase={selectedInvoice?.purchase ?? null}
+        open={isDebitNoteOpen}
+        onOpenChange={setIsDebitNoteOpen}
+        onCreated={handleDebitNoteCreated}
+      />
     </div>
   );
 }
@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { SiigoSuppliers } from '@/components/facturas/proveedores-siigo';
+
+export default async function SuppliersPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/proveedores');
+  }
+
+  return (
+    <div>
+      <SiigoSuppliers />
+    </div>
+  );
+}
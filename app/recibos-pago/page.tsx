@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { PaymentReceiptForm } from '@/components/facturas/formulario-recibo-pago';
+
+export default async function PaymentReceiptPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login?redirect=/recibos-pago');
+  }
+
+  return (
+    <div>
+      <PaymentReceiptForm />
+    </div>
+  );
+}
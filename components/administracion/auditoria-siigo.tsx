@@ -0,0 +1,251 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, RotateCcw, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { SiigoAuditRecord } from '@/lib/siigo/audit-store';
+
+type AuditRow = SiigoAuditRecord & { replayBlocker: string | null };
+
+interface AuditFilters {
+  user: string;
+  endpoint: string;
+  correlationId: string;
+  startDate: string;
+  endDate: string;
+  failed: boolean;
+}
+
+const EMPTY_FILTERS: AuditFilters = { user: '', endpoint: '', correlationId: '', startDate: '', endDate: '', failed: false };
+
+const isFailure = (record: AuditRow) => record.status === null || record.status >= 400;
+
+const formatJson = (value: unknown) => (value === null || value === undefined ? '—' : JSON.stringify(value, null, 2));
+
+export default function SiigoAuditAdmin() {
+  const router = useRouter();
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [records, setRecords] = useState<AuditRow[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [replayingId, setReplayingId] = useState<number | null>(null);
+
+  const search = useCallback(async (current: AuditFilters) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (current.user.trim()) params.set('user', current.user.trim());
+      if (current.endpoint.trim()) params.set('endpoint', current.endpoint.trim());
+      if (current.correlationId.trim()) params.set('correlationId', current.correlationId.trim());
+      if (current.startDate) params.set('startDate', current.startDate);
+      if (current.endDate) params.set('endDate', current.endDate);
+      if (current.failed) params.set('failed', 'true');
+
+      const response = await fetch(`/api/siigo/auditoria?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+      setRecords(data.data);
+    } catch (error) {
+      toast.error('No se pudo consultar la bitácora', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    search(EMPTY_FILTERS);
+  }, [search]);
+
+  const update = (changes: Partial<AuditFilters>) => setFilters(current => ({ ...current, ...changes }));
+
+  const showCorrelation = (correlationId: string) => {
+    const next = { ...EMPTY_FILTERS, correlationId };
+    setFilters(next);
+    search(next);
+  };
+
+  const handleReplay = async (record: AuditRow) => {
+    if (!window.confirm(`¿Reenviar a Siigo el ${record.method} ${record.endpoint} del ${new Date(record.createdAt).toLocaleString('es-CO')}?`)) {
+      return;
+    }
+    setReplayingId(record.id);
+    try {
+      const response = await fetch('/api/siigo/auditoria/reenviar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: record.id })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+      toast.success('Llamada reenviada a Siigo', {
+        description: data.data?.name ? `Documento ${data.data.name}` : undefined
+      });
+    } catch (error) {
+      toast.error('Siigo no aceptó el reenvío', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setReplayingId(null);
+      search(filters);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <Button variant="ghost" size="sm" onClick={() => router.push('/administracion')}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Volver a Administración
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bitácora de Siigo</CardTitle>
+          <CardDescription>
+            Cada llamada a la API de Siigo con su cuerpo, respuesta y duración; las credenciales se guardan ocultas.
+            Se muestran las 100 más recientes que cumplan el filtro.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="grid grid-cols-1 md:grid-cols-3 gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              search(filters);
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="audit-user">Usuario</Label>
+              <Input id="audit-user" placeholder="correo@gmail.com" value={filters.user} onChange={(e) => update({ user: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-endpoint">Endpoint</Label>
+              <Input id="audit-endpoint" placeholder="purchases" value={filters.endpoint} onChange={(e) => update({ endpoint: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-correlation">Correlation id</Label>
+              <Input id="audit-correlation" value={filters.correlationId} onChange={(e) => update({ correlationId: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-start">Desde</Label>
+              <Input id="audit-start" type="date" value={filters.startDate} onChange={(e) => update({ startDate: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-end">Hasta</Label>
+              <Input id="audit-end" type="date" value={filters.endDate} onChange={(e) => update({ endDate: e.target.value })} />
+            </div>
+            <div className="flex items-end justify-between gap-4">
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="audit-failed"
+                  checked={filters.failed}
+                  onCheckedChange={(checked) => update({ failed: checked === true })}
+                />
+                <Label htmlFor="audit-failed">Solo fallidas</Label>
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                <Search className="h-4 w-4 mr-2" />
+                {isLoading ? 'Buscando...' : 'Buscar'}
+              </Button>
+            </div>
+          </form>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Usuario</TableHead>
+                <TableHead>Llamada</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Duración</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {isLoading ? 'Cargando...' : 'No hay llamadas con este filtro'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {records.map(record => (
+                <Fragment key={record.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
+                  >
+                    <TableCell className="whitespace-nowrap">{new Date(record.createdAt).toLocaleString('es-CO')}</TableCell>
+                    <TableCell>{record.userEmail || 'Sistema'}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">
+                      {record.method} {record.endpoint}
+                      {record.attempt > 1 && <span className="text-muted-foreground"> (intento {record.attempt})</span>}
+                      {record.replayOf && <span className="text-muted-foreground"> (reenvío de #{record.replayOf})</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={isFailure(record) ? 'destructive' : 'secondary'}>
+                        {record.status ?? 'Sin respuesta'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{record.durationMs} ms</TableCell>
+                    <TableCell className="text-right">
+                      {!record.replayBlocker && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleReplay(record);
+                          }}
+                          disabled={replayingId !== null}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          {replayingId === record.id ? 'Reenviando...' : 'Reenviar'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expandedId === record.id && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="space-y-3 bg-muted/40">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="font-medium">Correlation id:</span>
+                          <Button variant="link" size="sm" className="h-auto p-0 font-mono" onClick={() => showCorrelation(record.correlationId)}>
+                            {record.correlationId}
+                          </Button>
+                          {record.error && <span className="text-destructive">{record.error}</span>}
+                        </div>
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                          <div>
+                            <p className="text-sm font-medium mb-1">Cuerpo enviado</p>
+                            <pre className="max-h-96 overflow-auto rounded border bg-background p-2 text-xs">{formatJson(record.payload)}</pre>
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium mb-1">Respuesta</p>
+                            <pre className="max-h-96 overflow-auto rounded border bg-background p-2 text-xs">{formatJson(record.response)}</pre>
+                          </div>
+                        </div>
+                        {record.replayBlocker && isFailure(record) && (
+                          <p className="text-xs text-muted-foreground">No se puede reenviar: {record.replayBlocker}</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { LogOut, Shield, Users, Settings, Database, Key, ArrowLeft, Lock } from 'lucide-react';
+import { LogOut, Shield, Users, Settings, Database, Key, ArrowLeft, Lock, Percent, ScrollText, Building2 } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface AdminContentProps {
@@ -228,6 +228,33 @@ export default function AdminContent({ user }: AdminContentProps) {
                 <Key className="h-4 w-4 mr-2" />
                 Gestionar Sesiones Activas
               </Button>
+              <Button
+                className="w-full justify-start"
+                size="lg"
+                variant="outline"
+                onClick={() => router.push('/administracion/parametros-fiscales')}
+              >
+                <Percent className="h-4 w-4 mr-2" />
+                Parámetros Fiscales (UVT y retenciones)
+              </Button>
+              <Button
+                className="w-full justify-start"
+                size="lg"
+                variant="outline"
+                onClick={() => router.push('/administracion/auditoria-siigo')}
+              >
+                <ScrollText className="h-4 w-4 mr-2" />
+                Bitácora de Siigo (llamadas y reenvíos)
+              </Button>
+              <Button
+                className="w-full justify-start"
+                size="lg"
+                variant="outline"
+                onClick={() => router.push('/administracion/empresas')}
+              >
+                <Building2 className="h-4 w-4 mr-2" />
+                Empresas (credenciales de Siigo)
+              </Button>
             </CardContent>
           </Card>
 
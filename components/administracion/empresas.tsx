@@ -0,0 +1,248 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, KeyRound, Plus, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Company } from '@/lib/siigo/companies';
+import type { CompanyFormData } from '@/lib/validations';
+
+const emptyDraft = (): CompanyFormData => ({
+  id: '',
+  name: '',
+  nit: '',
+  siigoUsername: '',
+  siigoAccessKey: '',
+  partnerId: '',
+  active: true
+});
+
+const draftFrom = (company: Company): CompanyFormData => ({
+  id: company.id,
+  name: company.name,
+  nit: company.nit ?? '',
+  siigoUsername: company.siigoUsername ?? '',
+  siigoAccessKey: '',
+  partnerId: company.partnerId ?? '',
+  active: company.active
+});
+
+export default function CompaniesAdmin() {
+  const router = useRouter();
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [draft, setDraft] = useState<CompanyFormData>(emptyDraft);
+  const [editing, setEditing] = useState<Company | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadCompanies = useCallback(async () => {
+    try {
+      const response = await fetch('/api/empresas');
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+      setCompanies(data.data.companies as Company[]);
+    } catch (error) {
+      toast.error('No se pudieron cargar las empresas', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCompanies();
+  }, [loadCompanies]);
+
+  const update = (changes: Partial<CompanyFormData>) => {
+    setDraft(current => ({ ...current, ...changes }));
+  };
+
+  const handleNew = () => {
+    setEditing(null);
+    setDraft(emptyDraft());
+  };
+
+  const handleEdit = (company: Company) => {
+    setEditing(company);
+    setDraft(draftFrom(company));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/empresas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...draft,
+          nit: draft.nit || null,
+          siigoUsername: draft.siigoUsername || null,
+          siigoAccessKey: draft.siigoAccessKey || null,
+          partnerId: draft.partnerId || null
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+
+      toast.success(`Empresa ${draft.name} guardada`);
+      handleEdit(data.data as Company);
+      await loadCompanies();
+      // El selector del encabezado vuelve a leer las empresas
+      router.refresh();
+    } catch (error) {
+      toast.error('No se pudo guardar la empresa', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/administracion')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Volver a Administración
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleNew} disabled={isSaving}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nueva empresa
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Empresas</CardTitle>
+          <CardDescription>
+            Cada empresa usa su propia cuenta de Siigo. Compras, catálogos, cola, bitácora y analíticas se
+            separan por empresa según la elegida en el encabezado.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Empresa</TableHead>
+                <TableHead>NIT</TableHead>
+                <TableHead>Usuario de Siigo</TableHead>
+                <TableHead>Estado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {companies.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No hay empresas registradas
+                  </TableCell>
+                </TableRow>
+              )}
+              {companies.map(company => (
+                <TableRow
+                  key={company.id}
+                  className={`cursor-pointer ${editing?.id === company.id ? 'bg-muted' : ''}`}
+                  onClick={() => handleEdit(company)}
+                >
+                  <TableCell>
+                    <div className="font-medium">{company.name}</div>
+                    <div className="text-xs text-muted-foreground">{company.id}</div>
+                  </TableCell>
+                  <TableCell>{company.nit ?? '—'}</TableCell>
+                  <TableCell>
+                    {company.siigoUsername && company.hasAccessKey
+                      ? company.siigoUsername
+                      : <span className="text-muted-foreground">Variables de entorno / sin configurar</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={company.active ? 'secondary' : 'outline'}>
+                      {company.active ? 'Activa' : 'Inactiva'}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editing ? `Editar ${editing.name}` : 'Nueva empresa'}</CardTitle>
+          <CardDescription>
+            La access key se guarda cifrada y nunca se vuelve a mostrar. Déjela vacía para conservar la actual.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="company-id">Identificador</Label>
+            <Input
+              id="company-id"
+              value={draft.id}
+              onChange={(e) => update({ id: e.target.value })}
+              placeholder="remesas-bogota"
+              disabled={isSaving || editing !== null}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-name">Nombre</Label>
+            <Input id="company-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} disabled={isSaving} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-nit">NIT</Label>
+            <Input id="company-nit" value={draft.nit ?? ''} onChange={(e) => update({ nit: e.target.value })} placeholder="900123456-7" disabled={isSaving} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-partner">Partner-Id</Label>
+            <Input
+              id="company-partner"
+              value={draft.partnerId ?? ''}
+              onChange={(e) => update({ partnerId: e.target.value })}
+              placeholder="El de SIIGO_PARTNER_ID si se deja vacío"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-username">Usuario de Siigo</Label>
+            <Input
+              id="company-username"
+              value={draft.siigoUsername ?? ''}
+              onChange={(e) => update({ siigoUsername: e.target.value })}
+              autoComplete="off"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-access-key" className="flex items-center gap-1">
+              <KeyRound className="h-3 w-3" />
+              Access key
+            </Label>
+            <Input
+              id="company-access-key"
+              type="password"
+              value={draft.siigoAccessKey ?? ''}
+              onChange={(e) => update({ siigoAccessKey: e.target.value })}
+              placeholder={editing?.hasAccessKey ? '•••••••• (guardada)' : ''}
+              autoComplete="new-password"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="company-active" checked={draft.active} onCheckedChange={(active) => update({ active })} disabled={isSaving} />
+            <Label htmlFor="company-active">Activa</Label>
+          </div>
+          <div className="flex justify-end md:col-span-2">
+            <Button onClick={handleSave} disabled={isSaving || !draft.id || !draft.name}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NumberInput } from '@/components/ui/number-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_FISCAL_PARAMETERS, FiscalParameters, uvtToPesos } from '@/lib/siigo/fiscal-parameters';
+import { WITHHOLDING_CONCEPTS } from '@/lib/siigo/withholdings';
+import ExchangeRatesCard from './tasas-cambio';
+
+const toNumber = (value: number | '') => (value === '' ? 0 : Number(value));
+
+// Un año nuevo parte de los valores del último año parametrizado
+const newYearFrom = (years: FiscalParameters[], year: number): FiscalParameters => {
+  const base = [...years].sort((a, b) => b.year - a.year)[0] ?? DEFAULT_FISCAL_PARAMETERS[DEFAULT_FISCAL_PARAMETERS.length - 1];
+  return { ...base, year };
+};
+
+export default function FiscalParametersAdmin() {
+  const router = useRouter();
+  const [years, setYears] = useState<FiscalParameters[]>([]);
+  const [draft, setDraft] = useState<FiscalParameters | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadYears = useCallback(async (selectYear?: number) => {
+    try {
+      const response = await fetch('/api/parametros-fiscales');
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+
+      const loaded = data.data as FiscalParameters[];
+      setYears(loaded);
+      const current = selectYear ?? new Date().getFullYear();
+      setDraft(loaded.find(p => p.year === current) ?? loaded[loaded.length - 1] ?? newYearFrom(loaded, current));
+    } catch (error) {
+      toast.error('No se pudieron cargar los parámetros fiscales', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadYears();
+  }, [loadYears]);
+
+  const update = (changes: Partial<FiscalParameters>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleAddYear = () => {
+    const next = Math.max(new Date().getFullYear(), ...years.map(p => p.year)) + 1;
+    setDraft(newYearFrom(years, next));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/parametros-fiscales', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+
+      toast.success(`Parámetros ${draft.year} guardados`);
+      await loadYears(draft.year);
+    } catch (error) {
+      toast.error('No se pudieron guardar los parámetros', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const yearOptions = draft && !years.some(p => p.year === draft.year) ? [...years, draft] : years;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/administracion')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Volver a Administración
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleAddYear} disabled={isSaving}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo año
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !draft}>
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </div>
+      </div>
+
+      {draft && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Parámetros Fiscales</CardTitle>
+              <CardDescription>
+                UVT y tarifas de retención por año gravable. Se aplican según la fecha de cada documento.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fiscal-year">Año</Label>
+                <Select
+                  value={String(draft.year)}
+                  onValueChange={(value) => setDraft(years.find(p => p.year === Number(value)) ?? draft)}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger id="fiscal-year">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {yearOptions.map(p => (
+                      <SelectItem key={p.year} value={String(p.year)}>{p.year}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fiscal-uvt">Valor UVT</Label>
+                <NumberInput
+                  id="fiscal-uvt"
+                  value={draft.uvt}
+                  onChange={(value) => update({ uvt: toNumber(value) })}
+                  min={0}
+                  step={1}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fiscal-reteiva">ReteIVA (% del IVA)</Label>
+                <NumberInput
+                  id="fiscal-reteiva"
+                  value={draft.reteivaRate}
+                  onChange={(value) => update({ reteivaRate: toNumber(value) })}
+                  min={0}
+                  max={100}
+                  step={0.01}
+                  disabled={isSaving}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Retención en la Fuente</CardTitle>
+              <CardDescription>Base mínima en UVT y tarifas por concepto.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {WITHHOLDING_CONCEPTS.map(concept => {
+                const rate = draft.withholdingRates.find(r => r.concept === concept.id)
+                  ?? { concept: concept.id, minUvt: 0, rate: 0, nonDeclarantRate: 0 };
+                const setRate = (changes: Partial<typeof rate>) => update({
+                  withholdingRates: [
+                    ...draft.withholdingRates.filter(r => r.concept !== concept.id),
+                    { ...rate, ...changes }
+                  ]
+                });
+                return (
+                  <div key={concept.id} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                    <div className="font-medium pb-2">{concept.name}</div>
+                    <div className="space-y-1">
+                      <Label>Base mínima (UVT)</Label>
+                      <NumberInput value={rate.minUvt} onChange={(value) => setRate({ minUvt: toNumber(value) })} min={0} step={1} disabled={isSaving} />
+                      <p className="text-xs text-muted-foreground">${uvtToPesos(rate.minUvt, draft).toLocaleString('es-CO')}</p>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Tarifa declarantes (%)</Label>
+                      <NumberInput value={rate.rate} onChange={(value) => setRate({ rate: toNumber(value) })} min={0} max={100} step={0.01} disabled={isSaving} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Tarifa no declarantes (%)</Label>
+                      <NumberInput value={rate.nonDeclarantRate} onChange={(value) => setRate({ nonDeclarantRate: toNumber(value) })} min={0} max={100} step={0.01} disabled={isSaving} />
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>ReteICA por Municipio</CardTitle>
+                  <CardDescription>Tarifas en por mil por concepto.</CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({
+                    icaMunicipalities: [
+                      ...draft.icaMunicipalities,
+                      { cityCode: '', name: '', rates: { compras: 0, servicios: 0, honorarios: 0, arrendamientos: 0 } }
+                    ]
+                  })}
+                  disabled={isSaving}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Agregar municipio
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {draft.icaMunicipalities.map((municipality, index) => {
+                const setMunicipality = (changes: Partial<typeof municipality>) => update({
+                  icaMunicipalities: draft.icaMunicipalities.map((m, i) => (i === index ? { ...m, ...changes } : m))
+                });
+                return (
+                  <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_repeat(4,1fr)_auto] gap-3 items-end border rounded-lg p-3">
+                    <div className="space-y-1">
+                      <Label>Código DANE</Label>
+                      <Input value={municipality.cityCode} onChange={(e) => setMunicipality({ cityCode: e.target.value })} disabled={isSaving} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Municipio</Label>
+                      <Input value={municipality.name} onChange={(e) => setMunicipality({ name: e.target.value })} disabled={isSaving} />
+                    </div>
+                    {WITHHOLDING_CONCEPTS.map(concept => (
+                      <div key={concept.id} className="space-y-1">
+                        <Label>{concept.name}</Label>
+                        <NumberInput
+                          value={municipality.rates[concept.id]}
+                          onChange={(value) => setMunicipality({ rates: { ...municipality.rates, [concept.id]: toNumber(value) } })}
+                          min={0}
+                          step={0.01}
+                          disabled={isSaving}
+                        />
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => update({ icaMunicipalities: draft.icaMunicipalities.filter((_, i) => i !== index) })}
+                      className="text-red-500 hover:text-red-700 disabled:opacity-50 pb-3"
+                      disabled={isSaving}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <ExchangeRatesCard />
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExchangeRate, isForeignCurrency, SUPPORTED_CURRENCIES } from '@/lib/siigo/exchange-rates';
+
+const FOREIGN_CURRENCIES = SUPPORTED_CURRENCIES.filter(currency => isForeignCurrency(currency.code));
+
+export default function ExchangeRatesCard() {
+  const [currency, setCurrency] = useState<string>(FOREIGN_CURRENCIES[0].code);
+  const [file, setFile] = useState<File | null>(null);
+  const [history, setHistory] = useState<ExchangeRate[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const loadHistory = useCallback(async (code: string) => {
+    try {
+      const response = await fetch(`/api/tasas-cambio?currency=${code}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+      setHistory(data.data);
+    } catch (error) {
+      console.error('Error cargando tasas de cambio:', error);
+      setHistory([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory(currency);
+  }, [currency, loadHistory]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      const response = await fetch('/api/tasas-cambio', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: await file.text(), currency, fileName: file.name })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+
+      toast.success(`${data.imported} tasas de ${currency} cargadas`, {
+        description: data.errors?.length ? `${data.errors.length} filas omitidas: ${data.errors.slice(0, 3).join(', ')}` : undefined
+      });
+      setFile(null);
+      await loadHistory(currency);
+    } catch (error) {
+      toast.error('No se pudo cargar el archivo de tasas', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tasas de Cambio (TRM)</CardTitle>
+        <CardDescription>
+          Cargue un CSV con columnas de fecha y valor (y opcionalmente moneda). El formulario de facturas toma la tasa
+          del día de la factura o la última publicada antes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="rates-currency">Moneda</Label>
+            <Select value={currency} onValueChange={setCurrency} disabled={isUploading}>
+              <SelectTrigger id="rates-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FOREIGN_CURRENCIES.map(option => (
+                  <SelectItem key={option.code} value={option.code}>{option.code} · {option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rates-file">Archivo CSV</Label>
+            <Input
+              id="rates-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              disabled={isUploading}
+            />
+          </div>
+          <Button onClick={handleUpload} disabled={isUploading || !file}>
+            <Upload className="h-4 w-4 mr-2" />
+            {isUploading ? 'Cargando...' : 'Cargar'}
+          </Button>
+        </div>
+
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hay tasas cargadas para {currency}.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            {history.slice(0, 8).map(rate => (
+              <div key={rate.date} className="flex justify-between border rounded-md px-3 py-1">
+                <span className="text-muted-foreground">{rate.date}</span>
+                <span className="font-medium">${rate.rate.toLocaleString('es-CO', { minimumFractionDigits: 2 })}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { Card } from "@/components/ui/card"
 import { Loader2 } from "lucide-react"
 
 export interface AutocompleteOption {
+  id?: number
   codigo: string
   nombre: string
   precio_base?: number
@@ -130,6 +131,7 @@ export function Autocomplete({
     setShowOptions(false)
     // Ensure we're passing the full option with all properties
     onSelect({
+      id: option.id,
       codigo: option.codigo,
       nombre: option.nombre,
       precio_base: option.precio_base,
@@ -0,0 +1,233 @@
+"use client"
+
+import * as React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { toast } from "sonner"
+import { Download, FileSpreadsheet, Send } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  BULK_PURCHASE_STATUS_LABELS,
+  BULK_SUBMISSION_STATUS_LABELS,
+  bulkPurchaseStatus,
+  type BulkIssue,
+  type BulkPurchasePreview,
+  type BulkPurchaseStatus,
+  type BulkSubmissionResult,
+  type BulkSubmissionStatus
+} from "@/lib/siigo/bulk-purchases"
+
+const STATUS_VARIANTS: Record<BulkPurchaseStatus, "default" | "secondary" | "destructive"> = {
+  ready: "default",
+  duplicate: "secondary",
+  invalid: "destructive"
+}
+
+const RESULT_VARIANTS: Record<BulkSubmissionStatus, "default" | "secondary" | "destructive"> = {
+  created: "default",
+  queued: "secondary",
+  skipped: "secondary",
+  failed: "destructive"
+}
+
+const formatIssue = (issue: BulkIssue) =>
+  `${issue.sheet}${issue.row > 0 ? ` fila ${issue.row}` : ""} · ${issue.field}: ${issue.message}`
+
+export function BulkPurchaseUpload() {
+  const [file, setFile] = useState<File | null>(null)
+  const [previews, setPreviews] = useState<BulkPurchasePreview[]>([])
+  const [fileErrors, setFileErrors] = useState<BulkIssue[]>([])
+  const [results, setResults] = useState<Record<string, BulkSubmissionResult>>({})
+  const [isValidating, setIsValidating] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const readyCount = previews.filter(preview => bulkPurchaseStatus(preview) === "ready").length
+  const submitted = Object.keys(results).length > 0
+
+  const handleValidate = async () => {
+    if (!file) return
+    setIsValidating(true)
+    setResults({})
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const response = await fetch("/api/siigo/compras/masivo", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setPreviews(data.data.purchases)
+      setFileErrors(data.data.errors)
+    } catch (error) {
+      setPreviews([])
+      setFileErrors([])
+      toast.error("No se pudo validar el archivo", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsValidating(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!window.confirm(`¿Enviar ${readyCount} factura(s) a Siigo? Las que tienen errores o ya están registradas se omiten.`)) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/siigo/compras/masivo/enviar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          purchases: previews.map(preview => ({ reference: preview.reference, request: preview.request }))
+        })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setResults(Object.fromEntries((data.data as BulkSubmissionResult[]).map(result => [result.reference, result])))
+      const { created, queued, failed, skipped } = data.summary
+      const notify = failed > 0 || queued > 0 ? toast.warning : toast.success
+      notify("Carga masiva terminada", {
+        description: `${created} creada(s), ${queued} en la cola de envíos, ${failed} con error, ${skipped} omitida(s)`
+      })
+    } catch (error) {
+      toast.error("No se pudo enviar el lote", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Carga Masiva de Facturas</CardTitle>
+              <CardDescription>
+                Llene la plantilla con una fila por factura en la hoja Facturas y sus ítems en la hoja Lineas. Se valida contra los catálogos de proveedores y productos antes de enviar a Siigo.
+              </CardDescription>
+            </div>
+            <Button variant="outline" asChild>
+              <a href="/api/siigo/compras/masivo">
+                <Download className="h-4 w-4 mr-2" />
+                Descargar plantilla
+              </a>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+            <Input
+              type="file"
+              accept=".xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null)
+                setPreviews([])
+                setFileErrors([])
+                setResults({})
+              }}
+              disabled={isValidating || isSubmitting}
+            />
+            <Button onClick={handleValidate} disabled={!file || isValidating || isSubmitting}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {isValidating ? "Validando..." : "Validar archivo"}
+            </Button>
+          </div>
+
+          {fileErrors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTitle>Filas que no se pudieron leer</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {fileErrors.map((issue, index) => <li key={index}>{formatIssue(issue)}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {previews.length > 0 && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Referencia</TableHead>
+                    <TableHead>Proveedor</TableHead>
+                    <TableHead>Factura</TableHead>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead className="text-right">Líneas</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Estado</TableHead>
+                    {submitted && <TableHead>Resultado</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previews.map(preview => {
+                    const status = bulkPurchaseStatus(preview)
+                    const result = results[preview.reference]
+                    const notes = [
+                      ...preview.errors.map(formatIssue),
+                      ...preview.duplicates.map(d => `Ya registrada como ${d.name} (${d.date})`),
+                      ...preview.warnings
+                    ]
+                    return (
+                      <React.Fragment key={preview.reference}>
+                        <TableRow>
+                          <TableCell className="font-medium">{preview.reference}</TableCell>
+                          <TableCell>{preview.supplierName || preview.supplierIdentification}</TableCell>
+                          <TableCell>{preview.providerInvoice}</TableCell>
+                          <TableCell>{preview.date}</TableCell>
+                          <TableCell className="text-right">{preview.lineCount}</TableCell>
+                          <TableCell className="text-right">
+                            ${preview.total.toLocaleString("es-CO", { minimumFractionDigits: 2 })} {preview.currency}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANTS[status]}>{BULK_PURCHASE_STATUS_LABELS[status]}</Badge>
+                          </TableCell>
+                          {submitted && (
+                            <TableCell>
+                              {result && (
+                                <div className="space-y-1">
+                                  <Badge variant={RESULT_VARIANTS[result.status]}>{BULK_SUBMISSION_STATUS_LABELS[result.status]}</Badge>
+                                  <p className="text-xs text-muted-foreground">{result.message}</p>
+                                </div>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                        {notes.length > 0 && (
+                          <TableRow>
+                            <TableCell colSpan={submitted ? 8 : 7} className="pt-0">
+                              <ul className={`list-disc pl-4 text-xs ${status === "invalid" ? "text-red-600" : "text-muted-foreground"}`}>
+                                {notes.map((note, index) => <li key={index}>{note}</li>)}
+                              </ul>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  {readyCount} de {previews.length} factura(s) listas para enviar.{" "}
+                  <Link href="/facturas" className="underline">Registrar una factura manualmente</Link>
+                </p>
+                <Button onClick={handleSubmit} disabled={readyCount === 0 || isSubmitting || submitted}>
+                  <Send className="h-4 w-4 mr-2" />
+                  {isSubmitting ? "Enviando..." : `Enviar ${readyCount} a Siigo`}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import * as React from "react"
+import { Fragment, useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { Play, Plus, RefreshCw, RotateCcw, XCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  canCancelOutboxItem,
+  canRetryOutboxItem,
+  OUTBOX_KIND_LABELS,
+  OUTBOX_STATUS_LABELS,
+  type OutboxItem,
+  type OutboxStatus
+} from "@/lib/siigo/outbox"
+
+// Estados que se muestran como filtro; "Enviando" dura segundos y "Todas" los incluye
+const STATUS_FILTERS: Array<OutboxStatus | "all"> = ["all", "pending", "needs_attention", "failed", "sent", "cancelled"]
+
+const STATUS_VARIANTS: Record<OutboxStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "outline",
+  sent: "secondary",
+  failed: "destructive",
+  needs_attention: "destructive",
+  cancelled: "outline"
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" })
+
+function invoiceLabel(item: OutboxItem): string {
+  const invoice = item.submission.purchase.provider_invoice
+  const number = invoice?.number ? [invoice.prefix, invoice.number].filter(Boolean).join("-") : "Sin factura del proveedor"
+  return `${item.submission.purchase.supplier.identification} · ${number}`
+}
+
+function statusDetail(item: OutboxItem): string | null {
+  if (item.status === "sent") return item.result ? `Creada como ${item.result.purchase.name || item.result.purchase.number}` : null
+  if (item.status === "pending" && item.attempts > 0) return `Próximo intento: ${formatDateTime(item.nextAttemptAt)}`
+  return null
+}
+
+export function OutboxQueue() {
+  const router = useRouter()
+  const [items, setItems] = useState<OutboxItem[]>([])
+  const [filter, setFilter] = useState<OutboxStatus | "all">("all")
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const loadItems = useCallback(async (status: OutboxStatus | "all") => {
+    setIsLoading(true)
+    try {
+      const query = status === "all" ? "" : `?status=${status}`
+      const response = await fetch(`/api/siigo/compras/cola${query}`)
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setItems(data.data)
+    } catch (error) {
+      toast.error("No se pudo cargar la cola de envíos", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadItems(filter)
+  }, [filter, loadItems])
+
+  const handleProcess = async () => {
+    setIsProcessing(true)
+    try {
+      const response = await fetch("/api/siigo/compras/cola/procesar", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      toast.success(
+        data.data.processed === 0
+          ? "No hay compras por enviar en este momento"
+          : `${data.data.sent} de ${data.data.processed} compras enviadas a Siigo`
+      )
+    } catch (error) {
+      toast.error("No se pudo procesar la cola", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsProcessing(false)
+      loadItems(filter)
+    }
+  }
+
+  const handleAction = async (item: OutboxItem, action: "reintentar" | "cancelar") => {
+    if (action === "cancelar" && !window.confirm(`¿Cancelar el envío de ${invoiceLabel(item)}? No se enviará a Siigo.`)) return
+
+    setBusyId(item.id)
+    try {
+      const response = await fetch(`/api/siigo/compras/cola/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: item.id })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+
+      const updated = data.data as OutboxItem
+      if (action === "cancelar") {
+        toast.success("Envío cancelado")
+      } else if (updated.status === "sent") {
+        toast.success("Compra enviada a Siigo", { description: statusDetail(updated) ?? undefined })
+      } else {
+        toast.warning(`Siigo no aceptó la compra: quedó ${OUTBOX_STATUS_LABELS[updated.status].toLowerCase()}`, {
+          description: updated.lastError ?? undefined
+        })
+      }
+    } catch (error) {
+      toast.error(action === "cancelar" ? "No se pudo cancelar el envío" : "No se pudo reintentar el envío", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setBusyId(null)
+      loadItems(filter)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Cola de envíos a Siigo</CardTitle>
+              <CardDescription>
+                Las compras se guardan aquí antes de enviarlas. Si Siigo no responde se reintentan solas con esperas crecientes;
+                las que Siigo rechaza por sus datos esperan a que alguien las corrija en Siigo y las reintente, o las cancele.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleProcess} disabled={isProcessing}>
+                <Play className="h-4 w-4 mr-2" />
+                {isProcessing ? "Procesando..." : "Procesar ahora"}
+              </Button>
+              <Button variant="outline" onClick={() => router.push("/facturas")}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nueva factura
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {STATUS_FILTERS.map(status => (
+              <Button
+                key={status}
+                size="sm"
+                variant={filter === status ? "default" : "outline"}
+                onClick={() => setFilter(status)}
+              >
+                {status === "all" ? "Todas" : OUTBOX_STATUS_LABELS[status]}
+              </Button>
+            ))}
+            <Button size="sm" variant="ghost" onClick={() => loadItems(filter)} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {isLoading && items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Cargando la cola...</p>
+          ) : items.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No hay compras en la cola con este estado</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Proveedor / Factura</TableHead>
+                  <TableHead>Registrada</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Intentos</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <Fragment key={item.id}>
+                    <TableRow
+                      className={item.lastError ? "cursor-pointer" : undefined}
+                      onClick={() => item.lastError && setExpandedId(expandedId === item.id ? null : item.id)}
+                    >
+                      <TableCell>{item.id}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{invoiceLabel(item)}</div>
+                        <div className="text-xs text-muted-foreground">{OUTBOX_KIND_LABELS[item.submission.kind]}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{formatDateTime(item.createdAt)}</div>
+                        <div className="text-xs text-muted-foreground">{item.createdBy}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[item.status]}>{OUTBOX_STATUS_LABELS[item.status]}</Badge>
+                        {statusDetail(item) && <div className="text-xs text-muted-foreground mt-1">{statusDetail(item)}</div>}
+                        {item.lastError && item.status !== "sent" && (
+                          <div className="text-xs text-destructive mt-1">{item.lastError}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{item.attempts}</TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        {canRetryOutboxItem(item.status) && (
+                          <Button
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleAction(item, "reintentar")
+                            }}
+                            disabled={busyId !== null}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            {busyId === item.id ? "Enviando..." : "Reintentar"}
+                          </Button>
+                        )}
+                        {canCancelOutboxItem(item.status) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleAction(item, "cancelar")
+                            }}
+                            disabled={busyId !== null}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === item.id && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="bg-muted/40">
+                          <p className="text-sm font-medium mb-1">
+                            Respuesta de Siigo{item.lastStatus !== null ? ` (HTTP ${item.lastStatus})` : ""}
+                          </p>
+                          <pre className="max-h-96 overflow-auto rounded border bg-background p-2 text-xs">
+                            {JSON.stringify(item.errorDetails ?? { message: item.lastError }, null, 2)}
+                          </pre>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
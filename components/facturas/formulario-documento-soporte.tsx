@@ -0,0 +1,150 @@
+import * as React from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DianIdType, SupportDocumentSupplier } from "@/types/siigo"
+import {
+  calculateNitCheckDigit,
+  DIAN_ID_TYPES,
+  personTypeForIdType,
+  SUPPORT_DOCUMENT_CITIES
+} from "@/lib/siigo/support-documents"
+
+export const EMPTY_SUPPORT_SUPPLIER: SupportDocumentSupplier = {
+  idType: "13",
+  identification: "",
+  firstName: "",
+  lastName: "",
+  address: "",
+  cityCode: "11001",
+  phone: "",
+  email: ""
+}
+
+// Estado del documento soporte ante la DIAN devuelto por Siigo
+export const SUPPORT_DOCUMENT_STATUS_LABELS: Record<string, string> = {
+  Draft: "Pendiente de envío a la DIAN",
+  Accepted: "Aceptado por la DIAN",
+  Rejected: "Rechazado por la DIAN"
+}
+
+type SupportDocumentSupplierFormProps = {
+  value: SupportDocumentSupplier
+  onChange: (changes: Partial<SupportDocumentSupplier>) => void
+  disabled?: boolean
+}
+
+export function SupportDocumentSupplierForm({ value, onChange, disabled = false }: SupportDocumentSupplierFormProps) {
+  const isCompany = personTypeForIdType(value.idType) === "Company"
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label>Tipo de identificación *</Label>
+        <Select
+          value={value.idType}
+          onValueChange={(idType) => onChange({ idType: idType as DianIdType })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Seleccione el tipo" />
+          </SelectTrigger>
+          <SelectContent>
+            {DIAN_ID_TYPES.map(type => (
+              <SelectItem key={type.code} value={type.code}>{type.code} - {type.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="support-identification">Identificación *</Label>
+        <div className="flex gap-2">
+          <Input
+            id="support-identification"
+            value={value.identification}
+            onChange={(e) => onChange({ identification: e.target.value })}
+            disabled={disabled}
+            required
+          />
+          {isCompany && (
+            <Input
+              aria-label="Dígito de verificación"
+              className="w-14 bg-gray-100 cursor-not-allowed"
+              value={value.identification ? calculateNitCheckDigit(value.identification) : ""}
+              readOnly
+              tabIndex={-1}
+            />
+          )}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="support-city">Ciudad *</Label>
+        <Select
+          value={value.cityCode}
+          onValueChange={(cityCode) => onChange({ cityCode })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="support-city">
+            <SelectValue placeholder="Seleccione la ciudad" />
+          </SelectTrigger>
+          <SelectContent>
+            {SUPPORT_DOCUMENT_CITIES.map(city => (
+              <SelectItem key={city.code} value={city.code}>{city.name} ({city.code})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="support-first-name">{isCompany ? "Razón social *" : "Nombres *"}</Label>
+        <Input
+          id="support-first-name"
+          value={value.firstName}
+          onChange={(e) => onChange({ firstName: e.target.value })}
+          disabled={disabled}
+          required
+        />
+      </div>
+      {!isCompany && (
+        <div className="space-y-2">
+          <Label htmlFor="support-last-name">Apellidos *</Label>
+          <Input
+            id="support-last-name"
+            value={value.lastName}
+            onChange={(e) => onChange({ lastName: e.target.value })}
+            disabled={disabled}
+            required
+          />
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="support-address">Dirección *</Label>
+        <Input
+          id="support-address"
+          value={value.address}
+          onChange={(e) => onChange({ address: e.target.value })}
+          disabled={disabled}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="support-phone">Teléfono</Label>
+        <Input
+          id="support-phone"
+          value={value.phone || ""}
+          onChange={(e) => onChange({ phone: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="support-email">Correo electrónico</Label>
+        <Input
+          id="support-email"
+          type="email"
+          value={value.email || ""}
+          onChange={(e) => onChange({ email: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  )
+}
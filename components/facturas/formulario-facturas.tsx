@@ -1,16 +1,73 @@
 import * as React from 'react';
-import { useReducer, useState, useCallback } from 'react';
+import { useReducer, useState, useCallback, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { InvoiceItem } from "@/types/siigo";
+import Link from 'next/link';
+import {
+  InvoiceItem,
+  InvoicePayment,
+  SiigoItem,
+  SiigoPayment,
+  SiigoPaymentTypeCatalogItem,
+  SiigoPurchaseRequest,
+  SiigoTaxCatalogItem,
+  SupportDocumentSupplier
+} from "@/types/siigo";
+import { supportDocumentSupplierSchema } from "@/lib/validations";
+import { calculateLineAmounts, getDefaultIvaTax, isRetentionTax, LineAmounts, TaxLine } from "@/lib/siigo/taxes";
+import {
+  calculateWithholdings,
+  defaultConceptForItemType,
+  SUPPLIER_TAX_REGIMES,
+  SupplierTaxRegime,
+  WithholdingContext,
+  WithholdingResult
+} from "@/lib/siigo/withholdings";
+import { getDefaultFiscalParameters, ResolvedFiscalParameters, yearOfDate } from "@/lib/siigo/fiscal-parameters";
+import { copEquivalent, isForeignCurrency, LOCAL_CURRENCY, SUPPORTED_CURRENCIES } from "@/lib/siigo/exchange-rates";
+import { DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE, DUPLICATE_SOURCE_LABELS, DuplicatePurchase, DuplicateSearchResult } from "@/lib/siigo/duplicates";
+import { DRAFT_AUTOSAVE_DELAY_MS, isDraftWorthSaving, PurchaseDraft, PurchaseDraftSummary } from "@/lib/siigo/purchase-drafts";
+import { ElectronicInvoicePrefill, prefillItems } from "@/lib/siigo/ubl";
+import { CUFE_CHECK_STATUS_LABELS, CufeCheck, CufeFields, verifyCufe } from "@/lib/siigo/cufe";
+import type { SiigoSupplier } from "@/lib/siigo/suppliers";
+import {
+  buildInstallments,
+  installmentsFromPayments,
+  PaymentInstallment,
+  PAYMENT_TERM_PRESETS,
+  paymentsDifference,
+  paymentsMatchTotal
+} from "@/lib/siigo/payments";
 import { Textarea } from "@/components/ui/textarea";
+import { NumberInput } from "@/components/ui/number-input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from '@/components/ui/separator';
 import { Autocomplete, type AutocompleteOption } from '@/components/autocomplete';
-import { InvoiceItemForm } from "./formulario-item-facturas";
+import { InvoiceItemForm, type InvoiceItemValue } from "./formulario-item-facturas";
+import { InvoicePaymentsForm, SUPPLIER_TERM_ID } from "./formulario-pagos-facturas";
+import { ElectronicInvoiceImport } from "./importar-factura-electronica";
+import {
+  EMPTY_SUPPORT_SUPPLIER,
+  SupportDocumentSupplierForm,
+  SUPPORT_DOCUMENT_STATUS_LABELS
+} from "./formulario-documento-soporte";
+import type { DocumentTypeSiigo } from "@/lib/siigo/document-types";
+import {
+  allowsCostCenter,
+  filterTaxesForDocumentType,
+  getDocumentTypeErrors,
+  isCostCenterRequired,
+  PURCHASE_DOCUMENT_TYPES,
+  requiresManualNumber,
+  requiresProviderInvoice
+} from "@/lib/siigo/document-rules";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { 
   Send, 
@@ -43,15 +100,45 @@ interface InvoiceState {
   items: InvoiceItem[];
   invoiceDate: string;
   documentId: string;
+  // Número del documento cuando el tipo elegido tiene numeración manual
+  documentNumber: string;
   providerInvoiceNumber: string;
   providerInvoicePrefix: string;
   observations: string;
-  ivaPercentage: number;
   providerCode: string;
   providerIdentification: string;
-  costCenter: string;
+  costCenterId: number | null;
+  costCenterLabel: string;
+  // Datos DIAN del proveedor cuando el tipo de documento es soporte
+  supportSupplier: SupportDocumentSupplier;
   cufe?: string;
-  currency?: string;
+  // Datos del XML con los que se recalcula el CUFE, null si el CUFE se digitó
+  cufeFields: CufeFields | null;
+  // Clave técnica de la numeración del proveedor; no viene en el XML
+  technicalKey: string;
+  currency: string;
+  // Pesos por unidad de la moneda; se toma de la TRM cargada o se digita
+  exchangeRate: number;
+  // Fecha de la TRM encontrada, null si la tasa se digitó o no hay TRM cargada
+  exchangeRateDate: string | null;
+  // Los precios de los ítems traen el IVA y el impoconsumo incluidos
+  taxIncluded: boolean;
+  // Registrar la factura aunque ya exista, con la justificación que exige el servidor
+  duplicateOverride: { enabled: boolean; reason: string };
+  payments: InvoicePayment[];
+  paymentTermId: string;
+  // Mientras sea true las cuotas se recalculan al cambiar el total o la fecha
+  paymentsAuto: boolean;
+  // Datos para el cálculo de retenciones
+  supplierRegime: SupplierTaxRegime;
+  // Persona natural que no declara renta, aparte del régimen de IVA
+  supplierNonDeclarant: boolean;
+  icaCityCode: string;
+}
+
+interface SupplierPaymentTerms {
+  paymentTypeId: number;
+  installments: PaymentInstallment[];
 }
 
 type InvoiceFormAction =
@@ -62,74 +149,158 @@ type InvoiceFormAction =
       payload: { 
         id: string; 
         field: keyof InvoiceItem; 
-        value: string | number | boolean | { type?: string; value?: number } | undefined;
+        value: InvoiceItemValue;
       } 
     }
   | { 
       type: 'UPDATE_FIELD'; 
       payload: (
-        | { field: 'invoiceDate' | 'documentId' | 'providerInvoiceNumber' | 'providerInvoicePrefix' | 'observations' | 'providerCode' | 'providerIdentification' | 'cufe'; value: string }
-        | { field: 'costCenter'; value: string }
-        | { field: 'ivaPercentage'; value: number }
-        | { field: 'currency'; value: string | undefined }
+        | { field: 'invoiceDate' | 'documentId' | 'documentNumber' | 'providerInvoiceNumber' | 'providerInvoicePrefix' | 'observations' | 'providerCode' | 'providerIdentification' | 'cufe' | 'technicalKey'; value: string }
       )
     }
   | { type: 'SET_PROVIDER'; payload: Provider | null }
+  | { type: 'SET_COST_CENTER'; payload: { id: number | null; label: string } }
+  | { type: 'SET_SUPPORT_SUPPLIER'; payload: Partial<SupportDocumentSupplier> }
   | { type: 'SET_DOCUMENT_ID'; payload: string }
+  | { type: 'SET_DEFAULT_DOCUMENT_ID'; payload: string }
   | { type: 'SET_PROVIDER_INVOICE_NUMBER'; payload: string }
   | { type: 'SET_CUFE'; payload: string }
   | { type: 'SET_CURRENCY'; payload: string }
+  | { type: 'SET_EXCHANGE_RATE'; payload: { rate: number; date: string | null } }
+  | { type: 'SET_TAX_INCLUDED'; payload: boolean }
+  | { type: 'SET_DUPLICATE_OVERRIDE'; payload: Partial<InvoiceState['duplicateOverride']> }
+  | { type: 'SET_PAYMENTS'; payload: { payments: InvoicePayment[]; auto: boolean } }
+  | { type: 'SET_PAYMENT_TERM'; payload: string }
+  | { type: 'SET_WITHHOLDING_CONTEXT'; payload: Partial<Pick<InvoiceState, 'supplierRegime' | 'supplierNonDeclarant' | 'icaCityCode'>> }
+  | { type: 'CLEAR_SUPPLIER_TERM' }
+  | { type: 'LOAD_DRAFT'; payload: Partial<InvoiceState> }
+  | { type: 'PREFILL_ELECTRONIC_INVOICE'; payload: Partial<InvoiceState> }
   | { type: 'RESET_FORM' };
 
 // El tipo facturas formlario se define arriba 
 
+// Base, impuestos y total de la línea con el redondeo de Siigo
+const calculateItemAmounts = (
+  item: InvoiceItem,
+  taxes: SiigoTaxCatalogItem[],
+  taxIncluded: boolean,
+  taxIds: number[] = item.taxIds || []
+): LineAmounts =>
+  calculateLineAmounts((item.quantity || 0) * (item.price || 0) - (item.discount?.value || 0), taxIds, taxes, taxIncluded);
+
 // Funcion utilmem reduct
-const calculateSubtotal = (items: InvoiceItem[]): number => {
-  return items.reduce((sum, item) => {
-    const itemSubtotal = (item.quantity || 0) * (item.price || 0);
-    const discount = item.discount?.value || 0;
-    return sum + (itemSubtotal - discount);
-  }, 0);
+const calculateSubtotal = (items: InvoiceItem[], taxes: SiigoTaxCatalogItem[], taxIncluded: boolean): number => {
+  return Math.round(items.reduce((sum, item) => sum + calculateItemAmounts(item, taxes, taxIncluded).base, 0) * 100) / 100;
+};
+
+/**
+ * Reemplaza las retenciones de cada línea por las que calcula el motor de
+ * retenciones; el IVA y el impoconsumo siguen siendo los elegidos en la línea.
+ */
+const applyWithholdings = (
+  items: InvoiceItem[],
+  taxes: SiigoTaxCatalogItem[],
+  context: WithholdingContext,
+  taxIncluded: boolean
+): WithholdingResult & { items: InvoiceItem[] } => {
+  const retentionIds = new Set(taxes.filter(isRetentionTax).map(tax => tax.id));
+  const ownTaxIds = items.map(item => (item.taxIds || []).filter(id => !retentionIds.has(id)));
+  const result = calculateWithholdings(items.map((item, index) => {
+    const { base, breakdown } = calculateItemAmounts(item, taxes, taxIncluded, ownTaxIds[index]);
+    const iva = breakdown.lines
+      .filter(line => line.tax.type === 'IVA')
+      .reduce((sum, line) => sum + line.value, 0);
+    return { base, iva, concept: item.withholdingConcept };
+  }), context, taxes);
+
+  return {
+    ...result,
+    items: items.map((item, index) => ({ ...item, taxIds: [...ownTaxIds[index], ...result.taxIds[index]] }))
+  };
 };
 
-const calculateIVA = (items: InvoiceItem[], ivaPercentage: number): number => {
-  return items.reduce((sum, item) => {
-    if (!item.hasIVA) return sum;
-    const itemSubtotal = (item.quantity || 0) * (item.price || 0);
-    const discount = item.discount?.value || 0;
-    const taxableAmount = itemSubtotal - discount;
-    return sum + (taxableAmount * (ivaPercentage / 100));
-  }, 0);
+// Impuestos de todas las líneas agrupados por impuesto del catálogo
+const calculateTaxLines = (items: InvoiceItem[], taxes: SiigoTaxCatalogItem[], taxIncluded: boolean): TaxLine[] => {
+  const totals = new Map<number, TaxLine>();
+  items.forEach(item => {
+    calculateItemAmounts(item, taxes, taxIncluded).breakdown.lines.forEach(line => {
+      const current = totals.get(line.tax.id);
+      totals.set(line.tax.id, { tax: line.tax, value: Math.round(((current?.value || 0) + line.value) * 100) / 100 });
+    });
+  });
+  return Array.from(totals.values());
 };
 
-const calculateTotal = (items: InvoiceItem[], ivaPercentage: number): number => {
-  const subtotal = calculateSubtotal(items);
-  const iva = calculateIVA(items, ivaPercentage);
-  return subtotal + iva;
+// Total a pagar: subtotal más impuestos menos retenciones
+const calculateTotal = (items: InvoiceItem[], taxes: SiigoTaxCatalogItem[], taxIncluded: boolean): number => {
+  const subtotal = calculateSubtotal(items, taxes, taxIncluded);
+  return Math.round(calculateTaxLines(items, taxes, taxIncluded).reduce((sum, line) => sum + line.value, subtotal) * 100) / 100;
 };
 
-const mapItemTypeToSiigoType = (type: string = 'product'): 'Product' | 'Service' | 'FixedAsset' => {
+const mapItemTypeToSiigoType = (type: string = 'product'): SiigoItem['type'] => {
   switch (type) {
     case 'product': return 'Product';
     case 'service': return 'Service';
-    case 'fixed-asset': return 'FixedAsset';
+    case 'activo': return 'FixedAsset';
+    case 'contable': return 'Account';
     default: return 'Product';
   }
 };
 
+// Proveedor del formulario a partir de una opción del catálogo de proveedores; el
+// resto de sus datos llega después desde la copia local de Siigo (providerWithSiigoData)
+const providerFromOption = (option: Pick<AutocompleteOption, 'codigo' | 'nombre'>): Provider => ({
+  id: option.codigo,
+  nombre: option.nombre,
+  identificacion: option.codigo,
+  codigo: option.codigo,
+  name: option.nombre,
+  branch_office: 0,
+  type: 'Proveedor',
+  identification: option.codigo
+});
+
+// Completa el proveedor con lo que Siigo tiene de él (sucursal principal)
+const providerWithSiigoData = (provider: Provider, supplier: SiigoSupplier): Provider => ({
+  ...provider,
+  identification: supplier.identification,
+  tipo_documento: supplier.idType,
+  nombre_comercial: supplier.commercialName ?? supplier.name,
+  ciudad: supplier.cityName ?? supplier.cityCode ?? undefined,
+  direccion: supplier.address ?? undefined,
+  telefono: supplier.phone ?? undefined,
+  correo_electronico: supplier.email ?? undefined,
+  branch_office: supplier.branchOffice
+});
+
 // incializar el estado
 const initialState: InvoiceState = {
   provider: null,
   items: [],
   invoiceDate: new Date().toISOString().split('T')[0],
   documentId: '',
+  documentNumber: '',
   providerInvoiceNumber: '',
-  providerInvoicePrefix: 'FC',
-  costCenter: '0',
+  providerInvoicePrefix: '',
+  costCenterId: null,
+  costCenterLabel: '',
+  supportSupplier: EMPTY_SUPPORT_SUPPLIER,
   observations: '',
-  ivaPercentage: 19,
   providerCode: '',
-  providerIdentification: ''
+  providerIdentification: '',
+  cufeFields: null,
+  technicalKey: '',
+  currency: LOCAL_CURRENCY,
+  exchangeRate: 0,
+  exchangeRateDate: null,
+  taxIncluded: false,
+  duplicateOverride: { enabled: false, reason: '' },
+  payments: [],
+  paymentTermId: 'contado',
+  paymentsAuto: true,
+  supplierRegime: 'responsable_iva',
+  supplierNonDeclarant: false,
+  icaCityCode: '11001'
 };
 
 // reducir funcion
@@ -164,20 +335,97 @@ const invoiceFormReducer = (state: InvoiceState, action: InvoiceFormAction): Inv
         ...state,
         provider: action.payload,
         providerCode: action.payload?.codigo || '',
-        providerIdentification: action.payload?.identificacion || ''
+        providerIdentification: action.payload?.identificacion || '',
+        supportSupplier: {
+          ...state.supportSupplier,
+          identification: action.payload?.identificacion || '',
+          firstName: state.supportSupplier.firstName || action.payload?.nombre || ''
+        }
+      };
+    case 'SET_COST_CENTER':
+      return {
+        ...state,
+        costCenterId: action.payload.id,
+        costCenterLabel: action.payload.label
+      };
+    case 'SET_SUPPORT_SUPPLIER':
+      return {
+        ...state,
+        supportSupplier: { ...state.supportSupplier, ...action.payload }
       };
     case 'SET_DOCUMENT_ID':
       return {
         ...state,
         documentId: action.payload
       };
+    case 'SET_DEFAULT_DOCUMENT_ID':
+      // No reemplaza el tipo de documento de un borrador ya cargado
+      return state.documentId ? state : { ...state, documentId: action.payload };
     case 'SET_PROVIDER_INVOICE_NUMBER':
       return {
         ...state,
         providerInvoiceNumber: action.payload
       };
+    case 'SET_CURRENCY':
+      return {
+        ...state,
+        currency: action.payload,
+        exchangeRate: 0,
+        exchangeRateDate: null
+      };
+    case 'SET_EXCHANGE_RATE':
+      return {
+        ...state,
+        exchangeRate: action.payload.rate,
+        exchangeRateDate: action.payload.date
+      };
+    case 'SET_TAX_INCLUDED':
+      return {
+        ...state,
+        taxIncluded: action.payload
+      };
+    case 'SET_DUPLICATE_OVERRIDE':
+      return {
+        ...state,
+        duplicateOverride: { ...state.duplicateOverride, ...action.payload }
+      };
+    case 'SET_PAYMENTS':
+      return {
+        ...state,
+        payments: action.payload.payments,
+        paymentsAuto: action.payload.auto,
+        paymentTermId: action.payload.auto ? state.paymentTermId : 'manual'
+      };
+    case 'SET_PAYMENT_TERM':
+      return {
+        ...state,
+        paymentTermId: action.payload,
+        paymentsAuto: action.payload !== 'manual'
+      };
+    case 'SET_WITHHOLDING_CONTEXT':
+      return {
+        ...state,
+        ...action.payload
+      };
+    case 'CLEAR_SUPPLIER_TERM':
+      return state.paymentTermId === SUPPLIER_TERM_ID
+        ? { ...state, paymentTermId: 'contado', paymentsAuto: true }
+        : state;
+    case 'LOAD_DRAFT':
+      return { ...initialState, ...action.payload };
+    case 'PREFILL_ELECTRONIC_INVOICE':
+      // La factura electrónica reemplaza encabezado e ítems; tipo de documento, retenciones y pagos se conservan
+      return { ...state, ...action.payload, duplicateOverride: initialState.duplicateOverride };
     case 'RESET_FORM':
-      return { ...initialState };
+      // El tipo de documento, el municipio de ReteICA y la moneda se conservan para la siguiente factura
+      return {
+        ...initialState,
+        documentId: state.documentId,
+        icaCityCode: state.icaCityCode,
+        currency: state.currency,
+        exchangeRate: state.exchangeRate,
+        exchangeRateDate: state.exchangeRateDate
+      };
     default:
       return state;
   }
@@ -191,8 +439,340 @@ export default function InvoiceForm() {
   const [_, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitResult, setSubmitResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [taxes, setTaxes] = useState<SiigoTaxCatalogItem[]>([]);
+  const [paymentTypes, setPaymentTypes] = useState<SiigoPaymentTypeCatalogItem[]>([]);
+  const [supplierTerms, setSupplierTerms] = useState<SupplierPaymentTerms | null>(null);
+  const [documentTypes, setDocumentTypes] = useState<DocumentTypeSiigo[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicatePurchase[]>([]);
+  const [duplicatesIncomplete, setDuplicatesIncomplete] = useState(false);
+  const [draftStatus, setDraftStatus] = useState<{ status: 'idle' | 'saving' | 'saved' | 'error'; savedAt?: string }>({ status: 'idle' });
+  // El id del borrador vive en una ref para que los guardados encadenados usen siempre el último
+  const draftIdRef = useRef<string | null>(null);
+  const draftSaveRef = useRef<Promise<void>>(Promise.resolve());
+  const skipDraftSaveRef = useRef(false);
+  const [fiscalParameters, setFiscalParameters] = useState<ResolvedFiscalParameters>(() =>
+    getDefaultFiscalParameters(initialState.invoiceDate)
+  );
+  const documentType = documentTypes.find(d => String(d.id) === state.documentId) ?? null;
+  // Impuestos que admite el tipo de documento elegido
+  const documentTaxes = filterTaxesForDocumentType(taxes, documentType);
+  const withholdings = applyWithholdings(state.items, documentTaxes, {
+    regime: state.supplierRegime,
+    nonDeclarant: state.supplierNonDeclarant,
+    exchangeRate: isForeignCurrency(state.currency) ? state.exchangeRate : null,
+    cityCode: state.icaCityCode,
+    parameters: fiscalParameters,
+    documentType
+  }, state.taxIncluded);
+  const invoiceTotal = calculateTotal(withholdings.items, documentTaxes, state.taxIncluded);
+  const foreignCurrency = isForeignCurrency(state.currency);
+
+  // Catálogo de impuestos sincronizado desde Siigo
+  useEffect(() => {
+    fetch('/api/siigo/impuestos')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Error desconocido');
+        setTaxes(data.data);
+      })
+      .catch(error => {
+        console.error('Error cargando impuestos de Siigo:', error);
+        toast.error('No se pudo cargar el catálogo de impuestos de Siigo', {
+          description: error instanceof Error ? error.message : undefined
+        });
+      });
+  }, []);
+
+  // Catálogo de formas de pago sincronizado desde Siigo
+  useEffect(() => {
+    fetch('/api/siigo/formas-pago')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Error desconocido');
+        setPaymentTypes(data.data);
+      })
+      .catch(error => {
+        console.error('Error cargando formas de pago de Siigo:', error);
+        toast.error('No se pudo cargar el catálogo de formas de pago de Siigo', {
+          description: error instanceof Error ? error.message : undefined
+        });
+      });
+  }, []);
+
+  // Tipos de documento de compra activos en Siigo; por defecto la primera factura de compra
+  useEffect(() => {
+    fetch('/api/siigo/document-types')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Error desconocido');
+        const active = (data.data as DocumentTypeSiigo[]).filter(d =>
+          d.active && (PURCHASE_DOCUMENT_TYPES as readonly string[]).includes(d.type)
+        );
+        setDocumentTypes(active);
+        const preferred = active.find(d => d.type === 'FC') ?? active[0];
+        if (preferred) {
+          dispatch({ type: 'SET_DEFAULT_DOCUMENT_ID', payload: String(preferred.id) });
+        }
+      })
+      .catch(error => {
+        console.error('Error cargando tipos de documento de Siigo:', error);
+        toast.error('No se pudieron cargar los tipos de documento de Siigo', {
+          description: error instanceof Error ? error.message : undefined
+        });
+      });
+  }, []);
+
+  // UVT y tarifas de retención del año de la factura
+  const invoiceYear = yearOfDate(state.invoiceDate);
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/parametros-fiscales?date=${invoiceYear}-01-01`)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Error desconocido');
+        if (!cancelled) setFiscalParameters(data.data);
+      })
+      .catch(error => {
+        console.error('Error cargando parámetros fiscales:', error);
+        if (!cancelled) setFiscalParameters(getDefaultFiscalParameters(`${invoiceYear}-01-01`));
+      });
+
+    return () => { cancelled = true; };
+  }, [invoiceYear]);
+
+  // TRM vigente en la fecha de la factura para compras en moneda extranjera
+  const { currency, invoiceDate } = state;
+  useEffect(() => {
+    if (!isForeignCurrency(currency) || !invoiceDate) return;
+
+    let cancelled = false;
+    fetch(`/api/tasas-cambio?currency=${currency}&date=${invoiceDate}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Error desconocido');
+        if (!cancelled) {
+          dispatch({
+            type: 'SET_EXCHANGE_RATE',
+            payload: data.data ? { rate: data.data.rate, date: data.data.date } : { rate: 0, date: null }
+          });
+        }
+      })
+      .catch(error => {
+        console.error('Error consultando la tasa de cambio:', error);
+      });
+
+    return () => { cancelled = true; };
+  }, [currency, invoiceDate]);
+
+  // Borrador a retomar (/facturas?borrador=<id>), guardado desde cualquier dispositivo
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('borrador');
+    if (!id) return;
+
+    fetch(`/api/siigo/compras/borradores?id=${encodeURIComponent(id)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Error desconocido');
+        const draft = data.data as PurchaseDraft;
+        draftIdRef.current = draft.id;
+        skipDraftSaveRef.current = true;
+        dispatch({ type: 'LOAD_DRAFT', payload: draft.state as Partial<InvoiceState> });
+        setDraftStatus({ status: 'saved', savedAt: draft.updatedAt });
+        toast.success('Borrador recuperado');
+      })
+      .catch(error => {
+        console.error('Error cargando el borrador:', error);
+        window.history.replaceState(null, '', '/facturas');
+        toast.error('No se pudo abrir el borrador', {
+          description: error instanceof Error ? error.message : undefined
+        });
+      });
+  }, []);
+
+  const saveDraft = useCallback(async (summary: PurchaseDraftSummary, draftState: InvoiceState) => {
+    const id = draftIdRef.current;
+    setDraftStatus(current => ({ ...current, status: 'saving' }));
+    try {
+      const response = await fetch(`/api/siigo/compras/borradores${id ? `?id=${id}` : ''}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ summary, state: draftState })
+      });
+      const data = await response.json();
+      // Se envió a Siigo o se eliminó en otro dispositivo: el próximo cambio crea uno nuevo
+      if (response.status === 404) {
+        draftIdRef.current = null;
+        setDraftStatus({ status: 'idle' });
+        return;
+      }
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+
+      if (!id) {
+        draftIdRef.current = data.data.id;
+        window.history.replaceState(null, '', `/facturas?borrador=${data.data.id}`);
+      }
+      setDraftStatus({ status: 'saved', savedAt: data.data.updatedAt });
+    } catch (error) {
+      console.error('Error guardando el borrador:', error);
+      setDraftStatus(current => ({ ...current, status: 'error' }));
+    }
+  }, []);
+
+  // Autoguardado del formulario como borrador del usuario
+  useEffect(() => {
+    if (skipDraftSaveRef.current) {
+      skipDraftSaveRef.current = false;
+      return;
+    }
+    const summary: PurchaseDraftSummary = {
+      providerName: state.provider?.nombre || '',
+      providerInvoice: [state.providerInvoicePrefix.trim(), state.providerInvoiceNumber.trim()].filter(Boolean).join('-'),
+      itemsCount: state.items.length,
+      total: Math.round(invoiceTotal * 100) / 100,
+      currency: state.currency
+    };
+    if (!draftIdRef.current && !isDraftWorthSaving(summary)) return;
+
+    const timer = setTimeout(() => {
+      draftSaveRef.current = draftSaveRef.current.then(() => saveDraft(summary, state));
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state, invoiceTotal, saveDraft]);
+
+  // Factura del proveedor ya registrada en el espejo local o en Siigo
+  const duplicateSupplier = state.provider?.codigo || state.provider?.identificacion || '';
+  const { providerInvoicePrefix, providerInvoiceNumber, cufe } = state;
+  useEffect(() => {
+    setDuplicates([]);
+    setDuplicatesIncomplete(false);
+    if (!duplicateSupplier || (!providerInvoiceNumber.trim() && !cufe?.trim())) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({
+        supplier: duplicateSupplier,
+        prefix: providerInvoicePrefix,
+        number: providerInvoiceNumber,
+        cufe: cufe || '',
+        date: invoiceDate
+      });
+      fetch(`/api/siigo/compras/duplicados?${params}`)
+        .then(response => response.json())
+        .then(data => {
+          if (!data.success) throw new Error(data.error || 'Error desconocido');
+          if (cancelled) return;
+          const search = data.data as DuplicateSearchResult;
+          setDuplicates(search.duplicates);
+          setDuplicatesIncomplete(search.incomplete);
+        })
+        .catch(error => {
+          console.error('Error buscando facturas duplicadas:', error);
+        });
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [duplicateSupplier, providerInvoicePrefix, providerInvoiceNumber, cufe, invoiceDate]);
+
+  // Verificación del CUFE: formato si se digitó, recálculo si viene del XML con la clave técnica
+  const [cufeCheck, setCufeCheck] = useState<CufeCheck | null>(null);
+  const { cufeFields, technicalKey } = state;
+  useEffect(() => {
+    let cancelled = false;
+    verifyCufe(cufe, cufeFields, technicalKey)
+      .then(check => {
+        if (!cancelled) setCufeCheck(check);
+      })
+      .catch(error => {
+        console.error('Error verificando el CUFE:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cufe, cufeFields, technicalKey]);
+
+  // Condición de pago guardada para el proveedor seleccionado
+  const providerCode = state.provider?.codigo;
+  useEffect(() => {
+    setSupplierTerms(null);
+    if (!providerCode) {
+      dispatch({ type: 'CLEAR_SUPPLIER_TERM' });
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/proveedores/plazos-pago?codigo=${encodeURIComponent(providerCode)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success && data.data) {
+          setSupplierTerms({ paymentTypeId: data.data.paymentTypeId, installments: data.data.installments });
+          dispatch({ type: 'SET_PAYMENT_TERM', payload: SUPPLIER_TERM_ID });
+        } else {
+          dispatch({ type: 'CLEAR_SUPPLIER_TERM' });
+        }
+      })
+      .catch(error => console.error('Error cargando plazos de pago del proveedor:', error));
+
+    return () => { cancelled = true; };
+  }, [providerCode]);
+
+  // Cuotas generadas a partir del plazo elegido mientras el usuario no las edite
+  useEffect(() => {
+    if (!state.paymentsAuto) return;
+
+    const installments = state.paymentTermId === SUPPLIER_TERM_ID
+      ? supplierTerms?.installments
+      : PAYMENT_TERM_PRESETS.find(preset => preset.id === state.paymentTermId)?.installments;
+    if (!installments) return;
+
+    const paymentTypeId = (state.paymentTermId === SUPPLIER_TERM_ID ? supplierTerms?.paymentTypeId : undefined)
+      ?? paymentTypes.find(paymentType => paymentType.active !== false)?.id
+      ?? null;
+
+    const payments = buildInstallments(invoiceTotal, state.invoiceDate, installments, paymentTypeId ?? 0)
+      .map((payment, index) => ({
+        id: `cuota-${index}`,
+        paymentTypeId,
+        value: payment.value,
+        dueDate: payment.due_date
+      }));
+    dispatch({ type: 'SET_PAYMENTS', payload: { payments, auto: true } });
+  }, [invoiceTotal, state.invoiceDate, state.paymentTermId, state.paymentsAuto, supplierTerms, paymentTypes]);
+
+  const handleSaveSupplierTerms = useCallback(async () => {
+    const codigo = state.provider?.codigo;
+    const paymentTypeId = state.payments[0]?.paymentTypeId;
+    if (!codigo || !paymentTypeId) return;
+
+    const installments = installmentsFromPayments(
+      state.payments.map(payment => ({ value: payment.value, due_date: payment.dueDate })),
+      invoiceTotal,
+      state.invoiceDate
+    );
+
+    try {
+      const response = await fetch('/api/proveedores/plazos-pago', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ codigo, paymentTypeId, installments })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Error desconocido');
+
+      setSupplierTerms({ paymentTypeId: data.data.paymentTypeId, installments: data.data.installments });
+      toast.success('Condición de pago guardada para el proveedor');
+    } catch (error) {
+      toast.error('No se pudo guardar la condición de pago', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, [state.provider, state.payments, state.invoiceDate, invoiceTotal]);
 
   const handleAddItem = useCallback(() => {
+    const defaultIva = getDefaultIvaTax(taxes);
     const newItem: InvoiceItem = {
       id: Date.now().toString(),
 // ... (el resto del código sigue siendo el mismo)
@@ -202,38 +782,76 @@ export default function InvoiceForm() {
       quantity: 1,
       price: 0,
       warehouse: '1',
-      hasIVA: true,
+      taxIds: defaultIva ? [defaultIva.id] : [],
+      withholdingConcept: defaultConceptForItemType('product'),
     };
     dispatch({ type: 'ADD_ITEM', payload: newItem });
-  }, []);
+  }, [taxes]);
 
-  const handleProviderSelect = useCallback((option: AutocompleteOption | null) => {
-    if (!option) {
-      dispatch({ type: 'SET_PROVIDER', payload: null });
-      return;
-    }
+  // Trae de la copia local de Siigo los datos del proveedor elegido; si entretanto se
+  // eligió otro, la respuesta se descarta
+  const supplierLookupRef = useRef<string | null>(null);
+  const loadSiigoSupplier = useCallback(async (provider: Provider) => {
+    const identification = provider.identification || provider.codigo || '';
+    supplierLookupRef.current = identification;
+    try {
+      const response = await fetch(`/api/siigo/proveedores?identification=${encodeURIComponent(identification)}`);
+      const data = await response.json();
+      if (supplierLookupRef.current !== identification) return;
 
-    // Asignar AutocompleteOption al tipo de proveedor
-    const provider: Provider = {
-      id: option.codigo,
-      nombre: option.nombre,
-      identificacion: option.codigo,
-      codigo: option.codigo,
-      name: option.nombre,
-      tipo_documento: '31',
-      nombre_comercial: option.nombre,
-      ciudad: 'Bogotá',
-      direccion: 'No especificada',
-      telefono: '0000000',
-      correo_electronico: 'no@especificado.com',
-      branch_office: 0,
-      type: 'Proveedor',
-      identification: option.codigo
-    };
+      if (response.status === 404) {
+        toast.warning('El proveedor no está en la copia local de Siigo', {
+          description: 'Sincronice los proveedores o créelo en Siigo desde la pantalla de proveedores antes de registrar la compra'
+        });
+        return;
+      }
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
 
-    dispatch({ type: 'SET_PROVIDER', payload: provider });
+      dispatch({ type: 'SET_PROVIDER', payload: providerWithSiigoData(provider, data.data.supplier) });
+      dispatch({ type: 'SET_SUPPORT_SUPPLIER', payload: data.data.supportSupplier });
+    } catch (error) {
+      console.error('No se pudieron cargar los datos del proveedor desde Siigo:', error);
+    }
   }, []);
 
+  const handleProviderSelect = useCallback((option: AutocompleteOption | null) => {
+    const provider = option ? providerFromOption(option) : null;
+    dispatch({ type: 'SET_PROVIDER', payload: provider });
+    supplierLookupRef.current = null;
+    if (provider) loadSiigoSupplier(provider);
+  }, [loadSiigoSupplier]);
+
+  // Datos leídos del XML de la factura electrónica; el proveedor solo si está en el catálogo
+  const handleElectronicInvoice = useCallback((prefill: ElectronicInvoicePrefill) => {
+    const { invoice, supplier } = prefill;
+    const currencySupported = SUPPORTED_CURRENCIES.some(c => c.code === invoice.currency);
+    if (supplier.status === 'matched' && supplier.codigo) {
+      const provider = providerFromOption({ codigo: supplier.codigo, nombre: supplier.nombre || supplier.codigo });
+      dispatch({ type: 'SET_PROVIDER', payload: provider });
+      loadSiigoSupplier(provider);
+    }
+    dispatch({
+      type: 'PREFILL_ELECTRONIC_INVOICE',
+      payload: {
+        providerInvoicePrefix: invoice.prefix,
+        providerInvoiceNumber: invoice.number,
+        cufe: invoice.cufe,
+        cufeFields: invoice.cufeFields,
+        ...(invoice.issueDate && { invoiceDate: invoice.issueDate }),
+        ...(currencySupported && invoice.currency !== state.currency && {
+          currency: invoice.currency,
+          exchangeRate: 0,
+          exchangeRateDate: null
+        }),
+        taxIncluded: false,
+        items: prefillItems(prefill, documentTaxes)
+      }
+    });
+    if (!currencySupported) {
+      toast.warning(`La factura está en ${invoice.currency}, una moneda no soportada`);
+    }
+  }, [documentTaxes, state.currency, loadSiigoSupplier]);
+
   const validateForm = useCallback((): string[] => {
     const errors: string[] = [];
     
@@ -241,8 +859,8 @@ export default function InvoiceForm() {
       errors.push('Debe seleccionar un proveedor');
     }
     
-    if (!state.providerInvoiceNumber?.trim()) {
-      errors.push('El número de factura es requerido');
+    if (!documentType) {
+      errors.push('Debe seleccionar el tipo de documento');
     }
     
     if (state.items.length === 0) {
@@ -264,79 +882,118 @@ export default function InvoiceForm() {
         errors.push(`Item ${index + 1}: Precio no puede ser negativo`);
       }
     });
+
+    getDocumentTypeErrors(documentType, {
+      cost_center: state.costCenterId,
+      number: Number(state.documentNumber) || null,
+      provider_invoice: { number: state.providerInvoiceNumber }
+    }).forEach(error => errors.push(error.message));
+
+    if (documentType?.document_support) {
+      const supplier = supportDocumentSupplierSchema.safeParse(state.supportSupplier);
+      if (!supplier.success) {
+        supplier.error.errors.forEach(issue => errors.push(`Documento soporte: ${issue.message}`));
+      }
+    }
+
+    if (requiresProviderInvoice(documentType) && cufeCheck?.status === 'invalid_format') {
+      errors.push(cufeCheck.message);
+    }
+
+    if (duplicates.length > 0) {
+      if (!state.duplicateOverride.enabled) {
+        errors.push(`La factura del proveedor ya está registrada (${duplicates.map(d => d.name).join(', ')})`);
+      } else if (state.duplicateOverride.reason.trim().length < 10) {
+        errors.push('Explique en al menos 10 caracteres por qué se registra de nuevo la factura');
+      }
+    }
+
+    if (isForeignCurrency(state.currency) && !(state.exchangeRate > 0)) {
+      errors.push(`La tasa de cambio ${state.currency}/COP es requerida`);
+    }
+
+    // Validar pagos
+    if (state.payments.length === 0) {
+      errors.push('Debe registrar al menos un pago');
+    }
+    state.payments.forEach((payment: InvoicePayment, index: number) => {
+      if (!payment.paymentTypeId) {
+        errors.push(`Pago ${index + 1}: Forma de pago es requerida`);
+      }
+      if (!payment.value || payment.value <= 0) {
+        errors.push(`Pago ${index + 1}: Valor debe ser mayor a 0`);
+      }
+      if (!payment.dueDate) {
+        errors.push(`Pago ${index + 1}: Fecha de vencimiento es requerida`);
+      }
+    });
+    if (state.payments.length > 0 && !paymentsMatchTotal(state.payments, invoiceTotal)) {
+      const difference = paymentsDifference(state.payments, invoiceTotal);
+      errors.push(`Los pagos no cuadran con el total de la factura (diferencia: ${difference.toLocaleString("es-CO")})`);
+    }
     
     return errors;
-  }, [state]);
-
-  // Define el tipo SiigoPaymentRequest ya que no se importa
-interface SiigoPaymentRequest {
-  // Agregue las propiedades reales según sus requisitos
-  [key: string]: string | number | boolean | object | undefined | null;
-}
+  }, [state, invoiceTotal, documentType, duplicates, cufeCheck]);
 
-const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
+  const buildSiigoPayload = useCallback((): SiigoPurchaseRequest => {
     // El código del proveedor es el identification
     const codigoProveedor = state.provider?.codigo || state.provider?.identificacion || '';
     const branchOffice = state.provider?.branch_office ?? 0;
     const fechaFormateada = state.invoiceDate;
+    const costCenter = allowsCostCenter(documentType) ? Number(state.costCenterId) : 0;
+    const documentNumber = requiresManualNumber(documentType) ? Number(state.documentNumber) : 0;
+    const allowedTaxIds = new Set(documentTaxes.map(tax => tax.id));
 
     // Mapear los ítems al formato de Siigo
-    const items = state.items.map((item: InvoiceItem) => {
-      const itemSubtotal = (item.quantity || 0) * (item.price || 0);
-      const discount = item.discount?.value || 0;
-      const taxableAmount = itemSubtotal - discount;
-      
-      return {
-        type: mapItemTypeToSiigoType(item.type),
-        code: item.code,
-        description: item.description || item.code,
-        quantity: Number(item.quantity) || 1,
-        price: Number(item.price) || 0,
-        discount: discount,
-        taxes: item.hasIVA ? [{
-          id: 18384, // ID del impuesto IVA
-          tax_base: taxableAmount,
-          type: "IVA"
-        }] : [],
-        warehouse: item.warehouse || '1'
-      };
-    });
+    const items: SiigoItem[] = withholdings.items.map((item: InvoiceItem) => ({
+      type: mapItemTypeToSiigoType(item.type),
+      code: item.code,
+      description: item.description || item.code,
+      quantity: Number(item.quantity) || 1,
+      price: Number(item.price) || 0,
+      discount: item.discount?.value || 0,
+      taxes: (item.taxIds || []).filter(id => allowedTaxIds.has(id)).map(id => ({ id })),
+      ...(Number(item.warehouse) > 0 && { warehouse: Number(item.warehouse) })
+    }));
 
-    const total = calculateTotal(state.items, state.ivaPercentage);
-
-    const payment: SiigoPaymentRequest & { name: string } = {
-      id: 8467, // ID real del método de pago, ajusta según tu configuración
-      name: "OTROS",
-      value: total,
-      due_date: fechaFormateada
-    };
+    const payments: SiigoPayment[] = state.payments.map((payment: InvoicePayment) => ({
+      id: Number(payment.paymentTypeId),
+      value: Math.round(payment.value * 100) / 100,
+      due_date: payment.dueDate
+    }));
 
-    // Payload robusto y limpio
     return {
       document: {
-        id: 27524,
+        id: Number(state.documentId),
       },
+      ...(documentNumber > 0 && { number: documentNumber }),
       date: fechaFormateada,
       supplier: {
         identification: String(codigoProveedor),
         branch_office: branchOffice
       },
-      cost_center: state.costCenter,
-      provider_invoice: {
-        prefix: state.providerInvoicePrefix || "FC",
-        number: state.providerInvoiceNumber ? String(Number(state.providerInvoiceNumber)) : null,
-        // Incluir CUFE si está presente
-        ...(state.cufe && { cufe: state.cufe })
-      },
-      currency: state.currency,
+      ...(costCenter > 0 && { cost_center: costCenter }),
+      // El documento soporte no lleva factura del proveedor
+      ...(requiresProviderInvoice(documentType) && {
+        provider_invoice: {
+          prefix: state.providerInvoicePrefix.trim(),
+          number: state.providerInvoiceNumber.trim(),
+          // Incluir CUFE si está presente
+          ...(state.cufe?.trim() && { cufe: state.cufe.trim() })
+        }
+      }),
+      // Siigo asume COP cuando no se envía moneda
+      ...(isForeignCurrency(state.currency) && {
+        currency: { code: state.currency, exchange_rate: state.exchangeRate }
+      }),
       discount_type: "Value",
       supplier_by_item: false,
-      tax_included: false, // Los impuestos se manejan por ítem
+      tax_included: state.taxIncluded,
       observations: state.observations || "",
       items,
-      payments: [payment]
+      payments
     };
-  }, [state]);
+  }, [state, documentType, documentTaxes, withholdings.items]);
 
   const handleSubmit = useCallback(async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -357,9 +1014,24 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
       const response = await fetch('/api/siigo/compras', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
+        body: JSON.stringify({
+          ...payload,
+          ...(documentType?.document_support && { support_supplier: state.supportSupplier }),
+          ...(duplicates.length > 0 && state.duplicateOverride.enabled && {
+            duplicate_override: { reason: state.duplicateOverride.reason.trim() }
+          }),
+          // El servidor recalcula el CUFE con los mismos datos del XML
+          ...(requiresProviderInvoice(documentType) && state.cufe?.trim() && state.cufeFields && {
+            cufe_verification: { fields: state.cufeFields, technical_key: state.technicalKey.trim() || undefined }
+          }),
+          ...(draftIdRef.current && { draft_id: draftIdRef.current })
+        }),
       });
       const data = await response.json();
+      // Otro usuario registró la misma factura mientras se llenaba el formulario
+      if (response.status === 409 && Array.isArray(data?.duplicates)) {
+        setDuplicates(data.duplicates);
+      }
       if (!response.ok) {
         const siigoMsg = data?.details?.Message || data?.error || data?.message || 'Error desconocido';
         const missingFields = data?.missingFields ? `\nCampos faltantes: ${data.missingFields.join(', ')}` : '';
@@ -367,11 +1039,33 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
         setSubmitResult({ success: false, message: siigoMsg + missingFields });
         throw new Error(siigoMsg + missingFields);
       }
-      toast.success('✅ Factura enviada correctamente a Siigo', {
-        description: `Número de factura: ${data.number || data.data?.number || state.providerInvoiceNumber}`,
+      if (response.status === 202 && data.queued) {
+        // Siigo falló de forma transitoria: la compra no se perdió, el worker la reintenta
+        const message = `Siigo no respondió (${data.error || 'sin detalle'}). La compra quedó en la cola de envíos con el número ${data.outbox_id} y se reintentará automáticamente.`;
+        toast.warning('⏳ Compra guardada en la cola de envíos', {
+          description: message,
+          duration: 8000,
+          action: { label: 'Ver cola', onClick: () => router.push('/cola-envios') },
+        });
+        setSubmitResult({ success: true, message });
+        // El borrador sigue abierto hasta que Siigo acepte la compra: el worker lo elimina entonces
+        return;
+      }
+      const documentName = data.name || data.number || data.data?.number || state.providerInvoiceNumber;
+      // El documento soporte es electrónico: se informa el estado que devuelve la DIAN
+      const dianStatus = data.status ? ` · ${SUPPORT_DOCUMENT_STATUS_LABELS[data.status] || data.status}` : '';
+      toast.success('✅ Documento enviado correctamente a Siigo', {
+        description: `Número de documento: ${documentName}${dianStatus}`,
         duration: 5000,
       });
-      setSubmitResult({ success: true, message: `Factura enviada correctamente. Número: ${data.number || data.data?.number || state.providerInvoiceNumber}` });
+      setSubmitResult({ success: true, message: `Documento enviado correctamente. Número: ${documentName}${dianStatus}` });
+      if (data.duplicate_check_incomplete) {
+        toast.warning('⚠️ No se descartaron duplicados en Siigo', { description: DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE, duration: 8000 });
+      }
+      // El servidor ya eliminó el borrador convertido en compra
+      draftIdRef.current = null;
+      setDraftStatus({ status: 'idle' });
+      window.history.replaceState(null, '', '/facturas');
       dispatch({ type: 'RESET_FORM' });
       router.refresh();
     } catch (error) {
@@ -389,7 +1083,7 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
     } finally {
       setIsSubmitting(false);
     }
-  }, [state, validateForm, buildSiigoPayload, router]);
+  }, [state, documentType, duplicates, validateForm, buildSiigoPayload, router]);
 
 
 
@@ -413,12 +1107,90 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
       <form onSubmit={handleSubmit} className="space-y-6">
         <Card>
           <CardHeader>
-            <CardTitle>Crear Nueva Factura</CardTitle>
-            <CardDescription>
-              Complete los detalles de la factura a continuación.
-            </CardDescription>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Crear Nueva Factura</CardTitle>
+                <CardDescription>
+                  Complete los detalles de la factura a continuación.
+                </CardDescription>
+              </div>
+              <div className="text-right text-sm text-muted-foreground">
+                {draftStatus.status === 'saving' && <p>Guardando borrador...</p>}
+                {draftStatus.status === 'saved' && draftStatus.savedAt && (
+                  <p>Borrador guardado a las {new Date(draftStatus.savedAt).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })}</p>
+                )}
+                {draftStatus.status === 'error' && <p className="text-red-600">No se pudo guardar el borrador</p>}
+                <Link href="/borradores" className="underline">Ver borradores</Link>
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
+            {/* Tipo de documento */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div className="space-y-2">
+                <Label htmlFor="document-type">Tipo de Documento *</Label>
+                <Select
+                  value={state.documentId || undefined}
+                  onValueChange={(value) => dispatch({ type: 'SET_DOCUMENT_ID', payload: value })}
+                  disabled={isSubmitting || documentTypes.length === 0}
+                >
+                  <SelectTrigger id="document-type">
+                    <SelectValue placeholder="Seleccione el tipo de documento" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {documentTypes.map(type => (
+                      <SelectItem key={type.id} value={String(type.id)}>
+                        {type.type}-{type.code} · {type.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {documentType && (
+                <div className="space-y-2">
+                  <Label htmlFor="document-number">Número del Documento{requiresManualNumber(documentType) ? ' *' : ''}</Label>
+                  {requiresManualNumber(documentType) ? (
+                    <Input
+                      id="document-number"
+                      type="number"
+                      min={1}
+                      placeholder="Numeración manual"
+                      value={state.documentNumber}
+                      onChange={(e) => dispatch({
+                        type: 'UPDATE_FIELD',
+                        payload: { field: 'documentNumber', value: e.target.value }
+                      })}
+                      disabled={isSubmitting}
+                      required
+                    />
+                  ) : (
+                    <Input
+                      id="document-number"
+                      value={`${documentType.type}-${documentType.code}-${documentType.consecutive}`}
+                      readOnly
+                      className="bg-gray-100 cursor-not-allowed"
+                      tabIndex={-1}
+                    />
+                  )}
+                </div>
+              )}
+              {documentType && (
+                <div className="flex flex-wrap items-end gap-2 pb-2">
+                  <Badge variant="secondary">
+                    {documentType.automatic_number ? 'Numeración automática' : 'Numeración manual'}
+                  </Badge>
+                  {documentType.document_support && <Badge variant="secondary">Documento soporte</Badge>}
+                  {isCostCenterRequired(documentType) && <Badge variant="outline">Centro de costo obligatorio</Badge>}
+                  {documentType.reteiva && <Badge variant="outline">ReteIVA</Badge>}
+                  {documentType.reteica && <Badge variant="outline">ReteICA</Badge>}
+                </div>
+              )}
+            </div>
+
+            <div className="mb-4">
+              <ElectronicInvoiceImport onImport={handleElectronicInvoice} disabled={isSubmitting} />
+            </div>
+
             {/* Información General */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
@@ -443,53 +1215,94 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
                 />
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="provider-invoice-prefix">Prefijo de Factura *</Label>
-                <select
-                  id="provider-invoice-prefix"
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                  value={state.providerInvoicePrefix || 'FC'}
-                  onChange={(e) =>
-                    dispatch({ 
-                      type: 'UPDATE_FIELD', 
-                      payload: { field: 'providerInvoicePrefix', value: e.target.value } 
-                    })
-                  }
-                  required
-                >
-                  <option value="FC">FC - Factura de Compra</option>
-                  <option value="ND">ND - Nota Débito</option>
-                  <option value="DS">DS - Documento Soporte</option>
-                  <option value="RP">RP - Recibo de Pago</option>
-                </select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="cost-center">Centro de Costo *</Label>
-                <Input
-                  id="cost-center"
-                  type="text"
-                  value={state.costCenter || '0'}
-                  onChange={(e) =>
-                    dispatch({
+              {requiresProviderInvoice(documentType) && (
+                <div className="space-y-2">
+                  <Label htmlFor="provider-invoice-prefix">Prefijo de Factura del Proveedor</Label>
+                  <Input
+                    id="provider-invoice-prefix"
+                    placeholder="Ej: FE"
+                    value={state.providerInvoicePrefix}
+                    onChange={(e) =>
+                      dispatch({
+                        type: 'UPDATE_FIELD',
+                        payload: { field: 'providerInvoicePrefix', value: e.target.value }
+                      })
+                    }
+                    disabled={isSubmitting}
+                  />
+                </div>
+              )}
+              {allowsCostCenter(documentType) && (
+                <div className="space-y-2">
+                  <Autocomplete
+                    label="Centro de Costo"
+                    placeholder="Buscar centro de costo..."
+                    apiEndpoint="/api/siigo/centros-costo"
+                    value={state.costCenterLabel}
+                    onSelect={(option) => dispatch({
+                      type: 'SET_COST_CENTER',
+                      payload: { id: option?.id ?? null, label: option ? `${option.codigo} - ${option.nombre}` : '' }
+                    })}
+                    onInputChange={(value) => dispatch({
+                      type: 'SET_COST_CENTER',
+                      payload: { id: null, label: value }
+                    })}
+                    disabled={isSubmitting}
+                    required={isCostCenterRequired(documentType)}
+                  />
+                </div>
+              )}
+              {requiresProviderInvoice(documentType) && (
+                <div className="space-y-2">
+                  <Label htmlFor="provider-invoice-number">Número de Factura del Proveedor *</Label>
+                  <Input
+                    id="provider-invoice-number"
+                    placeholder="Número de la factura"
+                    value={state.providerInvoiceNumber}
+                    onChange={(e) =>
+                      dispatch({ type: 'SET_PROVIDER_INVOICE_NUMBER', payload: e.target.value })
+                    }
+                    required
+                  />
+                </div>
+              )}
+              {requiresProviderInvoice(documentType) && (
+                <div className="space-y-2">
+                  <Label htmlFor="provider-invoice-cufe">CUFE</Label>
+                  <Input
+                    id="provider-invoice-cufe"
+                    placeholder="Código único de la factura electrónica"
+                    value={state.cufe || ''}
+                    onChange={(e) => dispatch({
                       type: 'UPDATE_FIELD',
-                      payload: { field: 'costCenter', value: e.target.value }
-                    })
-                  }
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="provider-invoice-number">Número de Factura *</Label>
-                <Input
-                  id="provider-invoice-number"
-                  placeholder="Número de la factura"
-                  value={state.providerInvoiceNumber}
-                  onChange={(e) =>
-                    dispatch({ type: 'SET_PROVIDER_INVOICE_NUMBER', payload: e.target.value })
-                  }
-                  required
-                />
-              </div>
+                      payload: { field: 'cufe', value: e.target.value }
+                    })}
+                    disabled={isSubmitting}
+                  />
+                  {cufeCheck && (
+                    <p className={`text-xs ${cufeCheck.status === 'verified'
+                      ? 'text-green-600'
+                      : cufeCheck.status === 'format_only' ? 'text-muted-foreground' : 'text-destructive'}`}>
+                      {CUFE_CHECK_STATUS_LABELS[cufeCheck.status]}: {cufeCheck.message}
+                    </p>
+                  )}
+                </div>
+              )}
+              {requiresProviderInvoice(documentType) && state.cufeFields && (
+                <div className="space-y-2">
+                  <Label htmlFor="provider-technical-key">Clave Técnica del Proveedor</Label>
+                  <Input
+                    id="provider-technical-key"
+                    placeholder="Clave técnica de la resolución de numeración"
+                    value={state.technicalKey}
+                    onChange={(e) => dispatch({
+                      type: 'UPDATE_FIELD',
+                      payload: { field: 'technicalKey', value: e.target.value }
+                    })}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="invoice-date">Fecha de Factura *</Label>
                 <Input
@@ -503,25 +1316,139 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
                   required
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-currency">Moneda</Label>
+                <Select
+                  value={state.currency}
+                  onValueChange={(value) => dispatch({ type: 'SET_CURRENCY', payload: value })}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="invoice-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map(option => (
+                      <SelectItem key={option.code} value={option.code}>{option.code} · {option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {foreignCurrency && (
+                <div className="space-y-2">
+                  <Label htmlFor="exchange-rate">Tasa de Cambio (COP por {state.currency}) *</Label>
+                  <NumberInput
+                    id="exchange-rate"
+                    value={state.exchangeRate || ''}
+                    onChange={(value) => dispatch({
+                      type: 'SET_EXCHANGE_RATE',
+                      payload: { rate: value === '' ? 0 : Number(value), date: null }
+                    })}
+                    min={0}
+                    step={0.01}
+                    allowEmpty={true}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {state.exchangeRateDate
+                      ? `TRM del ${state.exchangeRateDate}`
+                      : state.exchangeRate > 0
+                        ? 'Tasa digitada manualmente'
+                        : `No hay TRM de ${state.currency} cargada para esta fecha`}
+                  </p>
+                </div>
+              )}
             </div>
+
+            {duplicates.length > 0 && (
+              <Alert variant="destructive">
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                <AlertTitle>Esta factura del proveedor ya está registrada</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <ul className="list-disc pl-4">
+                    {duplicates.map(duplicate => (
+                      <li key={duplicate.id}>
+                        {duplicate.name} del {duplicate.date} · factura {duplicate.providerInvoice || 'sin número'} ·
+                        ${duplicate.total.toLocaleString("es-CO", { minimumFractionDigits: 2 })} ·
+                        {duplicate.matchedBy === 'cufe' ? ' mismo CUFE' : ' mismo número'} ({DUPLICATE_SOURCE_LABELS[duplicate.source]})
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="duplicate-override"
+                      checked={state.duplicateOverride.enabled}
+                      onCheckedChange={(checked) => dispatch({ type: 'SET_DUPLICATE_OVERRIDE', payload: { enabled: checked === true } })}
+                      disabled={isSubmitting}
+                    />
+                    <Label htmlFor="duplicate-override">Registrar de todas formas</Label>
+                  </div>
+                  {state.duplicateOverride.enabled && (
+                    <Textarea
+                      placeholder="Justificación (obligatoria): por qué esta factura no es un duplicado"
+                      value={state.duplicateOverride.reason}
+                      onChange={(e) => dispatch({ type: 'SET_DUPLICATE_OVERRIDE', payload: { reason: e.target.value } })}
+                      rows={2}
+                      disabled={isSubmitting}
+                    />
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {duplicatesIncomplete && duplicates.length === 0 && (
+              <Alert>
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                <AlertTitle>No se pudo confirmar que la factura sea nueva</AlertTitle>
+                <AlertDescription>{DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE}</AlertDescription>
+              </Alert>
+            )}
           </CardContent>
         </Card>
 
+        {documentType?.document_support && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Proveedor del Documento Soporte</CardTitle>
+              <CardDescription>
+                Datos que exige la DIAN para quien no está obligado a facturar. Si el proveedor no existe en Siigo se crea al enviar.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SupportDocumentSupplierForm
+                value={state.supportSupplier}
+                onChange={(changes) => dispatch({ type: 'SET_SUPPORT_SUPPLIER', payload: changes })}
+                disabled={isSubmitting}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Items */}
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>Ítems de la Factura</CardTitle>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={handleAddItem}
-                disabled={isSubmitting}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Agregar Ítem
-              </Button>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="tax-included"
+                    checked={state.taxIncluded}
+                    onCheckedChange={(checked) => dispatch({ type: 'SET_TAX_INCLUDED', payload: checked })}
+                    disabled={isSubmitting}
+                  />
+                  <Label htmlFor="tax-included">Precios con IVA incluido</Label>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddItem}
+                  disabled={isSubmitting}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Agregar Ítem
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -541,20 +1468,22 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
                 </Button>
               </div>
             ) : (
-              state.items.map((item, index) => (
+              withholdings.items.map((item, index) => (
                 <InvoiceItemForm
                   key={item.id}
                   item={item}
                   index={index}
                   isLastItem={index === state.items.length - 1}
-                  onUpdate={(id: string, field: keyof InvoiceItem, value: string | number | boolean | { type?: string; value?: number } | undefined) => {
+                  onUpdate={(id: string, field: keyof InvoiceItem, value: InvoiceItemValue) => {
                     dispatch({
                       type: 'UPDATE_ITEM',
                       payload: { id, field, value }
                     })
                   }}
                   onRemove={(id) => dispatch({ type: 'REMOVE_ITEM', payload: id })}
-                  ivaPercentage={state.ivaPercentage}
+                  taxes={documentTaxes}
+                  taxIncluded={state.taxIncluded}
+                  currency={state.currency}
                   disabled={isSubmitting}
                 />
               ))
@@ -562,6 +1491,107 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
           </CardContent>
         </Card>
 
+        {/* Retenciones */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Retenciones</CardTitle>
+            <CardDescription>
+              Se calculan por línea según el concepto, el régimen del proveedor, el municipio y las bases mínimas
+              (UVT {fiscalParameters.year}: ${fiscalParameters.uvt.toLocaleString("es-CO")}).
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-regime">Régimen del Proveedor</Label>
+                <Select
+                  value={state.supplierRegime}
+                  onValueChange={(value) => dispatch({
+                    type: 'SET_WITHHOLDING_CONTEXT',
+                    payload: { supplierRegime: value as SupplierTaxRegime }
+                  })}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="supplier-regime">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPLIER_TAX_REGIMES.map(regime => (
+                      <SelectItem key={regime.id} value={regime.id}>{regime.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ica-city">Municipio ReteICA</Label>
+                <Select
+                  value={state.icaCityCode || 'none'}
+                  onValueChange={(value) => dispatch({
+                    type: 'SET_WITHHOLDING_CONTEXT',
+                    payload: { icaCityCode: value === 'none' ? '' : value }
+                  })}
+                  disabled={isSubmitting || documentType?.reteica === false}
+                >
+                  <SelectTrigger id="ica-city">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No practicar ReteICA</SelectItem>
+                    {fiscalParameters.icaMunicipalities.map(municipality => (
+                      <SelectItem key={municipality.cityCode} value={municipality.cityCode}>{municipality.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="supplier-non-declarant"
+                checked={state.supplierNonDeclarant}
+                onCheckedChange={(checked) => dispatch({
+                  type: 'SET_WITHHOLDING_CONTEXT',
+                  payload: { supplierNonDeclarant: checked === true }
+                })}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="supplier-non-declarant">Persona natural no declarante de renta (tarifa de retefuente de no declarantes)</Label>
+            </div>
+
+            {fiscalParameters.stale && (
+              <Alert variant="destructive">
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                <AlertTitle>Parámetros fiscales {invoiceYear} sin configurar</AlertTitle>
+                <AlertDescription>
+                  Se usan los de {fiscalParameters.year}. Actualícelos en Administración → Parámetros Fiscales.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {withholdings.summary.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No aplican retenciones a esta factura.</p>
+            ) : (
+              <div className="space-y-1 text-sm">
+                {withholdings.summary.map(line => (
+                  <div key={line.tax.id} className="flex justify-between">
+                    <span>{line.tax.name} · base ${line.base.toLocaleString("es-CO", { minimumFractionDigits: 2 })}</span>
+                    <span className="font-medium text-red-600">
+                      -${line.value.toLocaleString("es-CO", { minimumFractionDigits: 2 })} {state.currency}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {withholdings.warnings.length > 0 && (
+              <Alert variant="destructive">
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                <AlertTitle>Retenciones sin impuesto en Siigo</AlertTitle>
+                <AlertDescription>{withholdings.warnings.join('. ')}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Totales */}
         <Card>
           <CardHeader>
@@ -572,26 +1602,60 @@ const buildSiigoPayload = useCallback((): SiigoPaymentRequest => {
               <div className="flex justify-between">
                 <span>Subtotal:</span>
                 <span className="font-medium">
-                  ${calculateSubtotal(state.items).toLocaleString("es-CO", { minimumFractionDigits: 2 })} COP
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span>IVA ({state.ivaPercentage}%):</span>
-                <span className="font-medium">
-                  ${calculateIVA(state.items, state.ivaPercentage).toLocaleString("es-CO", { minimumFractionDigits: 2 })} COP
+                  ${calculateSubtotal(withholdings.items, documentTaxes, state.taxIncluded).toLocaleString("es-CO", { minimumFractionDigits: 2 })} {state.currency}
                 </span>
               </div>
+              {calculateTaxLines(withholdings.items, documentTaxes, state.taxIncluded).map(({ tax, value }) => (
+                <div key={tax.id} className="flex justify-between">
+                  <span>{tax.name}:</span>
+                  <span className={`font-medium ${value < 0 ? 'text-red-600' : ''}`}>
+                    ${value.toLocaleString("es-CO", { minimumFractionDigits: 2 })} {state.currency}
+                  </span>
+                </div>
+              ))}
               <Separator />
               <div className="flex justify-between text-lg font-bold">
                 <span>Total:</span>
                 <span className="text-green-600">
-                  ${calculateTotal(state.items, state.ivaPercentage).toLocaleString("es-CO", { minimumFractionDigits: 2 })} COP
+                  ${invoiceTotal.toLocaleString("es-CO", { minimumFractionDigits: 2 })} {state.currency}
                 </span>
               </div>
+              {foreignCurrency && (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Equivalente en COP:</span>
+                  <span>
+                    ${copEquivalent(invoiceTotal, { code: state.currency, exchange_rate: state.exchangeRate }).toLocaleString("es-CO", { minimumFractionDigits: 2 })} COP
+                  </span>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {/* Pagos */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pagos</CardTitle>
+            <CardDescription>
+              Distribuya el total en una o varias cuotas con su forma de pago y vencimiento.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <InvoicePaymentsForm
+              payments={state.payments}
+              paymentTypes={paymentTypes}
+              total={invoiceTotal}
+              invoiceDate={state.invoiceDate}
+              termId={state.paymentTermId}
+              supplierTerms={supplierTerms?.installments ?? null}
+              onApplyTerm={(termId) => dispatch({ type: 'SET_PAYMENT_TERM', payload: termId })}
+              onChange={(payments) => dispatch({ type: 'SET_PAYMENTS', payload: { payments, auto: false } })}
+              onSaveSupplierTerms={state.provider?.codigo ? handleSaveSupplierTerms : undefined}
+              disabled={isSubmitting}
+            />
+          </CardContent>
+        </Card>
+
         {/* Observaciones */}
         <Card>
           <CardHeader>
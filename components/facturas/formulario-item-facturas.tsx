@@ -3,47 +3,70 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { NumberInput } from "@/components/ui/number-input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
 import { Autocomplete } from "@/components/autocomplete"
-import { InvoiceItem } from "@/types/siigo"
+import { InvoiceItem, SiigoTaxCatalogItem, WithholdingConcept } from "@/types/siigo"
+import { calculateLineAmounts, getDefaultIvaTax, groupTaxesByKind } from "@/lib/siigo/taxes"
+import { defaultConceptForItemType, WITHHOLDING_CONCEPTS } from "@/lib/siigo/withholdings"
 import { Trash2 } from "lucide-react"
 
+export type InvoiceItemValue = string | number | boolean | number[] | { type?: string; value?: number } | undefined
+
 type InvoiceItemFormProps = {
   item: InvoiceItem
   onUpdate: (
     id: string, 
     field: keyof InvoiceItem, 
-    value: string | number | boolean | { type?: string; value?: number } | undefined
+    value: InvoiceItemValue
   ) => void
   onRemove: (id: string) => void
   index: number
   isLastItem: boolean
-  ivaPercentage: number
+  taxes: SiigoTaxCatalogItem[]
+  /** El precio unitario trae el IVA y el impoconsumo incluidos */
+  taxIncluded?: boolean
+  /** Moneda de la factura, en la que están los valores de la línea */
+  currency?: string
   disabled?: boolean
 }
 
+const NO_TAX = "none"
+
 export function InvoiceItemForm({
   item,
   onUpdate,
   onRemove,
   index,
   isLastItem,
-  ivaPercentage,
+  taxes,
+  taxIncluded = false,
+  currency = "COP",
   disabled = false
 }: InvoiceItemFormProps) {
+  const { iva, consumption } = groupTaxesByKind(taxes)
+  const taxIds = item.taxIds || []
   
-  const calculateItemSubtotal = () => {
-    const subtotal = (item.quantity || 0) * (item.price || 0);
-    const discount = item.discount?.value || 0;
-    return subtotal - discount;
-  };
+  const { base, breakdown, total } = calculateLineAmounts(
+    (item.quantity || 0) * (item.price || 0) - (item.discount?.value || 0),
+    taxIds,
+    taxes,
+    taxIncluded
+  )
+
+  // Cambia el impuesto elegido dentro de un grupo (IVA o impoconsumo) sin tocar los demás
+  const selectTaxOfKind = (kind: SiigoTaxCatalogItem[], value: string) => {
+    const others = taxIds.filter(id => !kind.some(tax => tax.id === id))
+    onUpdate(item.id, 'taxIds', value === NO_TAX ? others : [...others, Number(value)])
+  }
 
-  const calculateItemTotal = () => {
-    const subtotal = calculateItemSubtotal();
-    const iva = item.hasIVA ? subtotal * (ivaPercentage / 100) : 0;
-    return subtotal + iva;
-  };
+  const selectedOfKind = (kind: SiigoTaxCatalogItem[]) =>
+    String(kind.find(tax => taxIds.includes(tax.id))?.id ?? NO_TAX)
+
+  // Los productos y activos traen tiene_iva: se traduce al IVA por defecto del catálogo
+  const applyProductIva = (tieneIva: boolean) => {
+    const defaultIva = getDefaultIvaTax(taxes)
+    selectTaxOfKind(iva, tieneIva && defaultIva ? String(defaultIva.id) : NO_TAX)
+  }
 
   return (
     <div className="border rounded-lg p-4 space-y-4">
@@ -66,7 +89,12 @@ export function InvoiceItemForm({
           <Label>Tipo de Item</Label>
           <Select
             value={item.type}
-            onValueChange={(value: 'product' | 'activo' | 'contable') => onUpdate(item.id, 'type', value)}
+            onValueChange={(value: 'product' | 'activo' | 'contable') => {
+              onUpdate(item.id, 'type', value)
+              if (item.withholdingConcept) {
+                onUpdate(item.id, 'withholdingConcept', defaultConceptForItemType(value))
+              }
+            }}
             disabled={disabled}
           >
             <SelectTrigger>
@@ -95,7 +123,7 @@ export function InvoiceItemForm({
                     onUpdate(item.id, 'price', option.precio_base);
                   }
                   if (option.tiene_iva !== undefined) {
-                    onUpdate(item.id, 'hasIVA', option.tiene_iva === true);
+                    applyProductIva(option.tiene_iva === true);
                   }
                 }
               }}
@@ -118,7 +146,7 @@ export function InvoiceItemForm({
                     onUpdate(item.id, 'price', option.precio_base);
                   }
                   if (option.tiene_iva !== undefined) {
-                    onUpdate(item.id, 'hasIVA', option.tiene_iva);
+                    applyProductIva(option.tiene_iva);
                   }
                 }
               }}
@@ -170,7 +198,7 @@ export function InvoiceItemForm({
         </div>
 
         <div className="space-y-2">
-          <Label>Precio Unitario</Label>
+          <Label>{taxIncluded ? 'Precio Unitario (IVA incluido)' : 'Precio Unitario'}</Label>
           <NumberInput
             value={item.price}
             onChange={(value) => onUpdate(item.id, 'price', value === '' ? 0 : Number(value))}
@@ -202,22 +230,63 @@ export function InvoiceItemForm({
         </div>
 
         <div className="space-y-2">
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id={`iva-${item.id}`}
-              checked={item.hasIVA !== false}
-              onCheckedChange={(checked) => onUpdate(item.id, 'hasIVA', checked)}
+          <Label>IVA</Label>
+          <Select
+            value={selectedOfKind(iva)}
+            onValueChange={(value) => selectTaxOfKind(iva, value)}
+            disabled={disabled || iva.length === 0}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TAX}>Sin IVA</SelectItem>
+              {iva.map(tax => (
+                <SelectItem key={tax.id} value={String(tax.id)}>{tax.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {consumption.length > 0 && (
+          <div className="space-y-2">
+            <Label>Impoconsumo</Label>
+            <Select
+              value={selectedOfKind(consumption)}
+              onValueChange={(value) => selectTaxOfKind(consumption, value)}
               disabled={disabled}
-            />
-            <Label htmlFor={`iva-${item.id}`} className="text-sm font-medium">
-              Este item tiene IVA
-            </Label>
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TAX}>Sin impoconsumo</SelectItem>
+                {consumption.map(tax => (
+                  <SelectItem key={tax.id} value={String(tax.id)}>{tax.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-          {item.hasIVA !== false && (
-            <Badge variant="secondary" className="text-xs">
-              IVA aplicado: {ivaPercentage}%
-            </Badge>
-          )}
+        )}
+
+        {/* Las retenciones las calcula el formulario a partir del concepto, el régimen y el municipio */}
+        <div className="space-y-2">
+          <Label>Concepto de Retención</Label>
+          <Select
+            value={item.withholdingConcept ?? NO_TAX}
+            onValueChange={(value) => onUpdate(item.id, 'withholdingConcept', value === NO_TAX ? undefined : value as WithholdingConcept)}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TAX}>Sin retención</SelectItem>
+              {WITHHOLDING_CONCEPTS.map(concept => (
+                <SelectItem key={concept.id} value={concept.id}>{concept.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
@@ -226,29 +295,29 @@ export function InvoiceItemForm({
           <div className="flex justify-between items-center">
             <span className="text-sm">Subtotal:</span>
             <span className="text-sm font-medium">
-              ${calculateItemSubtotal().toLocaleString("es-CO", { 
+              ${base.toLocaleString("es-CO", { 
                 minimumFractionDigits: 2 
-              })} COP
+              })} {currency}
             </span>
           </div>
           
-          {item.hasIVA !== false && (
-            <div className="flex justify-between items-center">
-              <span className="text-sm">IVA ({ivaPercentage}%):</span>
-              <span className="text-sm font-medium">
-                ${(calculateItemSubtotal() * (ivaPercentage / 100)).toLocaleString("es-CO", { 
+          {breakdown.lines.map(({ tax, value }) => (
+            <div key={tax.id} className="flex justify-between items-center">
+              <span className="text-sm">{tax.name}:</span>
+              <span className={`text-sm font-medium ${value < 0 ? 'text-red-600' : ''}`}>
+                ${value.toLocaleString("es-CO", { 
                   minimumFractionDigits: 2 
-                })} COP
+                })} {currency}
               </span>
             </div>
-          )}
+          ))}
           
           <div className="flex justify-between items-center border-t pt-2">
             <span className="text-sm font-bold">Total Item:</span>
             <span className="text-sm font-bold text-green-600">
-              ${calculateItemTotal().toLocaleString("es-CO", { 
+              ${total.toLocaleString("es-CO", { 
                 minimumFractionDigits: 2 
-              })} COP
+              })} {currency}
             </span>
           </div>
         </div>
@@ -0,0 +1,269 @@
+import * as React from "react"
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Plus, Send, Trash2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { NumberInput } from "@/components/ui/number-input"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import type { DocumentTypeSiigo } from "@/lib/siigo/document-types"
+import {
+  buildDebitNoteRequest,
+  DebitNoteLine,
+  debitNoteLinesFromPurchase,
+  debitNoteTotal
+} from "@/lib/siigo/debit-notes"
+import { SiigoPaymentTypeCatalogItem, SiigoPurchaseResponse, SiigoTaxCatalogItem } from "@/types/siigo"
+
+type DebitNoteDialogProps = {
+  purchase: SiigoPurchaseResponse | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Se llama cuando Siigo acepta la nota débito, con el nuevo saldo local de la compra */
+  onCreated?: (result: { name: string; balance: number | null }) => void
+}
+
+const formatCOP = (value: number) =>
+  `$${value.toLocaleString("es-CO", { minimumFractionDigits: 2 })} COP`
+
+export function DebitNoteDialog({ purchase, open, onOpenChange, onCreated }: DebitNoteDialogProps) {
+  const [documentType, setDocumentType] = useState<DocumentTypeSiigo | null>(null)
+  const [taxes, setTaxes] = useState<SiigoTaxCatalogItem[]>([])
+  const [paymentTypes, setPaymentTypes] = useState<SiigoPaymentTypeCatalogItem[]>([])
+  const [lines, setLines] = useState<DebitNoteLine[]>([])
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0])
+  const [providerPrefix, setProviderPrefix] = useState("")
+  const [providerNumber, setProviderNumber] = useState("")
+  const [observations, setObservations] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Catálogos necesarios para la nota débito (tipo ND, impuestos y formas de pago)
+  useEffect(() => {
+    if (!open) return
+    Promise.all([
+      fetch("/api/siigo/document-types?type=ND").then(response => response.json()),
+      fetch("/api/siigo/impuestos").then(response => response.json()),
+      fetch("/api/siigo/formas-pago").then(response => response.json())
+    ])
+      .then(([documentTypes, taxCatalog, paymentCatalog]) => {
+        if (!documentTypes.success) throw new Error(documentTypes.error || "Error desconocido")
+        setDocumentType((documentTypes.data as DocumentTypeSiigo[]).find(d => d.active) ?? null)
+        if (taxCatalog.success) setTaxes(taxCatalog.data)
+        if (paymentCatalog.success) setPaymentTypes(paymentCatalog.data)
+      })
+      .catch(error => {
+        console.error("Error cargando catálogos para la nota débito:", error)
+        toast.error("No se pudieron cargar los datos de Siigo para la nota débito", {
+          description: error instanceof Error ? error.message : undefined
+        })
+      })
+  }, [open])
+
+  // Cada compra abierta empieza con sus ítems en cero
+  useEffect(() => {
+    if (!purchase) return
+    setLines(debitNoteLinesFromPurchase(purchase))
+    setProviderPrefix("")
+    setProviderNumber("")
+    setObservations("")
+  }, [purchase])
+
+  if (!purchase) return null
+
+  const total = debitNoteTotal(lines.filter(line => line.quantity > 0), taxes)
+  const paymentTypeId = purchase.payments?.[0]?.id ?? paymentTypes.find(p => p.active !== false)?.id
+
+  const updateLine = (id: string, changes: Partial<DebitNoteLine>) => {
+    setLines(current => current.map(line => line.id === id ? { ...line, ...changes } : line))
+  }
+
+  const addCharge = () => {
+    setLines(current => [
+      ...current,
+      { id: Date.now().toString(), type: "Service", code: "", description: "", quantity: 1, price: 0, taxIds: [] }
+    ])
+  }
+
+  const handleSubmit = async () => {
+    const errors: string[] = []
+    if (!documentType) errors.push("No hay un tipo de documento ND activo en Siigo")
+    if (!providerNumber.trim()) errors.push("El número de la nota del proveedor es requerido")
+    if (!paymentTypeId) errors.push("No hay forma de pago disponible")
+    if (total <= 0) errors.push("Indique al menos un ajuste o cargo con valor")
+    lines.filter(line => line.quantity > 0 && !line.code.trim()).forEach((_, index) => {
+      errors.push(`Cargo ${index + 1}: Código es requerido`)
+    })
+    if (errors.length > 0 || !documentType || !paymentTypeId) {
+      toast.error("Errores en la nota débito", { description: errors.join(", ") })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const payload = buildDebitNoteRequest(purchase, {
+        documentId: documentType.id,
+        date,
+        providerInvoice: { prefix: providerPrefix, number: providerNumber },
+        lines,
+        paymentTypeId,
+        observations
+      }, taxes)
+
+      const response = await fetch("/api/siigo/compras", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload)
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        const missingFields = data?.missingFields?.length ? `\nCampos faltantes: ${data.missingFields.join(", ")}` : ""
+        throw new Error((data?.details?.Message || data?.error || "Error desconocido") + missingFields)
+      }
+
+      toast.success("✅ Nota débito registrada en Siigo", {
+        description: `Número: ${data.name || data.number}`
+      })
+      onCreated?.({ name: data.name || String(data.number), balance: data.balance ?? null })
+      onOpenChange(false)
+    } catch (error) {
+      toast.error("❌ Error al registrar la nota débito", {
+        description: error instanceof Error ? error.message : undefined,
+        duration: 8000
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nota débito de la compra {purchase.name}</DialogTitle>
+          <DialogDescription>
+            Proveedor {purchase.supplier.identification} · Saldo actual {formatCOP(Number(purchase.balance) || 0)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="debit-note-date">Fecha *</Label>
+            <Input
+              id="debit-note-date"
+              type="date"
+              value={date}
+              min={purchase.date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="debit-note-prefix">Prefijo de la nota del proveedor</Label>
+            <Input
+              id="debit-note-prefix"
+              value={providerPrefix}
+              onChange={(e) => setProviderPrefix(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="debit-note-number">Número de la nota del proveedor *</Label>
+            <Input
+              id="debit-note-number"
+              value={providerNumber}
+              onChange={(e) => setProviderNumber(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {lines.map(line => (
+            <div key={line.id} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_1fr_auto] gap-3 items-end border rounded-lg p-3">
+              <div className="space-y-2">
+                <Label>Código</Label>
+                <Input
+                  value={line.code}
+                  onChange={(e) => updateLine(line.id, { code: e.target.value })}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Descripción</Label>
+                <Input
+                  value={line.description}
+                  onChange={(e) => updateLine(line.id, { description: e.target.value })}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Cantidad</Label>
+                <NumberInput
+                  value={line.quantity}
+                  onChange={(value) => updateLine(line.id, { quantity: value === "" ? 0 : Number(value) })}
+                  min={0}
+                  step={1}
+                  allowEmpty={true}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Precio</Label>
+                <NumberInput
+                  value={line.price}
+                  onChange={(value) => updateLine(line.id, { price: value === "" ? 0 : Number(value) })}
+                  min={0}
+                  step={0.01}
+                  allowEmpty={true}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => setLines(current => current.filter(l => l.id !== line.id))}
+                className="text-red-500 hover:text-red-700 disabled:opacity-50 pb-3"
+                disabled={isSubmitting}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={addCharge} disabled={isSubmitting}>
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar cargo
+          </Button>
+        </div>
+
+        <Textarea
+          placeholder="Observaciones (opcional)"
+          value={observations}
+          onChange={(e) => setObservations(e.target.value)}
+          rows={2}
+          disabled={isSubmitting}
+        />
+
+        <div className="text-right text-sm space-y-1">
+          <div>Total nota débito: <span className="font-medium">{formatCOP(total)}</span></div>
+          <div>Saldo después de la nota: <span className="font-medium">{formatCOP((Number(purchase.balance) || 0) + total)}</span></div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancelar</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || total <= 0}>
+            <Send className="mr-2 h-4 w-4" />
+            {isSubmitting ? "Enviando a Siigo..." : "Registrar nota débito"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,174 @@
+import * as React from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { NumberInput } from "@/components/ui/number-input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { InvoicePayment, SiigoPaymentTypeCatalogItem } from "@/types/siigo"
+import { PaymentInstallment, PAYMENT_TERM_PRESETS, paymentsDifference, paymentsMatchTotal } from "@/lib/siigo/payments"
+import { Plus, Save, Trash2 } from "lucide-react"
+
+// Opción del selector de plazos que corresponde a la condición guardada del proveedor
+export const SUPPLIER_TERM_ID = "proveedor"
+
+type InvoicePaymentsFormProps = {
+  payments: InvoicePayment[]
+  paymentTypes: SiigoPaymentTypeCatalogItem[]
+  total: number
+  invoiceDate: string
+  termId: string
+  supplierTerms: PaymentInstallment[] | null
+  onApplyTerm: (termId: string) => void
+  onChange: (payments: InvoicePayment[]) => void
+  onSaveSupplierTerms?: () => void
+  disabled?: boolean
+}
+
+const formatCOP = (value: number) =>
+  `$${value.toLocaleString("es-CO", { minimumFractionDigits: 2 })} COP`
+
+export function InvoicePaymentsForm({
+  payments,
+  paymentTypes,
+  total,
+  invoiceDate,
+  termId,
+  supplierTerms,
+  onApplyTerm,
+  onChange,
+  onSaveSupplierTerms,
+  disabled = false
+}: InvoicePaymentsFormProps) {
+  const activeTypes = paymentTypes.filter(paymentType => paymentType.active !== false)
+  const difference = paymentsDifference(payments, total)
+  const balanced = paymentsMatchTotal(payments, total)
+
+  const updatePayment = (id: string, changes: Partial<InvoicePayment>) => {
+    onChange(payments.map(payment => payment.id === id ? { ...payment, ...changes } : payment))
+  }
+
+  const addPayment = () => {
+    onChange([
+      ...payments,
+      {
+        id: Date.now().toString(),
+        paymentTypeId: payments[payments.length - 1]?.paymentTypeId ?? activeTypes[0]?.id ?? null,
+        value: Math.max(difference, 0),
+        dueDate: invoiceDate
+      }
+    ])
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Plazo de pago</Label>
+          <Select value={termId} onValueChange={onApplyTerm} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue placeholder="Seleccione un plazo" />
+            </SelectTrigger>
+            <SelectContent>
+              {supplierTerms && (
+                <SelectItem value={SUPPLIER_TERM_ID}>
+                  Condición del proveedor ({supplierTerms.map(i => i.days).join('/')} días)
+                </SelectItem>
+              )}
+              {PAYMENT_TERM_PRESETS.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+              ))}
+              <SelectItem value="manual">Manual</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {onSaveSupplierTerms && (
+          <div className="flex items-end">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={onSaveSupplierTerms}
+              disabled={disabled || payments.length === 0 || !balanced}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Guardar como condición del proveedor
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {payments.map((payment, index) => (
+        <div key={payment.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-3 items-end border rounded-lg p-3">
+          <div className="space-y-2">
+            <Label>Forma de pago {index + 1}</Label>
+            <Select
+              value={payment.paymentTypeId ? String(payment.paymentTypeId) : undefined}
+              onValueChange={(value) => updatePayment(payment.id, { paymentTypeId: Number(value) })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccione forma de pago" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeTypes.map(paymentType => (
+                  <SelectItem key={paymentType.id} value={String(paymentType.id)}>
+                    {paymentType.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Valor</Label>
+            <NumberInput
+              value={payment.value}
+              onChange={(value) => updatePayment(payment.id, { value: value === '' ? 0 : Number(value) })}
+              min={0}
+              step={0.01}
+              allowEmpty={true}
+              placeholder="0.00"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Vencimiento</Label>
+            <Input
+              type="date"
+              value={payment.dueDate}
+              min={invoiceDate}
+              onChange={(e) => updatePayment(payment.id, { dueDate: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(payments.filter(p => p.id !== payment.id))}
+            className="text-red-500 hover:text-red-700 disabled:opacity-50 pb-3"
+            disabled={disabled || payments.length === 1}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addPayment} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-2" />
+          Agregar pago
+        </Button>
+        <div className="text-sm space-y-1 text-right">
+          <div>Total factura: <span className="font-medium">{formatCOP(total)}</span></div>
+          <div>Total pagos: <span className="font-medium">{formatCOP(total - difference)}</span></div>
+          {balanced ? (
+            <Badge variant="secondary">Los pagos cuadran con el total</Badge>
+          ) : (
+            <Badge variant="destructive">
+              {difference > 0 ? 'Faltan' : 'Sobran'} {formatCOP(Math.abs(difference))}
+            </Badge>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
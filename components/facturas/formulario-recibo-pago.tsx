@@ -0,0 +1,305 @@
+"use client"
+
+import * as React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { RefreshCw, Send } from "lucide-react"
+import { Autocomplete, type AutocompleteOption } from "@/components/autocomplete"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { NumberInput } from "@/components/ui/number-input"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { DocumentTypeSiigo } from "@/lib/siigo/document-types"
+import {
+  allocationsTotal,
+  getAllocationErrors,
+  PAYMENT_METHODS,
+  purchaseInstallments,
+  type PaymentAllocation,
+  type PaymentMethod,
+  type PurchaseInstallment
+} from "@/lib/siigo/payment-receipts"
+import type { SiigoPaymentTypeCatalogItem, SiigoPurchaseResponse } from "@/types/siigo"
+
+const formatCOP = (value: number) =>
+  `$${value.toLocaleString("es-CO", { minimumFractionDigits: 2 })} COP`
+
+const today = () => new Date().toISOString().split("T")[0]
+
+const installmentKey = (purchaseId: string, quote: number) => `${purchaseId}:${quote}`
+
+export function PaymentReceiptForm() {
+  const [documentType, setDocumentType] = useState<DocumentTypeSiigo | null>(null)
+  const [accounts, setAccounts] = useState<SiigoPaymentTypeCatalogItem[]>([])
+  const [supplier, setSupplier] = useState<AutocompleteOption | null>(null)
+  const [purchases, setPurchases] = useState<SiigoPurchaseResponse[]>([])
+  // Valor a abonar por cuota ("compra:cuota"); las no seleccionadas no aparecen
+  const [selected, setSelected] = useState<Record<string, number>>({})
+  const [accountId, setAccountId] = useState("")
+  const [method, setMethod] = useState<PaymentMethod>("transferencia")
+  const [date, setDate] = useState(today())
+  const [observations, setObservations] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Tipo de documento RP y cuentas de pago de Siigo
+  useEffect(() => {
+    Promise.all([
+      fetch("/api/siigo/document-types?type=RP").then(response => response.json()),
+      fetch("/api/siigo/formas-pago?document_type=RP").then(response => response.json())
+    ])
+      .then(([documentTypes, paymentCatalog]) => {
+        if (!documentTypes.success) throw new Error(documentTypes.error || "Error desconocido")
+        setDocumentType((documentTypes.data as DocumentTypeSiigo[]).find(d => d.active) ?? null)
+        if (paymentCatalog.success) {
+          const active = (paymentCatalog.data as SiigoPaymentTypeCatalogItem[]).filter(p => p.active !== false)
+          setAccounts(active)
+          if (active.length > 0) setAccountId(current => current || String(active[0].id))
+        }
+      })
+      .catch(error => {
+        console.error("Error cargando catálogos para el recibo de pago:", error)
+        toast.error("No se pudieron cargar los datos de Siigo para el recibo de pago", {
+          description: error instanceof Error ? error.message : undefined
+        })
+      })
+  }, [])
+
+  const loadOpenPurchases = useCallback(async (identification: string) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/siigo/recibos-pago?supplier=${encodeURIComponent(identification)}`)
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setPurchases(data.data)
+      setSelected({})
+    } catch (error) {
+      toast.error("No se pudieron consultar las compras abiertas", {
+        description: error instanceof Error ? error.message : undefined
+      })
+      setPurchases([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const handleSupplierSelect = (option: AutocompleteOption | null) => {
+    setSupplier(option)
+    if (option) {
+      loadOpenPurchases(option.codigo)
+    } else {
+      setPurchases([])
+      setSelected({})
+    }
+  }
+
+  const toggleInstallment = (purchase: SiigoPurchaseResponse, installment: PurchaseInstallment, checked: boolean) => {
+    setSelected(current => {
+      const next = { ...current }
+      const key = installmentKey(purchase.id, installment.quote)
+      if (checked) {
+        next[key] = installment.remaining
+      } else {
+        delete next[key]
+      }
+      return next
+    })
+  }
+
+  const allocations: PaymentAllocation[] = Object.entries(selected).map(([key, value]) => {
+    const [purchaseId, quote] = key.split(":")
+    return { purchaseId, quote: Number(quote), value }
+  })
+  const total = allocationsTotal(allocations)
+
+  const handleSubmit = async () => {
+    const errors = getAllocationErrors(purchases, allocations)
+    if (!documentType) errors.push("No hay un tipo de documento RP activo en Siigo")
+    if (!supplier) errors.push("Seleccione un proveedor")
+    if (!accountId) errors.push("Seleccione la cuenta de pago")
+    if (errors.length > 0 || !documentType || !supplier) {
+      toast.error("Errores en el recibo de pago", { description: errors.join(", ") })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/siigo/recibos-pago", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          documentId: documentType.id,
+          date,
+          supplierIdentification: supplier.codigo,
+          paymentTypeId: Number(accountId),
+          method,
+          observations: observations.trim() || undefined,
+          allocations: allocations.filter(allocation => allocation.value > 0)
+        })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        const missingFields = data?.missingFields?.length ? `\nCampos faltantes: ${data.missingFields.join(", ")}` : ""
+        throw new Error((data?.details?.Message || data?.error || "Error desconocido") + missingFields)
+      }
+
+      toast.success("✅ Recibo de pago registrado en Siigo", {
+        description: `Número: ${data.name || data.number} · Total ${formatCOP(total)}`
+      })
+      setObservations("")
+      await loadOpenPurchases(supplier.codigo)
+    } catch (error) {
+      toast.error("❌ Error al registrar el recibo de pago", {
+        description: error instanceof Error ? error.message : undefined,
+        duration: 8000
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Recibo de Pago a Proveedor</CardTitle>
+          <CardDescription>
+            Seleccione las cuotas abiertas de las compras del proveedor y el valor a abonar a cada una.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Autocomplete
+              label="Proveedor"
+              placeholder="Buscar proveedor..."
+              apiEndpoint="/api/proveedores"
+              value={supplier?.nombre || ""}
+              onSelect={handleSupplierSelect}
+              disabled={isSubmitting}
+              required
+            />
+            <div className="space-y-2">
+              <Label htmlFor="receipt-date">Fecha *</Label>
+              <Input
+                id="receipt-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receipt-account">Cuenta de pago *</Label>
+              <Select value={accountId || undefined} onValueChange={setAccountId} disabled={isSubmitting || accounts.length === 0}>
+                <SelectTrigger id="receipt-account">
+                  <SelectValue placeholder="Seleccione la cuenta" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receipt-method">Medio de pago *</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)} disabled={isSubmitting}>
+                <SelectTrigger id="receipt-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {supplier && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Compras abiertas</h3>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => loadOpenPurchases(supplier.codigo)}
+                  disabled={isLoading || isSubmitting}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+                  Actualizar
+                </Button>
+              </div>
+              {purchases.length === 0 && !isLoading && (
+                <p className="text-sm text-muted-foreground">El proveedor no tiene compras con saldo pendiente.</p>
+              )}
+              {purchases.map(purchase => {
+                const installments = purchaseInstallments(purchase).filter(installment => installment.remaining > 0)
+                return (
+                  <div key={purchase.id} className="border rounded-lg p-3 space-y-2">
+                    <div>
+                      <div className="font-medium">{purchase.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {purchase.date}
+                        {purchase.provider_invoice?.number && ` · Factura ${purchase.provider_invoice.prefix || ""}${purchase.provider_invoice.number}`}
+                        {` · Saldo ${formatCOP(Number(purchase.balance) || 0)}`}
+                      </div>
+                    </div>
+                    {installments.map(installment => {
+                      const key = installmentKey(purchase.id, installment.quote)
+                      const isSelected = key in selected
+                      return (
+                        <div key={key} className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_1fr] gap-3 items-center">
+                          <Checkbox
+                            checked={isSelected}
+                            onCheckedChange={(checked) => toggleInstallment(purchase, installment, checked === true)}
+                            disabled={isSubmitting}
+                            aria-label={`Abonar a la cuota ${installment.quote} de ${purchase.name}`}
+                          />
+                          <div className="text-sm">
+                            Cuota {installment.quote} · vence {installment.dueDate}
+                          </div>
+                          <div className="text-sm">Saldo: <span className="font-medium">{formatCOP(installment.remaining)}</span></div>
+                          <NumberInput
+                            value={isSelected ? selected[key] : ""}
+                            onChange={(value) => setSelected(current => ({ ...current, [key]: value === "" ? 0 : Number(value) }))}
+                            min={0}
+                            max={installment.remaining}
+                            step={0.01}
+                            allowEmpty={true}
+                            disabled={isSubmitting || !isSelected}
+                          />
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          <Textarea
+            placeholder="Observaciones (opcional)"
+            value={observations}
+            onChange={(e) => setObservations(e.target.value)}
+            rows={2}
+            disabled={isSubmitting}
+          />
+
+          <div className="flex items-center justify-between">
+            <div className="text-sm">Total a pagar: <span className="font-medium">{formatCOP(total)}</span></div>
+            <Button onClick={handleSubmit} disabled={isSubmitting || total <= 0}>
+              <Send className="mr-2 h-4 w-4" />
+              {isSubmitting ? "Enviando a Siigo..." : "Registrar recibo de pago"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import * as React from "react"
+import { useRef, useState } from "react"
+import { toast } from "sonner"
+import { CheckCircle2, CircleAlert, FileUp, Info } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { prefillFields, type ElectronicInvoicePrefill, type PrefillFieldStatus } from "@/lib/siigo/ubl"
+
+const STATUS_STYLES: Record<PrefillFieldStatus, { icon: typeof Info; className: string; title: string }> = {
+  matched: { icon: CheckCircle2, className: "text-green-600", title: "Encontrado en el catálogo" },
+  read: { icon: Info, className: "text-muted-foreground", title: "Leído de la factura" },
+  not_found: { icon: CircleAlert, className: "text-amber-600", title: "No está en el catálogo: revíselo" },
+  missing: { icon: CircleAlert, className: "text-amber-600", title: "La factura no lo trae" }
+}
+
+interface ElectronicInvoiceImportProps {
+  onImport: (prefill: ElectronicInvoicePrefill) => void
+  disabled?: boolean
+}
+
+// Carga el .xml o .zip de la factura electrónica del proveedor y muestra qué campos se llenaron
+export function ElectronicInvoiceImport({ onImport, disabled }: ElectronicInvoiceImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [prefill, setPrefill] = useState<ElectronicInvoicePrefill | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setIsLoading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const response = await fetch("/api/siigo/compras/factura-electronica", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setPrefill(data.data)
+      onImport(data.data)
+      toast.success("Factura electrónica cargada", { description: `Factura ${data.data.invoice.id}` })
+    } catch (error) {
+      toast.error("No se pudo leer la factura electrónica", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsLoading(false)
+      if (inputRef.current) inputRef.current.value = ""
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Llene el formulario con el XML (o el .zip) de la factura electrónica que envió el proveedor.
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".xml,.zip"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <Button type="button" variant="outline" onClick={() => inputRef.current?.click()} disabled={disabled || isLoading}>
+          <FileUp className="h-4 w-4 mr-2" />
+          {isLoading ? "Leyendo..." : "Cargar factura electrónica"}
+        </Button>
+      </div>
+
+      {prefill && (
+        <ul className="grid grid-cols-1 gap-1 text-sm md:grid-cols-2">
+          {prefillFields(prefill).map((field, index) => {
+            const { icon: Icon, className, title } = STATUS_STYLES[field.status]
+            return (
+              <li key={index} className="flex items-start gap-2" title={title}>
+                <Icon className={`mt-0.5 h-4 w-4 shrink-0 ${className}`} />
+                <span>
+                  <span className="font-medium">{field.label}:</span>{" "}
+                  <span className="break-all">{field.value || "—"}</span>
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import * as React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { FilePen, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { draftTitle, type PurchaseDraftListItem } from "@/lib/siigo/purchase-drafts"
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" })
+
+export function PurchaseDraftList() {
+  const router = useRouter()
+  const [drafts, setDrafts] = useState<PurchaseDraftListItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const loadDrafts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/siigo/compras/borradores")
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setDrafts(data.data)
+    } catch (error) {
+      toast.error("No se pudieron cargar los borradores", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadDrafts()
+  }, [loadDrafts])
+
+  const handleDelete = async (draft: PurchaseDraftListItem) => {
+    if (!window.confirm(`¿Eliminar el borrador "${draftTitle(draft.summary)}"?`)) return
+
+    setDeletingId(draft.id)
+    try {
+      const response = await fetch(`/api/siigo/compras/borradores?id=${draft.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setDrafts(current => current.filter(d => d.id !== draft.id))
+      toast.success("Borrador eliminado")
+    } catch (error) {
+      toast.error("No se pudo eliminar el borrador", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Borradores de Facturas</CardTitle>
+              <CardDescription>
+                El formulario de facturas se guarda automáticamente. Continúe un borrador desde cualquier equipo; al enviarlo a Siigo se elimina.
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => router.push("/facturas")}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nueva factura
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando borradores...</p>
+          ) : drafts.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No tiene borradores guardados</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Proveedor / Factura</TableHead>
+                  <TableHead className="text-right">Ítems</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Última modificación</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drafts.map(draft => (
+                  <TableRow key={draft.id}>
+                    <TableCell className="font-medium">{draftTitle(draft.summary)}</TableCell>
+                    <TableCell className="text-right">{draft.summary.itemsCount}</TableCell>
+                    <TableCell className="text-right">
+                      ${draft.summary.total.toLocaleString("es-CO", { minimumFractionDigits: 2 })} {draft.summary.currency}
+                    </TableCell>
+                    <TableCell>{formatDateTime(draft.updatedAt)}</TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button size="sm" onClick={() => router.push(`/facturas?borrador=${draft.id}`)}>
+                        <FilePen className="h-4 w-4 mr-2" />
+                        Continuar
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDelete(draft)}
+                        disabled={deletingId === draft.id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,259 @@
+"use client"
+
+import * as React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { RefreshCw, Save, UserPlus } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { EMPTY_SUPPORT_SUPPLIER, SupportDocumentSupplierForm } from "./formulario-documento-soporte"
+import {
+  FISCAL_RESPONSIBILITIES,
+  SUPPLIER_CONFLICT_LABELS,
+  type SupplierConflict,
+  type SupplierConflictKind,
+  type SupplierInput
+} from "@/lib/siigo/suppliers"
+import { NOT_RESPONSIBLE_FISCAL_CODE } from "@/lib/siigo/support-documents"
+import type { SiigoSyncState } from "@/lib/siigo/purchases-sync"
+
+const EMPTY_SUPPLIER: SupplierInput = {
+  ...EMPTY_SUPPORT_SUPPLIER,
+  commercialName: "",
+  vatResponsible: false,
+  fiscalResponsibilities: [NOT_RESPONSIBLE_FISCAL_CODE]
+}
+
+// Los que impiden registrar compras van primero y en rojo
+const CONFLICT_VARIANTS: Record<SupplierConflictKind, "destructive" | "outline" | "secondary"> = {
+  missing_in_siigo: "destructive",
+  inactive_in_siigo: "destructive",
+  check_digit_mismatch: "secondary",
+  name_mismatch: "outline",
+  duplicated_locally: "outline"
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" })
+
+function syncSummary(state: SiigoSyncState | null): string {
+  if (!state) return "Nunca se han sincronizado los proveedores con Siigo"
+  if (state.status === "running") return `Sincronizando... ${state.synced_count} terceros descargados`
+  if (state.status === "failed") return `La última sincronización falló: ${state.last_error ?? "error desconocido"}`
+  return state.finished_at
+    ? `${state.synced_count} terceros sincronizados el ${formatDateTime(state.finished_at)}`
+    : "Sin sincronizaciones completas"
+}
+
+export function SiigoSuppliers() {
+  const [state, setState] = useState<SiigoSyncState | null>(null)
+  const [conflicts, setConflicts] = useState<SupplierConflict[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [draft, setDraft] = useState<SupplierInput>(EMPTY_SUPPLIER)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadState = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/siigo/proveedores/sync")
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      setState(data.data.state)
+      setConflicts(data.data.conflicts)
+    } catch (error) {
+      toast.error("No se pudo cargar el estado de los proveedores", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadState()
+  }, [loadState])
+
+  const handleSync = async () => {
+    setIsSyncing(true)
+    try {
+      const response = await fetch("/api/siigo/proveedores/sync", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+      toast.success(`${data.data.synced} terceros sincronizados`, {
+        description: `${data.data.imported} proveedores nuevos en el catálogo, ${data.data.conflicts} conflictos por revisar`
+      })
+    } catch (error) {
+      toast.error("No se pudo sincronizar con Siigo", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsSyncing(false)
+      loadState()
+    }
+  }
+
+  const update = (changes: Partial<SupplierInput>) => setDraft(current => ({ ...current, ...changes }))
+
+  const toggleResponsibility = (code: string, checked: boolean) => {
+    const current = draft.fiscalResponsibilities ?? []
+    update({ fiscalResponsibilities: checked ? [...current, code] : current.filter(item => item !== code) })
+  }
+
+  // Crea el proveedor desde un conflicto "No existe en Siigo" con lo que hay localmente
+  const startFromConflict = (conflict: SupplierConflict) => {
+    setDraft({ ...EMPTY_SUPPLIER, identification: conflict.identification, firstName: conflict.localName ?? "" })
+    document.getElementById("nuevo-proveedor")?.scrollIntoView({ behavior: "smooth" })
+  }
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/siigo/proveedores", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft)
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) throw new Error(data?.error || "Error desconocido")
+
+      toast.success(`Proveedor ${data.data.name} creado en Siigo`)
+      setDraft(EMPTY_SUPPLIER)
+      loadState()
+    } catch (error) {
+      toast.error("No se pudo crear el proveedor", {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Proveedores en Siigo</CardTitle>
+              <CardDescription>
+                La sincronización trae de Siigo los terceros con su tipo de identificación, DV, sucursales, dirección,
+                contactos y responsabilidades fiscales. Los proveedores de Siigo que no están en el catálogo se agregan;
+                los nombres del catálogo no se cambian y las diferencias quedan abajo para revisarlas.
+              </CardDescription>
+            </div>
+            <Button onClick={handleSync} disabled={isSyncing || state?.status === "running"}>
+              <RefreshCw className={`h-4 w-4 mr-2${isSyncing ? " animate-spin" : ""}`} />
+              {isSyncing ? "Sincronizando..." : "Sincronizar con Siigo"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">{isLoading && !state ? "Cargando..." : syncSummary(state)}</p>
+
+          {conflicts.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              {state?.status === "completed" ? "El catálogo local coincide con Siigo" : "No hay conflictos registrados"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Identificación</TableHead>
+                  <TableHead>Catálogo local</TableHead>
+                  <TableHead>Siigo</TableHead>
+                  <TableHead>Conflicto</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conflicts.map((conflict, index) => (
+                  <TableRow key={`${conflict.kind}-${conflict.identification}-${index}`}>
+                    <TableCell className="font-mono">{conflict.identification}</TableCell>
+                    <TableCell>
+                      <div>{conflict.localName ?? "—"}</div>
+                      {conflict.localCode && <div className="text-xs text-muted-foreground">Código {conflict.localCode}</div>}
+                    </TableCell>
+                    <TableCell>{conflict.siigoName ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={CONFLICT_VARIANTS[conflict.kind]}>{SUPPLIER_CONFLICT_LABELS[conflict.kind]}</Badge>
+                      <div className="text-xs text-muted-foreground mt-1">{conflict.detail}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {conflict.kind === "missing_in_siigo" && (
+                        <Button size="sm" variant="outline" onClick={() => startFromConflict(conflict)}>
+                          <UserPlus className="h-4 w-4 mr-2" />
+                          Crear en Siigo
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card id="nuevo-proveedor">
+        <CardHeader>
+          <CardTitle>Nuevo proveedor</CardTitle>
+          <CardDescription>Se crea en Siigo como tercero de tipo proveedor y se agrega al catálogo local.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <SupportDocumentSupplierForm value={draft} onChange={update} disabled={isSaving} />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-commercial-name">Nombre comercial</Label>
+              <Input
+                id="supplier-commercial-name"
+                value={draft.commercialName ?? ""}
+                onChange={(e) => update({ commercialName: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="supplier-vat-responsible"
+                checked={draft.vatResponsible === true}
+                onCheckedChange={(vatResponsible) => update({ vatResponsible })}
+                disabled={isSaving}
+              />
+              <Label htmlFor="supplier-vat-responsible">Responsable de IVA</Label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Responsabilidades fiscales</Label>
+            <div className="flex flex-wrap gap-4">
+              {FISCAL_RESPONSIBILITIES.map(responsibility => (
+                <div key={responsibility.code} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`supplier-fiscal-${responsibility.code}`}
+                    checked={draft.fiscalResponsibilities?.includes(responsibility.code) ?? false}
+                    onCheckedChange={(checked) => toggleResponsibility(responsibility.code, checked === true)}
+                    disabled={isSaving}
+                  />
+                  <Label htmlFor={`supplier-fiscal-${responsibility.code}`}>
+                    {responsibility.code} - {responsibility.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isSaving || !draft.identification || !draft.firstName}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? "Creando..." : "Crear en Siigo"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
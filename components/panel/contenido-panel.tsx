@@ -7,10 +7,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { LogOut, User as UserIcon, Mail, Calendar, Shield, FileText, Upload, Search } from 'lucide-react';
+import { LogOut, User as UserIcon, Mail, Calendar, Shield, FileText, Upload, Search, Wallet, FilePen, FileSpreadsheet, Send, Users } from 'lucide-react';
 import { toast } from 'sonner';
 import { FileUpload } from '../analiticas/subir-archivo';
 import { AnalyticsChart, type DocumentType, type TimeRange } from '../analiticas/AnalyticsChart';
+import CompanySwitcher from './selector-empresa';
 
 interface User {
   email: string;
@@ -160,6 +161,7 @@ export default function DashboardContent({ user }: DashboardContentProps) {
               </Badge>
             </div>
             <div className="flex items-center space-x-4">
+              <CompanySwitcher onChange={() => setRefreshKey(prev => prev + 1)} />
               <div className="flex items-center space-x-2">
                 <Avatar>
                   <AvatarFallback>{userInitials}</AvatarFallback>
@@ -252,6 +254,46 @@ export default function DashboardContent({ user }: DashboardContentProps) {
                 <Search className="h-4 w-4 mr-2" />
                 Consultar Facturas
               </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => router.push('/recibos-pago')}
+              >
+                <Wallet className="h-4 w-4 mr-2" />
+                Recibos de Pago
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => router.push('/borradores')}
+              >
+                <FilePen className="h-4 w-4 mr-2" />
+                Borradores
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => router.push('/carga-masiva')}
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Carga masiva
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => router.push('/cola-envios')}
+              >
+                <Send className="h-4 w-4 mr-2" />
+                Cola de envíos
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => router.push('/proveedores')}
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Proveedores en Siigo
+              </Button>
             </CardContent>
           </Card>
 
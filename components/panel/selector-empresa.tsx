@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Building2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Company } from '@/lib/siigo/companies';
+
+interface CompanySwitcherProps {
+  /** Se llama tras cambiar de empresa para recargar los datos de la pantalla */
+  onChange?: (companyId: string) => void;
+}
+
+// Selector de la empresa con la que se trabaja; solo aparece si hay más de una activa
+export default function CompanySwitcher({ onChange }: CompanySwitcherProps) {
+  const router = useRouter();
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [activeCompanyId, setActiveCompanyId] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/empresas')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Error desconocido');
+        setCompanies((data.data.companies as Company[]).filter(company => company.active));
+        setActiveCompanyId(data.data.activeCompanyId);
+      })
+      .catch(error => console.error('No se pudieron cargar las empresas:', error));
+  }, []);
+
+  const handleChange = async (companyId: string) => {
+    setIsSwitching(true);
+    try {
+      const response = await fetch('/api/empresas/activa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companyId })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data?.error || 'Error desconocido');
+
+      setActiveCompanyId(companyId);
+      toast.success(`Trabajando con ${companies.find(company => company.id === companyId)?.name ?? companyId}`);
+      onChange?.(companyId);
+      router.refresh();
+    } catch (error) {
+      toast.error('No se pudo cambiar de empresa', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  if (companies.length < 2 || !activeCompanyId) return null;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Building2 className="h-4 w-4 text-gray-500" />
+      <Select value={activeCompanyId} onValueChange={handleChange} disabled={isSwitching}>
+        <SelectTrigger className="w-56" aria-label="Empresa">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {companies.map(company => (
+            <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
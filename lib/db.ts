@@ -1,4 +1,5 @@
 import { neon } from '@neondatabase/serverless';
+import { getCurrentCompanyId } from './siigo/companies';
 
 if (!process.env.DATABASE_URL) {
   throw new Error('DATABASE_URL is not defined');
@@ -32,20 +33,25 @@ export interface UploadedFile {
   processed_rows: number;
   uploaded_at: string;
   user_id: number;
+  company_id: string;
 }
 
-export async function getUploadedFiles(userId: number, documentType?: string): Promise<UploadedFile[]> {
+export async function getUploadedFiles(
+  userId: number,
+  documentType?: string,
+  companyId: string = getCurrentCompanyId()
+): Promise<UploadedFile[]> {
   if (documentType) {
     const result = await sql`
       SELECT * FROM uploaded_files 
-      WHERE user_id = ${userId} AND document_type = ${documentType}
+      WHERE user_id = ${userId} AND company_id = ${companyId} AND document_type = ${documentType}
       ORDER BY year DESC, month DESC
     `;
     return result as UploadedFile[];
   }
   const result = await sql`
     SELECT * FROM uploaded_files 
-    WHERE user_id = ${userId}
+    WHERE user_id = ${userId} AND company_id = ${companyId}
     ORDER BY year DESC, month DESC, document_type
   `;
   return result as UploadedFile[];
@@ -55,11 +61,13 @@ export async function checkFileExists(
   userId: number, 
   documentType: string, 
   month: number, 
-  year: number
+  year: number,
+  companyId: string = getCurrentCompanyId()
 ): Promise<boolean> {
   const result = await sql`
     SELECT 1 FROM uploaded_files 
     WHERE user_id = ${userId} 
+      AND company_id = ${companyId}
       AND document_type = ${documentType}
       AND month = ${month}
       AND year = ${year}
@@ -75,13 +83,14 @@ export async function saveUploadedFile(
   month: number, 
   year: number, 
   totalValue: number,
-  processedRows: number
+  processedRows: number,
+  companyId: string = getCurrentCompanyId()
 ): Promise<UploadedFile> {
   const result = await sql`
     INSERT INTO uploaded_files 
-      (user_id, file_name, document_type, month, year, total_value, processed_rows, uploaded_at)
+      (user_id, company_id, file_name, document_type, month, year, total_value, processed_rows, uploaded_at)
     VALUES 
-      (${userId}, ${fileName}, ${documentType}, ${month}, ${year}, ${totalValue}, ${processedRows}, NOW())
+      (${userId}, ${companyId}, ${fileName}, ${documentType}, ${month}, ${year}, ${totalValue}, ${processedRows}, NOW())
     RETURNING *
   `;
   return (result as UploadedFile[])[0];
@@ -0,0 +1,130 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+
+import { sql } from '@/lib/db';
+import { auditBody, replayBlocker, runWithSiigoAudit, SIIGO_AUDIT_MAX_BODY_CHARS, SiigoAuditEntry } from '../audit';
+import { replaySiigoAuditRecord, SiigoAuditReplayError } from '../audit-store';
+import { SiigoClient } from '../client';
+
+const purchase = {
+  document: { id: 24 },
+  date: '2026-01-15',
+  supplier: { identification: '900123456', branch_office: 0 },
+  provider_invoice: { prefix: 'FE', number: '1024' },
+  items: [{ type: 'Product', code: '1001', quantity: 1, price: 1000 }],
+  payments: [{ id: 71, value: 1000, due_date: '2026-01-15' }]
+};
+
+const auditRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 7, correlation_id: 'c-1', user_email: 'compras@gmail.com', method: 'POST', endpoint: 'purchases', attempt: 1,
+  payload: purchase, status: 500, response: { message: 'Error' }, duration_ms: 120, error: null, replay_of: null,
+  created_at: '2026-01-15T15:00:00Z', ...overrides
+});
+
+describe('Siigo audit log', () => {
+  const jsonResponse = (status: number, data: unknown) => ({
+    ok: status < 400,
+    status,
+    statusText: '',
+    headers: { get: () => null },
+    json: async () => data,
+    text: async () => JSON.stringify(data)
+  });
+
+  beforeEach(() => {
+    global.fetch = jest.fn() as jest.Mock;
+  });
+
+  it('should redact credentials at any depth and truncate large bodies', () => {
+    expect(auditBody({ username: 'api@empresa.com', access_key: 'secreta', nested: [{ Authorization: 'Bearer x', token: '' }] }))
+      .toEqual({ username: 'api@empresa.com', access_key: '[REDACTED]', nested: [{ Authorization: '[REDACTED]', token: '' }] });
+    expect(auditBody(undefined)).toBeNull();
+
+    const large = auditBody({ results: 'x'.repeat(SIIGO_AUDIT_MAX_BODY_CHARS) }) as Record<string, unknown>;
+    expect(large).toMatchObject({ truncated: true });
+    expect(String(large.preview)).toHaveLength(SIIGO_AUDIT_MAX_BODY_CHARS);
+  });
+
+  it('should record every attempt with the user and a shared correlation id', async () => {
+    const entries: SiigoAuditEntry[] = [];
+    const client = new SiigoClient({
+      apiUrl: 'https://siigo.test/v1',
+      authUrl: 'https://siigo.test/auth',
+      username: 'api@empresa.com',
+      accessKey: 'secreta',
+      partnerId: 'test-partner',
+      retryDelayMs: 0,
+      auditor: entry => {
+        entries.push(entry);
+      }
+    });
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(200, { access_token: 'token-123', expires_in: 86400 }))
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Too many requests' }))
+      .mockResolvedValueOnce(jsonResponse(201, { id: 'p-1', name: 'FC-24-10' }));
+
+    await runWithSiigoAudit({ userEmail: 'compras@gmail.com', correlationId: 'req-1' }, () => client.post('purchases', purchase));
+
+    expect(entries.map(e => [e.method, e.endpoint, e.attempt, e.status])).toEqual([
+      ['POST', 'auth', 1, 200],
+      ['POST', 'purchases', 1, 429],
+      ['POST', 'purchases', 2, 201]
+    ]);
+    expect(entries.every(e => e.correlationId === 'req-1' && e.userEmail === 'compras@gmail.com')).toBe(true);
+    expect(entries[0].payload).toEqual({ username: 'api@empresa.com', access_key: '[REDACTED]' });
+    expect(entries[0].response).toEqual({ access_token: '[REDACTED]', expires_in: 86400 });
+    expect(entries[2].payload).toEqual(purchase);
+  });
+
+  it('should not fail the Siigo call when the audit cannot be saved', async () => {
+    const client = new SiigoClient({
+      apiUrl: 'https://siigo.test/v1',
+      authUrl: 'https://siigo.test/auth',
+      username: 'user',
+      accessKey: 'key',
+      auditor: () => Promise.reject(new Error('sin base de datos'))
+    });
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(200, { access_token: 'token-123' }))
+      .mockResolvedValueOnce(jsonResponse(200, [{ id: 1 }]));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(client.get('taxes')).resolves.toEqual([{ id: 1 }]);
+  });
+
+  it('should only allow replaying failed document creations', () => {
+    expect(replayBlocker({ method: 'POST', endpoint: 'purchases', status: 400, payload: purchase })).toBeNull();
+    expect(replayBlocker({ method: 'POST', endpoint: 'purchases', status: null, payload: purchase })).toBeNull();
+    expect(replayBlocker({ method: 'POST', endpoint: 'purchases', status: 201, payload: purchase })).toBe('La llamada no falló');
+    expect(replayBlocker({ method: 'GET', endpoint: 'purchases?page=1', status: 500, payload: null })).not.toBeNull();
+    expect(replayBlocker({ method: 'POST', endpoint: 'auth', status: 401, payload: { access_key: '[REDACTED]' } })).not.toBeNull();
+    expect(replayBlocker({ method: 'POST', endpoint: 'customers', status: 400, payload: { token: '[REDACTED]' } }))
+      .toBe('El cuerpo tiene datos ocultos y no se puede reenviar tal cual');
+  });
+
+  it('should replay a failed purchase unless it already reached Siigo', async () => {
+    const sqlMock = sql as unknown as jest.Mock;
+    const client = {
+      forEachPage: jest.fn().mockResolvedValue(0),
+      post: jest.fn().mockResolvedValue({ id: 'p-1', name: 'FC-24-10' })
+    };
+    const replay = () => replaySiigoAuditRecord(7, 'admin@gmail.com', client as unknown as SiigoClient);
+
+    // Registro, espejo local sin la factura y estado de sincronización
+    sqlMock.mockResolvedValueOnce([auditRow()]).mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+    await expect(replay()).resolves.toEqual({ id: 'p-1', name: 'FC-24-10' });
+    expect(client.post).toHaveBeenCalledWith('purchases', purchase);
+
+    sqlMock.mockResolvedValueOnce([auditRow()]).mockResolvedValueOnce([{
+      raw: { id: 'p-1', name: 'FC-24-10', date: '2026-01-15', total: 1000, supplier: { identification: '900123456' }, provider_invoice: { prefix: 'FE', number: '1024' } }
+    }]).mockResolvedValueOnce([]);
+    await expect(replay()).rejects.toMatchObject({ status: 409 });
+
+    sqlMock.mockResolvedValueOnce([auditRow({ status: 201 })]);
+    await expect(replay()).rejects.toThrow(SiigoAuditReplayError);
+
+    sqlMock.mockResolvedValueOnce([]);
+    await expect(replay()).rejects.toMatchObject({ status: 404 });
+    expect(client.post).toHaveBeenCalledTimes(1);
+    sqlMock.mockReset();
+  });
+});
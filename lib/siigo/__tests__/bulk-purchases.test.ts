@@ -0,0 +1,227 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+
+import * as XLSX from 'xlsx';
+import type { SiigoTaxCatalogItem } from '@/types/siigo';
+import { sql } from '@/lib/db';
+import { SiigoApiError } from '../api';
+import {
+  BULK_INVOICES_SHEET,
+  BULK_LINES_SHEET,
+  BulkPurchaseCatalogs,
+  bulkPurchaseStatus,
+  parseBulkPurchaseRows,
+  prepareBulkPurchases
+} from '../bulk-purchases';
+import { submitBulkPurchases } from '../bulk-purchases-store';
+import { createBulkPurchaseTemplate, readBulkPurchaseWorkbook } from '../bulk-purchases-workbook';
+import type { SiigoClient } from '../client';
+import type { DocumentTypeSiigo } from '../document-types';
+import { DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE } from '../duplicates';
+import { DEFAULT_FISCAL_PARAMETERS } from '../fiscal-parameters';
+
+const taxes: SiigoTaxCatalogItem[] = [
+  { id: 1, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true },
+  { id: 2, name: 'Retefuente 2.5%', type: 'Retefuente', percentage: 2.5, active: true },
+  { id: 3, name: 'ReteIVA 15%', type: 'ReteIVA', percentage: 15, active: true }
+];
+
+const documentType = {
+  id: 24, name: 'Factura de compra', type: 'FC', active: true, cost_center: true, cost_center_mandatory: false,
+  automatic_number: true, reteiva: true, reteica: true, document_support: false
+} as DocumentTypeSiigo;
+
+const catalogs: BulkPurchaseCatalogs = {
+  suppliers: [{ codigo: '900123456', nombre: 'Distribuidora Andina', identification: '900123456' }],
+  products: [{ codigo: '1001', nombre: 'Resma de papel' }],
+  assets: [],
+  supplierTerms: { '900123456': { paymentTypeId: 71, installments: [{ days: 30, percentage: 100 }] } },
+  documentTypes: [documentType],
+  taxes,
+  paymentTypes: [{ id: 71, name: 'Crédito', type: 'Cartera', active: true, due_date: true }],
+  costCenters: [],
+  fiscalParameters: { 2026: DEFAULT_FISCAL_PARAMETERS.find(p => p.year === 2026)! },
+  exchangeRates: {}
+};
+
+const invoiceRow = (overrides: Record<string, unknown> = {}) => ({
+  Referencia: 'F1', Proveedor: '900123456', Prefijo: 'FE', Número: '1024', Fecha: '2026-01-15', ...overrides
+});
+
+const lineRow = (overrides: Record<string, unknown> = {}) => ({
+  Referencia: 'F1', Código: '1001', Cantidad: 2, Precio: 1000000, IVA: 19, 'Concepto Retención': 'compras', ...overrides
+});
+
+describe('Bulk purchases', () => {
+  it('should group lines under their invoice and report format errors by row', () => {
+    const { purchases, errors } = parseBulkPurchaseRows(
+      [invoiceRow(), invoiceRow({ Referencia: 'F2', Fecha: '31/02', CUFE: 'abc123', Moneda: 'GBP' }), invoiceRow()],
+      [lineRow(), lineRow({ Referencia: 'F3' }), lineRow({ Referencia: 'F2', Cantidad: 0 })]
+    );
+
+    expect(purchases.map(p => [p.reference, p.lines.length])).toEqual([['F1', 1], ['F2', 1]]);
+    expect(purchases[1].errors.map(e => [e.sheet, e.row, e.field])).toEqual([
+      [BULK_INVOICES_SHEET, 3, 'Fecha'],
+      [BULK_INVOICES_SHEET, 3, 'CUFE'],
+      [BULK_INVOICES_SHEET, 3, 'Moneda'],
+      [BULK_LINES_SHEET, 4, 'Cantidad']
+    ]);
+    expect(errors.map(e => e.message)).toEqual([
+      'La referencia F1 está repetida',
+      'No hay factura con referencia F3'
+    ]);
+  });
+
+  it('should build the purchase with IVA, withholdings and the supplier payment term', () => {
+    const { purchases } = parseBulkPurchaseRows([invoiceRow()], [lineRow()]);
+    const [preview] = prepareBulkPurchases(purchases, catalogs);
+
+    expect(preview.errors).toEqual([]);
+    expect(preview.total).toBe(2273000);
+    expect(preview.request).toMatchObject({
+      document: { id: 24 },
+      supplier: { identification: '900123456', branch_office: 0 },
+      provider_invoice: { prefix: 'FE', number: '1024' },
+      items: [{ type: 'Product', code: '1001', description: 'Resma de papel', taxes: [{ id: 1 }, { id: 2 }, { id: 3 }] }],
+      payments: [{ id: 71, value: 2273000, due_date: '2026-02-14' }]
+    });
+    expect(bulkPurchaseStatus(preview)).toBe('ready');
+  });
+
+  it('should convert foreign-currency bases to pesos before comparing them with the withholding minimums', () => {
+    const usd = invoiceRow({ Moneda: 'USD', 'Tasa Cambio': 4000 });
+    const { purchases } = parseBulkPurchaseRows(
+      [usd, { ...usd, Referencia: 'F2', Número: '1025' }],
+      [lineRow({ Precio: 500 }), lineRow({ Referencia: 'F2', Precio: 100 })]
+    );
+    const [above, below] = prepareBulkPurchases(purchases, catalogs);
+
+    // 1.000 USD son 4.000.000 de pesos, sobre la base de 27 UVT; 200 USD no la alcanzan
+    expect(above.request?.items[0].taxes).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(above.request?.currency).toEqual({ code: 'USD', exchange_rate: 4000 });
+    expect(below.request?.items[0].taxes).toEqual([{ id: 1 }]);
+  });
+
+  it('should reject unknown catalog entries and invoices repeated in the file', () => {
+    const { purchases } = parseBulkPurchaseRows(
+      [invoiceRow(), invoiceRow({ Referencia: 'F2', Número: '01024' }), invoiceRow({ Referencia: 'F3', Proveedor: '800111222' })],
+      [lineRow(), lineRow({ Referencia: 'F2' }), lineRow({ Referencia: 'F3', Código: '9999', IVA: 8 })]
+    );
+    const previews = prepareBulkPurchases(purchases, catalogs);
+
+    expect(previews.map(bulkPurchaseStatus)).toEqual(['ready', 'invalid', 'invalid']);
+    expect(previews[1].errors.map(e => e.message)).toEqual(['La factura FE-01024 ya está en el archivo con la referencia F1']);
+    expect(previews[2].errors.map(e => e.message)).toEqual([
+      'El proveedor 800111222 no está en el catálogo',
+      'El producto 9999 no está en el catálogo',
+      'No existe en Siigo un IVA del 8%',
+      'La forma de pago es requerida si el proveedor no tiene un plazo guardado'
+    ]);
+  });
+
+  it('should read back the downloadable template', () => {
+    const template = createBulkPurchaseTemplate();
+    const { purchases, errors } = readBulkPurchaseWorkbook(template);
+
+    expect(errors).toEqual([]);
+    expect(purchases).toHaveLength(1);
+    expect(purchases[0]).toMatchObject({ reference: 'F1', supplier: '900123456', date: '2026-01-15', dueDays: 30 });
+    expect(purchases[0].lines).toHaveLength(1);
+  });
+
+  it('should report missing sheets and read Excel date cells', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Referencia']]), 'Hoja1');
+    expect(readBulkPurchaseWorkbook(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })).errors.map(e => e.sheet))
+      .toEqual([BULK_INVOICES_SHEET, BULK_LINES_SHEET]);
+
+    // 46037 es el serial de Excel del 15/01/2026
+    const { purchases } = parseBulkPurchaseRows([invoiceRow({ Fecha: 46037 })], [lineRow()]);
+    expect(purchases[0].date).toBe('2026-01-15');
+  });
+
+  it('should report each invoice as created, queued, failed or skipped', async () => {
+    const sqlMock = sql as unknown as jest.Mock;
+    // La cola devuelve la fila con el estado que se le asigna; las demás consultas no encuentran nada
+    sqlMock.mockImplementation(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      if (!strings.join('').includes('siigo_outbox')) return [];
+      const status = ['pending', 'failed', 'needs_attention'].includes(values[0] as string) ? values[0] : 'processing';
+      const submission = values.find(value => typeof value === 'string' && value.startsWith('{"kind"'));
+      return [{
+        id: 7, status, submission: submission ? JSON.parse(submission as string) : {}, attempts: 1, next_attempt_at: '2026-01-15T15:00:00Z',
+        last_error: status === 'pending' ? 'Service unavailable' : null,
+        created_by: 'compras@gmail.com', created_at: '2026-01-15T15:00:00Z', updated_at: '2026-01-15T15:00:00Z'
+      }];
+    });
+    const { purchases } = parseBulkPurchaseRows(
+      [invoiceRow(), invoiceRow({ Referencia: 'F2', Número: '1025' }), invoiceRow({ Referencia: 'F4', Número: '1026' })],
+      [lineRow(), lineRow({ Referencia: 'F2' }), lineRow({ Referencia: 'F4' })]
+    );
+    const [first, second, fourth] = prepareBulkPurchases(purchases, catalogs);
+    const client = {
+      get: jest.fn().mockResolvedValue([documentType]),
+      forEachPage: jest.fn().mockResolvedValue(0),
+      post: jest.fn()
+        .mockResolvedValueOnce({ id: 'p-1', name: 'FC-24-10', number: 10 })
+        .mockRejectedValueOnce(new SiigoApiError('Bad Request', 400, { Errors: [{ Code: 'invalid', Message: 'El producto no existe' }] }))
+        .mockRejectedValueOnce(new SiigoApiError('Service unavailable', 503))
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const results = await submitBulkPurchases(
+      [
+        { reference: 'F1', request: first.request },
+        { reference: 'F2', request: second.request },
+        { reference: 'F3', request: null },
+        { reference: 'F4', request: fourth.request }
+      ],
+      'compras@gmail.com',
+      client as unknown as SiigoClient
+    );
+
+    expect(results.map(r => [r.reference, r.status, r.message])).toEqual([
+      ['F1', 'created', 'Compra FC-24-10 creada'],
+      ['F2', 'failed', 'El producto no existe'],
+      ['F3', 'skipped', 'La factura tiene errores en el archivo'],
+      ['F4', 'queued', 'Quedó en la cola de envíos (#7): Service unavailable']
+    ]);
+    // Cada factura se guarda en la cola antes de enviarla y la rechazada se cancela
+    const outboxQueries = sqlMock.mock.calls.map(([strings]) => (strings as string[]).join('?')).filter(query => query.includes('siigo_outbox'));
+    expect(outboxQueries.filter(query => query.includes('INSERT INTO siigo_outbox'))).toHaveLength(3);
+    expect(outboxQueries.some(query => query.includes("status = 'cancelled'"))).toBe(true);
+    expect(client.get).toHaveBeenCalledTimes(1);
+    sqlMock.mockReset();
+  });
+
+  it('should warn in the result when the duplicate lookup could not review all of Siigo', async () => {
+    const sqlMock = sql as unknown as jest.Mock;
+    sqlMock.mockImplementation(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      if (!strings.join('').includes('siigo_outbox')) return [];
+      const submission = values.find(value => typeof value === 'string' && value.startsWith('{"kind"'));
+      return [{
+        id: 8, status: 'processing', submission: submission ? JSON.parse(submission as string) : {}, attempts: 1,
+        next_attempt_at: '2026-01-15T15:00:00Z', created_by: 'compras@gmail.com',
+        created_at: '2026-01-15T15:00:00Z', updated_at: '2026-01-15T15:00:00Z'
+      }];
+    });
+    const { purchases } = parseBulkPurchaseRows([invoiceRow()], [lineRow()]);
+    const [first] = prepareBulkPurchases(purchases, catalogs);
+    const client = {
+      get: jest.fn().mockResolvedValue([documentType]),
+      forEachPage: jest.fn().mockResolvedValue(5),
+      post: jest.fn().mockResolvedValueOnce({ id: 'p-1', name: 'FC-24-10', number: 10 })
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const [result] = await submitBulkPurchases(
+      [{ reference: 'F1', request: first.request }],
+      'compras@gmail.com',
+      client as unknown as SiigoClient
+    );
+
+    expect(result).toMatchObject({ status: 'created', message: `Compra FC-24-10 creada. ${DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE}` });
+    sqlMock.mockReset();
+  });
+});
@@ -0,0 +1,144 @@
+import { spawn, ChildProcess } from 'child_process';
+import path from 'path';
+import { SiigoClient } from '../client';
+import { SiigoApiError } from '../api';
+import { SiigoScheduler } from '../scheduler';
+import { crearDocumentoSoporteSiigo, crearReciboPagoSiigo } from '../purchaseApi';
+import { buildPaymentReceiptRequest } from '../payment-receipts';
+import type { SiigoPurchaseRequest, SiigoPurchaseResponse } from '@/types/siigo';
+
+// Pruebas de integración del cliente contra scripts/siigo-mock-server.mjs
+describe('SiigoClient contra el mock local', () => {
+  const port = 4600 + Math.floor(Math.random() * 300);
+  const baseUrl = `http://127.0.0.1:${port}`;
+  let server: ChildProcess;
+  let client: SiigoClient;
+
+  const compra: SiigoPurchaseRequest = {
+    document: { id: 27524 },
+    date: '2026-01-15',
+    supplier: { identification: '900123456', branch_office: 0 },
+    provider_invoice: { prefix: 'FV', number: '1001' },
+    items: [{ type: 'Product', code: 'P-01', description: 'Producto', quantity: 2, price: 50000, taxes: [{ id: 18384 }] }],
+    payments: [{ id: 8467, value: 119000, due_date: '2026-02-15' }],
+  };
+
+  const injectFault = (fault: Record<string, unknown>) =>
+    fetch(`${baseUrl}/__mock/faults`, { method: 'POST', body: JSON.stringify(fault) });
+
+  beforeAll(async () => {
+    server = spawn(process.execPath, [path.join(process.cwd(), 'scripts/siigo-mock-server.mjs')], {
+      env: { ...process.env, SIIGO_MOCK_PORT: String(port) },
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.stdout?.on('data', (chunk) => {
+        if (String(chunk).includes('escuchando')) resolve();
+      });
+      server.on('error', reject);
+      server.on('exit', (code) => reject(new Error(`El mock terminó con código ${code}`)));
+    });
+  });
+
+  afterAll(() => {
+    server?.kill();
+  });
+
+  beforeEach(async () => {
+    await fetch(`${baseUrl}/__mock/reset`, { method: 'POST' });
+    client = new SiigoClient({
+      apiUrl: `${baseUrl}/v1`,
+      authUrl: `${baseUrl}/auth`,
+      username: 'mock',
+      accessKey: 'mock',
+      partnerId: 'test-partner',
+      retryDelayMs: 0,
+      // El mock no limita peticiones: sin cuota para que las pruebas no esperen
+      scheduler: new SiigoScheduler({ requestsPerMinute: 60_000, burst: 1000 }),
+    });
+  });
+
+  it('crea una compra y la lista paginada', async () => {
+    const creada = await client.post<{ id: string; name: string; total: number }>('purchases', compra);
+    expect(creada.name).toBe('FC-1-1');
+    expect(creada.total).toBe(119000);
+
+    const compras = await client.getAllPages<{ id: string }>('purchases', {}, { pageSize: 1 });
+    expect(compras.map((c) => c.id)).toEqual([creada.id]);
+  });
+
+  it('despeja la base cuando los precios traen el IVA incluido', async () => {
+    const creada = await client.post<SiigoPurchaseResponse>('purchases', {
+      ...compra,
+      provider_invoice: { prefix: 'FE', number: 'IVA-INC' },
+      tax_included: true,
+      items: [{ ...compra.items[0], price: 59500 }]
+    });
+
+    expect(creada.total).toBe(119000);
+    expect(creada.items[0].taxes?.[0].value).toBe(19000);
+  });
+
+  it('devuelve errores de validación con Params', async () => {
+    const error = await client
+      .post('purchases', { ...compra, payments: [{ id: 8467, value: 1000, due_date: '2026-02-15' }] })
+      .catch((e: SiigoApiError) => e) as SiigoApiError;
+
+    expect(error).toBeInstanceOf(SiigoApiError);
+    expect(error.code).toBe(400);
+    expect(error.details).toMatchObject({ Errors: [{ Params: ['payments'] }] });
+  });
+
+  it('crea el proveedor y emite un documento soporte', async () => {
+    const supplier = {
+      idType: '13' as const,
+      identification: '1020304050',
+      firstName: 'Ana',
+      lastName: 'Pérez',
+      address: 'Calle 1 # 2-3',
+      cityCode: '11001',
+    };
+    const documento = { ...compra, document: { id: 27540 }, supplier: { identification: '', branch_office: 0 } };
+
+    const creado = await crearDocumentoSoporteSiigo(documento, supplier, client);
+    expect(creado.name).toBe('DS-1-1');
+    expect(creado.stamp?.status).toBe('Accepted');
+    expect(creado.provider_invoice).toBeUndefined();
+
+    // El segundo documento reutiliza el tercero ya creado
+    await crearDocumentoSoporteSiigo(documento, supplier, client);
+    const estado = await fetch(`${baseUrl}/__mock/state`).then((r) => r.json());
+    expect(estado).toMatchObject({ purchases: 2, customers: 1 });
+  });
+
+  it('abona parcialmente una compra con un recibo de pago', async () => {
+    const creada = await client.post<SiigoPurchaseResponse>('purchases', compra);
+    const draft = {
+      documentId: 27550,
+      date: '2026-02-01',
+      paymentTypeId: 8480,
+      method: 'transferencia' as const,
+      allocations: [{ purchaseId: creada.id, quote: 1, value: 19000 }],
+    };
+
+    const recibo = await crearReciboPagoSiigo(buildPaymentReceiptRequest(creada.supplier, [creada], draft), client);
+    expect(recibo.name).toBe('RP-1-1');
+    const actualizada = await client.get<SiigoPurchaseResponse>(`purchases/${creada.id}`);
+    expect(actualizada.balance).toBe(100000);
+
+    // Un segundo abono por más del saldo restante se rechaza
+    const error = await crearReciboPagoSiigo(
+      buildPaymentReceiptRequest(creada.supplier, [actualizada], { ...draft, allocations: [{ purchaseId: creada.id, quote: 1, value: 100001 }] }),
+      client
+    ).catch((e: SiigoApiError) => e) as SiigoApiError;
+    expect(error.details).toMatchObject({ Errors: [{ Params: ['items[0].value'] }] });
+  });
+
+  it('renueva el token tras un 401 y reintenta un 429', async () => {
+    await client.get('taxes');
+    await injectFault({ status: 401, path: '/v1/cost-centers', times: 1 });
+    await injectFault({ status: 429, path: '/v1/cost-centers', times: 1, retryAfter: 0 });
+
+    const centros = await client.get<unknown[]>('cost-centers');
+    expect(centros.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { SiigoAuthError, SiigoClient, SiigoCompanyCredentials } from '../client';
+import { getCurrentCompanyId, runWithCompany } from '../companies';
+import { decryptSecret, encryptSecret, SiigoCredentialsError } from '../credentials';
+import { SiigoScheduler } from '../scheduler';
+
+describe('company credentials', () => {
+  const secret = 'llave-de-prueba';
+
+  it('should encrypt access keys with a random IV and decrypt them back', () => {
+    const first = encryptSecret('access-key-123', secret);
+    const second = encryptSecret('access-key-123', secret);
+
+    expect(first).toMatch(/^v1:/);
+    expect(first).not.toContain('access-key-123');
+    expect(first).not.toBe(second);
+    expect(decryptSecret(first, secret)).toBe('access-key-123');
+  });
+
+  it('should reject tampered values and values encrypted with another key', () => {
+    const encrypted = encryptSecret('access-key-123', secret);
+    const [version, iv, tag] = encrypted.split(':');
+    const tampered = [version, iv, tag, Buffer.from('otra-cosa').toString('base64')].join(':');
+
+    expect(() => decryptSecret(tampered, secret)).toThrow(SiigoCredentialsError);
+    expect(() => decryptSecret(encrypted, 'otra-llave')).toThrow(SiigoCredentialsError);
+    expect(() => decryptSecret('texto-plano', secret)).toThrow('no tienen un formato válido');
+  });
+});
+
+describe('SiigoClient per company', () => {
+  const response = (data: unknown) => ({
+    ok: true,
+    status: 200,
+    statusText: '',
+    headers: { get: () => null },
+    json: async () => data,
+    text: async () => JSON.stringify(data)
+  });
+
+  const stored: Record<string, SiigoCompanyCredentials> = {
+    norte: { username: 'norte@empresa.co', accessKey: 'key-norte', partnerId: 'PartnerNorte' },
+    sur: { username: 'sur@empresa.co', accessKey: 'key-sur', partnerId: null }
+  };
+
+  const createClient = () => new SiigoClient({
+    apiUrl: 'https://siigo.test/v1',
+    authUrl: 'https://siigo.test/auth',
+    username: 'env@empresa.co',
+    accessKey: 'key-env',
+    partnerId: 'PartnerEnv',
+    retryDelayMs: 0,
+    scheduler: new SiigoScheduler({ requestsPerMinute: 60_000, burst: 100 }),
+    credentials: async companyId => stored[companyId] ?? null
+  });
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/auth')) {
+        const { username } = JSON.parse(init.body as string);
+        return response({ access_token: `token-${username}`, expires_in: 86400 });
+      }
+      return response({ results: [] });
+    }) as unknown as typeof fetch;
+  });
+
+  it('should authenticate and cache a token per company with its own Partner-Id', async () => {
+    const client = createClient();
+
+    await runWithCompany('norte', () => client.get('purchases'));
+    await runWithCompany('sur', () => client.get('purchases'));
+    await runWithCompany('norte', () => client.get('purchases'));
+
+    const calls = (global.fetch as jest.Mock).mock.calls as Array<[string, RequestInit]>;
+    const headers = (index: number) => calls[index][1].headers as Record<string, string>;
+
+    expect(calls.filter(([url]) => url.endsWith('/auth'))).toHaveLength(2);
+    expect(headers(1)).toMatchObject({ 'Authorization': 'Bearer token-norte@empresa.co', 'Partner-Id': 'PartnerNorte' });
+    // Sin Partner-Id guardado se usa el de la configuración
+    expect(headers(3)).toMatchObject({ 'Authorization': 'Bearer token-sur@empresa.co', 'Partner-Id': 'PartnerEnv' });
+    expect(headers(4)).toMatchObject({ 'Authorization': 'Bearer token-norte@empresa.co' });
+  });
+
+  it('should use the environment credentials only for the default company', async () => {
+    const client = createClient();
+
+    expect(getCurrentCompanyId()).toBe('default');
+    await client.get('purchases');
+    expect((global.fetch as jest.Mock).mock.calls[0][1].body).toContain('env@empresa.co');
+
+    await expect(runWithCompany('sin-credenciales', () => client.get('purchases'))).rejects.toThrow(SiigoAuthError);
+  });
+});
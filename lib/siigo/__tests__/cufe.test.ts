@@ -0,0 +1,109 @@
+import type { SiigoPurchaseRequest } from '@/types/siigo';
+import {
+  computeCufe,
+  CufeFields,
+  cufeSource,
+  isCufeFormatValid,
+  purchaseCufeDifferences,
+  verifyCufe,
+  withPurchaseDifferences
+} from '../cufe';
+import { parseUblInvoice } from '../ubl';
+
+// Ejemplo del anexo técnico de factura electrónica de la DIAN
+const fields: CufeFields = {
+  number: '323200000129',
+  issueDate: '2019-01-16',
+  issueTime: '10:53:10-05:00',
+  subtotal: 1500000,
+  taxes: { iva: 285000, inc: 0, ica: 0 },
+  total: 1785000,
+  supplierNit: '700085371',
+  customerId: '800199436',
+  environment: '1'
+};
+const technicalKey = '693ff6f2a553c3646a063436fd4dd9ded0311471';
+const cufe = '8bb918b19ba22a694f1da11c643b5e9de39adf60311cf179179e9b33381030bcd4c3c3f156c506ed5908f9276f5bd9b4';
+
+describe('CUFE verification', () => {
+  it('should compute the CUFE of the DIAN technical annex example', async () => {
+    expect(cufeSource(fields, technicalKey)).toBe(
+      '3232000001292019-01-1610:53:10-05:001500000.0001285000.00040.00030.001785000.00700085371800199436' +
+      '693ff6f2a553c3646a063436fd4dd9ded03114711'
+    );
+    await expect(computeCufe(fields, technicalKey)).resolves.toBe(cufe);
+  });
+
+  it('should check the format of typed CUFEs', async () => {
+    expect(isCufeFormatValid(cufe.toUpperCase())).toBe(true);
+    expect(isCufeFormatValid(cufe.slice(1))).toBe(false);
+    await expect(verifyCufe('  ')).resolves.toBeNull();
+    await expect(verifyCufe('FE-1024')).resolves.toMatchObject({ status: 'invalid_format' });
+    await expect(verifyCufe(cufe)).resolves.toMatchObject({ status: 'format_only', expected: null });
+    await expect(verifyCufe(cufe, fields)).resolves.toMatchObject({ status: 'format_only' });
+  });
+
+  it('should detect a CUFE that does not match the invoice data', async () => {
+    await expect(verifyCufe(cufe.toUpperCase(), fields, technicalKey)).resolves.toMatchObject({ status: 'verified', expected: cufe });
+    await expect(verifyCufe(cufe, { ...fields, total: 1795000 }, technicalKey))
+      .resolves.toMatchObject({ status: 'mismatch', expected: expect.not.stringMatching(cufe) });
+  });
+
+  it('should flag a purchase that drifted from the XML beyond rounding', async () => {
+    const catalog = [{ id: 1, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true }];
+    const purchase: SiigoPurchaseRequest = {
+      document: { id: 24 },
+      date: '2019-01-20',
+      supplier: { identification: '700085371', branch_office: 0 },
+      provider_invoice: { prefix: '3232', number: '00000129', cufe },
+      // Precios redondeados a dos decimales: la base queda tres centavos por debajo del XML
+      items: Array.from({ length: 3 }, () => ({
+        type: 'Product' as const, code: '1', description: 'Servicio', quantity: 1, price: 499999.99, taxes: [{ id: 1 }]
+      })),
+      payments: [{ id: 71, value: 1785000, due_date: '2019-01-16' }]
+    };
+    const verified = await verifyCufe(cufe, fields, technicalKey);
+
+    expect(purchaseCufeDifferences(purchase, catalog, fields)).toEqual([]);
+    expect(withPurchaseDifferences(verified!, [])).toBe(verified);
+
+    const altered = { ...purchase, items: purchase.items.map(item => ({ ...item, price: 510000 })) };
+    const differences = purchaseCufeDifferences(altered, catalog, fields);
+    expect(differences).toEqual([
+      'base 1530000.00 en la compra y 1500000.00 en el XML',
+      'IVA 290700.00 en la compra y 285000.00 en el XML',
+      'total 1820700.00 en la compra y 1785000.00 en el XML'
+    ]);
+    expect(withPurchaseDifferences(verified!, differences)).toMatchObject({ status: 'purchase_mismatch', expected: cufe });
+    const mismatch = await verifyCufe(cufe, { ...fields, total: 1795000 }, technicalKey);
+    expect(withPurchaseDifferences(mismatch!, differences)).toBe(mismatch);
+  });
+
+  it('should take the CUFE fields from the electronic invoice XML', async () => {
+    const invoice = parseUblInvoice(`<Invoice xmlns:cbc="cbc" xmlns:cac="cac">
+      <cbc:ProfileExecutionID>1</cbc:ProfileExecutionID>
+      <cbc:ID>323200000129</cbc:ID>
+      <cbc:UUID schemeName="CUFE-SHA384">${cufe}</cbc:UUID>
+      <cbc:IssueDate>2019-01-16</cbc:IssueDate>
+      <cbc:IssueTime>10:53:10-05:00</cbc:IssueTime>
+      <cac:AccountingSupplierParty><cac:Party><cac:PartyTaxScheme>
+        <cbc:CompanyID schemeID="7">700085371</cbc:CompanyID>
+      </cac:PartyTaxScheme></cac:Party></cac:AccountingSupplierParty>
+      <cac:AccountingCustomerParty><cac:Party><cac:PartyTaxScheme>
+        <cbc:CompanyID schemeID="4">800199436</cbc:CompanyID>
+      </cac:PartyTaxScheme></cac:Party></cac:AccountingCustomerParty>
+      <cac:TaxTotal>
+        <cbc:TaxAmount currencyID="COP">285000.00</cbc:TaxAmount>
+        <cac:TaxSubtotal><cac:TaxCategory><cac:TaxScheme><cbc:ID>01</cbc:ID></cac:TaxScheme></cac:TaxCategory></cac:TaxSubtotal>
+      </cac:TaxTotal>
+      <cac:LegalMonetaryTotal>
+        <cbc:LineExtensionAmount currencyID="COP">1500000.00</cbc:LineExtensionAmount>
+        <cbc:PayableAmount currencyID="COP">1785000.00</cbc:PayableAmount>
+      </cac:LegalMonetaryTotal>
+      <cac:InvoiceLine><cbc:InvoicedQuantity>1</cbc:InvoicedQuantity><cbc:LineExtensionAmount>1500000.00</cbc:LineExtensionAmount></cac:InvoiceLine>
+    </Invoice>`);
+
+    expect(invoice.cufeFields).toEqual(fields);
+    await expect(verifyCufe(invoice.cufe, invoice.cufeFields, technicalKey)).resolves.toMatchObject({ status: 'verified' });
+  });
+});
@@ -0,0 +1,52 @@
+import { buildDebitNoteRequest, debitNoteLinesFromPurchase, debitNoteTotal } from '../debit-notes';
+import type { SiigoPurchaseResponse, SiigoTaxCatalogItem } from '@/types/siigo';
+
+describe('Debit notes', () => {
+  const taxes: SiigoTaxCatalogItem[] = [
+    { id: 18384, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true }
+  ];
+  const purchase = {
+    id: 'compra-1',
+    document: { id: 27524 },
+    number: 7,
+    name: 'FC-1-7',
+    date: '2026-01-15',
+    supplier: { identification: '900123456', branch_office: 0 },
+    cost_center: 235,
+    total: 119000,
+    balance: 119000,
+    items: [{ type: 'Product', id: 'i1', code: 'P-01', description: 'Producto', quantity: 2, price: 50000, taxes: [{ id: 18384, name: 'IVA 19%', type: 'IVA', percentage: 19, value: 19000 }], total: 119000 }],
+    payments: [{ id: 8467, name: 'Crédito', value: 119000, due_date: '2026-02-15' }],
+    metadata: { created: '2026-01-15T10:00:00Z' }
+  } as unknown as SiigoPurchaseResponse;
+
+  it('should start from the purchase items with zero quantity', () => {
+    const lines = debitNoteLinesFromPurchase(purchase);
+
+    expect(lines).toEqual([expect.objectContaining({ code: 'P-01', quantity: 0, price: 50000, taxIds: [18384] })]);
+    expect(debitNoteTotal(lines, taxes)).toBe(0);
+  });
+
+  it('should reference the purchase and pay exactly the adjusted total', () => {
+    const lines = debitNoteLinesFromPurchase(purchase).map((line) => ({ ...line, quantity: 1 }));
+    lines.push({ id: 'flete', type: 'Service', code: 'FLETE', description: 'Flete', quantity: 1, price: 10000, taxIds: [] });
+
+    const request = buildDebitNoteRequest(purchase, {
+      documentId: 27530,
+      date: '2026-02-01',
+      providerInvoice: { prefix: 'ND', number: ' 55 ' },
+      lines,
+      paymentTypeId: 8467
+    }, taxes);
+
+    expect(request).toMatchObject({
+      document: { id: 27530 },
+      purchase: 'compra-1',
+      supplier: { identification: '900123456' },
+      cost_center: 235,
+      provider_invoice: { prefix: 'ND', number: '55' }
+    });
+    expect(request.items).toHaveLength(2);
+    expect(request.payments).toEqual([{ id: 8467, value: 69500, due_date: '2026-02-01' }]);
+  });
+});
@@ -0,0 +1,50 @@
+import { allowsCostCenter, filterTaxesForDocumentType, getDocumentTypeErrors } from '../document-rules';
+
+describe('Document Rules', () => {
+  const invoice = {
+    name: 'Factura de compra',
+    cost_center: true,
+    cost_center_mandatory: false,
+    automatic_number: true,
+    document_support: false,
+    reteiva: true,
+    reteica: true,
+    consumption_tax: true
+  };
+
+  it('should require the fields flagged by the document type', () => {
+    const documentType = { ...invoice, cost_center_mandatory: true, automatic_number: false };
+
+    expect(getDocumentTypeErrors(documentType, {}).map((e) => e.field))
+      .toEqual(['cost_center', 'number', 'provider_invoice.number']);
+    expect(getDocumentTypeErrors(documentType, {
+      cost_center: 235,
+      number: 10,
+      provider_invoice: { number: '123' }
+    })).toEqual([]);
+  });
+
+  it('should not require the provider invoice on support documents', () => {
+    expect(getDocumentTypeErrors({ ...invoice, document_support: true }, {})).toEqual([]);
+  });
+
+  it('should hide the cost center when the document type does not use it', () => {
+    expect(allowsCostCenter({ ...invoice, cost_center: false })).toBe(false);
+    expect(allowsCostCenter(invoice)).toBe(true);
+  });
+
+  it('should drop the taxes the document type does not accept', () => {
+    const taxes = [
+      { id: 1, type: 'IVA' },
+      { id: 2, type: 'Impoconsumo' },
+      { id: 3, type: 'Retefuente' },
+      { id: 4, type: 'ReteIVA' },
+      { id: 5, type: 'ReteICA' }
+    ];
+
+    const filtered = filterTaxesForDocumentType(taxes, { ...invoice, reteiva: false, reteica: false, consumption_tax: false });
+
+    expect(filtered.map((t) => t.id)).toEqual([1, 3]);
+    expect(filterTaxesForDocumentType(taxes, null)).toHaveLength(5);
+  });
+});
@@ -1,55 +1,126 @@
-import { getDocumentTypes, getAllDocumentTypes } from '../document-types';
+import { getDocumentTypes, getAllDocumentTypes, findDocumentType } from '../document-types';
+import { SiigoClient } from '../client';
 
 describe('Document Types', () => {
-  const mockToken = 'test-token';
   const mockPartnerId = 'test-partner';
+  const authResponse = {
+    ok: true,
+    status: 200,
+    json: async () => ({ access_token: 'test-token', expires_in: 86400 }),
+  };
+  const jsonResponse = (data: unknown) => ({
+    ok: true,
+    status: 200,
+    text: async () => JSON.stringify(data),
+  });
+
+  let client: SiigoClient;
 
   // Mock fetch
   global.fetch = jest.fn() as jest.Mock;
 
   beforeEach(() => {
-    (fetch as jest.Mock).mockClear();
+    (fetch as jest.Mock).mockReset();
+    client = new SiigoClient({
+      apiUrl: 'https://siigo.test/v1',
+      authUrl: 'https://siigo.test/auth',
+      username: 'user',
+      accessKey: 'key',
+      partnerId: mockPartnerId,
+      retryDelayMs: 0,
+    });
   });
 
   describe('getDocumentTypes', () => {
     it('should fetch document types successfully', async () => {
       const mockData = [{ id: 1, code: 'FC', name: 'Factura de Venta' }];
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockData,
-      });
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(authResponse)
+        .mockResolvedValueOnce(jsonResponse(mockData));
 
-      const result = await getDocumentTypes(mockToken, 'FC', mockPartnerId);
+      const result = await getDocumentTypes('FC', client);
 
       expect(result.success).toBe(true);
       expect(result.data).toEqual(mockData);
-      expect(fetch).toHaveBeenCalledWith(
+      expect(fetch).toHaveBeenLastCalledWith(
         expect.stringContaining('type=FC'),
-        expect.any(Object)
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'Authorization': 'Bearer test-token',
+            'Partner-Id': mockPartnerId,
+          }),
+        })
       );
     });
+
+    it('should refresh the token once after a 401', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(authResponse)
+        .mockResolvedValueOnce({ ok: false, status: 401, text: async () => '' })
+        .mockResolvedValueOnce(authResponse)
+        .mockResolvedValueOnce(jsonResponse([{ id: 1, type: 'FC' }]));
+
+      const result = await getDocumentTypes('FC', client);
+
+      expect(result.success).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should report Siigo errors with their status', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(authResponse)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          statusText: 'Bad Request',
+          text: async () => JSON.stringify({ Errors: [{ Code: 'invalid_type', Message: 'Tipo inválido' }] }),
+        });
+
+      const result = await getDocumentTypes('FC', client);
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe(400);
+      expect(result.error).toBe('Tipo inválido');
+    });
   });
 
   describe('getAllDocumentTypes', () => {
     it('should fetch all document types', async () => {
-      const mockResponses = [
-        { ok: true, json: async () => [{ id: 1, type: 'FC' }] },
-        { ok: true, json: async () => [{ id: 2, type: 'ND' }] },
-        { ok: true, json: async () => [{ id: 3, type: 'DS' }] },
-        { ok: true, json: async () => [{ id: 4, type: 'RP' }] },
-      ];
-
       (fetch as jest.Mock)
-        .mockImplementationOnce(() => Promise.resolve(mockResponses[0]))
-        .mockImplementationOnce(() => Promise.resolve(mockResponses[1]))
-        .mockImplementationOnce(() => Promise.resolve(mockResponses[2]))
-        .mockImplementationOnce(() => Promise.resolve(mockResponses[3]));
+        .mockResolvedValueOnce(authResponse)
+        .mockResolvedValueOnce(jsonResponse([{ id: 1, type: 'FC' }]))
+        .mockResolvedValueOnce(jsonResponse([{ id: 2, type: 'ND' }]))
+        .mockResolvedValueOnce(jsonResponse([{ id: 3, type: 'DS' }]))
+        .mockResolvedValueOnce(jsonResponse([{ id: 4, type: 'RP' }]));
 
-      const result = await getAllDocumentTypes(mockToken, mockPartnerId);
+      const result = await getAllDocumentTypes(client);
 
       expect(result.success).toBe(true);
       expect(result.data).toHaveLength(4);
-      expect(fetch).toHaveBeenCalledTimes(4);
+      // Una sola autenticación compartida por las cuatro peticiones
+      expect(fetch).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('findDocumentType', () => {
+    it('should look the id up across the requested types', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(authResponse)
+        .mockResolvedValueOnce(jsonResponse([{ id: 27524, type: 'FC', cost_center_mandatory: false }]))
+        .mockResolvedValueOnce(jsonResponse([{ id: 27540, type: 'DS', cost_center_mandatory: true }]));
+
+      const result = await findDocumentType(27540, ['FC', 'DS'], client);
+
+      expect(result?.type).toBe('DS');
+      expect(result?.cost_center_mandatory).toBe(true);
+    });
+
+    it('should return null when the id does not exist', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(authResponse)
+        .mockResolvedValueOnce(jsonResponse([{ id: 27524, type: 'FC' }]));
+
+      expect(await findDocumentType(1, ['FC'], client)).toBeNull();
     });
   });
 });
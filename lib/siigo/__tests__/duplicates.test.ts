@@ -0,0 +1,116 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+
+import type { SiigoPurchaseResponse } from '@/types/siigo';
+import { sql } from '@/lib/db';
+import type { SiigoClient } from '../client';
+import { findDuplicates, matchDuplicate, mergeDuplicates, normalizeInvoicePart, purchaseIdentityOf } from '../duplicates';
+import { findDuplicatePurchases } from '../purchases-sync';
+
+const purchase = (overrides: Partial<SiigoPurchaseResponse> = {}) => ({
+  id: 'p-1',
+  name: 'FC-1-10',
+  number: 10,
+  date: '2026-01-15',
+  total: 119000,
+  supplier: { identification: '900123456', branch_office: 0 },
+  provider_invoice: { prefix: 'FE', number: '0012', cufe: 'ABC123' },
+  ...overrides,
+}) as unknown as SiigoPurchaseResponse;
+
+describe('Duplicate purchases', () => {
+  it('should normalize prefixes and numbers before comparing', () => {
+    expect(normalizeInvoicePart(' fe-01 ')).toBe('FE01');
+    expect(normalizeInvoicePart('0012')).toBe('12');
+    expect(normalizeInvoicePart('000')).toBe('0');
+    expect(normalizeInvoicePart(undefined)).toBe('');
+  });
+
+  it('should build the identity only when the purchase has a provider invoice', () => {
+    const request = { date: '2026-01-15', supplier: { identification: '900123456', branch_office: 0 } };
+
+    expect(purchaseIdentityOf(request)).toBeNull();
+    expect(purchaseIdentityOf({ ...request, provider_invoice: { prefix: 'FE', number: '12' } })).toEqual({
+      supplierIdentification: '900123456', prefix: 'FE', number: '12', cufe: undefined, date: '2026-01-15'
+    });
+  });
+
+  it('should match by supplier, prefix and number or by CUFE', () => {
+    const identity = { supplierIdentification: '900123456', prefix: 'fe', number: '12' };
+
+    expect(matchDuplicate(purchase(), identity)).toBe('invoice');
+    expect(matchDuplicate(purchase(), { ...identity, prefix: 'FV' })).toBeNull();
+    expect(matchDuplicate(purchase(), { ...identity, supplierIdentification: '800111222' })).toBeNull();
+    expect(matchDuplicate(purchase(), { supplierIdentification: '800111222', cufe: 'abc123' })).toBe('cufe');
+  });
+
+  it('should describe each duplicate once even if found in both sources', () => {
+    const identity = { supplierIdentification: '900123456', prefix: 'FE', number: '12' };
+    const local = findDuplicates([purchase(), purchase({ id: 'p-2', provider_invoice: { prefix: 'FE', number: '13' } })], identity, 'local');
+    const remote = findDuplicates([purchase()], identity, 'siigo');
+
+    expect(local).toEqual([{
+      id: 'p-1', name: 'FC-1-10', date: '2026-01-15', total: 119000, supplierIdentification: '900123456',
+      providerInvoice: 'FE-0012', matchedBy: 'invoice', source: 'local'
+    }]);
+    expect(mergeDuplicates(local, remote)).toHaveLength(1);
+  });
+
+  it('should search Siigo only for purchases created after the last sync near the document date', async () => {
+    const sqlMock = sql as unknown as jest.Mock;
+    sqlMock
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ watermark: '2026-03-01T10:00:00.000Z' }]);
+    const client = {
+      forEachPage: jest.fn(async (_path, _query, handler) => {
+        await handler([purchase({ id: 'p-8', provider_invoice: { prefix: 'FE', number: '13' } }), purchase({ id: 'p-9', name: 'FC-1-99' })], 1);
+        return 1;
+      })
+    };
+
+    const { duplicates, incomplete } = await findDuplicatePurchases(
+      { supplierIdentification: '900123456', prefix: 'FE', number: '12', date: '2026-03-05' },
+      { companyId: 'default', client: client as unknown as SiigoClient }
+    );
+
+    expect(client.forEachPage).toHaveBeenCalledWith(
+      'purchases',
+      { created_start: '2026-03-01T10:00:00Z', date_start: '2026-02-02', date_end: '2026-04-05' },
+      expect.any(Function),
+      { maxPages: 5 }
+    );
+    expect(duplicates.map(d => [d.name, d.source])).toEqual([['FC-1-99', 'siigo']]);
+    expect(incomplete).toBe(false);
+  });
+
+  it('should flag the search as incomplete when Siigo has more pages than it reviews', async () => {
+    const sqlMock = sql as unknown as jest.Mock;
+    sqlMock
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ watermark: '2026-03-01T10:00:00.000Z' }]);
+    const client = { forEachPage: jest.fn().mockResolvedValue(5) };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await findDuplicatePurchases(
+      { supplierIdentification: '900123456', prefix: 'FE', number: '12', date: '2026-03-05' },
+      { companyId: 'default', client: client as unknown as SiigoClient }
+    )).toEqual({ duplicates: [], incomplete: true });
+  });
+
+  it('should fall back to the local mirror when Siigo fails', async () => {
+    const sqlMock = sql as unknown as jest.Mock;
+    sqlMock
+      .mockResolvedValueOnce([{ raw: purchase() }])
+      .mockResolvedValueOnce([]);
+    const client = { forEachPage: jest.fn().mockRejectedValue(new Error('Siigo caído')) };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const { duplicates, incomplete } = await findDuplicatePurchases(
+      { supplierIdentification: '900123456', prefix: 'FE', number: '12', date: '2026-01-15' },
+      { companyId: 'default', client: client as unknown as SiigoClient }
+    );
+
+    expect(client.forEachPage.mock.calls[0][1]).toEqual({ date_start: '2025-12-15', date_end: '2026-02-15' });
+    expect(duplicates.map(d => [d.name, d.source])).toEqual([['FC-1-10', 'local']]);
+    expect(incomplete).toBe(true);
+  });
+});
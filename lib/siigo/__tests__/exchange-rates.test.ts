@@ -0,0 +1,60 @@
+import { copEquivalent, parseExchangeRateCsv, parseRateDate, parseRateNumber } from '../exchange-rates';
+
+describe('Exchange rates', () => {
+  it('should parse rates in Colombian and international number formats', () => {
+    expect(parseRateNumber('4.123,45')).toBe(4123.45);
+    expect(parseRateNumber('4,123.45')).toBe(4123.45);
+    expect(parseRateNumber('"$ 4123.45"')).toBe(4123.45);
+    expect(parseRateNumber('4.123')).toBe(4123);
+    expect(parseRateNumber('1.234.567')).toBe(1234567);
+    expect(parseRateNumber('4123.4')).toBe(4123.4);
+    expect(parseRateNumber('abc')).toBeNaN();
+  });
+
+  it('should parse ISO and day-first dates', () => {
+    expect(parseRateDate('2025-03-07')).toBe('2025-03-07');
+    expect(parseRateDate('2025/3/7')).toBe('2025-03-07');
+    expect(parseRateDate('07/03/2025')).toBe('2025-03-07');
+    expect(parseRateDate('marzo 7')).toBeNull();
+  });
+
+  it('should read a semicolon CSV with the default currency and report invalid rows', () => {
+    const csv = '\uFEFFVALOR;UNIDAD;VIGENCIADESDE\r\n"4.123,45";COP;07/03/2025\r\nx;COP;08/03/2025\r\n4.150,10;COP;10/03/2025\r\n';
+    const result = parseExchangeRateCsv(csv, 'usd');
+
+    expect(result.rates).toEqual([
+      { currency: 'USD', date: '2025-03-07', rate: 4123.45 },
+      { currency: 'USD', date: '2025-03-10', rate: 4150.1 }
+    ]);
+    expect(result.errors).toEqual(['Fila 3: fecha o valor inválido']);
+  });
+
+  it('should keep commas inside quoted fields of a comma-separated CSV', () => {
+    const csv = 'fecha,tasa,moneda\n2025-03-07,"4,123.45",USD\n"2025-03-10","4,150.10","EUR"\n';
+    const result = parseExchangeRateCsv(csv, 'USD');
+
+    expect(result.rates).toEqual([
+      { currency: 'USD', date: '2025-03-07', rate: 4123.45 },
+      { currency: 'EUR', date: '2025-03-10', rate: 4150.1 }
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should take the currency column and keep the last rate of a repeated day', () => {
+    const csv = 'fecha,moneda,tasa\n2025-03-07,EUR,4480.5\n2025-03-07,USD,4123.45\n2025-03-07,EUR,4490\n';
+    expect(parseExchangeRateCsv(csv, 'USD').rates).toEqual([
+      { currency: 'EUR', date: '2025-03-07', rate: 4490 },
+      { currency: 'USD', date: '2025-03-07', rate: 4123.45 }
+    ]);
+  });
+
+  it('should reject a CSV without date or rate columns', () => {
+    expect(parseExchangeRateCsv('a,b\n1,2', 'USD').errors[0]).toMatch(/columnas de fecha/);
+  });
+
+  it('should convert foreign amounts to pesos and leave COP untouched', () => {
+    expect(copEquivalent(100.5, { code: 'USD', exchange_rate: 4123.45 })).toBe(414406.73);
+    expect(copEquivalent(1000, { code: 'COP', exchange_rate: 1 })).toBe(1000);
+    expect(copEquivalent(1000)).toBe(1000);
+  });
+});
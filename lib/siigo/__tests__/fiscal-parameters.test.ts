@@ -0,0 +1,45 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+
+import {
+  DEFAULT_FISCAL_PARAMETERS,
+  getDefaultFiscalParameters,
+  resolveFiscalParameters,
+  uvtToPesos,
+} from '../fiscal-parameters';
+import { assembleFiscalParameters } from '../fiscal-parameters-store';
+
+describe('Fiscal parameters', () => {
+  it('should resolve the exact year or fall back to the closest previous one', () => {
+    expect(getDefaultFiscalParameters('2025-06-30')).toMatchObject({ year: 2025, uvt: 49799, stale: false, source: 'default' });
+    expect(resolveFiscalParameters(DEFAULT_FISCAL_PARAMETERS, 2030, 'database')).toMatchObject({ year: 2026, stale: true });
+    expect(resolveFiscalParameters(DEFAULT_FISCAL_PARAMETERS, 2020, 'database')).toMatchObject({ year: 2024, stale: true });
+    expect(resolveFiscalParameters([], 2025, 'database')).toBeNull();
+  });
+
+  it('should convert UVT to pesos with the UVT of the year', () => {
+    expect(uvtToPesos(27, getDefaultFiscalParameters('2025-01-01'))).toBe(1344573);
+    expect(uvtToPesos(4, getDefaultFiscalParameters('2026-01-01'))).toBe(209496);
+  });
+
+  it('should assemble the parameters of each year from the table rows', () => {
+    const [parameters] = assembleFiscalParameters(
+      [{ year: 2026, uvt: 52374, reteiva_rate: 15 }],
+      [{ year: 2026, concept: 'servicios', min_uvt: 4, rate: 4, non_declarant_rate: 6 }],
+      [
+        { year: 2026, city_code: '11001', city_name: 'Bogotá D.C.', concept: 'compras', rate_per_mil: 4.14 },
+        { year: 2026, city_code: '11001', city_name: 'Bogotá D.C.', concept: 'servicios', rate_per_mil: 9.66 },
+        { year: 2025, city_code: '05001', city_name: 'Medellín', concept: 'compras', rate_per_mil: 5 },
+      ]
+    );
+
+    expect(parameters).toEqual({
+      year: 2026,
+      uvt: 52374,
+      reteivaRate: 15,
+      withholdingRates: [{ concept: 'servicios', minUvt: 4, rate: 4, nonDeclarantRate: 6 }],
+      icaMunicipalities: [
+        { cityCode: '11001', name: 'Bogotá D.C.', rates: { compras: 4.14, servicios: 9.66, honorarios: 0, arrendamientos: 0 } },
+      ],
+    });
+  });
+});
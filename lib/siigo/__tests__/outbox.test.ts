@@ -0,0 +1,204 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+jest.mock('../catalogs', () => ({
+  getSiigoTaxes: jest.fn().mockResolvedValue([{ id: 1, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true }])
+}));
+
+import { sql } from '@/lib/db';
+import type { SiigoPurchaseRequest } from '@/types/siigo';
+import { SiigoApiError } from '../api';
+import { SiigoAuthError, SiigoClient } from '../client';
+import { OUTBOX_MAX_ATTEMPTS, outboxRetryDelayMs, OutboxItem } from '../outbox';
+import { attemptOutboxItem, findQueuedDraftItem, isTransientSiigoError, retryOutboxItem, SiigoOutboxError } from '../outbox-store';
+
+const purchase: SiigoPurchaseRequest = {
+  document: { id: 24 },
+  date: '2026-01-15',
+  supplier: { identification: '900123456', branch_office: 0 },
+  provider_invoice: { prefix: 'FE', number: '1024' },
+  items: [{ type: 'Product', code: '1001', description: 'Resma de papel', quantity: 1, price: 1000 }],
+  payments: [{ id: 71, value: 1000, due_date: '2026-01-15' }]
+};
+
+const outboxRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 3, status: 'processing', submission: { kind: 'purchase', purchase }, attempts: 0,
+  next_attempt_at: '2026-01-15T15:00:00Z', last_status: null, last_error: null, error_details: null, result: null,
+  created_by: 'compras@gmail.com', created_at: '2026-01-15T15:00:00Z', updated_at: '2026-01-15T15:00:00Z', sent_at: null,
+  ...overrides
+});
+
+const itemOf = (overrides: Partial<OutboxItem> = {}): OutboxItem => ({
+  id: 3,
+  status: 'processing',
+  submission: { kind: 'purchase', purchase },
+  attempts: 0,
+  nextAttemptAt: '2026-01-15T15:00:00.000Z',
+  lastStatus: null,
+  lastError: null,
+  errorDetails: null,
+  result: null,
+  createdBy: 'compras@gmail.com',
+  createdAt: '2026-01-15T15:00:00.000Z',
+  updatedAt: '2026-01-15T15:00:00.000Z',
+  sentAt: null,
+  ...overrides
+});
+
+// Valores interpolados en la última consulta (el primer argumento son las partes del template)
+const lastSqlValues = () => (sql as unknown as jest.Mock).mock.calls.at(-1)!.slice(1);
+
+describe('Siigo outbox', () => {
+  const sqlMock = sql as unknown as jest.Mock;
+
+  afterEach(() => {
+    sqlMock.mockReset();
+  });
+
+  it('should back off exponentially up to an hour and only retry transient failures', () => {
+    expect([1, 2, 3].map(outboxRetryDelayMs)).toEqual([60_000, 120_000, 240_000]);
+    expect(outboxRetryDelayMs(20)).toBe(3_600_000);
+
+    expect(isTransientSiigoError(new SiigoApiError('Timeout', 'NETWORK_ERROR'))).toBe(true);
+    expect(isTransientSiigoError(new SiigoApiError('Bad gateway', 503))).toBe(true);
+    expect(isTransientSiigoError(new SiigoApiError('Too many requests', 429))).toBe(true);
+    expect(isTransientSiigoError(new SiigoAuthError('Error en autenticación'))).toBe(true);
+    expect(isTransientSiigoError(new SiigoApiError('El producto no existe', 400))).toBe(false);
+    expect(isTransientSiigoError(new Error('sin base de datos'))).toBe(false);
+  });
+
+  it('should mark the purchase as sent with what Siigo created', async () => {
+    const created = { id: 'p-1', name: 'FC-24-10' };
+    const client = { post: jest.fn().mockResolvedValue(created) };
+    sqlMock.mockResolvedValueOnce([outboxRow({ status: 'sent', attempts: 1, result: { purchase: created } })]);
+
+    const { item, delivery } = await attemptOutboxItem(itemOf(), client as unknown as SiigoClient, 'empresa');
+
+    // Las observaciones llevan la marca de la cola para reconocer la compra si se pierde la respuesta
+    expect(client.post).toHaveBeenCalledWith('purchases', { ...purchase, observations: '[Cola de envíos #3]' });
+    expect(delivery).toEqual({ purchase: created, balance: null, cufeCheck: null });
+    expect(item.status).toBe('sent');
+    expect(lastSqlValues()).toContain(1);
+  });
+
+  it('should verify the CUFE with the XML values and report a purchase that differs from them', async () => {
+    const cufe = '8bb918b19ba22a694f1da11c643b5e9de39adf60311cf179179e9b33381030bcd4c3c3f156c506ed5908f9276f5bd9b4';
+    const invoice: SiigoPurchaseRequest = {
+      ...purchase,
+      date: '2019-01-20',
+      supplier: { identification: '700085371', branch_office: 0 },
+      provider_invoice: { prefix: '', number: '323200000129', cufe },
+      items: [{ type: 'Service', code: '1', description: 'Servicio', quantity: 3, price: 499999.99, taxes: [{ id: 1 }] }]
+    };
+    const xml = {
+      number: '323200000129', issueDate: '2019-01-16', issueTime: '10:53:10-05:00', subtotal: 1500000,
+      taxes: { iva: 285000, inc: 0, ica: 0 }, total: 1785000, supplierNit: '700085371', customerId: '800199436', environment: '1'
+    };
+    const technical_key = '693ff6f2a553c3646a063436fd4dd9ded0311471';
+    const client = { post: jest.fn().mockResolvedValue({ id: 'p-1', name: 'FC-24-10' }) };
+    sqlMock.mockImplementation(async () => [outboxRow({ status: 'sent' })]);
+
+    const deliver = async (sent: SiigoPurchaseRequest) => (await attemptOutboxItem(
+      itemOf({ submission: { kind: 'purchase', purchase: sent, cufeVerification: { fields: xml, technical_key } } }),
+      client as unknown as SiigoClient,
+      'empresa'
+    )).delivery?.cufeCheck?.status;
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // Otra fecha y centavos de redondeo no cambian el resultado: el CUFE es el del XML
+    await expect(deliver(invoice)).resolves.toBe('verified');
+    await expect(deliver({ ...invoice, items: [{ ...invoice.items[0], price: 480000 }] })).resolves.toBe('purchase_mismatch');
+  });
+
+  it('should requeue transient failures, give up after the last attempt and park rejected data', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const failWith = (error: Error) => ({ post: jest.fn().mockRejectedValue(error) }) as unknown as SiigoClient;
+    sqlMock.mockImplementation(async () => [outboxRow()]);
+
+    await attemptOutboxItem(itemOf(), failWith(new SiigoApiError('Service unavailable', 503)), 'empresa');
+    expect(lastSqlValues().slice(0, 4)).toEqual(['pending', 1, expect.any(String), 503]);
+
+    await attemptOutboxItem(itemOf({ attempts: OUTBOX_MAX_ATTEMPTS - 1 }), failWith(new SiigoApiError('Timeout', 'NETWORK_ERROR')), 'empresa');
+    expect(lastSqlValues().slice(0, 4)).toEqual(['failed', OUTBOX_MAX_ATTEMPTS, expect.any(String), null]);
+
+    const rejected = new SiigoApiError('El producto no existe', 400, { Errors: [{ Code: 'invalid_reference' }] });
+    const { error } = await attemptOutboxItem(itemOf(), failWith(rejected), 'empresa');
+    expect(error).toBe(rejected);
+    expect(lastSqlValues()).toEqual(expect.arrayContaining(['needs_attention', 400, 'El producto no existe', JSON.stringify(rejected.details)]));
+  });
+
+  it('should not create the purchase again when a failed attempt already reached Siigo', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const existing = {
+      id: 'p-1', name: 'DS-1-10', date: '2026-01-15', total: 1000, observations: 'Servicio de aseo\n[Cola de envíos #3]',
+      supplier: { identification: '900123456' }
+    };
+    const client = {
+      forEachPage: jest.fn(async (_path, _query, handler) => {
+        await handler([{ id: 'p-0', observations: 'Otra compra', supplier: { identification: '900123456' } }, existing], 1);
+        return 1;
+      }),
+      post: jest.fn()
+    };
+    sqlMock.mockResolvedValueOnce([outboxRow({ status: 'sent' })]);
+
+    // El documento soporte no tiene factura del proveedor: solo se reconoce por la marca de la cola
+    const { delivery } = await attemptOutboxItem(
+      itemOf({
+        attempts: 1,
+        lastError: 'La solicitud a la API de Siigo ha excedido el tiempo de espera',
+        submission: { kind: 'purchase', purchase: { ...purchase, provider_invoice: undefined } }
+      }),
+      client as unknown as SiigoClient,
+      'empresa'
+    );
+
+    expect(client.post).not.toHaveBeenCalled();
+    expect(client.forEachPage.mock.calls[0][1]).toEqual({ created_start: '2026-01-15T14:50:00Z' });
+    expect(delivery?.purchase).toEqual(existing);
+  });
+
+  it('should wait for attention instead of retrying when the previous attempt cannot be ruled out', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const page = Array.from({ length: 100 }, (_, index) => ({ id: `p-${index}`, supplier: { identification: '1' } }));
+    const client = {
+      forEachPage: jest.fn(async (_path, _query, handler) => {
+        for (let number = 1; number <= 10; number++) await handler(page, number);
+        return 10;
+      }),
+      post: jest.fn()
+    };
+    sqlMock.mockImplementation(async () => [outboxRow({ status: 'needs_attention' })]);
+
+    const { item } = await attemptOutboxItem(
+      itemOf({ attempts: 1, lastError: 'Service unavailable', submission: { kind: 'purchase', purchase: { ...purchase, provider_invoice: undefined } } }),
+      client as unknown as SiigoClient,
+      'empresa'
+    );
+
+    expect(client.post).not.toHaveBeenCalled();
+    expect(item.status).toBe('needs_attention');
+    expect(lastSqlValues()[0]).toBe('needs_attention');
+  });
+
+  it('should only retry failed purchases or those waiting for attention', async () => {
+    const client = { post: jest.fn() } as unknown as SiigoClient;
+
+    sqlMock.mockResolvedValueOnce([]).mockResolvedValueOnce([{ status: 'sent' }]);
+    await expect(retryOutboxItem(3, client, 'empresa')).rejects.toMatchObject({ status: 409, message: 'La compra está enviada y no se puede reintentar' });
+
+    sqlMock.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+    await expect(retryOutboxItem(99, client, 'empresa')).rejects.toThrow(SiigoOutboxError);
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it('should find the queued purchase of a draft while it waits to be sent', async () => {
+    const draft = { userId: 7, id: 'd-1' };
+    sqlMock.mockResolvedValueOnce([outboxRow({ status: 'pending', submission: { kind: 'purchase', purchase, draft } })]);
+
+    expect(await findQueuedDraftItem(7, 'd-1', 'empresa')).toMatchObject({ id: 3, status: 'pending' });
+    expect(lastSqlValues()).toEqual(['empresa', 'd-1', 7]);
+
+    sqlMock.mockResolvedValueOnce([]);
+    expect(await findQueuedDraftItem(7, 'd-2', 'empresa')).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  allocationsTotal,
+  buildPaymentReceiptRequest,
+  getAllocationErrors,
+  purchaseDue,
+  purchaseInstallments,
+} from '../payment-receipts';
+import type { SiigoPurchaseResponse } from '@/types/siigo';
+
+const purchase = (id: string, number: number, balance: number): SiigoPurchaseResponse => ({
+  id,
+  document: { id: 27524 },
+  number,
+  name: `FC-1-${number}`,
+  date: '2026-01-15',
+  supplier: { identification: '900123456', branch_office: 0 },
+  total: 119000,
+  balance,
+  items: [],
+  payments: [{ id: 8469, name: 'Crédito proveedor', value: 119000, due_date: '2026-02-15' }],
+} as unknown as SiigoPurchaseResponse);
+
+describe('Payment receipts', () => {
+  const purchases = [purchase('a', 25, 119000), purchase('b', 26, 50000)];
+
+  // Dos cuotas de 60.000 y 59.000 con 70.000 ya pagados: la primera está saldada
+  const installmentPurchase = {
+    ...purchase('c', 27, 49000),
+    payments: [
+      { id: 8469, name: 'Crédito proveedor', value: 59000, due_date: '2026-03-15' },
+      { id: 8469, name: 'Crédito proveedor', value: 60000, due_date: '2026-02-15' },
+    ],
+  };
+
+  it('should identify each installment due by prefix, consecutive and quote', () => {
+    expect(purchaseDue(purchases[0], purchaseInstallments(purchases[0])[0])).toEqual({
+      prefix: 'FC-1', consecutive: 25, quote: 1, date: '2026-02-15',
+    });
+    expect(purchaseInstallments(installmentPurchase)).toEqual([
+      { quote: 1, dueDate: '2026-03-15', value: 59000, remaining: 49000 },
+      { quote: 2, dueDate: '2026-02-15', value: 60000, remaining: 0 },
+    ]);
+  });
+
+  it('should accept partial payments and reject those above the installment balance', () => {
+    expect(getAllocationErrors(purchases, [{ purchaseId: 'a', quote: 1, value: 60000 }])).toEqual([]);
+    expect(getAllocationErrors(purchases, [{ purchaseId: 'b', quote: 1, value: 50001 }])).toEqual([
+      expect.stringContaining('supera su saldo'),
+    ]);
+    expect(getAllocationErrors([installmentPurchase], [{ purchaseId: 'c', quote: 1, value: 49000.01 }])).toEqual([
+      'El abono a la cuota 1 de FC-1-27 supera su saldo (49.000)',
+    ]);
+    expect(getAllocationErrors([installmentPurchase], [{ purchaseId: 'c', quote: 2, value: 100 }])).toEqual([
+      'La cuota 2 de FC-1-27 no tiene saldo pendiente',
+    ]);
+    expect(getAllocationErrors(purchases, [{ purchaseId: 'x', quote: 1, value: 10 }])).toEqual([
+      expect.stringContaining('no está abierta'),
+    ]);
+    expect(getAllocationErrors(purchases, [{ purchaseId: 'a', quote: 1, value: 0 }])).toEqual(['Debe abonar al menos una compra']);
+  });
+
+  it('should build one item per installment and a single payment for the total', () => {
+    const allocations = [
+      { purchaseId: 'a', quote: 1, value: 119000 },
+      { purchaseId: 'b', quote: 1, value: 20000.5 },
+      { purchaseId: 'c', quote: 1, value: 9000 },
+      { purchaseId: 'c', quote: 2, value: 0 },
+    ];
+    const recibo = buildPaymentReceiptRequest(purchases[0].supplier, [...purchases, installmentPurchase], {
+      documentId: 27550,
+      date: '2026-03-01',
+      paymentTypeId: 8480,
+      method: 'cheque',
+      observations: 'Pago marzo',
+      allocations,
+    });
+
+    expect(allocationsTotal(allocations)).toBe(148000.5);
+    expect(recibo.items.map((item) => [item.due.consecutive, item.due.quote, item.due.date, item.value])).toEqual([
+      [25, 1, '2026-02-15', 119000],
+      [26, 1, '2026-02-15', 20000.5],
+      [27, 1, '2026-03-15', 9000],
+    ]);
+    expect(recibo.payment).toEqual({ id: 8480, value: 148000.5 });
+    expect(recibo.observations).toBe('Medio de pago: Cheque. Pago marzo');
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  addDays,
+  buildInstallments,
+  installmentsFromPayments,
+  isValidInstallmentPlan,
+  PAYMENT_TERM_PRESETS,
+  paymentsMatchTotal
+} from '../payments';
+
+describe('Payments', () => {
+  it('should add days across months', () => {
+    expect(addDays('2026-01-31', 30)).toBe('2026-03-02');
+  });
+
+  it('should split the total in installments that add up exactly', () => {
+    const plan = PAYMENT_TERM_PRESETS.find((p) => p.id === '30-60-90')!;
+    const payments = buildInstallments(1000000.01, '2026-01-15', plan.installments, 8469);
+
+    expect(payments.map((p) => p.due_date)).toEqual(['2026-02-14', '2026-03-16', '2026-04-15']);
+    expect(payments.every((p) => p.id === 8469)).toBe(true);
+    expect(payments.reduce((sum, p) => sum + p.value, 0)).toBeCloseTo(1000000.01, 2);
+    expect(paymentsMatchTotal(payments, 1000000.01)).toBe(true);
+  });
+
+  it('should detect payments that do not match the total', () => {
+    expect(paymentsMatchTotal([{ value: 500 }, { value: 400 }], 1000)).toBe(false);
+  });
+
+  it('should turn distributed payments back into a reusable plan', () => {
+    const installments = installmentsFromPayments(
+      [{ value: 300, due_date: '2026-01-15' }, { value: 700, due_date: '2026-02-14' }],
+      1000,
+      '2026-01-15'
+    );
+
+    expect(installments).toEqual([{ days: 0, percentage: 30 }, { days: 30, percentage: 70 }]);
+    expect(isValidInstallmentPlan(installments)).toBe(true);
+  });
+
+  it('should ship only valid presets', () => {
+    expect(PAYMENT_TERM_PRESETS.every((p) => isValidInstallmentPlan(p.installments))).toBe(true);
+  });
+});
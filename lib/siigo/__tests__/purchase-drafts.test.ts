@@ -0,0 +1,59 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+
+import { sql } from '@/lib/db';
+import { draftTitle, isDraftWorthSaving, PurchaseDraftSummary } from '../purchase-drafts';
+import { deletePurchaseDraft, getPurchaseDraft, listPurchaseDrafts, updatePurchaseDraft } from '../purchase-drafts-store';
+
+describe('Purchase drafts', () => {
+  const empty: PurchaseDraftSummary = { providerName: '', providerInvoice: '', itemsCount: 0, total: 0, currency: 'COP' };
+
+  it('should not save an untouched form', () => {
+    expect(isDraftWorthSaving(empty)).toBe(false);
+    expect(isDraftWorthSaving({ ...empty, providerInvoice: ' ' })).toBe(false);
+    expect(isDraftWorthSaving({ ...empty, itemsCount: 1 })).toBe(true);
+    expect(isDraftWorthSaving({ ...empty, providerName: 'Ferretería Central' })).toBe(true);
+  });
+
+  it('should title drafts by provider and invoice', () => {
+    expect(draftTitle({ ...empty, providerName: 'Ferretería Central', providerInvoice: 'FE-12' })).toBe('Ferretería Central · FE-12');
+    expect(draftTitle(empty)).toBe('Borrador sin proveedor');
+  });
+
+  it('should map stored rows to drafts', async () => {
+    const row = {
+      id: '6f1c2d9e-2b51-4c8a-9d3e-1a2b3c4d5e6f',
+      provider_name: 'Ferretería Central',
+      provider_invoice: null,
+      items_count: 42,
+      total: '1190000.50',
+      currency_code: null,
+      created_at: '2026-03-01T10:00:00Z',
+      updated_at: '2026-03-01T10:05:00Z',
+    };
+    (sql as unknown as jest.Mock)
+      .mockResolvedValueOnce([row])
+      .mockResolvedValueOnce([{ ...row, state: { items: [] } }]);
+
+    expect(await listPurchaseDrafts(7, 'default')).toEqual([{
+      id: row.id,
+      summary: { providerName: 'Ferretería Central', providerInvoice: '', itemsCount: 42, total: 1190000.5, currency: 'COP' },
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }]);
+    expect((await getPurchaseDraft(7, row.id, 'default'))?.state).toEqual({ items: [] });
+  });
+
+  it('should scope opening, updating and deleting drafts to the company', async () => {
+    const mock = sql as unknown as jest.Mock;
+    mock.mockReset().mockResolvedValue([]);
+
+    expect(await getPurchaseDraft(7, 'd-1', 'acme')).toBeNull();
+    expect(await updatePurchaseDraft(7, 'd-1', { summary: empty, state: {} }, 'acme')).toBeNull();
+    expect(await deletePurchaseDraft(7, 'd-1', 'acme')).toBe(false);
+
+    for (const [strings, ...values] of mock.mock.calls) {
+      expect(strings.join('?')).toContain('company_id = ?');
+      expect(values).toContain('acme');
+    }
+  });
+});
@@ -0,0 +1,70 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+
+import { latestTimestamp, planPurchaseSync, purchaseUpdatedAt, SiigoSyncState } from '../purchases-sync';
+
+describe('Purchases sync', () => {
+  const baseState: SiigoSyncState = {
+    company_id: 'default',
+    resource: 'purchases',
+    watermark: null,
+    status: 'idle',
+    run_filter: null,
+    run_since: null,
+    run_max_updated: null,
+    last_page: 0,
+    synced_count: 0,
+    last_error: null,
+    started_at: null,
+    finished_at: null,
+    updated_at: null,
+  };
+
+  describe('planPurchaseSync', () => {
+    it('should download everything on the first run', () => {
+      expect(planPurchaseSync(null)).toEqual({
+        resumed: false,
+        passes: [{ filter: 'all', since: null, startPage: 1 }],
+      });
+    });
+
+    it('should query created and updated purchases since the watermark', () => {
+      const { passes } = planPurchaseSync({ ...baseState, watermark: '2026-03-01T10:00:00Z' });
+
+      expect(passes.map((p) => p.filter)).toEqual(['created_start', 'updated_start']);
+      expect(passes.every((p) => p.since === '2026-03-01T10:00:00Z' && p.startPage === 1)).toBe(true);
+    });
+
+    it('should resume after the last saved page', () => {
+      const plan = planPurchaseSync({
+        ...baseState,
+        status: 'failed',
+        watermark: '2026-03-05T00:00:00Z',
+        run_filter: 'updated_start',
+        run_since: '2026-03-01T10:00:00Z',
+        last_page: 4,
+      });
+
+      expect(plan).toEqual({
+        resumed: true,
+        passes: [{ filter: 'updated_start', since: '2026-03-01T10:00:00Z', startPage: 5 }],
+      });
+    });
+
+    it('should discard pending progress on a full sync', () => {
+      const plan = planPurchaseSync({ ...baseState, watermark: '2026-03-01T10:00:00Z', run_filter: 'all', last_page: 7 }, true);
+
+      expect(plan).toEqual({ resumed: false, passes: [{ filter: 'all', since: null, startPage: 1 }] });
+    });
+  });
+
+  describe('watermark helpers', () => {
+    it('should fall back to the creation date when the purchase was never updated', () => {
+      expect(purchaseUpdatedAt({ metadata: { created: '2026-01-02T00:00:00Z', last_updated: null } })).toBe('2026-01-02T00:00:00Z');
+    });
+
+    it('should keep the latest timestamp', () => {
+      expect(latestTimestamp('2026-01-02T00:00:00Z', [null, '2026-01-05T08:00:00Z', '2026-01-03T00:00:00Z']))
+        .toBe('2026-01-05T08:00:00Z');
+    });
+  });
+});
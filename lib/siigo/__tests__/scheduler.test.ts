@@ -0,0 +1,83 @@
+import { SiigoClient } from '../client';
+import { runWithSiigoPriority, SiigoScheduler } from '../scheduler';
+
+describe('SiigoScheduler', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let interactive calls jump ahead of queued background calls', async () => {
+    jest.useFakeTimers();
+    const scheduler = new SiigoScheduler({ requestsPerMinute: 60, burst: 1 });
+    const order: string[] = [];
+    const track = (name: string, priority: 'interactive' | 'background') =>
+      scheduler.acquire(priority).then(() => {
+        order.push(name);
+      });
+
+    const calls = [track('sync-1', 'background'), track('sync-2', 'background'), track('sync-3', 'background')];
+    await Promise.resolve();
+    calls.push(track('form', 'interactive'));
+    expect(scheduler.stats().queued).toEqual({ interactive: 1, background: 2 });
+
+    // Un token por segundo con 60 peticiones por minuto
+    await jest.advanceTimersByTimeAsync(3000);
+    await Promise.all(calls);
+    expect(order).toEqual(['sync-1', 'form', 'sync-2', 'sync-3']);
+  });
+
+  it('should pause every caller for the Retry-After of a 429 and report it', async () => {
+    jest.useFakeTimers();
+    const scheduler = new SiigoScheduler({ requestsPerMinute: 6000, burst: 5 });
+    scheduler.throttle(2000, { endpoint: 'purchases?page=3', retryAfter: true });
+
+    let granted = false;
+    const waiting = scheduler.acquire('interactive').then(() => {
+      granted = true;
+    });
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(granted).toBe(false);
+    expect(scheduler.stats()).toMatchObject({
+      queued: { interactive: 1, background: 0 },
+      throttled: 1,
+      recentThrottles: [{ endpoint: 'purchases?page=3', delayMs: 2000, retryAfter: true }]
+    });
+
+    await jest.advanceTimersByTimeAsync(20);
+    await waiting;
+    expect(scheduler.stats().pausedUntil).toBeNull();
+  });
+
+  it('should throttle the shared scheduler when Siigo answers 429 and run background calls with low priority', async () => {
+    const scheduler = new SiigoScheduler({ requestsPerMinute: 60_000, burst: 10 });
+    const acquire = jest.spyOn(scheduler, 'acquire');
+    const client = new SiigoClient({
+      apiUrl: 'https://siigo.test/v1',
+      authUrl: 'https://siigo.test/auth',
+      username: 'user',
+      accessKey: 'key',
+      retryDelayMs: 0,
+      scheduler
+    });
+    const response = (status: number, data: unknown, retryAfter: string | null = null) => ({
+      ok: status < 400,
+      status,
+      statusText: '',
+      headers: { get: (name: string) => (name.toLowerCase() === 'retry-after' ? retryAfter : null) },
+      json: async () => data,
+      text: async () => JSON.stringify(data)
+    });
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(response(200, { access_token: 'token-123' }))
+      .mockResolvedValueOnce(response(429, { message: 'Too many requests' }, '0'))
+      .mockResolvedValueOnce(response(200, { results: [] })) as jest.Mock;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await runWithSiigoPriority('background', () => client.get('purchases', { page: 1 }));
+
+    expect(acquire.mock.calls.map(([priority]) => priority)).toEqual(['interactive', 'background', 'background']);
+    expect(scheduler.stats().recentThrottles).toEqual([
+      expect.objectContaining({ endpoint: 'purchases?page=1', delayMs: 0, retryAfter: true })
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import type { SiigoCustomerResponse } from '@/types/siigo';
+import {
+  buildSupplierCustomer,
+  localSupplierIdentification,
+  reconcileSuppliers,
+  supplierFromSiigoCustomer,
+  supportSupplierFromSiigo
+} from '../suppliers';
+
+describe('Siigo suppliers', () => {
+  const customer = (overrides: Partial<SiigoCustomerResponse> = {}): SiigoCustomerResponse => ({
+    id: 'c-1',
+    type: 'Supplier',
+    person_type: 'Company',
+    id_type: { code: '31', name: 'NIT' },
+    identification: '800197268',
+    branch_office: 0,
+    check_digit: '4',
+    name: ['Distribuidora Andina S.A.S.'],
+    active: true,
+    vat_responsible: true,
+    fiscal_responsibilities: [{ code: 'O-13', name: 'Gran contribuyente' }],
+    address: {
+      address: 'Calle 10 # 20-30',
+      city: { country_code: 'Co', state_code: '05', city_code: '05001', city_name: 'Medellín' }
+    },
+    phones: [{ indicative: '604', number: '4445566' }],
+    contacts: [{ first_name: 'Laura', last_name: 'Gómez', email: 'compras@andina.co' }],
+    metadata: { created: '2024-01-10T10:00:00Z', last_updated: null },
+    ...overrides
+  });
+
+  it('should normalize a Siigo third party with its DIAN and contact data', () => {
+    const supplier = supplierFromSiigoCustomer(customer());
+
+    expect(supplier).toMatchObject({
+      identification: '800197268',
+      branchOffice: 0,
+      idType: '31',
+      idTypeName: 'NIT',
+      checkDigit: '4',
+      name: 'Distribuidora Andina S.A.S.',
+      cityCode: '05001',
+      cityName: 'Medellín',
+      phone: '604 4445566',
+      email: 'compras@andina.co',
+      updatedAt: '2024-01-10T10:00:00Z'
+    });
+    expect(supportSupplierFromSiigo(supplier)).toEqual({
+      idType: '31',
+      identification: '800197268',
+      firstName: 'Distribuidora Andina S.A.S.',
+      lastName: '',
+      address: 'Calle 10 # 20-30',
+      cityCode: '05001',
+      phone: '604 4445566',
+      email: 'compras@andina.co'
+    });
+  });
+
+  it('should strip the check digit and punctuation from local identifications', () => {
+    expect(localSupplierIdentification('800.197.268-4')).toBe('800197268');
+    expect(localSupplierIdentification(' 1020304050 ')).toBe('1020304050');
+    expect(localSupplierIdentification(null)).toBe('');
+  });
+
+  it('should report conflicts without overwriting local names', () => {
+    const siigo = [
+      supplierFromSiigoCustomer(customer()),
+      supplierFromSiigoCustomer(customer({ id: 'c-1b', branch_office: 1, name: ['Andina sucursal norte'] })),
+      supplierFromSiigoCustomer(customer({
+        id: 'c-2',
+        person_type: 'Person',
+        id_type: '13',
+        identification: '1020304050',
+        check_digit: undefined,
+        name: ['Ana María', 'Pérez'],
+        active: false
+      })),
+      supplierFromSiigoCustomer(customer({ id: 'c-3', identification: '900123456', check_digit: '1', name: ['Servicios del Valle'] })),
+      supplierFromSiigoCustomer(customer({ id: 'c-4', identification: '901000001', check_digit: undefined, name: ['Solo en Siigo'] }))
+    ];
+    const local = [
+      { codigo: '800197268-4', nombre: 'DISTRIBUIDORA ANDINA SAS', identification: null },
+      { codigo: 'P-002', nombre: 'Pérez Ana María', identification: '1020304050' },
+      { codigo: '900123456', nombre: 'Servicios Valle', identification: null },
+      { codigo: '900123456-8', nombre: 'Servicios del Valle', identification: null },
+      { codigo: '811222333', nombre: 'Proveedor nuevo', identification: null }
+    ];
+
+    const { conflicts, missingLocally } = reconcileSuppliers(local, siigo);
+    const summary = conflicts.map(conflict => [conflict.kind, conflict.identification]);
+
+    expect(summary).toEqual([
+      ['inactive_in_siigo', '1020304050'],
+      ['name_mismatch', '900123456'],
+      ['duplicated_locally', '900123456'],
+      ['missing_in_siigo', '811222333'],
+      ['check_digit_mismatch', '900123456']
+    ]);
+    expect(conflicts.find(conflict => conflict.kind === 'check_digit_mismatch')?.detail).toContain('debería ser 8');
+    expect(missingLocally.map(supplier => supplier.identification)).toEqual(['901000001']);
+  });
+
+  it('should build the customer for Siigo with the chosen fiscal responsibilities', () => {
+    const request = buildSupplierCustomer({
+      idType: '31',
+      identification: '800197268',
+      firstName: 'Distribuidora Andina S.A.S.',
+      lastName: '',
+      address: 'Calle 10 # 20-30',
+      cityCode: '05001',
+      commercialName: ' Andina ',
+      vatResponsible: true,
+      fiscalResponsibilities: ['O-13', 'O-15']
+    });
+
+    expect(request).toMatchObject({
+      type: 'Supplier',
+      person_type: 'Company',
+      check_digit: '4',
+      commercial_name: 'Andina',
+      vat_responsible: true,
+      fiscal_responsibilities: [{ code: 'O-13' }, { code: 'O-15' }]
+    });
+    expect(buildSupplierCustomer({
+      idType: '13', identification: '1020304050', firstName: 'Ana', lastName: 'Pérez', address: 'Calle 1', cityCode: '11001'
+    }).fiscal_responsibilities).toEqual([{ code: 'R-99-PN' }]);
+  });
+});
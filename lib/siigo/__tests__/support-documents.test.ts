@@ -0,0 +1,41 @@
+import { buildSupportDocumentCustomer, calculateNitCheckDigit } from '../support-documents';
+
+describe('Support Documents', () => {
+  const supplier = {
+    idType: '13' as const,
+    identification: ' 1020304050 ',
+    firstName: 'Ana',
+    lastName: 'Pérez',
+    address: 'Calle 1 # 2-3',
+    cityCode: '05001',
+  };
+
+  it('should calculate the DIAN check digit of a NIT', () => {
+    expect(calculateNitCheckDigit('800197268')).toBe('4');
+    expect(calculateNitCheckDigit('900.123.456')).toBe('8');
+  });
+
+  it('should build a non-responsible natural person supplier', () => {
+    const customer = buildSupportDocumentCustomer(supplier);
+
+    expect(customer).toMatchObject({
+      type: 'Supplier',
+      person_type: 'Person',
+      identification: '1020304050',
+      name: ['Ana', 'Pérez'],
+      vat_responsible: false,
+      fiscal_responsibilities: [{ code: 'R-99-PN' }],
+      address: { city: { country_code: 'Co', state_code: '05', city_code: '05001' } }
+    });
+    expect(customer.check_digit).toBeUndefined();
+    expect(customer.contacts).toBeUndefined();
+  });
+
+  it('should send the business name and check digit for a NIT', () => {
+    const customer = buildSupportDocumentCustomer({ ...supplier, idType: '31', identification: '900123456', lastName: '' });
+
+    expect(customer.person_type).toBe('Company');
+    expect(customer.check_digit).toBe('8');
+    expect(customer.name).toEqual(['Ana']);
+  });
+});
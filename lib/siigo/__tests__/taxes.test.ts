@@ -0,0 +1,64 @@
+import { calculateLineAmounts, calculateTaxes, getDefaultIvaTax, groupTaxesByKind } from '../taxes';
+import type { SiigoTaxCatalogItem } from '@/types/siigo';
+
+describe('Taxes', () => {
+  const catalog: SiigoTaxCatalogItem[] = [
+    { id: 1, name: 'IVA 5%', type: 'IVA', percentage: 5, active: true },
+    { id: 2, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true },
+    { id: 3, name: 'Impoconsumo 8%', type: 'Impoconsumo', percentage: 8, active: true },
+    { id: 4, name: 'Retención 2,5%', type: 'Retefuente', percentage: 2.5, active: true },
+    { id: 5, name: 'ReteIVA 15%', type: 'ReteIVA', percentage: 15, active: true },
+    { id: 6, name: 'IVA 16%', type: 'IVA', percentage: 16, active: false },
+  ];
+
+  it('should group active taxes by kind', () => {
+    const grouped = groupTaxesByKind(catalog);
+
+    expect(grouped.iva.map((t) => t.id)).toEqual([1, 2]);
+    expect(grouped.consumption.map((t) => t.id)).toEqual([3]);
+    expect(grouped.retentions.map((t) => t.id)).toEqual([4, 5]);
+  });
+
+  it('should prefer the general 19% IVA as default', () => {
+    expect(getDefaultIvaTax(catalog)?.id).toBe(2);
+  });
+
+  it('should add taxes and withhold retentions, with ReteIVA over the IVA', () => {
+    const result = calculateTaxes(100000, [2, 4, 5], catalog);
+
+    expect(result.added).toBe(19000);
+    expect(result.withheld).toBe(2500 + 2850);
+    expect(result.lines.find((l) => l.tax.id === 5)?.value).toBe(-2850);
+  });
+
+  it('should ignore taxes missing from the catalog', () => {
+    expect(calculateTaxes(100000, [99], catalog).lines).toHaveLength(0);
+  });
+
+  it('should round each tax to cents per line', () => {
+    expect(calculateTaxes(840.34, [2], catalog).lines[0].value).toBe(159.66);
+    expect(calculateLineAmounts(333.333, [1, 4], catalog)).toEqual({
+      base: 333.33,
+      breakdown: expect.objectContaining({ added: 16.67, withheld: 8.33 }),
+      total: 341.67
+    });
+  });
+
+  it('should take the base out of tax-included prices and keep the quoted line value', () => {
+    expect(calculateLineAmounts(119000, [2], catalog, true)).toMatchObject({ base: 100000, total: 119000 });
+    expect(calculateLineAmounts(1000, [2], catalog, true)).toMatchObject({ base: 840.34, total: 1000 });
+    expect(calculateLineAmounts(127000, [2, 3], catalog, true)).toMatchObject({ base: 100000, total: 127000 });
+  });
+
+  it('should withhold retentions over the base when prices include tax', () => {
+    const result = calculateLineAmounts(119000, [2, 4], catalog, true);
+
+    expect(result.base).toBe(100000);
+    expect(result.breakdown.withheld).toBe(2500);
+    expect(result.total).toBe(116500);
+  });
+
+  it('should leave exempt lines unchanged in tax-included mode', () => {
+    expect(calculateLineAmounts(50000, [], catalog, true)).toMatchObject({ base: 50000, total: 50000 });
+  });
+});
@@ -0,0 +1,132 @@
+jest.mock('@/lib/db', () => ({ sql: jest.fn() }));
+
+import * as XLSX from 'xlsx';
+import type { SiigoTaxCatalogItem } from '@/types/siigo';
+import { sql } from '@/lib/db';
+import { parseUblInvoice, parseXml, prefillFields, prefillItems, UblParseError } from '../ubl';
+import { prefillFromElectronicInvoice, readElectronicInvoiceFile } from '../ubl-import';
+
+const invoiceXml = `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"
+  xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"
+  xmlns:sts="dian:gov:co:facturaelectronica:Structures-2-1">
+  <ext:UBLExtensions><ext:UBLExtension><ext:ExtensionContent><sts:DianExtensions>
+    <sts:InvoiceControl><sts:AuthorizedInvoices><sts:Prefix>FE</sts:Prefix></sts:AuthorizedInvoices></sts:InvoiceControl>
+  </sts:DianExtensions></ext:ExtensionContent></ext:UBLExtension></ext:UBLExtensions>
+  <cbc:ID>FE1024</cbc:ID>
+  <cbc:UUID schemeName="CUFE-SHA384">8bb918b19ba22a694f1da</cbc:UUID>
+  <cbc:IssueDate>2026-01-15</cbc:IssueDate>
+  <cbc:DocumentCurrencyCode>COP</cbc:DocumentCurrencyCode>
+  <cac:AccountingSupplierParty><cac:Party>
+    <cac:PartyTaxScheme>
+      <cbc:RegistrationName>Distribuidora Andina S.A.S. &amp; Cía</cbc:RegistrationName>
+      <cbc:CompanyID schemeID="7" schemeName="31">900123456</cbc:CompanyID>
+    </cac:PartyTaxScheme>
+  </cac:Party></cac:AccountingSupplierParty>
+  <cac:LegalMonetaryTotal>
+    <cbc:TaxExclusiveAmount currencyID="COP">190000.00</cbc:TaxExclusiveAmount>
+    <cbc:PayableAmount currencyID="COP">226100.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="94">2</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="COP">90000.00</cbc:LineExtensionAmount>
+    <cac:AllowanceCharge><cbc:ChargeIndicator>false</cbc:ChargeIndicator><cbc:Amount currencyID="COP">10000.00</cbc:Amount></cac:AllowanceCharge>
+    <cac:TaxTotal><cac:TaxSubtotal><cac:TaxCategory>
+      <cbc:Percent>19.00</cbc:Percent><cac:TaxScheme><cbc:ID>01</cbc:ID><cbc:Name>IVA</cbc:Name></cac:TaxScheme>
+    </cac:TaxCategory></cac:TaxSubtotal></cac:TaxTotal>
+    <cac:Item><cbc:Description>Resma de papel carta</cbc:Description><cac:SellersItemIdentification><cbc:ID>1001</cbc:ID></cac:SellersItemIdentification></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="COP">50000.00</cbc:PriceAmount><cbc:BaseQuantity unitCode="94">1</cbc:BaseQuantity></cac:Price>
+  </cac:InvoiceLine>
+  <cac:InvoiceLine>
+    <cbc:ID>2</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="94">1</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="COP">100000.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Description>Servicio de transporte</cbc:Description><cac:StandardItemIdentification><cbc:ID>TR-01</cbc:ID></cac:StandardItemIdentification></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="COP">100000.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+</Invoice>`;
+
+const attachedXml = `<?xml version="1.0" encoding="UTF-8"?>
+<AttachedDocument xmlns="urn:oasis:names:specification:ubl:schema:xsd:AttachedDocument-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <!-- Contenedor que envía el proveedor -->
+  <cbc:ID>FE1024</cbc:ID>
+  <cac:Attachment><cac:ExternalReference>
+    <cbc:MimeCode>text/xml</cbc:MimeCode>
+    <cbc:Description><![CDATA[${invoiceXml}]]></cbc:Description>
+  </cac:ExternalReference></cac:Attachment>
+</AttachedDocument>`;
+
+const taxes: SiigoTaxCatalogItem[] = [
+  { id: 1, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true },
+  { id: 2, name: 'IVA 5%', type: 'IVA', percentage: 5, active: true }
+];
+
+describe('DIAN electronic invoices', () => {
+  it('should parse elements, attributes, entities and self-closing tags', () => {
+    const root = parseXml('<?xml version="1.0"?><a:Root x="1 &lt; 2"><b:Item/><c>Caf&#233; &amp; t&#xE9;</c></a:Root>');
+
+    expect(root.name).toBe('Root');
+    expect(root.attributes).toEqual({ x: '1 < 2' });
+    expect(root.children.map(child => [child.name, child.text])).toEqual([['Item', ''], ['c', 'Café & té']]);
+    expect(() => parseXml('<a><b></a>')).toThrow(UblParseError);
+    expect(() => parseXml('<a>')).toThrow('El XML está incompleto');
+  });
+
+  it('should read the invoice embedded in the AttachedDocument', () => {
+    const invoice = parseUblInvoice(attachedXml);
+
+    expect(invoice).toMatchObject({
+      id: 'FE1024',
+      prefix: 'FE',
+      number: '1024',
+      cufe: '8bb918b19ba22a694f1da',
+      issueDate: '2026-01-15',
+      currency: 'COP',
+      supplier: { nit: '900123456', dv: '7', name: 'Distribuidora Andina S.A.S. & Cía' },
+      payableAmount: 226100
+    });
+    expect(invoice.lines).toEqual([
+      { code: '1001', description: 'Resma de papel carta', quantity: 2, unitPrice: 50000, discount: 10000, ivaRate: 19, lineTotal: 90000 },
+      { code: 'TR-01', description: 'Servicio de transporte', quantity: 1, unitPrice: 100000, discount: 0, ivaRate: null, lineTotal: 100000 }
+    ]);
+  });
+
+  it('should reject documents that are not invoices', () => {
+    expect(() => parseUblInvoice('<CreditNote><ID>NC1</ID></CreditNote>')).toThrow('solo se admiten facturas electrónicas');
+  });
+
+  it('should take the XML out of the ZIP sent by the supplier', () => {
+    const container = XLSX.CFB.utils.cfb_new();
+    XLSX.CFB.utils.cfb_add(container, 'ad09001234560002600001024.xml', Buffer.from(attachedXml));
+    XLSX.CFB.utils.cfb_add(container, 'fv09001234560002600001024.pdf', Buffer.from('%PDF-1.4'));
+    const zip = XLSX.CFB.write(container, { fileType: 'zip', type: 'buffer', compression: true });
+
+    expect(parseUblInvoice(readElectronicInvoiceFile(zip, 'factura.zip')).id).toBe('FE1024');
+    expect(() => readElectronicInvoiceFile(Buffer.from('no es un zip'), 'factura.zip')).toThrow(UblParseError);
+  });
+
+  it('should match the supplier and products and build the form items', async () => {
+    const sqlMock = sql as unknown as jest.Mock;
+    sqlMock
+      .mockResolvedValueOnce([{ codigo: '900123456', nombre: 'Distribuidora Andina' }])
+      .mockResolvedValueOnce([{ codigo: '1001', nombre: 'Resma de papel' }]);
+
+    const prefill = await prefillFromElectronicInvoice(attachedXml);
+
+    expect(prefill.supplier).toEqual({ status: 'matched', codigo: '900123456', nombre: 'Distribuidora Andina' });
+    expect(prefill.lines.map(line => line.status)).toEqual(['matched', 'not_found']);
+    expect(prefillFields(prefill).map(field => [field.label, field.status])).toEqual([
+      ['Proveedor', 'matched'], ['Prefijo', 'read'], ['Número', 'read'], ['CUFE', 'read'],
+      ['Fecha', 'read'], ['Moneda', 'read'], ['Ítem 1', 'matched'], ['Ítem 2', 'not_found']
+    ]);
+    expect(prefillItems(prefill, taxes).map(item => [item.code, item.quantity, item.price, item.taxIds, item.discount])).toEqual([
+      ['1001', 2, 50000, [1], { value: 10000 }],
+      ['TR-01', 1, 100000, [], undefined]
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { calculateWithholdings, WithholdingContext } from '../withholdings';
+import { getDefaultFiscalParameters } from '../fiscal-parameters';
+import type { SiigoTaxCatalogItem } from '@/types/siigo';
+
+describe('Withholdings', () => {
+  const catalog: SiigoTaxCatalogItem[] = [
+    { id: 1, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true },
+    { id: 10, name: 'Retención compras 2,5%', type: 'Retefuente', percentage: 2.5, active: true },
+    { id: 12, name: 'Retención compras 3,5%', type: 'Retefuente', percentage: 3.5, active: true },
+    { id: 11, name: 'Retención servicios 4%', type: 'Retefuente', percentage: 4, active: true },
+    { id: 20, name: 'ReteIVA 15%', type: 'ReteIVA', percentage: 15, active: true },
+    { id: 30, name: 'ReteICA Bogotá 4,14 x mil', type: 'ReteICA', percentage: 0.414, active: true },
+    { id: 31, name: 'ReteICA Bogotá 9,66 x mil', type: 'ReteICA', percentage: 0.966, active: true },
+  ];
+  const parameters = getDefaultFiscalParameters('2025-03-01');
+  const { uvt } = parameters;
+  const context: WithholdingContext = { regime: 'responsable_iva', cityCode: '11001', parameters };
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+
+  it('should apply retefuente, ReteIVA and ReteICA once the purchase base reaches 27 UVT', () => {
+    const base = 2000000;
+    const result = calculateWithholdings([{ base, iva: base * 0.19, concept: 'compras' }], context, catalog);
+
+    expect(result.taxIds).toEqual([[10, 20, 30]]);
+    expect(result.summary.map((line) => line.value)).toEqual([50000, 57000, 8280]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should compare the minimum base against the invoice total per concept', () => {
+    const half = 27 * uvt / 2 + 1;
+    const lines = [
+      { base: half, iva: 0, concept: 'compras' as const },
+      { base: half, iva: 0, concept: 'compras' as const },
+      { base: 100000, iva: 0, concept: null },
+    ];
+
+    expect(calculateWithholdings(lines.slice(0, 1), context, catalog).taxIds).toEqual([[]]);
+    expect(calculateWithholdings(lines, context, catalog).taxIds).toEqual([[10, 30], [10, 30], []]);
+  });
+
+  it('should compare foreign-currency bases with the minimum in pesos', () => {
+    const usd = (base: number) => [{ base, iva: base * 0.19, concept: 'compras' as const }];
+    const minimumUsd = 27 * uvt / 4000;
+
+    // Por encima de la base en pesos aunque en dólares sea un valor pequeño
+    const above = calculateWithholdings(usd(minimumUsd + 1), { ...context, exchangeRate: 4000 }, catalog);
+    expect(above.taxIds).toEqual([[10, 20, 30]]);
+    expect(above.summary[0]).toMatchObject({ type: 'Retefuente', base: round2(minimumUsd + 1) });
+
+    // Un dólar por debajo de la base en pesos
+    expect(calculateWithholdings(usd(minimumUsd - 1), { ...context, exchangeRate: 4000 }, catalog).taxIds).toEqual([[]]);
+  });
+
+  it('should follow the supplier regime and the document type flags', () => {
+    const line = { base: 500000, iva: 95000, concept: 'servicios' as const };
+
+    expect(calculateWithholdings([line], { ...context, regime: 'autorretenedor' }, catalog).taxIds).toEqual([[20, 31]]);
+    expect(calculateWithholdings([line], { ...context, regime: 'regimen_simple' }, catalog).taxIds).toEqual([[20]]);
+    expect(calculateWithholdings([line], { ...context, documentType: { reteiva: false, reteica: false } }, catalog).taxIds)
+      .toEqual([[11]]);
+  });
+
+  it('should withhold 3.5% on purchases from non-declarant individuals', () => {
+    const base = 2000000;
+    const result = calculateWithholdings(
+      [{ base, iva: 0, concept: 'compras' }],
+      { ...context, regime: 'no_responsable_iva', nonDeclarant: true, cityCode: null },
+      catalog
+    );
+
+    expect(result.taxIds).toEqual([[12]]);
+    expect(result.summary).toEqual([expect.objectContaining({ type: 'Retefuente', rate: 3.5, value: 70000 })]);
+    // No ser responsable de IVA no lo hace no declarante de renta
+    expect(calculateWithholdings(
+      [{ base, iva: 0, concept: 'compras' }],
+      { ...context, regime: 'no_responsable_iva', cityCode: null },
+      catalog
+    ).taxIds).toEqual([[10]]);
+  });
+
+  it('should warn when the rate does not exist in the Siigo catalog', () => {
+    const result = calculateWithholdings(
+      [{ base: 500000, iva: 0, concept: 'servicios' }],
+      { ...context, regime: 'no_responsable_iva', nonDeclarant: true, cityCode: null },
+      catalog
+    );
+
+    expect(result.taxIds).toEqual([[]]);
+    expect(result.warnings).toEqual(['No existe en Siigo una retención Retefuente del 6%']);
+  });
+});
@@ -0,0 +1,127 @@
+import { sql } from '@/lib/db';
+import type { SiigoPurchaseRequest } from '@/types/siigo';
+import { currentSiigoAuditContext, replayBlocker, runWithSiigoAudit, SiigoAuditEntry } from './audit';
+import { SiigoClient, siigoClient } from './client';
+import { getCurrentCompanyId } from './companies';
+import { DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE, purchaseIdentityOf } from './duplicates';
+import { findDuplicatePurchases } from './purchases-sync';
+
+export interface SiigoAuditRecord extends SiigoAuditEntry {
+  id: number;
+  createdAt: string;
+}
+
+export interface SiigoAuditFilters {
+  userEmail?: string;
+  /** Coincidencia parcial sobre la ruta (purchases, payment-receipts, ...) */
+  endpoint?: string;
+  correlationId?: string;
+  /** Solo llamadas que fallaron (status >= 400 o sin respuesta) */
+  failedOnly?: boolean;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+}
+
+export const SIIGO_AUDIT_PAGE_SIZE = 100;
+
+export class SiigoAuditReplayError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'SiigoAuditReplayError';
+  }
+}
+
+const toAuditRecord = (row: Record<string, unknown>): SiigoAuditRecord => ({
+  id: Number(row.id),
+  correlationId: String(row.correlation_id),
+  userEmail: row.user_email ? String(row.user_email) : null,
+  method: row.method as SiigoAuditRecord['method'],
+  endpoint: String(row.endpoint),
+  attempt: Number(row.attempt),
+  payload: row.payload ?? null,
+  status: row.status === null || row.status === undefined ? null : Number(row.status),
+  response: row.response ?? null,
+  durationMs: Number(row.duration_ms),
+  error: row.error ? String(row.error) : null,
+  replayOf: row.replay_of === null || row.replay_of === undefined ? null : Number(row.replay_of),
+  createdAt: new Date(row.created_at as string).toISOString()
+});
+
+export async function recordSiigoAudit(entry: SiigoAuditEntry, companyId: string = getCurrentCompanyId()): Promise<void> {
+  await sql`
+    INSERT INTO siigo_audit (
+      company_id, correlation_id, user_email, method, endpoint, attempt,
+      payload, status, response, duration_ms, error, replay_of
+    ) VALUES (
+      ${companyId}, ${entry.correlationId}, ${entry.userEmail}, ${entry.method}, ${entry.endpoint}, ${entry.attempt},
+      ${entry.payload === null ? null : JSON.stringify(entry.payload)}, ${entry.status},
+      ${entry.response === null ? null : JSON.stringify(entry.response)}, ${entry.durationMs}, ${entry.error}, ${entry.replayOf}
+    )
+  `;
+}
+
+/**
+ * Busca en la bitácora, de la llamada más reciente a la más antigua
+ */
+export async function searchSiigoAudit(
+  filters: SiigoAuditFilters = {},
+  companyId: string = getCurrentCompanyId()
+): Promise<SiigoAuditRecord[]> {
+  const endpoint = filters.endpoint?.trim() ? `%${filters.endpoint.trim()}%` : null;
+  const rows = await sql`
+    SELECT * FROM siigo_audit
+    WHERE company_id = ${companyId}
+      AND (${filters.userEmail ?? null}::text IS NULL OR user_email = ${filters.userEmail ?? null})
+      AND (${endpoint}::text IS NULL OR endpoint ILIKE ${endpoint})
+      AND (${filters.correlationId ?? null}::text IS NULL OR correlation_id = ${filters.correlationId ?? null})
+      AND (${filters.failedOnly ?? false} = FALSE OR status IS NULL OR status >= 400)
+      AND (${filters.startDate ?? null}::date IS NULL OR created_at >= ${filters.startDate ?? null}::date)
+      AND (${filters.endDate ?? null}::date IS NULL OR created_at < ${filters.endDate ?? null}::date + 1)
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${Math.min(filters.limit ?? SIIGO_AUDIT_PAGE_SIZE, SIIGO_AUDIT_PAGE_SIZE)}
+  `;
+  return rows.map(toAuditRecord);
+}
+
+export async function getSiigoAuditRecord(id: number, companyId: string = getCurrentCompanyId()): Promise<SiigoAuditRecord | null> {
+  const rows = await sql`SELECT * FROM siigo_audit WHERE company_id = ${companyId} AND id = ${id}`;
+  return rows.length > 0 ? toAuditRecord(rows[0]) : null;
+}
+
+/**
+ * Reenvía a Siigo el cuerpo de una llamada fallida. La nueva llamada queda en la
+ * bitácora con replay_of apuntando al registro original.
+ * @throws SiigoAuditReplayError si el registro no existe, no se puede reenviar o la compra ya está en Siigo
+ * @throws SiigoApiError si Siigo vuelve a rechazarla
+ */
+export async function replaySiigoAuditRecord(
+  id: number,
+  userEmail: string,
+  client: SiigoClient = siigoClient
+): Promise<unknown> {
+  const record = await getSiigoAuditRecord(id);
+  if (!record) throw new SiigoAuditReplayError('El registro de la bitácora no existe', 404);
+
+  const blocker = replayBlocker(record);
+  if (blocker) throw new SiigoAuditReplayError(blocker, 400);
+
+  // Un 5xx o un timeout pudo haber creado la compra de todas formas
+  if (record.endpoint.startsWith('purchases')) {
+    const identity = purchaseIdentityOf(record.payload as SiigoPurchaseRequest);
+    const search = identity ? await findDuplicatePurchases(identity, { client }) : { duplicates: [], incomplete: false };
+    if (search.duplicates.length > 0) {
+      throw new SiigoAuditReplayError(
+        `La factura del proveedor ya está registrada: ${search.duplicates.map(d => d.name).join(', ')}`,
+        409
+      );
+    }
+    // Sin revisar todo Siigo no se puede descartar que el intento original haya creado la compra
+    if (search.incomplete) throw new SiigoAuditReplayError(DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE, 409);
+  }
+
+  return runWithSiigoAudit(
+    { correlationId: currentSiigoAuditContext().correlationId, userEmail, replayOf: record.id },
+    () => client.post(record.endpoint, record.payload)
+  );
+}
@@ -0,0 +1,112 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { SiigoHttpMethod } from './client';
+
+// Bitácora de las llamadas a Siigo (tabla siigo_audit, ver scripts/20-create-siigo-audit.sql)
+
+export const SIIGO_AUDIT_REDACTED = '[REDACTED]';
+
+// Llaves cuyo valor nunca se guarda, sin importar en qué nivel del cuerpo aparezcan
+const SENSITIVE_KEY = /^(access_?key|access_?token|refresh_?token|token|password|secret|client_?secret|authorization|api_?key)$/i;
+
+// Los listados de Siigo pueden pesar megas: se guarda solo el comienzo
+export const SIIGO_AUDIT_MAX_BODY_CHARS = 100_000;
+
+export interface SiigoAuditEntry {
+  correlationId: string;
+  userEmail: string | null;
+  method: SiigoHttpMethod;
+  /** Ruta con query, sin el host (purchases?page=2) */
+  endpoint: string;
+  /** Intento dentro de la misma llamada del cliente (1 = primero) */
+  attempt: number;
+  payload: unknown;
+  /** null si no hubo respuesta (timeout o error de red) */
+  status: number | null;
+  response: unknown;
+  durationMs: number;
+  error: string | null;
+  /** Registro que se reenvió desde la administración */
+  replayOf: number | null;
+}
+
+export type SiigoAuditor = (entry: SiigoAuditEntry) => void | Promise<void>;
+
+export interface SiigoAuditContext {
+  correlationId: string;
+  userEmail: string | null;
+  replayOf: number | null;
+}
+
+const auditContext = new AsyncLocalStorage<SiigoAuditContext>();
+
+/**
+ * Ejecuta `fn` asociando al usuario y a un mismo correlation id todas las
+ * llamadas a Siigo que haga, incluidas las que ocurren en otros módulos.
+ */
+export function runWithSiigoAudit<T>(context: Partial<SiigoAuditContext>, fn: () => Promise<T>): Promise<T> {
+  return auditContext.run({
+    correlationId: context.correlationId || randomUUID(),
+    userEmail: context.userEmail ?? null,
+    replayOf: context.replayOf ?? null
+  }, fn);
+}
+
+/**
+ * Igual que runWithSiigoAudit para el resto de la petición en curso: se llama al
+ * comienzo del handler de una ruta, una vez se conoce el usuario.
+ * @returns el correlation id, para devolverlo al cliente
+ */
+export function startSiigoAudit(context: Partial<SiigoAuditContext>): string {
+  const correlationId = context.correlationId || randomUUID();
+  auditContext.enterWith({ correlationId, userEmail: context.userEmail ?? null, replayOf: context.replayOf ?? null });
+  return correlationId;
+}
+
+/** Contexto de la petición en curso; fuera de runWithSiigoAudit cada llamada tiene su propio id */
+export function currentSiigoAuditContext(): SiigoAuditContext {
+  return auditContext.getStore() ?? { correlationId: randomUUID(), userEmail: null, replayOf: null };
+}
+
+/** Copia del cuerpo con las credenciales reemplazadas por [REDACTED] */
+export function redactSiigoPayload(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSiigoPayload);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+    key,
+    SENSITIVE_KEY.test(key) && item !== null && item !== undefined && item !== '' ? SIIGO_AUDIT_REDACTED : redactSiigoPayload(item)
+  ]));
+}
+
+/** Cuerpo listo para guardar: sin credenciales y recortado si es muy grande */
+export function auditBody(value: unknown): unknown {
+  if (value === undefined) return null;
+  const redacted = redactSiigoPayload(value);
+  const text = JSON.stringify(redacted);
+  return text.length > SIIGO_AUDIT_MAX_BODY_CHARS
+    ? { truncated: true, length: text.length, preview: text.slice(0, SIIGO_AUDIT_MAX_BODY_CHARS) }
+    : redacted;
+}
+
+function containsRedacted(value: unknown): boolean {
+  return JSON.stringify(value ?? null).includes(SIIGO_AUDIT_REDACTED);
+}
+
+// Solo se reenvían escrituras de documentos: la autenticación y las consultas no tienen nada que corregir
+const REPLAYABLE_ENDPOINTS = ['purchases', 'payment-receipts', 'customers'];
+
+/**
+ * Motivo por el que un registro no se puede reenviar, o null si se puede
+ */
+export function replayBlocker(entry: Pick<SiigoAuditEntry, 'method' | 'endpoint' | 'status' | 'payload'>): string | null {
+  const resource = entry.endpoint.split(/[/?]/)[0];
+  if (entry.method !== 'POST' || !REPLAYABLE_ENDPOINTS.includes(resource)) {
+    return 'Solo se pueden reenviar creaciones de compras, recibos de pago y terceros';
+  }
+  if (entry.status !== null && entry.status < 400) return 'La llamada no falló';
+  if (!entry.payload || typeof entry.payload === 'object' && 'truncated' in entry.payload) {
+    return 'El cuerpo de la llamada no quedó guardado completo';
+  }
+  if (containsRedacted(entry.payload)) return 'El cuerpo tiene datos ocultos y no se puede reenviar tal cual';
+  return null;
+}
@@ -0,0 +1,232 @@
+import { sql } from '@/lib/db';
+import type { SiigoPurchaseRequest } from '@/types/siigo';
+import { SiigoApiError } from './api';
+import {
+  BulkCatalogItem,
+  BulkPurchase,
+  BulkPurchaseCatalogs,
+  BulkPurchasePreview,
+  BulkSubmissionResult,
+  BulkSupplier,
+  exchangeRateKey,
+  prepareBulkPurchases
+} from './bulk-purchases';
+import { getSiigoCostCenters, getSiigoPaymentTypes, getSiigoTaxes } from './catalogs';
+import { SiigoAuthError, SiigoClient, siigoClient } from './client';
+import { getCurrentCompanyId } from './companies';
+import { getDocumentTypeErrors } from './document-rules';
+import type { DocumentTypeSiigo } from './document-types';
+import { DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE, purchaseIdentityOf } from './duplicates';
+import { isForeignCurrency } from './exchange-rates';
+import { findExchangeRate } from './exchange-rates-store';
+import { yearOfDate } from './fiscal-parameters';
+import { getFiscalParametersForDate } from './fiscal-parameters-store';
+import { attemptOutboxItem, cancelOutboxItem, enqueueOutboxPurchase } from './outbox-store';
+import { mapSiigoPurchaseErrors } from './purchaseApi';
+import { findDuplicatePurchases } from './purchases-sync';
+
+const unique = <T>(values: T[]) => Array.from(new Set(values));
+
+async function listPurchaseDocumentTypes(client: SiigoClient): Promise<DocumentTypeSiigo[]> {
+  const data = await client.get<DocumentTypeSiigo[] | DocumentTypeSiigo>('document-types', { type: 'FC' });
+  // El documento soporte tiene su propio formulario: la carga masiva es solo para facturas de compra
+  return (Array.isArray(data) ? data : [data]).filter(documentType => !documentType.document_support);
+}
+
+/**
+ * Carga solo lo que el archivo referencia: proveedores, productos y activos por
+ * código, los catálogos de Siigo, los parámetros fiscales de cada año y la TRM
+ * de las facturas en moneda extranjera que no la traen.
+ */
+export async function loadBulkPurchaseCatalogs(
+  purchases: BulkPurchase[],
+  client: SiigoClient = siigoClient,
+  companyId = getCurrentCompanyId()
+): Promise<BulkPurchaseCatalogs> {
+  const supplierKeys = unique(purchases.map(purchase => purchase.supplier).filter(Boolean));
+  const linesOf = (type: string) => unique(purchases.flatMap(p => p.lines).filter(l => l.type === type && l.code).map(l => l.code));
+
+  const [supplierRows, productRows, assetRows, taxes, paymentTypes, costCenters, documentTypes] = await Promise.all([
+    sql`
+      SELECT codigo, nombre, identification FROM proveedores
+      WHERE company_id = ${companyId}
+        AND (codigo = ANY(${supplierKeys}::text[]) OR identification = ANY(${supplierKeys}::text[]))
+    `,
+    sql`SELECT codigo, nombre FROM productos_ WHERE company_id = ${companyId} AND codigo = ANY(${linesOf('producto')}::text[])`,
+    sql`SELECT codigo, nombre FROM activos WHERE codigo = ANY(${linesOf('activo')}::text[])`,
+    getSiigoTaxes({ client }),
+    getSiigoPaymentTypes({ client, documentType: 'FC' }),
+    getSiigoCostCenters({ client }),
+    listPurchaseDocumentTypes(client)
+  ]);
+  const suppliers: BulkSupplier[] = supplierRows.map(row => ({
+    codigo: String(row.codigo),
+    nombre: row.nombre,
+    identification: String(row.identification ?? '')
+  }));
+  const toCatalogItem = (row: Record<string, unknown>): BulkCatalogItem => ({ codigo: String(row.codigo), nombre: String(row.nombre) });
+
+  const termRows = await sql`
+    SELECT proveedor_codigo, payment_type_id, cuotas FROM proveedores_plazos_pago
+    WHERE company_id = ${companyId} AND proveedor_codigo = ANY(${suppliers.map(supplier => supplier.codigo)}::text[])
+  `;
+
+  const fiscalParameters: BulkPurchaseCatalogs['fiscalParameters'] = {};
+  for (const year of unique(purchases.filter(p => p.date).map(p => yearOfDate(p.date)))) {
+    fiscalParameters[year] = await getFiscalParametersForDate(`${year}-01-01`);
+  }
+
+  const exchangeRates: BulkPurchaseCatalogs['exchangeRates'] = {};
+  for (const purchase of purchases) {
+    if (!isForeignCurrency(purchase.currency) || purchase.exchangeRate || !purchase.date) continue;
+    const key = exchangeRateKey(purchase.currency, purchase.date);
+    if (key in exchangeRates) continue;
+    const rate = await findExchangeRate(purchase.currency, purchase.date);
+    if (rate) exchangeRates[key] = rate.rate;
+  }
+
+  return {
+    suppliers,
+    products: productRows.map(toCatalogItem),
+    assets: assetRows.map(toCatalogItem),
+    supplierTerms: Object.fromEntries(termRows.map(row => [
+      row.proveedor_codigo,
+      { paymentTypeId: Number(row.payment_type_id), installments: row.cuotas }
+    ])),
+    documentTypes,
+    taxes,
+    paymentTypes,
+    costCenters,
+    fiscalParameters,
+    exchangeRates
+  };
+}
+
+/**
+ * Vista previa del archivo: cada factura con sus errores, la compra que se
+ * enviaría y las compras ya registradas con la misma factura del proveedor.
+ */
+export async function previewBulkPurchases(
+  purchases: BulkPurchase[],
+  client: SiigoClient = siigoClient
+): Promise<BulkPurchasePreview[]> {
+  const previews = prepareBulkPurchases(purchases, await loadBulkPurchaseCatalogs(purchases, client));
+
+  // Una consulta por factura, en serie, para no agotar el límite de Siigo
+  for (const preview of previews) {
+    const identity = preview.request ? purchaseIdentityOf(preview.request) : null;
+    if (!identity) continue;
+    const { duplicates, incomplete } = await findDuplicatePurchases(identity, { client });
+    preview.duplicates = duplicates;
+    if (incomplete) preview.warnings.push(DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE);
+  }
+  return previews;
+}
+
+/**
+ * Envía las compras a Siigo una por una a través de la cola de envíos, como la
+ * ruta de compras: las que Siigo no alcanza a recibir quedan en la cola y el
+ * worker las reintenta. Se omiten las que llegaron con errores y las que ya están
+ * registradas; un error de una compra no detiene el lote, salvo que falle la
+ * autenticación con Siigo.
+ */
+export async function submitBulkPurchases(
+  purchases: Array<{ reference: string; request: SiigoPurchaseRequest | null }>,
+  createdBy: string,
+  client: SiigoClient = siigoClient
+): Promise<BulkSubmissionResult[]> {
+  const results: BulkSubmissionResult[] = [];
+  const documentTypes = new Map<number, DocumentTypeSiigo | undefined>();
+  let authError: string | null = null;
+
+  for (const { reference, request } of purchases) {
+    if (authError) {
+      results.push({ reference, status: 'skipped', message: `No se envió: ${authError}` });
+      continue;
+    }
+    if (!request) {
+      results.push({ reference, status: 'skipped', message: 'La factura tiene errores en el archivo' });
+      continue;
+    }
+
+    try {
+      if (!documentTypes.has(request.document.id)) {
+        const available = await listPurchaseDocumentTypes(client);
+        available.forEach(documentType => documentTypes.set(Number(documentType.id), documentType));
+        if (!documentTypes.has(request.document.id)) documentTypes.set(request.document.id, undefined);
+      }
+      const documentType = documentTypes.get(request.document.id);
+      if (!documentType || !documentType.active) {
+        results.push({ reference, status: 'failed', message: 'El tipo de documento no existe o está inactivo en Siigo' });
+        continue;
+      }
+      const ruleErrors = getDocumentTypeErrors(documentType, request);
+      if (ruleErrors.length > 0) {
+        results.push({ reference, status: 'failed', message: ruleErrors.map(e => e.message).join(', ') });
+        continue;
+      }
+
+      // Otro usuario pudo registrar la factura después de la vista previa
+      const identity = purchaseIdentityOf(request);
+      const { duplicates, incomplete } = identity
+        ? await findDuplicatePurchases(identity, { client })
+        : { duplicates: [], incomplete: false };
+      if (duplicates.length > 0) {
+        results.push({
+          reference,
+          status: 'skipped',
+          message: `La factura del proveedor ya está registrada: ${duplicates.map(d => d.name).join(', ')}`
+        });
+        continue;
+      }
+      // Se envía como en la vista previa, pero el resultado recuerda que no se descartaron duplicados
+      const unverified = incomplete ? `. ${DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE}` : '';
+
+      const item = await enqueueOutboxPurchase({ kind: 'purchase', purchase: request }, createdBy);
+      const { item: attempted, delivery, error } = await attemptOutboxItem(item, client);
+      if (delivery) {
+        const creada = delivery.purchase;
+        console.log(`[SIIGO-COMPRAS] Carga masiva: ${creada.name || creada.number} creada por ${createdBy}`);
+        results.push({
+          reference,
+          status: 'created',
+          purchaseId: creada.id,
+          name: creada.name || String(creada.number),
+          outboxId: attempted.id,
+          message: `Compra ${creada.name || creada.number} creada${unverified}`
+        });
+        continue;
+      }
+
+      if (attempted.status === 'pending') {
+        // Falla transitoria: el worker la reintenta; si es de autenticación no se sigue con el lote
+        if (error instanceof SiigoAuthError) authError = error.message;
+        results.push({
+          reference,
+          status: 'queued',
+          outboxId: attempted.id,
+          message: `Quedó en la cola de envíos (#${attempted.id}): ${attempted.lastError ?? 'Siigo no respondió'}${unverified}`
+        });
+        continue;
+      }
+
+      // Siigo rechazó los datos: se corrigen en el archivo, no se deja una copia esperando atención
+      await cancelOutboxItem(attempted.id, createdBy).catch((cancelError) => {
+        console.error('[SIIGO-COMPRAS] No se pudo cancelar la compra rechazada de la cola:', cancelError);
+      });
+      throw error;
+    } catch (error) {
+      if (error instanceof SiigoAuthError) {
+        authError = error.message;
+        results.push({ reference, status: 'failed', message: error.message });
+      } else if (error instanceof SiigoApiError) {
+        results.push({ reference, status: 'failed', message: mapSiigoPurchaseErrors(error.details, error.message).error });
+      } else {
+        console.error(`[SIIGO-COMPRAS] Carga masiva: error en la factura ${reference}:`, error);
+        results.push({ reference, status: 'failed', message: error instanceof Error ? error.message : 'Error desconocido' });
+      }
+    }
+  }
+
+  return results;
+}
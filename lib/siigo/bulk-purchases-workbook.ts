@@ -0,0 +1,57 @@
+import * as XLSX from 'xlsx';
+import {
+  BULK_HELP_SHEET,
+  BULK_INVOICE_COLUMNS,
+  BULK_INVOICES_SHEET,
+  BULK_LINE_COLUMNS,
+  BULK_LINES_SHEET,
+  BulkSheetRow,
+  BulkTemplateColumn,
+  BulkWorkbook,
+  normalizeBulkHeader,
+  parseBulkPurchaseRows
+} from './bulk-purchases';
+
+// Lectura y escritura de la plantilla; separado de bulk-purchases.ts para no llevar xlsx al navegador
+
+/** Lee un archivo .xlsx con la plantilla de carga masiva */
+export function readBulkPurchaseWorkbook(data: ArrayBuffer | Buffer): BulkWorkbook {
+  const workbook = XLSX.read(data, { type: data instanceof ArrayBuffer ? 'array' : 'buffer' });
+  const sheetNamed = (name: string) => {
+    const sheetName = workbook.SheetNames.find(candidate => normalizeBulkHeader(candidate) === normalizeBulkHeader(name));
+    return sheetName ? workbook.Sheets[sheetName] : undefined;
+  };
+
+  const invoices = sheetNamed(BULK_INVOICES_SHEET);
+  const lines = sheetNamed(BULK_LINES_SHEET);
+  const missing = [!invoices && BULK_INVOICES_SHEET, !lines && BULK_LINES_SHEET].filter((name): name is string => !!name);
+  if (!invoices || !lines) {
+    return {
+      purchases: [],
+      errors: missing.map(sheet => ({ sheet, row: 0, field: sheet, message: `El archivo no tiene la hoja ${sheet}` }))
+    };
+  }
+
+  return parseBulkPurchaseRows(
+    XLSX.utils.sheet_to_json<BulkSheetRow>(invoices, { defval: '' }),
+    XLSX.utils.sheet_to_json<BulkSheetRow>(lines, { defval: '' })
+  );
+}
+
+/** Plantilla .xlsx con una fila de ejemplo por hoja y la descripción de cada columna */
+export function createBulkPurchaseTemplate(): Buffer {
+  const sheetOf = <K extends string>(columns: BulkTemplateColumn<K>[]) =>
+    XLSX.utils.aoa_to_sheet([columns.map(column => column.header), columns.map(column => column.example)]);
+
+  const help = XLSX.utils.aoa_to_sheet([
+    ['Hoja', 'Columna', 'Descripción'],
+    ...BULK_INVOICE_COLUMNS.map(column => [BULK_INVOICES_SHEET, column.header, column.description]),
+    ...BULK_LINE_COLUMNS.map(column => [BULK_LINES_SHEET, column.header, column.description])
+  ]);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheetOf(BULK_INVOICE_COLUMNS), BULK_INVOICES_SHEET);
+  XLSX.utils.book_append_sheet(workbook, sheetOf(BULK_LINE_COLUMNS), BULK_LINES_SHEET);
+  XLSX.utils.book_append_sheet(workbook, help, BULK_HELP_SHEET);
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
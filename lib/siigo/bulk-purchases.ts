@@ -0,0 +1,607 @@
+import type {
+  SiigoCostCenterCatalogItem,
+  SiigoItem,
+  SiigoPaymentTypeCatalogItem,
+  SiigoPurchaseRequest,
+  SiigoTaxCatalogItem,
+  WithholdingConcept
+} from '@/types/siigo';
+import { isCufeFormatValid } from './cufe';
+import { filterTaxesForDocumentType, getCostCenterError, requiresManualNumber } from './document-rules';
+import type { DocumentTypeSiigo } from './document-types';
+import { DuplicatePurchase, normalizeInvoicePart } from './duplicates';
+import { isForeignCurrency, LOCAL_CURRENCY, parseRateDate, parseRateNumber, SUPPORTED_CURRENCIES } from './exchange-rates';
+import { FiscalParameters, yearOfDate } from './fiscal-parameters';
+import { buildInstallments, PaymentInstallment } from './payments';
+import { calculateLineAmounts, groupTaxesByKind } from './taxes';
+import { calculateWithholdings, SUPPLIER_TAX_REGIMES, SupplierTaxRegime, WITHHOLDING_CONCEPTS } from './withholdings';
+
+// Plantilla de carga masiva: una hoja de encabezados y otra de líneas unidas por la referencia
+export const BULK_INVOICES_SHEET = 'Facturas';
+export const BULK_LINES_SHEET = 'Lineas';
+export const BULK_HELP_SHEET = 'Instrucciones';
+
+// Tope por archivo: las compras se envían a Siigo una por una
+export const BULK_MAX_PURCHASES = 100;
+
+export type BulkLineType = 'producto' | 'activo' | 'contable';
+
+const LINE_TYPES: Record<BulkLineType, SiigoItem['type']> = {
+  producto: 'Product',
+  activo: 'FixedAsset',
+  contable: 'Account'
+};
+
+export interface BulkTemplateColumn<K extends string> {
+  key: K;
+  header: string;
+  description: string;
+  example: string | number;
+}
+
+type BulkInvoiceKey =
+  | 'reference' | 'documentId' | 'supplier' | 'prefix' | 'number' | 'cufe' | 'date' | 'costCenter' | 'currency'
+  | 'exchangeRate' | 'paymentTypeId' | 'dueDays' | 'regime' | 'nonDeclarant' | 'icaCityCode' | 'taxIncluded' | 'observations';
+
+type BulkLineKey =
+  | 'reference' | 'type' | 'code' | 'description' | 'quantity' | 'price' | 'discount' | 'iva' | 'concept' | 'warehouse';
+
+export const BULK_INVOICE_COLUMNS: BulkTemplateColumn<BulkInvoiceKey>[] = [
+  { key: 'reference', header: 'Referencia', description: 'Identificador de la factura dentro del archivo; une el encabezado con sus líneas', example: 'F1' },
+  { key: 'documentId', header: 'Tipo Documento', description: 'Id del tipo de documento FC en Siigo; vacío usa el primero activo', example: '' },
+  { key: 'supplier', header: 'Proveedor', description: 'Código o NIT del proveedor en el catálogo de proveedores', example: '900123456' },
+  { key: 'prefix', header: 'Prefijo', description: 'Prefijo de la factura del proveedor', example: 'FE' },
+  { key: 'number', header: 'Número', description: 'Número de la factura del proveedor', example: '1024' },
+  { key: 'cufe', header: 'CUFE', description: 'CUFE de la factura electrónica (opcional)', example: '' },
+  { key: 'date', header: 'Fecha', description: 'Fecha de la factura (AAAA-MM-DD o DD/MM/AAAA)', example: '2026-01-15' },
+  { key: 'costCenter', header: 'Centro Costo', description: 'Id del centro de costo en Siigo', example: '' },
+  { key: 'currency', header: 'Moneda', description: `Código de la moneda (${SUPPORTED_CURRENCIES.map(c => c.code).join(', ')}); vacío es ${LOCAL_CURRENCY}`, example: LOCAL_CURRENCY },
+  { key: 'exchangeRate', header: 'Tasa Cambio', description: 'Pesos por unidad de la moneda; vacío usa la TRM cargada para la fecha', example: '' },
+  { key: 'paymentTypeId', header: 'Forma Pago', description: 'Id de la forma de pago en Siigo; vacío usa el plazo guardado del proveedor', example: '' },
+  { key: 'dueDays', header: 'Días Plazo', description: 'Días hasta el vencimiento en un solo pago (0 es contado)', example: 30 },
+  { key: 'regime', header: 'Régimen', description: `Régimen del proveedor (${SUPPLIER_TAX_REGIMES.map(r => r.id).join(', ')}); vacío es ${SUPPLIER_TAX_REGIMES[0].id}`, example: SUPPLIER_TAX_REGIMES[0].id },
+  { key: 'nonDeclarant', header: 'No Declarante', description: 'SI cuando el proveedor es persona natural no declarante de renta', example: 'NO' },
+  { key: 'icaCityCode', header: 'Municipio ICA', description: 'Código DANE del municipio donde se practica la ReteICA', example: '' },
+  { key: 'taxIncluded', header: 'IVA Incluido', description: 'SI cuando los precios de las líneas ya incluyen el IVA', example: 'NO' },
+  { key: 'observations', header: 'Observaciones', description: 'Observaciones de la compra', example: '' }
+];
+
+export const BULK_LINE_COLUMNS: BulkTemplateColumn<BulkLineKey>[] = [
+  { key: 'reference', header: 'Referencia', description: 'Referencia de la factura en la hoja Facturas', example: 'F1' },
+  { key: 'type', header: 'Tipo', description: `Tipo de línea (${Object.keys(LINE_TYPES).join(', ')}); vacío es producto`, example: 'producto' },
+  { key: 'code', header: 'Código', description: 'Código del producto, activo o cuenta contable', example: '1001' },
+  { key: 'description', header: 'Descripción', description: 'Descripción de la línea; vacío usa el nombre del producto', example: '' },
+  { key: 'quantity', header: 'Cantidad', description: 'Cantidad', example: 2 },
+  { key: 'price', header: 'Precio', description: 'Precio unitario en la moneda de la factura', example: 50000 },
+  { key: 'discount', header: 'Descuento', description: 'Descuento de la línea en valor', example: 0 },
+  { key: 'iva', header: 'IVA', description: 'Porcentaje de IVA (19, 5 o 0)', example: 19 },
+  { key: 'concept', header: 'Concepto Retención', description: `Concepto de retención (${WITHHOLDING_CONCEPTS.map(c => c.id).join(', ')}); vacío no practica retenciones`, example: 'compras' },
+  { key: 'warehouse', header: 'Bodega', description: 'Id de la bodega en Siigo', example: '' }
+];
+
+export interface BulkIssue {
+  sheet: string;
+  /** Fila de Excel, contando el encabezado como fila 1 */
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface BulkPurchaseLine {
+  row: number;
+  type: BulkLineType;
+  code: string;
+  description: string;
+  quantity: number;
+  price: number;
+  discount: number;
+  /** Porcentaje de IVA; null o 0 sin IVA */
+  ivaRate: number | null;
+  concept: WithholdingConcept | null;
+  warehouse: number | null;
+}
+
+export interface BulkPurchase {
+  reference: string;
+  row: number;
+  documentId: number | null;
+  supplier: string;
+  prefix: string;
+  number: string;
+  cufe: string;
+  date: string;
+  costCenter: number | null;
+  currency: string;
+  exchangeRate: number | null;
+  paymentTypeId: number | null;
+  dueDays: number | null;
+  regime: SupplierTaxRegime;
+  /** Persona natural no declarante de renta: tarifa de retefuente de no declarantes */
+  nonDeclarant: boolean;
+  icaCityCode: string;
+  taxIncluded: boolean;
+  observations: string;
+  lines: BulkPurchaseLine[];
+  /** Errores de formato de las filas de la factura y de sus líneas */
+  errors: BulkIssue[];
+}
+
+export interface BulkWorkbook {
+  purchases: BulkPurchase[];
+  /** Errores que no pertenecen a una factura: hojas faltantes o líneas sin encabezado */
+  errors: BulkIssue[];
+}
+
+export type BulkSheetRow = Record<string, unknown>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Excel guarda las fechas como días desde el 30/12/1899
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameRate = (a: number, b: number) => Math.abs(a - b) < 0.0001;
+
+export const normalizeBulkHeader = (header: string) =>
+  header.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ');
+
+const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+/** Número de una celda; null si está vacía y NaN si no es un número */
+function cellNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  const text = cellText(value);
+  if (!text) return null;
+  const number = parseRateNumber(text);
+  return Number.isFinite(number) ? number : NaN;
+}
+
+/** Fecha de una celda: serial de Excel, Date o texto; null si no se reconoce */
+function cellDate(value: unknown): string | null {
+  if (typeof value === 'number') {
+    if (!(value > 0)) return null;
+    return new Date(EXCEL_EPOCH_MS + Math.floor(value) * DAY_MS).toISOString().split('T')[0];
+  }
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0];
+  return parseRateDate(cellText(value));
+}
+
+/** Valores de una fila por clave de columna; los encabezados se comparan sin tildes ni mayúsculas */
+function readColumns<K extends string>(row: BulkSheetRow, columns: BulkTemplateColumn<K>[]): Record<K, unknown> {
+  const byHeader = new Map(Object.entries(row).map(([header, value]) => [normalizeBulkHeader(header), value]));
+  return Object.fromEntries(columns.map(column => [column.key, byHeader.get(normalizeBulkHeader(column.header))])) as Record<K, unknown>;
+}
+
+const isBlankRow = (row: BulkSheetRow) => Object.values(row).every(value => cellText(value) === '');
+
+function parseInvoiceRow(row: BulkSheetRow, rowNumber: number): BulkPurchase {
+  const values = readColumns(row, BULK_INVOICE_COLUMNS);
+  const errors: BulkIssue[] = [];
+  const issue = (field: string, message: string) =>
+    errors.push({ sheet: BULK_INVOICES_SHEET, row: rowNumber, field, message });
+
+  const optionalId = (field: string, value: unknown) => {
+    const number = cellNumber(value);
+    if (number === null) return null;
+    if (!Number.isInteger(number) || number <= 0) {
+      issue(field, `${field} debe ser un id numérico`);
+      return null;
+    }
+    return number;
+  };
+
+  const supplier = cellText(values.supplier);
+  const number = cellText(values.number);
+  const rawDate = cellText(values.date);
+  const date = cellDate(values.date);
+  if (!supplier) issue('Proveedor', 'El proveedor es requerido');
+  if (!number) issue('Número', 'El número de la factura del proveedor es requerido');
+  if (!rawDate) issue('Fecha', 'La fecha es requerida');
+  else if (!date) issue('Fecha', `La fecha "${rawDate}" no es válida`);
+
+  const cufe = cellText(values.cufe);
+  if (cufe && !isCufeFormatValid(cufe)) issue('CUFE', 'El CUFE debe tener 96 caracteres hexadecimales');
+
+  const currency = (cellText(values.currency) || LOCAL_CURRENCY).toUpperCase();
+  if (!SUPPORTED_CURRENCIES.some(c => c.code === currency)) issue('Moneda', `La moneda ${currency} no está soportada`);
+
+  const exchangeRate = cellNumber(values.exchangeRate);
+  if (exchangeRate !== null && !(exchangeRate > 0)) issue('Tasa Cambio', 'La tasa de cambio debe ser mayor que cero');
+
+  const dueDays = cellNumber(values.dueDays);
+  if (dueDays !== null && (!Number.isInteger(dueDays) || dueDays < 0)) issue('Días Plazo', 'Los días de plazo deben ser un entero positivo');
+
+  const regime = (cellText(values.regime).toLowerCase() || SUPPLIER_TAX_REGIMES[0].id) as SupplierTaxRegime;
+  if (!SUPPLIER_TAX_REGIMES.some(r => r.id === regime)) issue('Régimen', `El régimen ${regime} no existe`);
+
+  const nonDeclarant = normalizeBulkHeader(cellText(values.nonDeclarant));
+  if (nonDeclarant && !['si', 'no'].includes(nonDeclarant)) issue('No Declarante', 'No Declarante debe ser SI o NO');
+
+  const taxIncluded = normalizeBulkHeader(cellText(values.taxIncluded));
+  if (taxIncluded && !['si', 'no'].includes(taxIncluded)) issue('IVA Incluido', 'IVA Incluido debe ser SI o NO');
+
+  return {
+    reference: cellText(values.reference),
+    row: rowNumber,
+    documentId: optionalId('Tipo Documento', values.documentId),
+    supplier,
+    prefix: cellText(values.prefix),
+    number,
+    cufe,
+    date: date || '',
+    costCenter: optionalId('Centro Costo', values.costCenter),
+    currency,
+    exchangeRate: exchangeRate !== null && exchangeRate > 0 ? exchangeRate : null,
+    paymentTypeId: optionalId('Forma Pago', values.paymentTypeId),
+    dueDays: dueDays !== null && Number.isInteger(dueDays) && dueDays >= 0 ? dueDays : null,
+    regime,
+    nonDeclarant: nonDeclarant === 'si',
+    icaCityCode: cellText(values.icaCityCode),
+    taxIncluded: taxIncluded === 'si',
+    observations: cellText(values.observations),
+    lines: [],
+    errors
+  };
+}
+
+function parseLineRow(row: BulkSheetRow, rowNumber: number): { reference: string; line: BulkPurchaseLine; errors: BulkIssue[] } {
+  const values = readColumns(row, BULK_LINE_COLUMNS);
+  const errors: BulkIssue[] = [];
+  const issue = (field: string, message: string) =>
+    errors.push({ sheet: BULK_LINES_SHEET, row: rowNumber, field, message });
+
+  const type = (normalizeBulkHeader(cellText(values.type)) || 'producto') as BulkLineType;
+  if (!LINE_TYPES[type]) issue('Tipo', `El tipo de línea ${cellText(values.type)} no existe`);
+
+  const code = cellText(values.code);
+  if (!code) issue('Código', 'El código es requerido');
+
+  const quantity = cellNumber(values.quantity);
+  if (!(Number(quantity) > 0)) issue('Cantidad', 'La cantidad debe ser mayor que cero');
+
+  const price = cellNumber(values.price);
+  if (!(Number(price) > 0)) issue('Precio', 'El precio debe ser mayor que cero');
+
+  const discount = cellNumber(values.discount);
+  if (discount !== null && !(discount >= 0)) issue('Descuento', 'El descuento no puede ser negativo');
+
+  const ivaRate = cellNumber(values.iva);
+  if (ivaRate !== null && !(ivaRate >= 0)) issue('IVA', 'El IVA debe ser un porcentaje');
+
+  const concept = (normalizeBulkHeader(cellText(values.concept)) || null) as WithholdingConcept | null;
+  if (concept && !WITHHOLDING_CONCEPTS.some(c => c.id === concept)) issue('Concepto Retención', `El concepto ${concept} no existe`);
+
+  const warehouse = cellNumber(values.warehouse);
+  if (warehouse !== null && !(Number.isInteger(warehouse) && warehouse > 0)) issue('Bodega', 'La bodega debe ser un id numérico');
+
+  return {
+    reference: cellText(values.reference),
+    line: {
+      row: rowNumber,
+      type,
+      code,
+      description: cellText(values.description),
+      quantity: Number(quantity) || 0,
+      price: Number(price) || 0,
+      discount: Number(discount) || 0,
+      ivaRate: ivaRate !== null && ivaRate >= 0 ? ivaRate : null,
+      concept,
+      warehouse: warehouse !== null && Number.isInteger(warehouse) && warehouse > 0 ? warehouse : null
+    },
+    errors
+  };
+}
+
+/**
+ * Arma las facturas a partir de las filas de ambas hojas (como las entrega
+ * sheet_to_json). Solo valida el formato; los catálogos se revisan en
+ * prepareBulkPurchases.
+ */
+export function parseBulkPurchaseRows(invoiceRows: BulkSheetRow[], lineRows: BulkSheetRow[]): BulkWorkbook {
+  const errors: BulkIssue[] = [];
+  const byReference = new Map<string, BulkPurchase>();
+  const purchases: BulkPurchase[] = [];
+
+  invoiceRows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+    const purchase = parseInvoiceRow(row, index + 2);
+    if (!purchase.reference) {
+      errors.push({ sheet: BULK_INVOICES_SHEET, row: purchase.row, field: 'Referencia', message: 'La referencia es requerida' });
+      return;
+    }
+    if (byReference.has(purchase.reference)) {
+      errors.push({
+        sheet: BULK_INVOICES_SHEET,
+        row: purchase.row,
+        field: 'Referencia',
+        message: `La referencia ${purchase.reference} está repetida`
+      });
+      return;
+    }
+    byReference.set(purchase.reference, purchase);
+    purchases.push(purchase);
+  });
+
+  lineRows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+    const { reference, line, errors: lineErrors } = parseLineRow(row, index + 2);
+    const purchase = byReference.get(reference);
+    if (!purchase) {
+      errors.push({
+        sheet: BULK_LINES_SHEET,
+        row: line.row,
+        field: 'Referencia',
+        message: reference ? `No hay factura con referencia ${reference}` : 'La referencia es requerida'
+      });
+      return;
+    }
+    purchase.lines.push(line);
+    purchase.errors.push(...lineErrors);
+  });
+
+  if (purchases.length > BULK_MAX_PURCHASES) {
+    errors.push({
+      sheet: BULK_INVOICES_SHEET,
+      row: purchases[BULK_MAX_PURCHASES].row,
+      field: 'Referencia',
+      message: `El archivo admite máximo ${BULK_MAX_PURCHASES} facturas`
+    });
+    return { purchases: purchases.slice(0, BULK_MAX_PURCHASES), errors };
+  }
+
+  return { purchases, errors };
+}
+
+export interface BulkSupplier {
+  codigo: string;
+  nombre: string;
+  identification: string;
+}
+
+export interface BulkCatalogItem {
+  codigo: string;
+  nombre: string;
+}
+
+// Catálogos contra los que se valida el archivo; el servidor los carga una vez por carga
+export interface BulkPurchaseCatalogs {
+  suppliers: BulkSupplier[];
+  products: BulkCatalogItem[];
+  assets: BulkCatalogItem[];
+  /** Plazo guardado por código de proveedor (ver /api/proveedores/plazos-pago) */
+  supplierTerms: Record<string, { paymentTypeId: number; installments: PaymentInstallment[] }>;
+  documentTypes: DocumentTypeSiigo[];
+  taxes: SiigoTaxCatalogItem[];
+  paymentTypes: SiigoPaymentTypeCatalogItem[];
+  costCenters: SiigoCostCenterCatalogItem[];
+  /** Parámetros fiscales por año de las fechas del archivo */
+  fiscalParameters: Record<number, FiscalParameters>;
+  /** TRM cargada por exchangeRateKey(moneda, fecha) */
+  exchangeRates: Record<string, number>;
+}
+
+export const exchangeRateKey = (currency: string, date: string) => `${currency}-${date}`;
+
+export interface BulkPurchasePreview {
+  reference: string;
+  row: number;
+  supplierName: string | null;
+  supplierIdentification: string;
+  providerInvoice: string;
+  date: string;
+  currency: string;
+  lineCount: number;
+  total: number;
+  errors: BulkIssue[];
+  /**
+   * Avisos que no impiden el envío: retenciones que aplican pero no existen en
+   * Siigo o una búsqueda de duplicados que no alcanzó a revisar todo Siigo
+   */
+  warnings: string[];
+  /** Compras ya registradas con la misma factura; la factura se omite al enviar */
+  duplicates: DuplicatePurchase[];
+  /** Compra lista para Siigo; null si hay errores */
+  request: SiigoPurchaseRequest | null;
+}
+
+export type BulkPurchaseStatus = 'ready' | 'invalid' | 'duplicate';
+
+export const BULK_PURCHASE_STATUS_LABELS: Record<BulkPurchaseStatus, string> = {
+  ready: 'Lista',
+  invalid: 'Con errores',
+  duplicate: 'Ya registrada'
+};
+
+export function bulkPurchaseStatus(preview: Pick<BulkPurchasePreview, 'request' | 'duplicates'>): BulkPurchaseStatus {
+  if (!preview.request) return 'invalid';
+  return preview.duplicates.length > 0 ? 'duplicate' : 'ready';
+}
+
+/**
+ * Valida una factura contra los catálogos y arma la compra como la enviaría el
+ * formulario: IVA por porcentaje, retenciones del motor de retenciones y pagos
+ * según la forma de pago de la fila o el plazo guardado del proveedor.
+ */
+export function prepareBulkPurchase(purchase: BulkPurchase, catalogs: BulkPurchaseCatalogs): BulkPurchasePreview {
+  const errors = [...purchase.errors];
+  const issue = (field: string, message: string, row = purchase.row, sheet = BULK_INVOICES_SHEET) =>
+    errors.push({ sheet, row, field, message });
+
+  const supplier = catalogs.suppliers.find(s => s.codigo === purchase.supplier || s.identification === purchase.supplier);
+  if (purchase.supplier && !supplier) issue('Proveedor', `El proveedor ${purchase.supplier} no está en el catálogo`);
+
+  const documentType = purchase.documentId
+    ? catalogs.documentTypes.find(d => Number(d.id) === purchase.documentId)
+    : catalogs.documentTypes.find(d => d.active);
+  if (!documentType || !documentType.active) {
+    issue('Tipo Documento', 'El tipo de documento no existe o está inactivo en Siigo');
+  } else if (requiresManualNumber(documentType)) {
+    issue('Tipo Documento', `${documentType.name} tiene numeración manual: regístrela desde el formulario`);
+  }
+
+  if (purchase.costCenter && !catalogs.costCenters.some(c => c.active !== false && Number(c.id) === purchase.costCenter)) {
+    issue('Centro Costo', `El centro de costo ${purchase.costCenter} no existe en Siigo`);
+  }
+  const costCenterError = getCostCenterError(documentType, purchase.costCenter);
+  if (costCenterError) issue('Centro Costo', costCenterError);
+
+  const foreign = isForeignCurrency(purchase.currency);
+  const exchangeRate = foreign
+    ? purchase.exchangeRate ?? catalogs.exchangeRates[exchangeRateKey(purchase.currency, purchase.date)] ?? null
+    : null;
+  if (foreign && purchase.date && !exchangeRate) {
+    issue('Tasa Cambio', `No hay TRM de ${purchase.currency} para ${purchase.date}: escríbala en la columna Tasa Cambio`);
+  }
+
+  if (purchase.lines.length === 0) issue('Referencia', 'La factura no tiene líneas en la hoja Lineas');
+
+  const documentTaxes = filterTaxesForDocumentType(catalogs.taxes, documentType);
+  const { iva } = groupTaxesByKind(documentTaxes);
+  const ownTaxIds = purchase.lines.map(line => {
+    if (line.type === 'producto' && line.code && !catalogs.products.some(p => p.codigo === line.code)) {
+      issue('Código', `El producto ${line.code} no está en el catálogo`, line.row, BULK_LINES_SHEET);
+    }
+    if (line.type === 'activo' && line.code && !catalogs.assets.some(a => a.codigo === line.code)) {
+      issue('Código', `El activo ${line.code} no está en el catálogo`, line.row, BULK_LINES_SHEET);
+    }
+    if (!line.ivaRate) return [];
+    const tax = iva.find(t => sameRate(Number(t.percentage), Number(line.ivaRate)));
+    if (!tax) {
+      issue('IVA', `No existe en Siigo un IVA del ${line.ivaRate}%`, line.row, BULK_LINES_SHEET);
+      return [];
+    }
+    return [tax.id];
+  });
+
+  const gross = (line: BulkPurchaseLine) => line.quantity * line.price - line.discount;
+  const parameters = purchase.date ? catalogs.fiscalParameters[yearOfDate(purchase.date)] : undefined;
+  if (purchase.icaCityCode && parameters && !parameters.icaMunicipalities.some(m => m.cityCode === purchase.icaCityCode)) {
+    issue('Municipio ICA', `El municipio ${purchase.icaCityCode} no tiene tarifas de ReteICA parametrizadas`);
+  }
+
+  const withholdings = parameters
+    ? calculateWithholdings(purchase.lines.map((line, index) => {
+        const { base, breakdown } = calculateLineAmounts(gross(line), ownTaxIds[index], documentTaxes, purchase.taxIncluded);
+        const ivaValue = breakdown.lines.filter(l => l.tax.type === 'IVA').reduce((sum, l) => sum + l.value, 0);
+        return { base, iva: ivaValue, concept: line.concept };
+      }), {
+        regime: purchase.regime,
+        nonDeclarant: purchase.nonDeclarant,
+        exchangeRate,
+        cityCode: purchase.icaCityCode || null,
+        parameters,
+        documentType
+      }, documentTaxes)
+    : { taxIds: purchase.lines.map(() => []), warnings: [] };
+  const taxIds = purchase.lines.map((_, index) => [...ownTaxIds[index], ...withholdings.taxIds[index]]);
+
+  const total = round2(purchase.lines.reduce(
+    (sum, line, index) => sum + calculateLineAmounts(gross(line), taxIds[index], documentTaxes, purchase.taxIncluded).total,
+    0
+  ));
+
+  const terms = supplier ? catalogs.supplierTerms[supplier.codigo] : undefined;
+  const paymentTypeId = purchase.paymentTypeId ?? terms?.paymentTypeId ?? null;
+  const installments = purchase.dueDays !== null
+    ? [{ days: purchase.dueDays, percentage: 100 }]
+    : terms?.installments ?? [{ days: 0, percentage: 100 }];
+  if (!paymentTypeId) {
+    issue('Forma Pago', 'La forma de pago es requerida si el proveedor no tiene un plazo guardado');
+  } else if (!catalogs.paymentTypes.some(p => p.active !== false && Number(p.id) === paymentTypeId)) {
+    issue('Forma Pago', `La forma de pago ${paymentTypeId} no existe en Siigo`);
+  }
+
+  const supplierIdentification = supplier?.codigo || purchase.supplier;
+  const request: SiigoPurchaseRequest | null = errors.length > 0 || !documentType || !paymentTypeId ? null : {
+    document: { id: Number(documentType.id) },
+    date: purchase.date,
+    supplier: { identification: supplierIdentification, branch_office: 0 },
+    ...(purchase.costCenter && { cost_center: purchase.costCenter }),
+    provider_invoice: {
+      prefix: purchase.prefix,
+      number: purchase.number,
+      ...(purchase.cufe && { cufe: purchase.cufe })
+    },
+    ...(foreign && exchangeRate && { currency: { code: purchase.currency, exchange_rate: exchangeRate } }),
+    discount_type: 'Value',
+    supplier_by_item: false,
+    tax_included: purchase.taxIncluded,
+    observations: purchase.observations,
+    items: purchase.lines.map((line, index) => ({
+      type: LINE_TYPES[line.type],
+      code: line.code,
+      description: line.description || catalogs.products.find(p => p.codigo === line.code)?.nombre || line.code,
+      quantity: line.quantity,
+      price: line.price,
+      discount: line.discount,
+      taxes: taxIds[index].map(id => ({ id })),
+      ...(line.warehouse && { warehouse: line.warehouse })
+    })),
+    payments: buildInstallments(total, purchase.date, installments, paymentTypeId)
+  };
+
+  return {
+    reference: purchase.reference,
+    row: purchase.row,
+    supplierName: supplier?.nombre ?? null,
+    supplierIdentification,
+    providerInvoice: [purchase.prefix, purchase.number].filter(Boolean).join('-'),
+    date: purchase.date,
+    currency: purchase.currency,
+    lineCount: purchase.lines.length,
+    total,
+    errors,
+    warnings: withholdings.warnings,
+    duplicates: [],
+    request
+  };
+}
+
+/**
+ * Prepara todas las facturas del archivo. La misma factura del proveedor
+ * repetida en el archivo se marca como error desde la segunda aparición.
+ */
+export function prepareBulkPurchases(purchases: BulkPurchase[], catalogs: BulkPurchaseCatalogs): BulkPurchasePreview[] {
+  const seen = new Map<string, string>();
+  return purchases.map(purchase => {
+    const preview = prepareBulkPurchase(purchase, catalogs);
+    if (!purchase.number) return preview;
+
+    const key = [preview.supplierIdentification, normalizeInvoicePart(purchase.prefix), normalizeInvoicePart(purchase.number)].join('|');
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, purchase.reference);
+      return preview;
+    }
+    return {
+      ...preview,
+      errors: [...preview.errors, {
+        sheet: BULK_INVOICES_SHEET,
+        row: purchase.row,
+        field: 'Número',
+        message: `La factura ${preview.providerInvoice} ya está en el archivo con la referencia ${first}`
+      }],
+      request: null
+    };
+  });
+}
+
+export type BulkSubmissionStatus = 'created' | 'queued' | 'failed' | 'skipped';
+
+export const BULK_SUBMISSION_STATUS_LABELS: Record<BulkSubmissionStatus, string> = {
+  created: 'Creada',
+  queued: 'En cola',
+  failed: 'Falló',
+  skipped: 'Omitida'
+};
+
+export interface BulkSubmissionResult {
+  reference: string;
+  status: BulkSubmissionStatus;
+  /** Id y nombre de la compra en Siigo cuando se creó */
+  purchaseId?: string;
+  name?: string;
+  /** Compra en la cola de envíos (ver /cola-envios) */
+  outboxId?: number;
+  message: string;
+}
@@ -0,0 +1,213 @@
+import { sql } from '@/lib/db';
+import type {
+  SiigoCostCenterCatalogItem,
+  SiigoPaymentTypeCatalogItem,
+  SiigoTaxCatalogItem
+} from '@/types/siigo';
+import { SiigoClient, siigoClient } from './client';
+import { getCurrentCompanyId } from './companies';
+
+// Los catálogos cambian poco: se vuelven a pedir a Siigo una vez al día o a demanda
+const CATALOG_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface CatalogOptions {
+  companyId?: string;
+  client?: SiigoClient;
+  /** Fuerza la sincronización con Siigo aunque la copia local esté vigente */
+  refresh?: boolean;
+}
+
+// Las formas de pago de Siigo dependen del documento: FC para compras, RP para las cuentas de pago
+export type PaymentTypeDocument = 'FC' | 'RP';
+
+export interface PaymentTypeCatalogOptions extends CatalogOptions {
+  documentType?: PaymentTypeDocument;
+}
+
+interface LocalCatalog<T> {
+  rows: T[];
+  syncedAt: string | null;
+}
+
+/**
+ * Devuelve la copia local de un catálogo, sincronizándola antes si está vacía,
+ * vencida o se pidió refresh. Si Siigo falla y hay copia local, se usa la local.
+ */
+async function withLocalCatalog<T>(
+  name: string,
+  read: () => Promise<LocalCatalog<T>>,
+  sync: () => Promise<void>,
+  refresh = false
+): Promise<T[]> {
+  const local = await read();
+  const stale = !local.syncedAt || Date.now() - new Date(local.syncedAt).getTime() > CATALOG_MAX_AGE_MS;
+
+  if (!refresh && !stale && local.rows.length > 0) {
+    return local.rows;
+  }
+
+  try {
+    await sync();
+  } catch (error) {
+    if (local.rows.length === 0) throw error;
+    console.warn(`[SIIGO-CATALOGOS] No se pudo sincronizar ${name}, usando copia local:`, (error as Error).message);
+    return local.rows;
+  }
+
+  return (await read()).rows;
+}
+
+async function readTaxes(companyId: string): Promise<LocalCatalog<SiigoTaxCatalogItem>> {
+  const rows = await sql`
+    SELECT id, name, type, percentage::float AS percentage, active, synced_at
+    FROM siigo_taxes
+    WHERE company_id = ${companyId}
+    ORDER BY type, percentage DESC, name
+  `;
+  return {
+    rows: rows.map(({ id, name, type, percentage, active }) => ({ id, name, type, percentage, active })),
+    syncedAt: rows.length > 0 ? rows[0].synced_at : null
+  };
+}
+
+/**
+ * Reemplaza el catálogo local de impuestos con el de Siigo (GET /v1/taxes)
+ */
+export async function syncSiigoTaxes(companyId = getCurrentCompanyId(), client: SiigoClient = siigoClient): Promise<number> {
+  const taxes = await client.get<SiigoTaxCatalogItem[]>('taxes');
+  const ids = taxes.map(tax => tax.id);
+
+  await sql.transaction((txn) => [
+    txn`DELETE FROM siigo_taxes WHERE company_id = ${companyId} AND NOT (id = ANY(${ids}::int[]))`,
+    ...taxes.map(tax => txn`
+      INSERT INTO siigo_taxes (company_id, id, name, type, percentage, active, synced_at)
+      VALUES (${companyId}, ${tax.id}, ${tax.name}, ${tax.type}, ${tax.percentage ?? 0}, ${tax.active !== false}, NOW())
+      ON CONFLICT (company_id, id) DO UPDATE SET
+        name = EXCLUDED.name,
+        type = EXCLUDED.type,
+        percentage = EXCLUDED.percentage,
+        active = EXCLUDED.active,
+        synced_at = NOW()
+    `)
+  ]);
+
+  console.log(`[SIIGO-CATALOGOS] ${taxes.length} impuestos sincronizados (${companyId})`);
+  return taxes.length;
+}
+
+export async function getSiigoTaxes(options: CatalogOptions = {}): Promise<SiigoTaxCatalogItem[]> {
+  const companyId = options.companyId || getCurrentCompanyId();
+  return withLocalCatalog(
+    'impuestos',
+    () => readTaxes(companyId),
+    async () => { await syncSiigoTaxes(companyId, options.client); },
+    options.refresh
+  );
+}
+
+async function readPaymentTypes(companyId: string, documentType: PaymentTypeDocument): Promise<LocalCatalog<SiigoPaymentTypeCatalogItem>> {
+  const rows = await sql`
+    SELECT id, name, type, active, due_date, synced_at
+    FROM siigo_payment_types
+    WHERE company_id = ${companyId} AND document_type = ${documentType}
+    ORDER BY name
+  `;
+  return {
+    rows: rows.map(({ id, name, type, active, due_date }) => ({ id, name, type, active, due_date })),
+    syncedAt: rows.length > 0 ? rows[0].synced_at : null
+  };
+}
+
+/**
+ * Reemplaza el catálogo local de formas de pago de un tipo de documento con el
+ * de Siigo (GET /v1/payment-types?document_type=FC|RP)
+ */
+export async function syncSiigoPaymentTypes(
+  companyId = getCurrentCompanyId(),
+  client: SiigoClient = siigoClient,
+  documentType: PaymentTypeDocument = 'FC'
+): Promise<number> {
+  const paymentTypes = await client.get<SiigoPaymentTypeCatalogItem[]>('payment-types', { document_type: documentType });
+  const ids = paymentTypes.map(paymentType => paymentType.id);
+
+  await sql.transaction((txn) => [
+    txn`
+      DELETE FROM siigo_payment_types
+      WHERE company_id = ${companyId} AND document_type = ${documentType} AND NOT (id = ANY(${ids}::int[]))
+    `,
+    ...paymentTypes.map(paymentType => txn`
+      INSERT INTO siigo_payment_types (company_id, document_type, id, name, type, active, due_date, synced_at)
+      VALUES (
+        ${companyId}, ${documentType}, ${paymentType.id}, ${paymentType.name}, ${paymentType.type ?? null},
+        ${paymentType.active !== false}, ${paymentType.due_date === true}, NOW()
+      )
+      ON CONFLICT (company_id, document_type, id) DO UPDATE SET
+        name = EXCLUDED.name,
+        type = EXCLUDED.type,
+        active = EXCLUDED.active,
+        due_date = EXCLUDED.due_date,
+        synced_at = NOW()
+    `)
+  ]);
+
+  console.log(`[SIIGO-CATALOGOS] ${paymentTypes.length} formas de pago ${documentType} sincronizadas (${companyId})`);
+  return paymentTypes.length;
+}
+
+export async function getSiigoPaymentTypes(options: PaymentTypeCatalogOptions = {}): Promise<SiigoPaymentTypeCatalogItem[]> {
+  const companyId = options.companyId || getCurrentCompanyId();
+  const documentType = options.documentType || 'FC';
+  return withLocalCatalog(
+    `formas de pago ${documentType}`,
+    () => readPaymentTypes(companyId, documentType),
+    async () => { await syncSiigoPaymentTypes(companyId, options.client, documentType); },
+    options.refresh
+  );
+}
+
+async function readCostCenters(companyId: string): Promise<LocalCatalog<SiigoCostCenterCatalogItem>> {
+  const rows = await sql`
+    SELECT id, code, name, active, synced_at
+    FROM siigo_cost_centers
+    WHERE company_id = ${companyId}
+    ORDER BY code, name
+  `;
+  return {
+    rows: rows.map(({ id, code, name, active }) => ({ id, code, name, active })),
+    syncedAt: rows.length > 0 ? rows[0].synced_at : null
+  };
+}
+
+/**
+ * Reemplaza el catálogo local de centros de costo con el de Siigo (GET /v1/cost-centers)
+ */
+export async function syncSiigoCostCenters(companyId = getCurrentCompanyId(), client: SiigoClient = siigoClient): Promise<number> {
+  const costCenters = await client.get<SiigoCostCenterCatalogItem[]>('cost-centers');
+  const ids = costCenters.map(costCenter => costCenter.id);
+
+  await sql.transaction((txn) => [
+    txn`DELETE FROM siigo_cost_centers WHERE company_id = ${companyId} AND NOT (id = ANY(${ids}::int[]))`,
+    ...costCenters.map(costCenter => txn`
+      INSERT INTO siigo_cost_centers (company_id, id, code, name, active, synced_at)
+      VALUES (${companyId}, ${costCenter.id}, ${costCenter.code ?? null}, ${costCenter.name}, ${costCenter.active !== false}, NOW())
+      ON CONFLICT (company_id, id) DO UPDATE SET
+        code = EXCLUDED.code,
+        name = EXCLUDED.name,
+        active = EXCLUDED.active,
+        synced_at = NOW()
+    `)
+  ]);
+
+  console.log(`[SIIGO-CATALOGOS] ${costCenters.length} centros de costo sincronizados (${companyId})`);
+  return costCenters.length;
+}
+
+export async function getSiigoCostCenters(options: CatalogOptions = {}): Promise<SiigoCostCenterCatalogItem[]> {
+  const companyId = options.companyId || getCurrentCompanyId();
+  return withLocalCatalog(
+    'centros de costo',
+    () => readCostCenters(companyId),
+    async () => { await syncSiigoCostCenters(companyId, options.client); },
+    options.refresh
+  );
+}
@@ -0,0 +1,527 @@
+import { SiigoApiError } from './api';
+import { auditBody, currentSiigoAuditContext, SiigoAuditContext, SiigoAuditor } from './audit';
+import { getCurrentCompanyId, getDefaultCompanyId } from './companies';
+import { currentSiigoPriority, getSiigoScheduler, SiigoRequestPriority, SiigoScheduler } from './scheduler';
+
+export class SiigoAuthError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = 'SiigoAuthError';
+  }
+}
+
+export type SiigoQueryValue = string | number | boolean | null | undefined;
+export type SiigoQuery = Record<string, SiigoQueryValue>;
+export type SiigoHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface SiigoCredentials {
+  username: string;
+  accessKey: string;
+  partnerId: string;
+}
+
+/** Credenciales guardadas de una empresa; sin Partner-Id se usa el de la configuración */
+export type SiigoCompanyCredentials = Omit<SiigoCredentials, 'partnerId'> & { partnerId: string | null };
+
+export interface SiigoClientConfig {
+  apiUrl: string;
+  authUrl: string;
+  /** Credenciales de la empresa por defecto (variables de entorno) */
+  username?: string;
+  accessKey?: string;
+  partnerId: string;
+  /**
+   * Credenciales de cada empresa (ver lib/siigo/companies-store.ts). Si devuelve
+   * null, la empresa por defecto usa las de arriba y las demás no pueden llamar a Siigo.
+   */
+  credentials?: (companyId: string) => Promise<SiigoCompanyCredentials | null>;
+  /** Reintentos ante 429, 5xx o errores de red (sin contar el intento inicial) */
+  maxRetries: number;
+  /** Espera base del backoff exponencial */
+  retryDelayMs: number;
+  timeoutMs: number;
+  /** Cuota de peticiones; por defecto la de cada empresa */
+  scheduler?: SiigoScheduler;
+  /** Recibe cada llamada HTTP a Siigo (ver lib/siigo/audit.ts) */
+  auditor?: SiigoAuditor;
+}
+
+export interface SiigoRequestOptions {
+  query?: SiigoQuery;
+  body?: unknown;
+  /** Sobrescribe maxRetries para esta petición */
+  retries?: number;
+  /** Por defecto la de runWithSiigoPriority, o 'interactive' */
+  priority?: SiigoRequestPriority;
+}
+
+export interface SiigoPage<T> {
+  results: T[];
+  pagination?: {
+    page: number;
+    page_size: number;
+    total_results: number;
+  };
+  _links?: {
+    next?: { href: string };
+  };
+}
+
+export interface SiigoPaginationOptions {
+  pageSize?: number;
+  maxPages?: number;
+  /** Página desde la cual continuar un recorrido interrumpido */
+  startPage?: number;
+}
+
+// Sesión con Siigo de una empresa: cada cuenta tiene su propio token
+interface SiigoCompanySession {
+  token: string | null;
+  tokenExpiresAt: number;
+  tokenPromise: Promise<string> | null;
+  credentials: Promise<SiigoCredentials> | null;
+  credentialsLoadedAt: number;
+}
+
+interface SiigoTokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+// Margen para renovar el token antes de que Siigo lo dé por vencido
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+// Tiempo durante el cual se reutilizan las credenciales leídas de la base de datos
+const CREDENTIALS_TTL_MS = 5 * 60 * 1000;
+const RETRYABLE_STATUS = new Set([408, 500, 502, 503, 504]);
+// Un POST/PATCH que falló con 5xx o sin respuesta pudo haberse registrado en Siigo:
+// solo se reintenta cuando Siigo lo rechazó explícitamente por cuota (429)
+const IDEMPOTENT_METHODS = new Set<SiigoHttpMethod>(['GET', 'PUT', 'DELETE']);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function getSiigoConfigFromEnv(): SiigoClientConfig {
+  return {
+    apiUrl: (process.env.SIIGO_API_URL || 'https://api.siigo.com/v1').replace(/\/+$/, ''),
+    authUrl: (process.env.SIIGO_AUTH_URL || 'https://api.siigo.com/auth').replace(/\/+$/, ''),
+    username: process.env.SIIGO_USERNAME,
+    accessKey: process.env.SIIGO_ACCESS_KEY,
+    partnerId: process.env.SIIGO_PARTNER_ID || 'RemesasYDespachos',
+    maxRetries: 3,
+    retryDelayMs: 1000,
+    timeoutMs: 30000
+  };
+}
+
+/**
+ * Extrae un mensaje legible de los distintos formatos de error de Siigo
+ * ({ Errors: [{ Message }] }, { message }, { error_description }, ...)
+ */
+export function extractSiigoErrorMessage(data: unknown, fallback: string): string {
+  if (!data || typeof data !== 'object') return fallback;
+  const body = data as Record<string, unknown>;
+
+  if (Array.isArray(body.Errors)) {
+    const messages = (body.Errors as Array<{ Message?: string }>)
+      .map(e => e?.Message)
+      .filter(Boolean);
+    if (messages.length > 0) return messages.join(' | ');
+  }
+
+  const candidates = [body.message, body.Message, body.error_description, body.detail, body.error, body.title];
+  const message = candidates.find((value): value is string => typeof value === 'string' && value.length > 0);
+  return message || fallback;
+}
+
+/**
+ * Cliente HTTP único para la API de Siigo: token con expiración en caché,
+ * renovación tras un 401, Partner-Id en todas las peticiones, paginación,
+ * cuota compartida (ver lib/siigo/scheduler.ts) y reintentos con backoff.
+ * Cada llamada usa las credenciales, el token y la cuota de la empresa activa
+ * (ver lib/siigo/companies.ts). Los errores HTTP se lanzan como SiigoApiError.
+ */
+export class SiigoClient {
+  private readonly config: SiigoClientConfig;
+  private readonly sessions = new Map<string, SiigoCompanySession>();
+
+  constructor(config: Partial<SiigoClientConfig> = {}) {
+    this.config = { ...getSiigoConfigFromEnv(), ...config };
+  }
+
+  get apiUrl(): string {
+    return this.config.apiUrl;
+  }
+
+  private scheduler(companyId: string): SiigoScheduler {
+    return this.config.scheduler ?? getSiigoScheduler(companyId);
+  }
+
+  private session(companyId: string): SiigoCompanySession {
+    let session = this.sessions.get(companyId);
+    if (!session) {
+      session = { token: null, tokenExpiresAt: 0, tokenPromise: null, credentials: null, credentialsLoadedAt: 0 };
+      this.sessions.set(companyId, session);
+    }
+    return session;
+  }
+
+  /**
+   * Devuelve un token válido de la empresa, reutilizando el de caché mientras no
+   * expire. Las peticiones concurrentes comparten una misma autenticación.
+   */
+  async getToken(forceRefresh = false, companyId: string = getCurrentCompanyId()): Promise<string> {
+    const session = this.session(companyId);
+    if (!forceRefresh && session.token && Date.now() < session.tokenExpiresAt) {
+      return session.token;
+    }
+    if (session.tokenPromise) return session.tokenPromise;
+
+    session.tokenPromise = this.authenticate(companyId, session).finally(() => {
+      session.tokenPromise = null;
+    });
+    return session.tokenPromise;
+  }
+
+  invalidateToken(companyId: string = getCurrentCompanyId()): void {
+    const session = this.session(companyId);
+    session.token = null;
+    session.tokenExpiresAt = 0;
+  }
+
+  /** Descarta el token y las credenciales en caché, p. ej. tras editar la empresa */
+  forgetCompany(companyId: string): void {
+    this.sessions.delete(companyId);
+  }
+
+  private credentialsFor(companyId: string): Promise<SiigoCredentials> {
+    const session = this.session(companyId);
+    if (!session.credentials || Date.now() - session.credentialsLoadedAt > CREDENTIALS_TTL_MS) {
+      const loading = this.loadCredentials(companyId);
+      session.credentials = loading;
+      session.credentialsLoadedAt = Date.now();
+      // Un fallo (p. ej. de la base de datos) no se guarda en caché
+      loading.catch(() => {
+        if (session.credentials === loading) session.credentials = null;
+      });
+    }
+    return session.credentials;
+  }
+
+  private async loadCredentials(companyId: string): Promise<SiigoCredentials> {
+    const stored = this.config.credentials ? await this.config.credentials(companyId) : null;
+    if (stored) return { ...stored, partnerId: stored.partnerId || this.config.partnerId };
+
+    if (this.config.credentials && companyId !== getDefaultCompanyId()) {
+      throw new SiigoAuthError(`[SIIGO-AUTH] ❌ La empresa ${companyId} no tiene credenciales de Siigo configuradas`);
+    }
+
+    const { username, accessKey, partnerId } = this.config;
+    if (!username || !accessKey) {
+      const missing = [
+        !username && 'SIIGO_USERNAME',
+        !accessKey && 'SIIGO_ACCESS_KEY'
+      ].filter(Boolean).join(', ');
+      throw new SiigoAuthError(`[SIIGO-AUTH] ❌ Credenciales faltantes: ${missing}`);
+    }
+    return { username, accessKey, partnerId };
+  }
+
+  private async authenticate(companyId: string, session: SiigoCompanySession): Promise<string> {
+    const { authUrl } = this.config;
+    const { username, accessKey, partnerId } = await this.credentialsFor(companyId);
+
+    // El token lo necesitan todas las demás peticiones: nunca espera detrás de las de fondo
+    await this.scheduler(companyId).acquire('interactive');
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(authUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Partner-Id': partnerId
+        },
+        body: JSON.stringify({ username, access_key: accessKey }),
+        cache: 'no-store'
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido';
+      console.error('[SIIGO-AUTH] ❌ Error en la petición:', error);
+      await this.audit({ method: 'POST', endpoint: 'auth', payload: { username, access_key: accessKey }, startedAt, error: message });
+      throw new SiigoAuthError(`Error en la petición: ${message}`, error);
+    }
+
+    const data = await response.json().catch(() => ({})) as SiigoTokenResponse;
+    await this.audit({
+      method: 'POST', endpoint: 'auth', payload: { username, access_key: accessKey }, startedAt, status: response.status, response: data
+    });
+
+    if (!response.ok) {
+      const message = extractSiigoErrorMessage(data, 'Error desconocido');
+      console.error(`[SIIGO-AUTH] ❌ Error en autenticación (${response.status}): ${message}`);
+      throw new SiigoAuthError(`Error en autenticación: ${message}`, { status: response.status, response: data });
+    }
+
+    if (!data.access_token) {
+      throw new SiigoAuthError('No se recibió token de acceso', data);
+    }
+
+    const expiresInMs = Number(data.expires_in || 86400) * 1000;
+    session.token = data.access_token;
+    session.tokenExpiresAt = Date.now() + Math.max(expiresInMs - TOKEN_EXPIRY_MARGIN_MS, 0);
+    return data.access_token;
+  }
+
+  buildUrl(path: string, query: SiigoQuery = {}): string {
+    const url = new URL(`${this.config.apiUrl}/${path.replace(/^\/+/, '')}`);
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        url.searchParams.append(key, String(value));
+      }
+    });
+    return url.toString();
+  }
+
+  async request<T>(method: SiigoHttpMethod, path: string, options: SiigoRequestOptions = {}): Promise<T> {
+    const url = this.buildUrl(path, options.query);
+    const maxRetries = options.retries ?? this.config.maxRetries;
+    const idempotent = IDEMPOTENT_METHODS.has(method);
+    const priority = options.priority ?? currentSiigoPriority();
+    const companyId = getCurrentCompanyId();
+    const scheduler = this.scheduler(companyId);
+    let refreshedToken = false;
+    let attempt = 0;
+
+    // Los reintentos de una misma llamada comparten el correlation id
+    const context = currentSiigoAuditContext();
+    const endpoint = url.slice(this.config.apiUrl.length + 1);
+    let calls = 0;
+
+    while (true) {
+      const token = await this.getToken(false, companyId);
+      const { partnerId } = await this.credentialsFor(companyId);
+      await scheduler.acquire(priority);
+      const startedAt = Date.now();
+      calls++;
+      let response: Response;
+
+      try {
+        response = await this.send(method, url, token, partnerId, options.body);
+      } catch (error) {
+        await this.audit({
+          context, method, endpoint, attempt: calls, payload: options.body, startedAt, error: (error as Error).message
+        });
+        if (idempotent && attempt < maxRetries) {
+          attempt++;
+          const delay = this.backoffDelay(attempt);
+          console.warn(`[SIIGO-API] ${method} ${path} falló (${(error as Error).message}). Reintento ${attempt} en ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+        const message = error instanceof Error && error.name === 'AbortError'
+          ? 'La solicitud a la API de Siigo ha excedido el tiempo de espera'
+          : (error instanceof Error ? error.message : 'Error de red');
+        throw new SiigoApiError(message, 'NETWORK_ERROR');
+      }
+
+      const text = await response.text().catch(() => '');
+      let data: unknown = undefined;
+      if (text) {
+        try {
+          data = JSON.parse(text);
+        } catch {
+          data = { message: text };
+        }
+      }
+      await this.audit({
+        context, method, endpoint, attempt: calls, payload: options.body, startedAt, status: response.status, response: data
+      });
+
+      if (response.status === 401 && !refreshedToken) {
+        // El token pudo ser revocado antes de su expiración: renovar una sola vez
+        refreshedToken = true;
+        this.invalidateToken(companyId);
+        continue;
+      }
+
+      if (response.status === 429) {
+        // Se pausan todas las peticiones de la empresa; el reintento vuelve a pedir turno al terminar la pausa
+        const retryAfter = this.retryAfterDelay(response);
+        const delay = retryAfter ?? this.backoffDelay(attempt + 1);
+        scheduler.throttle(delay, { endpoint, retryAfter: retryAfter !== null });
+        if (attempt < maxRetries) {
+          attempt++;
+          console.warn(`[SIIGO-API] ${method} ${path} respondió 429. Reintento ${attempt} en ${delay}ms`);
+          continue;
+        }
+      }
+
+      if (idempotent && RETRYABLE_STATUS.has(response.status) && attempt < maxRetries) {
+        attempt++;
+        const delay = this.retryAfterDelay(response) ?? this.backoffDelay(attempt);
+        console.warn(`[SIIGO-API] ${method} ${path} respondió ${response.status}. Reintento ${attempt} en ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      if (!response.ok) {
+        const message = extractSiigoErrorMessage(data, response.statusText || `HTTP ${response.status}`);
+        throw new SiigoApiError(
+          message,
+          response.status,
+          (data && typeof data === 'object' ? data : { body: data }) as Record<string, unknown>
+        );
+      }
+
+      return data as T;
+    }
+  }
+
+  get<T>(path: string, query?: SiigoQuery): Promise<T> {
+    return this.request<T>('GET', path, { query });
+  }
+
+  post<T>(path: string, body: unknown, query?: SiigoQuery): Promise<T> {
+    return this.request<T>('POST', path, { body, query });
+  }
+
+  put<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>('PUT', path, { body });
+  }
+
+  delete<T>(path: string): Promise<T> {
+    return this.request<T>('DELETE', path);
+  }
+
+  /**
+   * Recorre todas las páginas de un listado de Siigo (results + pagination)
+   */
+  async getAllPages<T>(path: string, query: SiigoQuery = {}, options: SiigoPaginationOptions = {}): Promise<T[]> {
+    const items: T[] = [];
+    await this.forEachPage<T>(path, query, (results) => {
+      items.push(...results);
+    }, options);
+    return items;
+  }
+
+  /**
+   * Igual que getAllPages pero entrega cada página al handler en cuanto llega,
+   * sin acumular el listado en memoria. Devuelve la última página procesada.
+   */
+  async forEachPage<T>(
+    path: string,
+    query: SiigoQuery,
+    handler: (results: T[], page: number) => void | Promise<void>,
+    options: SiigoPaginationOptions = {}
+  ): Promise<number> {
+    const pageSize = options.pageSize ?? 100;
+    const startPage = options.startPage ?? 1;
+    const maxPages = options.maxPages ?? Infinity;
+    let lastPage = startPage - 1;
+
+    for (let page = startPage; page < startPage + maxPages; page++) {
+      const data = await this.get<SiigoPage<T> | T[]>(path, { ...query, page, page_size: pageSize });
+      const results = Array.isArray(data) ? data : (data?.results || []);
+      await handler(results, page);
+      lastPage = page;
+
+      if (Array.isArray(data) || results.length === 0) break;
+
+      const total = data.pagination?.total_results;
+      const hasNext = total !== undefined ? page * pageSize < total : !!data._links?.next;
+      if (!hasNext) break;
+    }
+
+    return lastPage;
+  }
+
+  private async send(method: SiigoHttpMethod, url: string, token: string, partnerId: string, body?: unknown): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      return await fetch(url, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Partner-Id': partnerId
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+        cache: 'no-store'
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Un fallo al guardar la bitácora nunca debe tumbar la llamada a Siigo
+  private async audit({
+    context = currentSiigoAuditContext(),
+    method,
+    endpoint,
+    attempt = 1,
+    payload,
+    startedAt,
+    status = null,
+    response,
+    error = null
+  }: {
+    context?: SiigoAuditContext;
+    method: SiigoHttpMethod;
+    endpoint: string;
+    attempt?: number;
+    payload: unknown;
+    startedAt: number;
+    status?: number | null;
+    response?: unknown;
+    error?: string | null;
+  }): Promise<void> {
+    if (!this.config.auditor) return;
+    try {
+      await this.config.auditor({
+        correlationId: context.correlationId,
+        userEmail: context.userEmail,
+        method,
+        endpoint,
+        attempt,
+        payload: auditBody(payload),
+        status,
+        response: auditBody(response),
+        durationMs: Date.now() - startedAt,
+        error,
+        replayOf: context.replayOf
+      });
+    } catch (auditError) {
+      console.error('[SIIGO-AUDIT] No se pudo registrar la llamada:', auditError);
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    return this.config.retryDelayMs * Math.pow(2, attempt - 1);
+  }
+
+  private retryAfterDelay(response: Response): number | null {
+    const retryAfter = response.headers?.get('retry-after');
+    if (!retryAfter) return null;
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+  }
+}
+
+// La bitácora se carga al primer uso para que el cliente no dependa de @/lib/db
+const persistSiigoAudit: SiigoAuditor = entry =>
+  import('./audit-store').then(store => store.recordSiigoAudit(entry));
+
+// Igual para las credenciales de cada empresa, que viven en la tabla companies
+const loadCompanyCredentials = (companyId: string) =>
+  import('./companies-store').then(store => store.getCompanySiigoCredentials(companyId));
+
+// Instancia compartida configurada desde las variables de entorno
+export const siigoClient = new SiigoClient({ auditor: persistSiigoAudit, credentials: loadCompanyCredentials });
@@ -0,0 +1,140 @@
+import { cookies } from 'next/headers';
+import { sql } from '@/lib/db';
+import type { SiigoCompanyCredentials } from './client';
+import { ACTIVE_COMPANY_COOKIE, Company, getDefaultCompanyId } from './companies';
+import { decryptSecret, encryptSecret } from './credentials';
+
+export interface CompanyInput {
+  id: string;
+  name: string;
+  nit?: string | null;
+  siigoUsername?: string | null;
+  /** Vacío para conservar la access key guardada */
+  siigoAccessKey?: string | null;
+  partnerId?: string | null;
+  active: boolean;
+}
+
+export class SiigoCompanyError extends Error {
+  constructor(message: string, public readonly status: 404 | 409) {
+    super(message);
+    this.name = 'SiigoCompanyError';
+  }
+}
+
+const toCompany = (row: Record<string, unknown>): Company => ({
+  id: row.id as string,
+  name: row.name as string,
+  nit: (row.nit as string | null) ?? null,
+  siigoUsername: (row.siigo_username as string | null) ?? null,
+  partnerId: (row.siigo_partner_id as string | null) ?? null,
+  hasAccessKey: Boolean(row.has_access_key),
+  active: Boolean(row.active),
+  createdAt: new Date(row.created_at as string).toISOString(),
+  updatedAt: new Date(row.updated_at as string).toISOString()
+});
+
+export async function listCompanies(options: { activeOnly?: boolean } = {}): Promise<Company[]> {
+  const rows = await sql`
+    SELECT id, name, nit, siigo_username, siigo_partner_id, siigo_access_key_encrypted IS NOT NULL AS has_access_key,
+      active, created_at, updated_at
+    FROM companies
+    WHERE (${options.activeOnly ?? false} = false OR active)
+    ORDER BY name, id
+  `;
+  return (rows as Record<string, unknown>[]).map(toCompany);
+}
+
+export async function getCompany(id: string): Promise<Company | null> {
+  const rows = await sql`
+    SELECT id, name, nit, siigo_username, siigo_partner_id, siigo_access_key_encrypted IS NOT NULL AS has_access_key,
+      active, created_at, updated_at
+    FROM companies
+    WHERE id = ${id}
+  `;
+  const row = (rows as Record<string, unknown>[])[0];
+  return row ? toCompany(row) : null;
+}
+
+/**
+ * Crea o actualiza una empresa. La access key se guarda cifrada y solo se
+ * reemplaza cuando viene en el input.
+ */
+export async function saveCompany(input: CompanyInput, updatedBy?: string): Promise<Company> {
+  const accessKey = input.siigoAccessKey ? encryptSecret(input.siigoAccessKey) : null;
+
+  const rows = await sql`
+    INSERT INTO companies (id, name, nit, siigo_username, siigo_access_key_encrypted, siigo_partner_id, active, updated_by, updated_at)
+    VALUES (
+      ${input.id}, ${input.name}, ${input.nit || null}, ${input.siigoUsername || null}, ${accessKey},
+      ${input.partnerId || null}, ${input.active}, ${updatedBy ?? null}, NOW()
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      nit = EXCLUDED.nit,
+      siigo_username = EXCLUDED.siigo_username,
+      siigo_access_key_encrypted = COALESCE(EXCLUDED.siigo_access_key_encrypted, companies.siigo_access_key_encrypted),
+      siigo_partner_id = EXCLUDED.siigo_partner_id,
+      active = EXCLUDED.active,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = NOW()
+    RETURNING id, name, nit, siigo_username, siigo_partner_id, siigo_access_key_encrypted IS NOT NULL AS has_access_key,
+      active, created_at, updated_at
+  `;
+
+  console.log(`[EMPRESAS] Empresa ${input.id} guardada por ${updatedBy ?? 'desconocido'}`);
+  return toCompany((rows as Record<string, unknown>[])[0]);
+}
+
+/**
+ * Credenciales de Siigo descifradas de una empresa activa; null si la empresa
+ * no existe, está inactiva o no tiene usuario y access key guardados.
+ */
+export async function getCompanySiigoCredentials(id: string): Promise<SiigoCompanyCredentials | null> {
+  const rows = await sql`
+    SELECT siigo_username, siigo_access_key_encrypted, siigo_partner_id
+    FROM companies
+    WHERE id = ${id} AND active
+  `;
+  const row = (rows as Record<string, unknown>[])[0];
+  if (!row?.siigo_username || !row.siigo_access_key_encrypted) return null;
+
+  return {
+    username: row.siigo_username as string,
+    accessKey: decryptSecret(row.siigo_access_key_encrypted as string),
+    partnerId: (row.siigo_partner_id as string | null) ?? null
+  };
+}
+
+/**
+ * Empresa elegida en el selector del encabezado. Si la cookie no existe o la
+ * empresa ya no está activa se usa la empresa por defecto. Las rutas la fijan
+ * para el resto de la petición con enterCompany(await getActiveCompanyId()).
+ */
+export async function getActiveCompanyId(): Promise<string> {
+  const defaultCompanyId = getDefaultCompanyId();
+  const requested = (await cookies()).get(ACTIVE_COMPANY_COOKIE)?.value;
+  if (!requested || requested === defaultCompanyId) return defaultCompanyId;
+
+  const company = await getCompany(requested);
+  return company?.active ? company.id : defaultCompanyId;
+}
+
+/**
+ * @throws SiigoCompanyError 404 si la empresa no existe o está inactiva
+ */
+export async function setActiveCompany(id: string): Promise<Company | null> {
+  const company = await getCompany(id);
+  if (id !== getDefaultCompanyId() && !company?.active) {
+    throw new SiigoCompanyError('La empresa no existe o está inactiva', 404);
+  }
+
+  (await cookies()).set(ACTIVE_COMPANY_COOKIE, id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 365 * 24 * 60 * 60,
+    path: '/'
+  });
+  return company;
+}
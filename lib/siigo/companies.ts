@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Empresas (razones sociales) cuya contabilidad se lleva en el sistema, cada una
+// con su cuenta de Siigo (tabla companies, ver scripts/22-create-companies.sql)
+
+export const ACTIVE_COMPANY_COOKIE = 'empresa_activa';
+
+export interface Company {
+  /** Identificador corto que guardan todas las tablas en company_id */
+  id: string;
+  name: string;
+  nit: string | null;
+  siigoUsername: string | null;
+  partnerId: string | null;
+  /** La access key nunca sale del servidor: solo se informa si está guardada */
+  hasAccessKey: boolean;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Empresa de las variables de entorno: la de los datos anteriores a la multiempresa y la de respaldo */
+export function getDefaultCompanyId(): string {
+  return process.env.SIIGO_COMPANY_ID || 'default';
+}
+
+const companyContext = new AsyncLocalStorage<string>();
+
+/**
+ * Ejecuta `fn` con `companyId` como empresa de todas las consultas y llamadas a
+ * Siigo que haga, incluidas las que ocurren en otros módulos.
+ */
+export function runWithCompany<T>(companyId: string, fn: () => Promise<T>): Promise<T> {
+  return companyContext.run(companyId, fn);
+}
+
+/**
+ * Igual que runWithCompany para el resto de la petición en curso. Se llama
+ * directamente en el handler (como startSiigoAudit), no desde otra función async.
+ */
+export function enterCompany(companyId: string): void {
+  companyContext.enterWith(companyId);
+}
+
+/** Empresa de la petición en curso; fuera de una petición, la de las variables de entorno */
+export function getCurrentCompanyId(): string {
+  return companyContext.getStore() ?? getDefaultCompanyId();
+}
@@ -0,0 +1,47 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Cifrado de las credenciales de Siigo de cada empresa (AES-256-GCM). La llave
+// sale de SIIGO_CREDENTIALS_KEY y nunca se guarda en la base de datos.
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+export class SiigoCredentialsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiigoCredentialsError';
+  }
+}
+
+// Cualquier frase sirve como llave: se lleva a 32 bytes con SHA-256
+function encryptionKey(secret = process.env.SIIGO_CREDENTIALS_KEY): Buffer {
+  if (!secret) {
+    throw new SiigoCredentialsError('SIIGO_CREDENTIALS_KEY no está configurada: no se pueden cifrar las credenciales de Siigo');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/** Texto cifrado con el formato v1:iv:tag:datos (base64) */
+export function encryptSecret(value: string, secret?: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(secret), iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+}
+
+/**
+ * @throws SiigoCredentialsError si el texto no tiene el formato esperado, se alteró o se cifró con otra llave
+ */
+export function decryptSecret(encrypted: string, secret?: string): string {
+  const [version, iv, tag, data] = encrypted.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new SiigoCredentialsError('Las credenciales guardadas no tienen un formato válido');
+  }
+  try {
+    const decipher = createDecipheriv(ALGORITHM, encryptionKey(secret), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new SiigoCredentialsError('No se pudieron descifrar las credenciales: revise SIIGO_CREDENTIALS_KEY');
+  }
+}
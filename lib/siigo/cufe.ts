@@ -0,0 +1,188 @@
+/**
+ * Verificación del CUFE/CUDE de las facturas electrónicas que envían los
+ * proveedores. Según el anexo técnico de la DIAN es el SHA-384 (en hexadecimal)
+ * de la concatenación de los campos de CufeFields más la clave técnica de la
+ * numeración (CUFE) o el PIN del software (CUDE).
+ */
+
+import type { SiigoPurchaseRequest, SiigoTaxCatalogItem } from '@/types/siigo';
+import { normalizeInvoicePart } from './duplicates';
+import { calculateLineAmounts } from './taxes';
+
+export const CUFE_PATTERN = /^[0-9a-f]{96}$/i;
+
+// Códigos DIAN de los impuestos que entran en el CUFE, en el orden en que se concatenan
+export const CUFE_TAX_CODES = { iva: '01', inc: '04', ica: '03' } as const;
+
+export interface CufeFields {
+  /** Número completo con prefijo (NumFac) */
+  number: string;
+  issueDate: string;
+  /** Hora con zona horaria, como viene en el XML (12:00:00-05:00) */
+  issueTime: string;
+  /** Valor antes de impuestos (LineExtensionAmount) */
+  subtotal: number;
+  taxes: Record<keyof typeof CUFE_TAX_CODES, number>;
+  /** Total a pagar (PayableAmount) */
+  total: number;
+  /** NIT del emisor sin dígito de verificación */
+  supplierNit: string;
+  /** Identificación del adquiriente, es decir, de la empresa que compra */
+  customerId: string;
+  /** 1 producción, 2 pruebas (ProfileExecutionID) */
+  environment: string;
+}
+
+export type CufeCheckStatus = 'verified' | 'mismatch' | 'format_only' | 'invalid_format' | 'purchase_mismatch';
+
+export const CUFE_CHECK_STATUS_LABELS: Record<CufeCheckStatus, string> = {
+  verified: 'Verificado',
+  mismatch: 'No coincide',
+  format_only: 'Formato válido',
+  invalid_format: 'Formato inválido',
+  purchase_mismatch: 'Compra distinta al XML'
+};
+
+// Margen al comparar la compra con el XML: el formulario redondea los precios a
+// dos decimales y recalcula los impuestos por línea
+export const CUFE_AMOUNT_TOLERANCE = 1;
+
+export interface CufeCheck {
+  status: CufeCheckStatus;
+  message: string;
+  /** CUFE recalculado; solo cuando se pudo recalcular */
+  expected: string | null;
+}
+
+export function isCufeFormatValid(cufe: string): boolean {
+  return CUFE_PATTERN.test(cufe.trim());
+}
+
+const amount = (value: number) => (Number.isFinite(value) ? value : 0).toFixed(2);
+
+/** Texto sobre el que se calcula el hash, en el orden del anexo técnico */
+export function cufeSource(fields: CufeFields, technicalKey: string): string {
+  return [
+    fields.number,
+    fields.issueDate,
+    fields.issueTime,
+    amount(fields.subtotal),
+    CUFE_TAX_CODES.iva, amount(fields.taxes.iva),
+    CUFE_TAX_CODES.inc, amount(fields.taxes.inc),
+    CUFE_TAX_CODES.ica, amount(fields.taxes.ica),
+    amount(fields.total),
+    fields.supplierNit,
+    fields.customerId,
+    technicalKey.trim(),
+    fields.environment
+  ].join('');
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Diferencias entre la compra que se envía a Siigo y los datos del XML con que
+ * se revisó el CUFE: número de la factura, NIT del proveedor, base, IVA,
+ * impoconsumo y total. Los valores se comparan con CUFE_AMOUNT_TOLERANCE de
+ * margen; la fecha no, porque la compra puede registrarse con otra.
+ */
+export function purchaseCufeDifferences(
+  purchase: SiigoPurchaseRequest,
+  catalog: SiigoTaxCatalogItem[],
+  fields: CufeFields
+): string[] {
+  let subtotal = 0;
+  let iva = 0;
+  let inc = 0;
+  purchase.items.forEach(item => {
+    const value = (item.quantity || 0) * (item.price || 0) - (item.discount || 0);
+    const amounts = calculateLineAmounts(value, (item.taxes || []).map(tax => tax.id), catalog, purchase.tax_included === true);
+    subtotal += amounts.base;
+    amounts.breakdown.lines.forEach(line => {
+      if (line.tax.type === 'IVA') iva += line.value;
+      if (line.tax.type === 'Impoconsumo') inc += line.value;
+    });
+  });
+
+  const differences: string[] = [];
+  const number = `${purchase.provider_invoice?.prefix ?? ''}${purchase.provider_invoice?.number ?? ''}`;
+  if (normalizeInvoicePart(number) !== normalizeInvoicePart(fields.number)) {
+    differences.push(`factura ${number || 'sin número'} en la compra y ${fields.number} en el XML`);
+  }
+  if (purchase.supplier.identification.trim() !== fields.supplierNit.trim()) {
+    differences.push(`NIT ${purchase.supplier.identification} en la compra y ${fields.supplierNit} en el XML`);
+  }
+  // El ICA facturado no existe en la compra: se descuenta del total del XML
+  const compare: Array<[string, number, number]> = [
+    ['base', subtotal, fields.subtotal],
+    ['IVA', iva, fields.taxes.iva],
+    ['impoconsumo', inc, fields.taxes.inc],
+    ['total', subtotal + iva + inc, fields.total - fields.taxes.ica]
+  ];
+  compare.forEach(([label, sent, xml]) => {
+    if (Math.abs(sent - xml) > CUFE_AMOUNT_TOLERANCE) {
+      differences.push(`${label} ${round2(sent).toFixed(2)} en la compra y ${round2(xml).toFixed(2)} en el XML`);
+    }
+  });
+  return differences;
+}
+
+/**
+ * Marca la revisión del CUFE cuando la compra no coincide con el XML. Un CUFE
+ * que no coincide o con formato inválido se deja como está.
+ */
+export function withPurchaseDifferences(check: CufeCheck, differences: string[]): CufeCheck {
+  if (differences.length === 0 || (check.status !== 'verified' && check.status !== 'format_only')) return check;
+  const cufeResult = check.status === 'verified' ? 'El CUFE coincide con el XML, pero la compra' : 'La compra';
+  return {
+    status: 'purchase_mismatch',
+    message: `${cufeResult} registrada no coincide con la factura: ${differences.join('; ')}`,
+    expected: check.expected
+  };
+}
+
+// Web Crypto existe tanto en el navegador como en Node, así el formulario y la API calculan lo mismo
+export async function computeCufe(fields: CufeFields, technicalKey: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-384', new TextEncoder().encode(cufeSource(fields, technicalKey)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Revisa el CUFE de una compra. Sin los campos del XML o sin la clave técnica
+ * solo se puede revisar el formato.
+ * @returns null si la compra no trae CUFE
+ */
+export async function verifyCufe(
+  cufe: string | undefined,
+  fields?: CufeFields | null,
+  technicalKey?: string
+): Promise<CufeCheck | null> {
+  const value = cufe?.trim() ?? '';
+  if (!value) return null;
+
+  if (!isCufeFormatValid(value)) {
+    return {
+      status: 'invalid_format',
+      message: `El CUFE debe tener 96 caracteres hexadecimales (tiene ${value.length})`,
+      expected: null
+    };
+  }
+  if (!fields || !technicalKey?.trim()) {
+    return {
+      status: 'format_only',
+      message: fields
+        ? 'Ingrese la clave técnica de la numeración del proveedor para recalcular el CUFE'
+        : 'Cargue el XML de la factura para recalcular el CUFE',
+      expected: null
+    };
+  }
+
+  const expected = await computeCufe(fields, technicalKey);
+  return expected === value.toLowerCase()
+    ? { status: 'verified', message: 'El CUFE coincide con los datos de la factura', expected }
+    : {
+        status: 'mismatch',
+        message: 'El CUFE no coincide con los datos de la factura: revise la clave técnica o si el documento fue alterado',
+        expected
+      };
+}
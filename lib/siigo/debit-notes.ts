@@ -0,0 +1,91 @@
+import type { SiigoItem, SiigoPurchaseRequest, SiigoPurchaseResponse, SiigoTaxCatalogItem } from '@/types/siigo';
+import { calculateTaxes } from './taxes';
+
+// Línea editable de la nota débito: ajuste de cantidad o precio de un ítem, o un cargo adicional
+export interface DebitNoteLine {
+  id: string;
+  type: SiigoItem['type'];
+  code: string;
+  description: string;
+  quantity: number;
+  price: number;
+  taxIds: number[];
+}
+
+export interface DebitNoteDraft {
+  documentId: number;
+  date: string;
+  providerInvoice: { prefix: string; number: string };
+  lines: DebitNoteLine[];
+  paymentTypeId: number;
+  observations?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const SIIGO_ITEM_TYPES: SiigoItem['type'][] = ['Product', 'Service', 'FixedAsset', 'Account'];
+
+/**
+ * Líneas iniciales a partir de la compra original, en cero para que el usuario
+ * indique solo lo que el proveedor cobra de más.
+ */
+export function debitNoteLinesFromPurchase(purchase: SiigoPurchaseResponse): DebitNoteLine[] {
+  return (purchase.items || []).map((item, index) => ({
+    id: `linea-${index}`,
+    type: SIIGO_ITEM_TYPES.includes(item.type as SiigoItem['type']) ? item.type as SiigoItem['type'] : 'Product',
+    code: item.code,
+    description: item.description,
+    quantity: 0,
+    price: Number(item.price) || 0,
+    taxIds: (item.taxes || []).map(tax => tax.id)
+  }));
+}
+
+export function debitNoteTotal(lines: DebitNoteLine[], taxes: SiigoTaxCatalogItem[]): number {
+  return round2(lines.reduce((sum, line) => {
+    const base = line.quantity * line.price;
+    return sum + base + calculateTaxes(base, line.taxIds, taxes).lines.reduce((acc, tax) => acc + tax.value, 0);
+  }, 0));
+}
+
+/**
+ * Petición a Siigo de la nota débito (POST /v1/purchases con tipo ND), con el
+ * proveedor y centro de costo de la compra original y un solo pago por el total.
+ */
+export function buildDebitNoteRequest(
+  purchase: SiigoPurchaseResponse,
+  draft: DebitNoteDraft,
+  taxes: SiigoTaxCatalogItem[]
+): SiigoPurchaseRequest {
+  const lines = draft.lines.filter(line => line.quantity > 0 && line.price > 0);
+
+  return {
+    document: { id: draft.documentId },
+    purchase: purchase.id,
+    date: draft.date,
+    supplier: {
+      identification: purchase.supplier.identification,
+      branch_office: purchase.supplier.branch_office ?? 0
+    },
+    ...(purchase.cost_center && { cost_center: purchase.cost_center }),
+    provider_invoice: {
+      prefix: draft.providerInvoice.prefix.trim(),
+      number: draft.providerInvoice.number.trim()
+    },
+    ...(purchase.currency && { currency: purchase.currency }),
+    observations: draft.observations || `Nota débito de la compra ${purchase.name}`,
+    items: lines.map(line => ({
+      type: line.type,
+      code: line.code,
+      description: line.description || line.code,
+      quantity: line.quantity,
+      price: line.price,
+      taxes: line.taxIds.map(id => ({ id }))
+    })),
+    payments: [{
+      id: draft.paymentTypeId,
+      value: debitNoteTotal(lines, taxes),
+      due_date: draft.date
+    }]
+  };
+}
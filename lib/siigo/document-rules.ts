@@ -0,0 +1,89 @@
+import type { DocumentTypeSiigo } from './document-types';
+
+// Reglas que dependen del tipo de documento elegido; se usan en el formulario y en la API
+type DocumentTypeFlags = Partial<Pick<
+  DocumentTypeSiigo,
+  'name' | 'type' | 'cost_center' | 'cost_center_mandatory' | 'automatic_number' | 'document_support' | 'reteiva' | 'reteica' | 'consumption_tax'
+>>;
+
+// Tipos de documento que se registran con POST /v1/purchases
+export const PURCHASE_DOCUMENT_TYPES = ['FC', 'ND', 'DS'] as const;
+
+export interface DocumentRuleError {
+  field: string;
+  message: string;
+}
+
+export interface DocumentRuleInput {
+  cost_center?: number | null;
+  number?: number | null;
+  purchase?: string | null;
+  provider_invoice?: { number?: string } | null;
+}
+
+export function isCostCenterRequired(documentType?: DocumentTypeFlags | null): boolean {
+  return !!documentType?.cost_center_mandatory;
+}
+
+/** Si el tipo de documento no maneja centros de costo el campo no se muestra ni se envía */
+export function allowsCostCenter(documentType?: DocumentTypeFlags | null): boolean {
+  return documentType?.cost_center !== false || isCostCenterRequired(documentType);
+}
+
+/** Con numeración manual Siigo exige el número del documento en la petición */
+export function requiresManualNumber(documentType?: DocumentTypeFlags | null): boolean {
+  return documentType?.automatic_number === false;
+}
+
+/** El documento soporte se emite a quien no factura: no hay factura del proveedor ni CUFE */
+export function requiresProviderInvoice(documentType?: DocumentTypeFlags | null): boolean {
+  return !documentType?.document_support;
+}
+
+/** La nota débito siempre se registra contra una compra existente */
+export function requiresReferencePurchase(documentType?: DocumentTypeFlags | null): boolean {
+  return documentType?.type === 'ND';
+}
+
+export function getCostCenterError(documentType: DocumentTypeFlags | null | undefined, costCenter?: number | null): string | null {
+  if (isCostCenterRequired(documentType) && !(Number(costCenter) > 0)) {
+    return documentType?.name
+      ? `El tipo de documento ${documentType.name} exige centro de costo`
+      : 'El tipo de documento exige centro de costo';
+  }
+  return null;
+}
+
+/**
+ * Campos que el tipo de documento exige y que faltan en la compra
+ */
+export function getDocumentTypeErrors(documentType: DocumentTypeFlags | null | undefined, input: DocumentRuleInput): DocumentRuleError[] {
+  const errors: DocumentRuleError[] = [];
+
+  const costCenterError = getCostCenterError(documentType, input.cost_center);
+  if (costCenterError) {
+    errors.push({ field: 'cost_center', message: costCenterError });
+  }
+  if (requiresManualNumber(documentType) && !(Number(input.number) > 0)) {
+    errors.push({ field: 'number', message: 'El tipo de documento tiene numeración manual: el número es requerido' });
+  }
+  if (requiresReferencePurchase(documentType) && !input.purchase?.trim()) {
+    errors.push({ field: 'purchase', message: 'La nota débito debe referenciar la compra original' });
+  }
+  if (documentType && requiresProviderInvoice(documentType) && !input.provider_invoice?.number?.trim()) {
+    errors.push({ field: 'provider_invoice.number', message: 'El número de factura del proveedor es requerido' });
+  }
+
+  return errors;
+}
+
+/** Quita del catálogo los impuestos que el tipo de documento no admite (ReteIVA, ReteICA, impoconsumo) */
+export function filterTaxesForDocumentType<T extends { type: string }>(taxes: T[], documentType?: DocumentTypeFlags | null): T[] {
+  if (!documentType) return taxes;
+  return taxes.filter(tax => {
+    if (tax.type === 'ReteIVA') return documentType.reteiva !== false;
+    if (tax.type === 'ReteICA') return documentType.reteica !== false;
+    if (tax.type === 'Impoconsumo') return documentType.consumption_tax !== false;
+    return true;
+  });
+}
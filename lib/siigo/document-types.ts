@@ -1,10 +1,5 @@
 import { SiigoApiError } from './api';
-
-// Configuración de la API
-const SIIGO_API_BASE_URL = process.env.SIIGO_API_URL || 'https://api.siigo.com/v1';
-const SIIGO_API_ENDPOINTS = {
-  TIPOS_DOCUMENTO: '/document-types'
-} as const;
+import { SiigoClient, siigoClient } from './client';
 
 // Interfaz para el tipo de documento de Siigo
 export interface DocumentTypeSiigo {
@@ -33,48 +28,15 @@ interface SiigoApiResponse<T> {
   status?: number;
 }
 
-const API_URL = `${SIIGO_API_BASE_URL}${SIIGO_API_ENDPOINTS.TIPOS_DOCUMENTO}`;
-
 /**
  * Obtiene los tipos de documentos de Siigo según el tipo especificado
  */
 export async function getDocumentTypes(
-  token: string,
   type: 'FC' | 'ND' | 'DS' | 'RP',
-  partnerId?: string
+  client: SiigoClient = siigoClient
 ): Promise<SiigoApiResponse<DocumentTypeSiigo[]>> {
   try {
-    if (!token) {
-      throw new Error('Token de autenticación requerido');
-    }
-
-    const headers: HeadersInit = {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    };
-
-    if (partnerId) {
-      headers['Partner-Id'] = partnerId;
-    }
-
-    const response = await fetch(
-      `${API_URL}?${new URLSearchParams({ type })}`,
-      { 
-        headers,
-        next: { revalidate: 3600 }
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new SiigoApiError(
-        errorData.message || 'Error al obtener los tipos de documento',
-        response.status,
-        errorData
-      );
-    }
-
-    const data = await response.json();
+    const data = await client.get<DocumentTypeSiigo[] | DocumentTypeSiigo>('document-types', { type });
     return { 
       success: true, 
       data: Array.isArray(data) ? data : [data] 
@@ -83,7 +45,7 @@ export async function getDocumentTypes(
   } catch (error) {
     console.error(`Error en getDocumentTypes (${type}):`, error);
     const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
-    const statusCode = (error instanceof SiigoApiError && error.code) ? Number(error.code) : 500;
+    const statusCode = (error instanceof SiigoApiError && typeof error.code === 'number') ? error.code : 500;
     return {
       success: false,
       error: errorMessage,
@@ -96,8 +58,7 @@ export async function getDocumentTypes(
  * Obtiene todos los tipos de documentos disponibles en Siigo
  */
 export async function getAllDocumentTypes(
-  token: string,
-  partnerId?: string
+  client: SiigoClient = siigoClient
 ): Promise<SiigoApiResponse<DocumentTypeSiigo[]>> {
   try {
     const documentTypes: DocumentTypeSiigo[] = [];
@@ -105,7 +66,7 @@ export async function getAllDocumentTypes(
     
     // Usar Promise.all para hacer las peticiones en paralelo
     const results = await Promise.allSettled(
-      types.map(type => getDocumentTypes(token, type, partnerId))
+      types.map(type => getDocumentTypes(type, client))
     );
 
     // Procesar resultados
@@ -132,4 +93,20 @@ export async function getAllDocumentTypes(
       status: 500
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * Busca un tipo de documento por id entre los tipos indicados. Lanza SiigoApiError
+ * si Siigo falla y devuelve null si el id no existe.
+ */
+export async function findDocumentType(
+  id: number,
+  types: Array<'FC' | 'ND' | 'DS' | 'RP'> = ['FC'],
+  client: SiigoClient = siigoClient
+): Promise<DocumentTypeSiigo | null> {
+  for (const type of types) {
+    const data = await client.get<DocumentTypeSiigo[] | DocumentTypeSiigo>('document-types', { type });
+    const documentType = (Array.isArray(data) ? data : [data]).find(d => Number(d.id) === Number(id));
+    if (documentType) return documentType;
+  }
+  return null;
+}
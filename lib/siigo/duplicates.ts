@@ -0,0 +1,116 @@
+import type { SiigoPurchaseRequest, SiigoPurchaseResponse } from '@/types/siigo';
+
+// Datos con que se reconoce una factura de proveedor ya registrada
+export interface PurchaseIdentity {
+  supplierIdentification: string;
+  prefix?: string;
+  number?: string;
+  cufe?: string;
+  /** Fecha del documento, para buscar en Siigo cuando el espejo nunca se ha sincronizado */
+  date?: string;
+}
+
+export type DuplicateSource = 'local' | 'siigo';
+
+export interface DuplicatePurchase {
+  id: string;
+  name: string;
+  date: string;
+  total: number;
+  supplierIdentification: string;
+  providerInvoice: string;
+  matchedBy: 'invoice' | 'cufe';
+  source: DuplicateSource;
+}
+
+export const DUPLICATE_SOURCE_LABELS: Record<DuplicateSource, string> = {
+  local: 'espejo local',
+  siigo: 'Siigo'
+};
+
+export interface DuplicateSearchResult {
+  duplicates: DuplicatePurchase[];
+  /** En Siigo no se revisó todo: hay más compras de las que se consultan o Siigo no respondió */
+  incomplete: boolean;
+}
+
+export const DUPLICATE_LOOKUP_INCOMPLETE_MESSAGE =
+  'No se pudieron revisar todas las compras recientes de Siigo en busca de duplicados; sincronice las compras para descartarlos';
+
+/**
+ * Prefijo o número comparable: sin espacios, guiones ni puntos, en mayúsculas y
+ * sin ceros a la izquierda si es solo numérico ("fe-0012" y "FE12" son el mismo).
+ */
+export function normalizeInvoicePart(value?: string | null): string {
+  const compact = (value || '').toUpperCase().replace(/[\s.\-_/]/g, '');
+  return /^\d+$/.test(compact) ? compact.replace(/^0+(?=\d)/, '') : compact;
+}
+
+/** Identidad de la factura del proveedor de una compra; null si no trae número ni CUFE */
+export function purchaseIdentityOf(
+  purchase: Pick<SiigoPurchaseRequest, 'supplier' | 'provider_invoice' | 'date'>
+): PurchaseIdentity | null {
+  const invoice = purchase.provider_invoice;
+  if (!invoice?.number?.trim() && !invoice?.cufe?.trim()) return null;
+  return {
+    supplierIdentification: purchase.supplier.identification,
+    prefix: invoice.prefix,
+    number: invoice.number,
+    cufe: invoice.cufe || undefined,
+    date: purchase.date
+  };
+}
+
+/**
+ * Indica si una compra registrada corresponde a la misma factura: mismo CUFE, o
+ * mismo proveedor con el mismo prefijo y número.
+ */
+export function matchDuplicate(
+  purchase: Pick<SiigoPurchaseResponse, 'supplier' | 'provider_invoice'>,
+  identity: PurchaseIdentity
+): DuplicatePurchase['matchedBy'] | null {
+  const invoice = purchase.provider_invoice;
+  const cufe = identity.cufe?.trim().toLowerCase();
+  if (cufe && invoice?.cufe?.trim().toLowerCase() === cufe) return 'cufe';
+
+  const number = normalizeInvoicePart(identity.number);
+  if (
+    number &&
+    purchase.supplier?.identification?.trim() === identity.supplierIdentification.trim() &&
+    normalizeInvoicePart(invoice?.number) === number &&
+    normalizeInvoicePart(invoice?.prefix) === normalizeInvoicePart(identity.prefix)
+  ) {
+    return 'invoice';
+  }
+  return null;
+}
+
+export function findDuplicates(
+  purchases: SiigoPurchaseResponse[],
+  identity: PurchaseIdentity,
+  source: DuplicateSource
+): DuplicatePurchase[] {
+  return purchases.flatMap(purchase => {
+    const matchedBy = matchDuplicate(purchase, identity);
+    if (!matchedBy) return [];
+    return [{
+      id: purchase.id,
+      name: purchase.name || String(purchase.number),
+      date: purchase.date,
+      total: Number(purchase.total) || 0,
+      supplierIdentification: purchase.supplier.identification,
+      providerInvoice: [purchase.provider_invoice?.prefix, purchase.provider_invoice?.number].filter(Boolean).join('-'),
+      matchedBy,
+      source
+    }];
+  });
+}
+
+/** Une los duplicados del espejo y de Siigo; una compra presente en ambos se informa una vez */
+export function mergeDuplicates(...lists: DuplicatePurchase[][]): DuplicatePurchase[] {
+  const byId = new Map<string, DuplicatePurchase>();
+  lists.flat().forEach(duplicate => {
+    if (!byId.has(duplicate.id)) byId.set(duplicate.id, duplicate);
+  });
+  return Array.from(byId.values());
+}
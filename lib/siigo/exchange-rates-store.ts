@@ -0,0 +1,52 @@
+import { sql } from '@/lib/db';
+import type { ExchangeRate } from './exchange-rates';
+
+export interface StoredExchangeRate extends ExchangeRate {
+  source: string | null;
+}
+
+/**
+ * Guarda (o reemplaza) tasas de cambio diarias
+ */
+export async function saveExchangeRates(rates: ExchangeRate[], source: string): Promise<number> {
+  if (rates.length === 0) return 0;
+
+  await sql.transaction((txn) => rates.map(rate => txn`
+    INSERT INTO exchange_rates (currency_code, rate_date, rate, source, loaded_at)
+    VALUES (${rate.currency}, ${rate.date}, ${rate.rate}, ${source}, NOW())
+    ON CONFLICT (currency_code, rate_date) DO UPDATE SET
+      rate = EXCLUDED.rate,
+      source = EXCLUDED.source,
+      loaded_at = NOW()
+  `));
+
+  console.log(`[TASAS-CAMBIO] ${rates.length} tasas guardadas (${source})`);
+  return rates.length;
+}
+
+/**
+ * Tasa vigente para una fecha: la del mismo día o, si no hay (fines de semana
+ * y festivos), la última publicada antes.
+ */
+export async function findExchangeRate(currency: string, date: string): Promise<StoredExchangeRate | null> {
+  const rows = await sql`
+    SELECT currency_code, to_char(rate_date, 'YYYY-MM-DD') AS rate_date, rate::float AS rate, source
+    FROM exchange_rates
+    WHERE currency_code = ${currency.toUpperCase()} AND rate_date <= ${date}
+    ORDER BY rate_date DESC
+    LIMIT 1
+  `;
+  const row = rows[0];
+  return row ? { currency: row.currency_code, date: row.rate_date, rate: Number(row.rate), source: row.source } : null;
+}
+
+export async function listExchangeRates(currency: string, limit = 60): Promise<StoredExchangeRate[]> {
+  const rows = await sql`
+    SELECT currency_code, to_char(rate_date, 'YYYY-MM-DD') AS rate_date, rate::float AS rate, source
+    FROM exchange_rates
+    WHERE currency_code = ${currency.toUpperCase()}
+    ORDER BY rate_date DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(row => ({ currency: row.currency_code, date: row.rate_date, rate: Number(row.rate), source: row.source }));
+}
@@ -0,0 +1,145 @@
+import type { SiigoCurrency } from '@/types/siigo';
+
+// Monedas en que se registran compras; COP es la moneda local y no lleva tasa
+export const SUPPORTED_CURRENCIES = [
+  { code: 'COP', name: 'Peso colombiano' },
+  { code: 'USD', name: 'Dólar estadounidense' },
+  { code: 'EUR', name: 'Euro' }
+] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number]['code'];
+
+export const LOCAL_CURRENCY: CurrencyCode = 'COP';
+
+export interface ExchangeRate {
+  currency: string;
+  /** Fecha de vigencia (YYYY-MM-DD) */
+  date: string;
+  /** Pesos por unidad de la moneda */
+  rate: number;
+}
+
+export interface ExchangeRateCsvResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isForeignCurrency(code?: string | null): boolean {
+  return !!code && code.toUpperCase() !== LOCAL_CURRENCY;
+}
+
+/** Equivalente en pesos de un valor expresado en la moneda del documento */
+export function copEquivalent(amount: number, currency?: SiigoCurrency | null): number {
+  if (!currency || !isForeignCurrency(currency.code)) return round2(amount);
+  return round2(amount * Number(currency.exchange_rate || 0));
+}
+
+/**
+ * Interpreta valores como "4.123,45" (formato colombiano), "4,123.45" o "4123.45".
+ * Sin coma, los puntos seguidos de grupos de tres dígitos son de miles: "4.123"
+ * es 4123, como lo exporta el Banco de la República.
+ */
+export function parseRateNumber(raw: string): number {
+  const value = raw.replace(/[$\s"]/g, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  let normalized = value;
+  if (lastComma < 0 && /^-?\d{1,3}(\.\d{3})+$/.test(value)) {
+    normalized = value.replace(/\./g, '');
+  } else if (lastComma > lastDot) {
+    normalized = value.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma >= 0) {
+    normalized = value.replace(/,/g, '');
+  }
+  return Number(normalized);
+}
+
+/** Acepta YYYY-MM-DD, YYYY/MM/DD y DD/MM/YYYY (como exporta el Banco de la República) */
+export function parseRateDate(raw: string): string | null {
+  const value = raw.trim().replace(/"/g, '');
+  let match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (match) return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  match = value.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  return null;
+}
+
+const DATE_HEADERS = ['fecha', 'date', 'vigenciadesde', 'vigencia_desde', 'fecha_vigencia'];
+const RATE_HEADERS = ['valor', 'tasa', 'trm', 'rate', 'value'];
+const CURRENCY_HEADERS = ['moneda', 'currency', 'unidad', 'codigo'];
+
+const normalizeHeader = (header: string) =>
+  header.trim().replace(/"/g, '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Separa una línea del CSV respetando las comillas: en "4,123.45" la coma es
+ * parte del valor y "" dentro de comillas es una comilla literal
+ */
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Lee un CSV de tasas de cambio con encabezados. Reconoce las columnas de
+ * fecha, valor y (opcionalmente) moneda por nombre; si no hay columna de moneda
+ * todas las filas son de `defaultCurrency`. El separador puede ser coma o punto y coma
+ * y los valores pueden ir entre comillas.
+ */
+export function parseExchangeRateCsv(text: string, defaultCurrency: string): ExchangeRateCsvResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return { rates: [], errors: ['El archivo está vacío'] };
+
+  const separator = lines[0].includes(';') ? ';' : ',';
+  const headers = splitCsvLine(lines[0], separator).map(normalizeHeader);
+  const dateIndex = headers.findIndex(header => DATE_HEADERS.includes(header));
+  const rateIndex = headers.findIndex(header => RATE_HEADERS.includes(header));
+  const currencyIndex = headers.findIndex(header => CURRENCY_HEADERS.includes(header));
+  if (dateIndex < 0 || rateIndex < 0) {
+    return { rates: [], errors: ['El CSV debe tener columnas de fecha (fecha) y valor (valor, tasa o trm)'] };
+  }
+
+  const rates = new Map<string, ExchangeRate>();
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line, separator);
+    const date = parseRateDate(cells[dateIndex] || '');
+    const rate = parseRateNumber(cells[rateIndex] || '');
+    // La columna UNIDAD de datos.gov.co dice "COP" para la TRM: se usa la moneda elegida
+    const rawCurrency = currencyIndex >= 0 ? (cells[currencyIndex] || '').trim().toUpperCase() : '';
+    const currency = /^[A-Z]{3}$/.test(rawCurrency) && isForeignCurrency(rawCurrency) ? rawCurrency : defaultCurrency.toUpperCase();
+
+    if (!date || !(rate > 0)) {
+      errors.push(`Fila ${index + 2}: fecha o valor inválido`);
+      return;
+    }
+    rates.set(`${currency}-${date}`, { currency, date, rate });
+  });
+
+  return { rates: Array.from(rates.values()), errors };
+}
@@ -7,7 +7,7 @@ const CODIGOS_DOCUMENTO = {
   NOTA_DEBITO: 'NDE',
   // Agregar más códigos según sea necesario
 } as const;
-import { getSiigoToken } from '@/app/api/siigo/obtener-token/route';
+import { siigoClient, type SiigoQuery } from './client';
 
 // Definir el tipo de factura de Siigo
 interface ClienteSiigo {
@@ -53,7 +53,6 @@ export async function obtenerFacturasSiigo(
   } = {}
 ): Promise<RespuestaPaginada<FacturaSiigo>> {
   try {
-    const token = await getSiigoToken();
     // Obtener el código de documento de forma segura
     const codigoDocumento = (CODIGOS_DOCUMENTO as Record<string, string>)[tipoDocumento] || '';
     
@@ -102,8 +101,6 @@ export async function obtenerFacturasSiigo(
       }
     });
 
-    // Construir URL basada en el tipo de documento
-    const baseUrl = (process.env.SIIGO_API_URL || 'https://api.siigo.com/v1').replace(/\/$/, '');
     const endpoint = filtros.endpoint || 'invoices';
     
     // Configurar parámetros específicos del tipo de documento
@@ -111,131 +108,37 @@ export async function obtenerFacturasSiigo(
       params[filtros.paramTipo] = tipoDocumento.toLowerCase();
     }
     
-    // Construir URL base
-    const url = new URL(`${baseUrl}/${endpoint}`);
-    
-    // Agregar parámetros de consulta
+    // Manejar parámetros anidados (ej: document.id → document[id])
+    const query: SiigoQuery = {};
     Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== '' && value !== null) {
-        // Manejar parámetros anidados (ej: document.id)
-        if (key.includes('.')) {
-          const [parent, child] = key.split('.');
-          url.searchParams.append(`${parent}[${child}]`, String(value));
-        } else {
-          url.searchParams.append(key, String(value));
-        }
+      if (key.includes('.')) {
+        const [parent, child] = key.split('.');
+        query[`${parent}[${child}]`] = value;
+      } else {
+        query[key] = value;
       }
     });
-    
-    console.log(`[Siigo API] Solicitando a: ${url}`);
 
-    // Realizar la petición con timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 segundos de timeout
-
-    try {
-      console.log('Solicitando a:', url.toString());
-      // Configurar headers necesarios para la API de Siigo
-      // Configurar headers
-      const headers = new Headers({
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Partner-Id': 'RemesasYDespachos' // Agregar Partner-Id requerido
-      });
-      
-      const requestOptions: RequestInit = {
-        method: 'GET',
-        headers,
-        signal: controller.signal,
-        redirect: 'follow',
-        referrerPolicy: 'no-referrer' as const
-      };
-      
-      console.log(`[Siigo API] Solicitando a:`, url.toString());
-      console.log(`[Siigo API] Headers:`, Object.fromEntries(headers.entries()));
-      
-      // Realizar la petición
-      const response = await fetch(url.toString(), requestOptions);
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        let errorText = '';
-        try {
-          errorText = await response.text();
-          // Intentar parsear como JSON si es posible
-          const errorData = JSON.parse(errorText);
-          errorText = JSON.stringify(errorData, null, 2);
-        } catch (e) {
-          // Si no es JSON, usar el texto plano
-          console.error('Error al parsear respuesta de error:', e);
-        }
-        
-        let errorMessage = `Error ${response.status} (${response.statusText}) al obtener ${tipoDocumento.toLowerCase()}s`;
-        
-        try {
-          const errorData = JSON.parse(errorText);
-          const errorDetails = {
-            status: response.status,
-            statusText: response.statusText,
-            errorData,
-            url,
-            method: 'GET',
-            headers: Object.fromEntries(Array.from(headers.entries()) as Array<[string, string]>)
-          };
-          
-          console.error('[Siigo API Error]', JSON.stringify(errorDetails, null, 2));
-          
-          // Extraer mensaje de error de la respuesta
-          if (errorData && typeof errorData === 'object') {
-            errorMessage = [
-              errorData.message,
-              errorData.detail,
-              errorData.error,
-              errorData.title
-            ].filter(Boolean).join(' - ') || errorMessage;
-          }
-        } catch (parseError) {
-          console.error('[Siigo API] Error al analizar respuesta de error:', {
-            error: parseError,
-            responseText: errorText,
-            status: response.status,
-            statusText: response.statusText,
-            url
-          });
-          
-          errorMessage = `Error ${response.status}: ${errorText.length > 200 ? errorText.substring(0, 200) + '...' : errorText}`;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json() as SiigoApiResponse;
-      const resultados = Array.isArray(data) ? data : (data.results || []);
-      const pagination = data.pagination || {
-        page: parseInt(params.page || '1'),
-        page_size: parseInt(params.page_size || '20'),
-        total_results: resultados.length,
-        total_pages: Math.ceil(resultados.length / parseInt(params.page_size || '20'))
-      };
+    // Realizar la petición (el cliente maneja token, Partner-Id, timeout y reintentos)
+    const data = await siigoClient.get<SiigoApiResponse | FacturaSiigo[]>(endpoint, query);
+    const resultados = Array.isArray(data) ? data : (data.results || []);
+    const pagination = (!Array.isArray(data) && data.pagination) || {
+      page: parseInt(params.page || '1'),
+      page_size: parseInt(params.page_size || '20'),
+      total_results: resultados.length,
+      total_pages: Math.ceil(resultados.length / parseInt(params.page_size || '20'))
+    };
 
-      return {
-        success: true,
-        data: resultados,
-        paginacion: {
-          pagina: pagination.page,
-          porPagina: pagination.page_size,
-          total: pagination.total_results,
-          totalPaginas: pagination.total_pages
-        }
-      };
-    } catch (error: unknown) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('La solicitud a la API de Siigo ha excedido el tiempo de espera');
+    return {
+      success: true,
+      data: resultados,
+      paginacion: {
+        pagina: pagination.page,
+        porPagina: pagination.page_size,
+        total: pagination.total_results,
+        totalPaginas: pagination.total_pages
       }
-      throw error;
-    }
+    };
   } catch (error: unknown) {
     console.error(`Error al obtener facturas ${tipoDocumento}:`, error);
     
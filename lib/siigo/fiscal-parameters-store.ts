@@ -0,0 +1,131 @@
+import { sql } from '@/lib/db';
+import type { WithholdingConcept } from '@/types/siigo';
+import {
+  DEFAULT_FISCAL_PARAMETERS,
+  FiscalParameters,
+  IcaMunicipality,
+  resolveFiscalParameters,
+  ResolvedFiscalParameters,
+  uvtToPesos,
+  yearOfDate
+} from './fiscal-parameters';
+
+interface FiscalParameterRow { year: number; uvt: number; reteiva_rate: number }
+interface WithholdingRateRow { year: number; concept: WithholdingConcept; min_uvt: number; rate: number; non_declarant_rate: number }
+interface IcaRateRow { year: number; city_code: string; city_name: string; concept: WithholdingConcept; rate_per_mil: number }
+
+/**
+ * Arma los parámetros de cada año a partir de las filas de las tres tablas
+ */
+export function assembleFiscalParameters(
+  years: FiscalParameterRow[],
+  withholdingRates: WithholdingRateRow[],
+  icaRates: IcaRateRow[]
+): FiscalParameters[] {
+  return years.map(row => {
+    const municipalities = new Map<string, IcaMunicipality>();
+    icaRates.filter(rate => rate.year === row.year).forEach(rate => {
+      const municipality = municipalities.get(rate.city_code) ?? {
+        cityCode: rate.city_code,
+        name: rate.city_name,
+        rates: { compras: 0, servicios: 0, honorarios: 0, arrendamientos: 0 }
+      };
+      municipality.rates[rate.concept] = Number(rate.rate_per_mil);
+      municipalities.set(rate.city_code, municipality);
+    });
+
+    return {
+      year: Number(row.year),
+      uvt: Number(row.uvt),
+      reteivaRate: Number(row.reteiva_rate),
+      withholdingRates: withholdingRates.filter(rate => rate.year === row.year).map(rate => ({
+        concept: rate.concept,
+        minUvt: Number(rate.min_uvt),
+        rate: Number(rate.rate),
+        nonDeclarantRate: Number(rate.non_declarant_rate)
+      })),
+      icaMunicipalities: Array.from(municipalities.values())
+    };
+  });
+}
+
+export async function listFiscalParameters(): Promise<FiscalParameters[]> {
+  const [years, withholdingRates, icaRates] = await sql.transaction((txn) => [
+    txn`SELECT year, uvt::float AS uvt, reteiva_rate::float AS reteiva_rate FROM fiscal_parameters ORDER BY year`,
+    txn`
+      SELECT year, concept, min_uvt::float AS min_uvt, rate::float AS rate, non_declarant_rate::float AS non_declarant_rate
+      FROM fiscal_withholding_rates
+      ORDER BY year, concept
+    `,
+    txn`
+      SELECT year, city_code, city_name, concept, rate_per_mil::float AS rate_per_mil
+      FROM fiscal_ica_rates
+      ORDER BY year, city_name, concept
+    `
+  ]);
+
+  return assembleFiscalParameters(
+    years as FiscalParameterRow[],
+    withholdingRates as WithholdingRateRow[],
+    icaRates as IcaRateRow[]
+  );
+}
+
+/**
+ * Parámetros vigentes para una fecha. Si la tabla no tiene años (o aún no se
+ * creó) se usan los valores por defecto del código.
+ */
+export async function getFiscalParametersForDate(date: string): Promise<ResolvedFiscalParameters> {
+  const year = yearOfDate(date);
+  try {
+    const resolved = resolveFiscalParameters(await listFiscalParameters(), year, 'database');
+    if (resolved) return resolved;
+  } catch (error) {
+    console.warn('[PARAMETROS-FISCALES] No se pudieron leer los parámetros, usando valores por defecto:', (error as Error).message);
+  }
+  return resolveFiscalParameters(DEFAULT_FISCAL_PARAMETERS, year, 'default') as ResolvedFiscalParameters;
+}
+
+/** Convierte UVT a pesos con la UVT vigente en la fecha */
+export async function uvtToPesosForDate(amountInUvt: number, date: string): Promise<number> {
+  return uvtToPesos(amountInUvt, await getFiscalParametersForDate(date));
+}
+
+/**
+ * Crea o reemplaza los parámetros de un año con sus tarifas
+ */
+export async function saveFiscalParameters(parameters: FiscalParameters, updatedBy?: string): Promise<void> {
+  const { year } = parameters;
+  const icaRates = parameters.icaMunicipalities.flatMap(municipality =>
+    (Object.entries(municipality.rates) as Array<[WithholdingConcept, number]>).map(([concept, rate]) => ({
+      cityCode: municipality.cityCode,
+      name: municipality.name,
+      concept,
+      rate
+    }))
+  );
+
+  await sql.transaction((txn) => [
+    txn`
+      INSERT INTO fiscal_parameters (year, uvt, reteiva_rate, updated_by, updated_at)
+      VALUES (${year}, ${parameters.uvt}, ${parameters.reteivaRate}, ${updatedBy ?? null}, NOW())
+      ON CONFLICT (year) DO UPDATE SET
+        uvt = EXCLUDED.uvt,
+        reteiva_rate = EXCLUDED.reteiva_rate,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = NOW()
+    `,
+    txn`DELETE FROM fiscal_withholding_rates WHERE year = ${year}`,
+    txn`DELETE FROM fiscal_ica_rates WHERE year = ${year}`,
+    ...parameters.withholdingRates.map(rate => txn`
+      INSERT INTO fiscal_withholding_rates (year, concept, min_uvt, rate, non_declarant_rate)
+      VALUES (${year}, ${rate.concept}, ${rate.minUvt}, ${rate.rate}, ${rate.nonDeclarantRate})
+    `),
+    ...icaRates.map(rate => txn`
+      INSERT INTO fiscal_ica_rates (year, city_code, city_name, concept, rate_per_mil)
+      VALUES (${year}, ${rate.cityCode}, ${rate.name}, ${rate.concept}, ${rate.rate})
+    `)
+  ]);
+
+  console.log(`[PARAMETROS-FISCALES] Parámetros ${year} guardados por ${updatedBy ?? 'desconocido'}`);
+}
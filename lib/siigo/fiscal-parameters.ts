@@ -0,0 +1,102 @@
+import type { WithholdingConcept } from '@/types/siigo';
+
+/*
+ * Parámetros fiscales por año gravable. La tabla fiscal_parameters los
+ * administra desde /administracion/parametros-fiscales; los valores por defecto
+ * de este módulo solo se usan mientras el año no exista en la base de datos.
+ */
+
+export interface WithholdingConceptRate {
+  concept: WithholdingConcept;
+  /** Base mínima en UVT para practicar retefuente, ReteIVA y ReteICA */
+  minUvt: number;
+  /** Tarifa de retefuente (%) para declarantes y no declarantes */
+  rate: number;
+  nonDeclarantRate: number;
+}
+
+export interface IcaMunicipality {
+  cityCode: string;
+  name: string;
+  /** Tarifa de ReteICA por concepto, en por mil */
+  rates: Record<WithholdingConcept, number>;
+}
+
+export interface FiscalParameters {
+  year: number;
+  uvt: number;
+  /** Tarifa de ReteIVA sobre el IVA facturado (%) */
+  reteivaRate: number;
+  withholdingRates: WithholdingConceptRate[];
+  icaMunicipalities: IcaMunicipality[];
+}
+
+export interface ResolvedFiscalParameters extends FiscalParameters {
+  /** De dónde salieron: la tabla administrada o los valores por defecto del código */
+  source: 'database' | 'default';
+  /** true cuando el año pedido no está parametrizado y se usa el anterior más cercano */
+  stale: boolean;
+}
+
+const DEFAULT_WITHHOLDING_RATES: WithholdingConceptRate[] = [
+  { concept: 'compras', minUvt: 27, rate: 2.5, nonDeclarantRate: 3.5 },
+  { concept: 'servicios', minUvt: 4, rate: 4, nonDeclarantRate: 6 },
+  { concept: 'honorarios', minUvt: 0, rate: 11, nonDeclarantRate: 10 },
+  { concept: 'arrendamientos', minUvt: 27, rate: 3.5, nonDeclarantRate: 3.5 }
+];
+
+// Tarifas generales; cada municipio las ajusta por actividad en su estatuto tributario
+const DEFAULT_ICA_MUNICIPALITIES: IcaMunicipality[] = [
+  { cityCode: '11001', name: 'Bogotá D.C.', rates: { compras: 4.14, servicios: 9.66, honorarios: 9.66, arrendamientos: 9.66 } },
+  { cityCode: '05001', name: 'Medellín', rates: { compras: 5, servicios: 10, honorarios: 10, arrendamientos: 10 } },
+  { cityCode: '76001', name: 'Cali', rates: { compras: 3.3, servicios: 10, honorarios: 10, arrendamientos: 10 } },
+  { cityCode: '08001', name: 'Barranquilla', rates: { compras: 4, servicios: 8, honorarios: 8, arrendamientos: 8 } }
+];
+
+// UVT por año según las resoluciones de la DIAN
+export const DEFAULT_FISCAL_PARAMETERS: FiscalParameters[] = [
+  [2024, 47065],
+  [2025, 49799],
+  [2026, 52374]
+].map(([year, uvt]) => ({
+  year,
+  uvt,
+  reteivaRate: 15,
+  withholdingRates: DEFAULT_WITHHOLDING_RATES,
+  icaMunicipalities: DEFAULT_ICA_MUNICIPALITIES
+}));
+
+export function yearOfDate(date: string): number {
+  return Number(date.slice(0, 4)) || new Date().getFullYear();
+}
+
+/**
+ * Parámetros del año pedido entre los disponibles. Si el año no existe se usa
+ * el anterior más cercano (o el primero si el año es previo a todos) marcado
+ * como desactualizado.
+ */
+export function resolveFiscalParameters(
+  available: FiscalParameters[],
+  year: number,
+  source: ResolvedFiscalParameters['source']
+): ResolvedFiscalParameters | null {
+  const sorted = [...available].sort((a, b) => a.year - b.year);
+  if (sorted.length === 0) return null;
+
+  const exact = sorted.find(parameters => parameters.year === year);
+  if (exact) return { ...exact, source, stale: false };
+
+  const previous = sorted.filter(parameters => parameters.year < year);
+  const closest = previous.length > 0 ? previous[previous.length - 1] : sorted[0];
+  return { ...closest, source, stale: true };
+}
+
+/** Parámetros por defecto para una fecha, mientras no se carguen los de la base de datos */
+export function getDefaultFiscalParameters(date: string): ResolvedFiscalParameters {
+  return resolveFiscalParameters(DEFAULT_FISCAL_PARAMETERS, yearOfDate(date), 'default') as ResolvedFiscalParameters;
+}
+
+/** Convierte un valor en UVT a pesos (redondeado al peso) con la UVT de los parámetros */
+export function uvtToPesos(amountInUvt: number, parameters: Pick<FiscalParameters, 'uvt'>): number {
+  return Math.round(amountInUvt * parameters.uvt);
+}
@@ -0,0 +1,403 @@
+import { sql } from '@/lib/db';
+import type { SiigoPurchaseResponse } from '@/types/siigo';
+import { SiigoApiError } from './api';
+import { runWithSiigoAudit } from './audit';
+import { getSiigoTaxes } from './catalogs';
+import { SiigoAuthError, SiigoClient, siigoClient } from './client';
+import { getCurrentCompanyId, runWithCompany } from './companies';
+import { purchaseCufeDifferences, verifyCufe, withPurchaseDifferences } from './cufe';
+import { matchDuplicate, purchaseIdentityOf } from './duplicates';
+import {
+  OUTBOX_LOCK_MS,
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_STATUS_LABELS,
+  outboxMarker,
+  outboxRetryDelayMs,
+  OutboxDelivery,
+  OutboxItem,
+  OutboxPurchaseSubmission,
+  OutboxStatus,
+  withOutboxMarker
+} from './outbox';
+import { deletePurchaseDraft } from './purchase-drafts-store';
+import { crearCompraSiigo, crearDocumentoSoporteSiigo } from './purchaseApi';
+import { recordCufeVerification, recordDebitNote, recordDuplicateOverride, toSiigoDateTime } from './purchases-sync';
+import { runWithSiigoPriority } from './scheduler';
+
+export interface OutboxAttempt {
+  item: OutboxItem;
+  /** null si el intento falló */
+  delivery: OutboxDelivery | null;
+  error: unknown;
+}
+
+export interface OutboxRunSummary {
+  processed: number;
+  sent: number;
+  pending: number;
+  failed: number;
+  needsAttention: number;
+}
+
+export interface OutboxFilters {
+  status?: OutboxStatus;
+  limit?: number;
+}
+
+export const OUTBOX_PAGE_SIZE = 200;
+
+// Compras por ejecución del worker: cada una puede tardar lo que tarde Siigo
+export const OUTBOX_BATCH_SIZE = 10;
+
+// Páginas de compras creadas desde que se encoló que se revisan antes de reintentar
+const OUTBOX_LOOKUP_MAX_PAGES = 10;
+const OUTBOX_LOOKUP_PAGE_SIZE = 100;
+// Margen por la diferencia de reloj con Siigo
+const OUTBOX_LOOKUP_SKEW_MS = 10 * 60_000;
+
+export class SiigoOutboxError extends Error {
+  constructor(message: string, public readonly status: 404 | 409) {
+    super(message);
+    this.name = 'SiigoOutboxError';
+  }
+}
+
+const optionalNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+const optionalDate = (value: unknown) => (value ? new Date(value as string).toISOString() : null);
+
+const toOutboxItem = (row: Record<string, unknown>): OutboxItem => ({
+  id: Number(row.id),
+  status: row.status as OutboxStatus,
+  submission: row.submission as OutboxPurchaseSubmission,
+  attempts: Number(row.attempts),
+  nextAttemptAt: new Date(row.next_attempt_at as string).toISOString(),
+  lastStatus: optionalNumber(row.last_status),
+  lastError: row.last_error ? String(row.last_error) : null,
+  errorDetails: row.error_details ?? null,
+  result: (row.result as OutboxDelivery | null) ?? null,
+  createdBy: String(row.created_by),
+  createdAt: new Date(row.created_at as string).toISOString(),
+  updatedAt: new Date(row.updated_at as string).toISOString(),
+  sentAt: optionalDate(row.sent_at)
+});
+
+const lockUntil = () => new Date(Date.now() + OUTBOX_LOCK_MS).toISOString();
+
+/**
+ * Fallas en que vale la pena reintentar: Siigo caído, lento, limitando peticiones
+ * o sin poder autenticar. Los demás 4xx son errores de datos que alguien debe corregir.
+ */
+export function isTransientSiigoError(error: unknown): boolean {
+  if (error instanceof SiigoAuthError) return true;
+  if (!(error instanceof SiigoApiError)) return false;
+  return error.code === 'NETWORK_ERROR'
+    || error.code === 408
+    || error.code === 429
+    || (typeof error.code === 'number' && error.code >= 500);
+}
+
+/**
+ * Guarda la compra en la cola antes de enviarla. Queda tomada por quien la
+ * encola, que hace el primer intento enseguida con attemptOutboxItem.
+ */
+export async function enqueueOutboxPurchase(
+  submission: OutboxPurchaseSubmission,
+  createdBy: string,
+  companyId: string = getCurrentCompanyId()
+): Promise<OutboxItem> {
+  const rows = await sql`
+    INSERT INTO siigo_outbox (company_id, status, kind, submission, locked_until, created_by)
+    VALUES (${companyId}, 'processing', ${submission.kind}, ${JSON.stringify(submission)}, ${lockUntil()}, ${createdBy})
+    RETURNING *
+  `;
+  return toOutboxItem(rows[0]);
+}
+
+/**
+ * Compra de la cola que aún se va a enviar a partir del borrador, para no
+ * encolar dos veces el mismo borrador mientras el worker lo reintenta
+ */
+export async function findQueuedDraftItem(
+  userId: number,
+  draftId: string,
+  companyId: string = getCurrentCompanyId()
+): Promise<OutboxItem | null> {
+  const rows = await sql`
+    SELECT * FROM siigo_outbox
+    WHERE company_id = ${companyId} AND status IN ('pending', 'processing')
+      AND submission->'draft'->>'id' = ${draftId}
+      AND (submission->'draft'->>'userId')::int = ${userId}
+    ORDER BY id DESC
+    LIMIT 1
+  `;
+  return rows.length > 0 ? toOutboxItem(rows[0]) : null;
+}
+
+/**
+ * Un 5xx, un timeout o un proceso interrumpido pudieron crear la compra aunque no
+ * llegara la respuesta. Se busca entre las compras creadas en Siigo desde que se
+ * encoló, por la marca de la cola en las observaciones o por la factura del
+ * proveedor. Si hay más compras de las que se revisan, no se puede descartar que
+ * exista y la compra queda en espera de atención en vez de reintentarse.
+ */
+async function findDeliveredPurchase(item: OutboxItem, client: SiigoClient): Promise<SiigoPurchaseResponse | null> {
+  const marker = outboxMarker(item.id);
+  const identity = purchaseIdentityOf(item.submission.purchase);
+  const accepted = new Set(item.submission.duplicateOverride?.duplicates.map(d => d.id));
+  const since = new Date(new Date(item.createdAt).getTime() - OUTBOX_LOOKUP_SKEW_MS).toISOString();
+
+  const matches: SiigoPurchaseResponse[] = [];
+  let lastPageSize = 0;
+  const lastPage = await client.forEachPage<SiigoPurchaseResponse>('purchases', { created_start: toSiigoDateTime(since) }, (results) => {
+    lastPageSize = results.length;
+    matches.push(...results.filter(purchase =>
+      purchase.observations?.includes(marker)
+      || (identity !== null && !accepted.has(purchase.id) && matchDuplicate(purchase, identity) !== null)
+    ));
+  }, { pageSize: OUTBOX_LOOKUP_PAGE_SIZE, maxPages: OUTBOX_LOOKUP_MAX_PAGES });
+
+  if (matches.length > 0) return matches[0];
+  if (lastPage >= OUTBOX_LOOKUP_MAX_PAGES && lastPageSize === OUTBOX_LOOKUP_PAGE_SIZE) {
+    throw new Error('No se pudo confirmar en Siigo si el envío anterior creó la compra; revísela en Siigo antes de reintentarla');
+  }
+  return null;
+}
+
+async function deliverOutboxPurchase(item: OutboxItem, client: SiigoClient, companyId: string): Promise<OutboxDelivery> {
+  const { kind, supportSupplier, duplicateOverride, cufeVerification } = item.submission;
+  const purchase = { ...item.submission.purchase, observations: withOutboxMarker(item.submission.purchase.observations, item.id) };
+
+  const previous = item.lastError !== null ? await findDeliveredPurchase(item, client) : null;
+  if (previous) {
+    console.warn(`[SIIGO-COMPRAS] La compra #${item.id} de la cola ya estaba en Siigo como ${previous.name || previous.number}`);
+  }
+  // El documento soporte necesita el proveedor creado en Siigo con sus datos DIAN
+  const creada = previous
+    ?? (kind === 'support_document' && supportSupplier
+      ? await crearDocumentoSoporteSiigo(purchase, supportSupplier, client)
+      : await crearCompraSiigo(purchase, client));
+
+  console.log(`[SIIGO-COMPRAS] ${creada.name || creada.number} creada por ${item.createdBy} (cola #${item.id})`);
+
+  if (duplicateOverride) {
+    const names = duplicateOverride.duplicates.map(d => d.name).join(', ');
+    console.warn(`[SIIGO-COMPRAS] ${creada.name || creada.number} registrada como duplicado de ${names}: ${duplicateOverride.reason}`);
+    await recordDuplicateOverride(companyId, {
+      purchase: creada,
+      duplicates: duplicateOverride.duplicates,
+      reason: duplicateOverride.reason,
+      createdBy: item.createdBy
+    }).catch((error) => {
+      console.error('[SIIGO-COMPRAS] No se pudo guardar la justificación del duplicado:', error);
+    });
+  }
+
+  // El CUFE se recalcula con los valores tal como vienen en el XML; aparte se revisa que
+  // la compra enviada no se haya apartado de la factura más allá de los redondeos
+  const cufe = purchase.provider_invoice?.cufe?.trim() ?? '';
+  let cufeCheck = await verifyCufe(cufe, cufeVerification?.fields, cufeVerification?.technical_key);
+  if (cufeCheck && cufeVerification) {
+    const taxes = await getSiigoTaxes({ client, companyId }).catch((error) => {
+      console.error('[SIIGO-COMPRAS] No se pudieron cargar los impuestos para comparar la compra con el XML:', error);
+      return null;
+    });
+    if (taxes) cufeCheck = withPurchaseDifferences(cufeCheck, purchaseCufeDifferences(purchase, taxes, cufeVerification.fields));
+  }
+  if (cufeCheck) {
+    if (cufeCheck.status === 'mismatch') {
+      console.warn(`[SIIGO-COMPRAS] ${creada.name || creada.number} registrada con un CUFE que no coincide con el XML`);
+    }
+    if (cufeCheck.status === 'purchase_mismatch') {
+      console.warn(`[SIIGO-COMPRAS] ${creada.name || creada.number} registrada con valores distintos a los del XML`);
+    }
+    await recordCufeVerification(companyId, {
+      purchase: creada,
+      cufe,
+      check: cufeCheck,
+      createdBy: item.createdBy
+    }).catch((error) => {
+      console.error('[SIIGO-COMPRAS] No se pudo guardar la verificación del CUFE:', error);
+    });
+  }
+
+  // Siigo ya aceptó la nota débito: si el espejo local falla se corrige en la próxima sincronización
+  let balance: number | null = null;
+  if (kind === 'debit_note') {
+    balance = await recordDebitNote(companyId, { ...creada, purchase: creada.purchase || purchase.purchase })
+      .catch((error) => {
+        console.error('[SIIGO-COMPRAS] No se pudo actualizar el saldo local:', error);
+        return null;
+      });
+  }
+
+  return { purchase: creada, balance, cufeCheck };
+}
+
+/**
+ * Hace un intento de envío de una compra ya tomada (status processing) y deja
+ * registrado el resultado: enviada, de vuelta en la cola con espera creciente si
+ * la falla es transitoria, fallida si se agotaron los intentos, o en espera de
+ * atención si Siigo rechazó los datos.
+ */
+export async function attemptOutboxItem(
+  item: OutboxItem,
+  client: SiigoClient = siigoClient,
+  companyId: string = getCurrentCompanyId()
+): Promise<OutboxAttempt> {
+  const attempts = item.attempts + 1;
+  try {
+    const delivery = await deliverOutboxPurchase(item, client, companyId);
+    const rows = await sql`
+      UPDATE siigo_outbox
+      SET status = 'sent', attempts = ${attempts}, result = ${JSON.stringify(delivery)},
+          locked_until = NULL, sent_at = NOW(), updated_at = NOW()
+      WHERE id = ${item.id}
+      RETURNING *
+    `;
+    // El borrador solo se elimina cuando Siigo aceptó la compra
+    const draft = item.submission.draft;
+    if (draft) {
+      await deletePurchaseDraft(draft.userId, draft.id, companyId).catch((error) => {
+        console.error('[SIIGO-COMPRAS] No se pudo eliminar el borrador:', error);
+      });
+    }
+    return { item: toOutboxItem(rows[0]), delivery, error: null };
+  } catch (error) {
+    const status: OutboxStatus = !isTransientSiigoError(error)
+      ? 'needs_attention'
+      : attempts >= OUTBOX_MAX_ATTEMPTS ? 'failed' : 'pending';
+    const nextAttemptAt = new Date(Date.now() + outboxRetryDelayMs(attempts)).toISOString();
+    const lastStatus = error instanceof SiigoApiError && typeof error.code === 'number' ? error.code : null;
+    const details = error instanceof SiigoApiError || error instanceof SiigoAuthError ? error.details ?? null : null;
+    const message = error instanceof Error ? error.message : 'Error desconocido';
+
+    console.warn(`[SIIGO-COMPRAS] Intento ${attempts} de la compra #${item.id} de la cola falló (${message}): queda ${OUTBOX_STATUS_LABELS[status].toLowerCase()}`);
+    const rows = await sql`
+      UPDATE siigo_outbox
+      SET status = ${status}, attempts = ${attempts}, next_attempt_at = ${nextAttemptAt},
+          last_status = ${lastStatus}, last_error = ${message},
+          error_details = ${details === null ? null : JSON.stringify(details)},
+          locked_until = NULL, updated_at = NOW()
+      WHERE id = ${item.id}
+      RETURNING *
+    `;
+    return { item: toOutboxItem(rows[0]), delivery: null, error };
+  }
+}
+
+/**
+ * Toma las compras cuyo próximo intento ya venció, y las que quedaron a medio
+ * enviar por un proceso interrumpido. SKIP LOCKED evita que dos workers tomen la misma.
+ */
+export async function claimDueOutboxItems(
+  limit: number = OUTBOX_BATCH_SIZE,
+  companyId: string = getCurrentCompanyId()
+): Promise<OutboxItem[]> {
+  const rows = await sql`
+    UPDATE siigo_outbox
+    SET status = 'processing', locked_until = ${lockUntil()}, updated_at = NOW(),
+        last_error = CASE WHEN status = 'processing' THEN COALESCE(last_error, 'El envío anterior se interrumpió') ELSE last_error END
+    WHERE id IN (
+      SELECT id FROM siigo_outbox
+      WHERE company_id = ${companyId}
+        AND ((status = 'pending' AND next_attempt_at <= NOW()) OR (status = 'processing' AND locked_until < NOW()))
+      ORDER BY next_attempt_at, id
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return rows.map(toOutboxItem);
+}
+
+/**
+ * Worker de la cola: envía una tras otra las compras que tocan, con prioridad de
+ * fondo. Cada envío queda en la bitácora de Siigo a nombre de quien registró la compra.
+ */
+export async function processOutbox(
+  options: { limit?: number; client?: SiigoClient; companyId?: string } = {}
+): Promise<OutboxRunSummary> {
+  const companyId = options.companyId || getCurrentCompanyId();
+  const client = options.client || siigoClient;
+  const summary: OutboxRunSummary = { processed: 0, sent: 0, pending: 0, failed: 0, needsAttention: 0 };
+
+  // Las llamadas a Siigo salen con las credenciales y la cuota de la empresa de la cola
+  return runWithCompany(companyId, async () => {
+    for (const item of await claimDueOutboxItems(options.limit, companyId)) {
+      const { item: updated } = await runWithSiigoAudit(
+        { userEmail: item.createdBy },
+        () => runWithSiigoPriority('background', () => attemptOutboxItem(item, client, companyId))
+      );
+      summary.processed++;
+      if (updated.status === 'sent') summary.sent++;
+      else if (updated.status === 'pending') summary.pending++;
+      else if (updated.status === 'failed') summary.failed++;
+      else if (updated.status === 'needs_attention') summary.needsAttention++;
+    }
+    return summary;
+  });
+}
+
+/**
+ * Compras de la cola, las más recientes primero
+ */
+export async function listOutboxItems(
+  filters: OutboxFilters = {},
+  companyId: string = getCurrentCompanyId()
+): Promise<OutboxItem[]> {
+  const rows = await sql`
+    SELECT * FROM siigo_outbox
+    WHERE company_id = ${companyId}
+      AND (${filters.status ?? null}::text IS NULL OR status = ${filters.status ?? null})
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${Math.min(filters.limit ?? OUTBOX_PAGE_SIZE, OUTBOX_PAGE_SIZE)}
+  `;
+  return rows.map(toOutboxItem);
+}
+
+// Explica por qué no se pudo cambiar una compra de la cola
+async function outboxConflict(id: number, action: string, companyId: string): Promise<SiigoOutboxError> {
+  const rows = await sql`SELECT status FROM siigo_outbox WHERE company_id = ${companyId} AND id = ${id}`;
+  if (rows.length === 0) return new SiigoOutboxError('La compra no existe en la cola', 404);
+  const label = OUTBOX_STATUS_LABELS[rows[0].status as OutboxStatus].toLowerCase();
+  return new SiigoOutboxError(`La compra está ${label} y no se puede ${action}`, 409);
+}
+
+/**
+ * Reintenta enseguida una compra fallida o que requería atención, con el
+ * contador de intentos automáticos desde cero.
+ * @throws SiigoOutboxError si la compra no existe o no está fallida ni en espera de atención
+ */
+export async function retryOutboxItem(
+  id: number,
+  client: SiigoClient = siigoClient,
+  companyId: string = getCurrentCompanyId()
+): Promise<OutboxAttempt> {
+  const rows = await sql`
+    UPDATE siigo_outbox
+    SET status = 'processing', attempts = 0, locked_until = ${lockUntil()}, updated_at = NOW()
+    WHERE company_id = ${companyId} AND id = ${id} AND status IN ('failed', 'needs_attention')
+    RETURNING *
+  `;
+  if (rows.length === 0) throw await outboxConflict(id, 'reintentar', companyId);
+  return attemptOutboxItem(toOutboxItem(rows[0]), client, companyId);
+}
+
+/**
+ * Saca una compra de la cola sin enviarla
+ * @throws SiigoOutboxError si la compra no existe o ya se envió, se está enviando o estaba cancelada
+ */
+export async function cancelOutboxItem(
+  id: number,
+  cancelledBy: string,
+  companyId: string = getCurrentCompanyId()
+): Promise<OutboxItem> {
+  const rows = await sql`
+    UPDATE siigo_outbox
+    SET status = 'cancelled', cancelled_by = ${cancelledBy}, locked_until = NULL, updated_at = NOW()
+    WHERE company_id = ${companyId} AND id = ${id} AND status IN ('pending', 'failed', 'needs_attention')
+    RETURNING *
+  `;
+  if (rows.length === 0) throw await outboxConflict(id, 'cancelar', companyId);
+  return toOutboxItem(rows[0]);
+}
@@ -0,0 +1,102 @@
+import type { SiigoPurchaseRequest, SiigoPurchaseResponse, SupportDocumentSupplier } from '@/types/siigo';
+import type { CufeCheck, CufeFields } from './cufe';
+import type { DuplicatePurchase } from './duplicates';
+
+// Cola de envíos de compras a Siigo (tabla siigo_outbox, ver scripts/21-create-siigo-outbox.sql)
+
+export type OutboxStatus = 'pending' | 'processing' | 'sent' | 'failed' | 'needs_attention' | 'cancelled';
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Pendiente',
+  processing: 'Enviando',
+  sent: 'Enviada',
+  failed: 'Fallida',
+  needs_attention: 'Requiere atención',
+  cancelled: 'Cancelada'
+};
+
+// Intentos automáticos antes de dejar la compra como fallida (~2 horas con OUTBOX_MAX_DELAY_MS)
+export const OUTBOX_MAX_ATTEMPTS = 8;
+const OUTBOX_BASE_DELAY_MS = 60_000;
+const OUTBOX_MAX_DELAY_MS = 60 * 60_000;
+
+// Si el proceso muere a mitad de un envío, la compra vuelve a la cola pasado este tiempo
+export const OUTBOX_LOCK_MS = 5 * 60_000;
+
+export type OutboxPurchaseKind = 'purchase' | 'support_document' | 'debit_note';
+
+export const OUTBOX_KIND_LABELS: Record<OutboxPurchaseKind, string> = {
+  purchase: 'Factura de compra',
+  support_document: 'Documento soporte',
+  debit_note: 'Nota débito'
+};
+
+/** Lo que necesita el worker para crear la compra y registrar lo mismo que la ruta de compras */
+export interface OutboxPurchaseSubmission {
+  kind: OutboxPurchaseKind;
+  purchase: SiigoPurchaseRequest;
+  /** Solo para documentos soporte */
+  supportSupplier?: SupportDocumentSupplier;
+  /** Duplicados que el usuario aceptó al enviar, con su justificación */
+  duplicateOverride?: { reason: string; duplicates: DuplicatePurchase[] };
+  cufeVerification?: { fields: CufeFields; technical_key?: string };
+  /** Borrador del formulario que se elimina cuando Siigo acepta la compra */
+  draft?: { userId: number; id: string };
+}
+
+export interface OutboxDelivery {
+  purchase: SiigoPurchaseResponse;
+  /** Saldo de la compra ajustada, solo para notas débito */
+  balance: number | null;
+  cufeCheck: CufeCheck | null;
+}
+
+export interface OutboxItem {
+  id: number;
+  status: OutboxStatus;
+  submission: OutboxPurchaseSubmission;
+  attempts: number;
+  nextAttemptAt: string;
+  /** Status HTTP del último intento fallido; null si no hubo respuesta */
+  lastStatus: number | null;
+  lastError: string | null;
+  /** Cuerpo de error de Siigo, para saber qué corregir */
+  errorDetails: unknown;
+  result: OutboxDelivery | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt: string | null;
+}
+
+/**
+ * Marca que se agrega a las observaciones de la compra enviada a Siigo. Si un
+ * envío queda sin respuesta, se busca en Siigo antes de reintentarlo.
+ */
+export function outboxMarker(id: number): string {
+  return `[Cola de envíos #${id}]`;
+}
+
+export function withOutboxMarker(observations: string | undefined, id: number): string {
+  const marker = outboxMarker(id);
+  const text = observations?.trim() || '';
+  if (text.includes(marker)) return text;
+  return text ? `${text}\n${marker}` : marker;
+}
+
+/**
+ * Espera antes del siguiente intento automático: 1, 2, 4, ... minutos hasta una hora
+ * @param attempts intentos ya hechos (1 después del primero)
+ */
+export function outboxRetryDelayMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_MAX_DELAY_MS);
+}
+
+// Las compras enviadas o canceladas ya no se tocan; las que están en cola se reintentan solas
+export function canRetryOutboxItem(status: OutboxStatus): boolean {
+  return status === 'failed' || status === 'needs_attention';
+}
+
+export function canCancelOutboxItem(status: OutboxStatus): boolean {
+  return status === 'pending' || status === 'failed' || status === 'needs_attention';
+}
@@ -0,0 +1,164 @@
+import type { SiigoPaymentReceiptDue, SiigoPaymentReceiptRequest, SiigoPurchaseResponse } from '@/types/siigo';
+
+// Medio con que se pagó; Siigo solo registra la cuenta (forma de pago RP), el medio se guarda localmente
+export const PAYMENT_METHODS = [
+  { id: 'transferencia', name: 'Transferencia' },
+  { id: 'cheque', name: 'Cheque' },
+  { id: 'consignacion', name: 'Consignación' },
+  { id: 'efectivo', name: 'Efectivo' },
+  { id: 'tarjeta', name: 'Tarjeta' }
+] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number]['id'];
+
+// Valor a abonar a una cuota de una compra abierta
+export interface PaymentAllocation {
+  purchaseId: string;
+  quote: number;
+  value: number;
+}
+
+export interface PaymentReceiptDraft {
+  documentId: number;
+  date: string;
+  paymentTypeId: number;
+  method: PaymentMethod;
+  observations?: string;
+  allocations: PaymentAllocation[];
+}
+
+// Cuota de una compra: una por cada forma de pago registrada en la compra
+export interface PurchaseInstallment {
+  quote: number;
+  dueDate: string;
+  value: number;
+  remaining: number;
+}
+
+type InstallmentPurchase = Pick<SiigoPurchaseResponse, 'date' | 'balance' | 'payments'>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Cuotas de la compra con su saldo. Siigo numera las cuotas en el orden de
+ * `payments` y solo informa el saldo total, así que lo pagado se descuenta de las
+ * cuotas que vencen primero. Una compra sin formas de pago es una sola cuota.
+ */
+export function purchaseInstallments(purchase: InstallmentPurchase): PurchaseInstallment[] {
+  const balance = round2(Number(purchase.balance) || 0);
+  const payments = purchase.payments || [];
+  if (payments.length === 0) {
+    return [{ quote: 1, dueDate: purchase.date, value: balance, remaining: balance }];
+  }
+
+  const installments = payments.map((payment, index) => ({
+    quote: index + 1,
+    dueDate: payment.due_date || purchase.date,
+    value: round2(Number(payment.value) || 0),
+    remaining: 0
+  }));
+  const total = installments.reduce((sum, installment) => sum + installment.value, 0);
+  let paid = round2(Math.max(total - balance, 0));
+
+  [...installments]
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.quote - b.quote)
+    .forEach(installment => {
+      const applied = Math.min(paid, installment.value);
+      installment.remaining = round2(installment.value - applied);
+      paid = round2(paid - applied);
+    });
+
+  return installments;
+}
+
+/**
+ * Cuota de Siigo que se abona: el nombre "FC-1-25" se parte en prefijo "FC-1" y
+ * consecutivo 25; la fecha es el vencimiento de la cuota.
+ */
+export function purchaseDue(
+  purchase: Pick<SiigoPurchaseResponse, 'name' | 'number'>,
+  installment: Pick<PurchaseInstallment, 'quote' | 'dueDate'>
+): SiigoPaymentReceiptDue {
+  const prefix = purchase.name?.replace(/-\d+$/, '') || '';
+  return {
+    prefix,
+    consecutive: Number(purchase.number),
+    quote: installment.quote,
+    date: installment.dueDate
+  };
+}
+
+/**
+ * Errores de los abonos frente a los saldos de las cuotas de las compras del
+ * proveedor. A diferencia de los pagos de una compra no hay tolerancia: Siigo
+ * rechaza abonos que superen el saldo de la cuota aunque sea por centavos.
+ */
+export function getAllocationErrors(
+  purchases: Array<Pick<SiigoPurchaseResponse, 'id' | 'name'> & InstallmentPurchase>,
+  allocations: PaymentAllocation[]
+): string[] {
+  const errors: string[] = [];
+  const selected = allocations.filter(allocation => allocation.value > 0);
+  if (selected.length === 0) {
+    errors.push('Debe abonar al menos una compra');
+  }
+
+  const allocated = new Map<string, number>();
+  selected.forEach(allocation => {
+    const purchase = purchases.find(p => p.id === allocation.purchaseId);
+    if (!purchase) {
+      errors.push(`La compra ${allocation.purchaseId} no está abierta para este proveedor`);
+      return;
+    }
+
+    const installment = purchaseInstallments(purchase).find(i => i.quote === allocation.quote);
+    if (!installment || installment.remaining <= 0) {
+      errors.push(`La cuota ${allocation.quote} de ${purchase.name} no tiene saldo pendiente`);
+      return;
+    }
+
+    const key = `${purchase.id}:${installment.quote}`;
+    const value = round2((allocated.get(key) || 0) + allocation.value);
+    allocated.set(key, value);
+    if (value > installment.remaining) {
+      errors.push(
+        `El abono a la cuota ${installment.quote} de ${purchase.name} supera su saldo (${installment.remaining.toLocaleString('es-CO')})`
+      );
+    }
+  });
+
+  return errors;
+}
+
+export function allocationsTotal(allocations: PaymentAllocation[]): number {
+  return round2(allocations.reduce((sum, allocation) => sum + (allocation.value > 0 ? allocation.value : 0), 0));
+}
+
+export function buildPaymentReceiptRequest(
+  supplier: SiigoPurchaseResponse['supplier'],
+  purchases: SiigoPurchaseResponse[],
+  draft: PaymentReceiptDraft
+): SiigoPaymentReceiptRequest {
+  const allocations = draft.allocations.filter(allocation => allocation.value > 0);
+  const methodName = PAYMENT_METHODS.find(method => method.id === draft.method)?.name || draft.method;
+
+  return {
+    document: { id: draft.documentId },
+    date: draft.date,
+    type: 'DebtPayment',
+    supplier: { identification: supplier.identification, branch_office: supplier.branch_office ?? 0 },
+    items: allocations.map(allocation => {
+      const purchase = purchases.find(p => p.id === allocation.purchaseId);
+      if (!purchase) {
+        throw new Error(`La compra ${allocation.purchaseId} no está abierta para este proveedor`);
+      }
+      const installment = purchaseInstallments(purchase).find(i => i.quote === allocation.quote);
+      if (!installment) {
+        throw new Error(`La cuota ${allocation.quote} de ${purchase.name} no existe`);
+      }
+      return { due: purchaseDue(purchase, installment), value: round2(allocation.value) };
+    }),
+    payment: { id: draft.paymentTypeId, value: allocationsTotal(allocations) },
+    observations: [`Medio de pago: ${methodName}`, draft.observations?.trim()].filter(Boolean).join('. ')
+  };
+}
@@ -0,0 +1,114 @@
+import type { SiigoPayment } from '@/types/siigo';
+
+// Diferencia máxima aceptada entre la suma de pagos y el total (redondeo de centavos)
+export const PAYMENTS_TOLERANCE = 1;
+
+export interface PaymentInstallment {
+  /** Días desde la fecha de la factura */
+  days: number;
+  /** Porcentaje del total de la factura */
+  percentage: number;
+}
+
+export interface PaymentTermPreset {
+  id: string;
+  name: string;
+  installments: PaymentInstallment[];
+}
+
+export const PAYMENT_TERM_PRESETS: PaymentTermPreset[] = [
+  { id: 'contado', name: 'Contado', installments: [{ days: 0, percentage: 100 }] },
+  { id: '30', name: 'Crédito 30 días', installments: [{ days: 30, percentage: 100 }] },
+  { id: '60', name: 'Crédito 60 días', installments: [{ days: 60, percentage: 100 }] },
+  { id: '90', name: 'Crédito 90 días', installments: [{ days: 90, percentage: 100 }] },
+  {
+    id: '30-60-90',
+    name: 'Tres cuotas 30/60/90',
+    installments: [
+      { days: 30, percentage: 33.33 },
+      { days: 60, percentage: 33.33 },
+      { days: 90, percentage: 33.34 }
+    ]
+  },
+  {
+    id: '50-contado-50-30',
+    name: '50% contado y 50% a 30 días',
+    installments: [
+      { days: 0, percentage: 50 },
+      { days: 30, percentage: 50 }
+    ]
+  }
+];
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Reparte el total en cuotas según los plazos. La última cuota absorbe el
+ * redondeo para que la suma sea exactamente el total.
+ */
+export function buildInstallments(
+  total: number,
+  invoiceDate: string,
+  installments: PaymentInstallment[],
+  paymentTypeId: number
+): SiigoPayment[] {
+  let assigned = 0;
+  return installments.map((installment, index) => {
+    const isLast = index === installments.length - 1;
+    const value = isLast ? round2(total - assigned) : round2(total * installment.percentage / 100);
+    assigned += value;
+    return {
+      id: paymentTypeId,
+      value,
+      due_date: addDays(invoiceDate, installment.days)
+    };
+  });
+}
+
+function daysBetween(from: string, to: string): number {
+  const ms = new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime();
+  return Math.max(Math.round(ms / (24 * 60 * 60 * 1000)), 0);
+}
+
+/**
+ * Convierte pagos ya distribuidos en un plazo reutilizable (días y porcentajes),
+ * por ejemplo para guardarlo como condición del proveedor.
+ */
+export function installmentsFromPayments(
+  payments: Array<{ value: number; due_date: string }>,
+  total: number,
+  invoiceDate: string
+): PaymentInstallment[] {
+  if (total <= 0) return [];
+  let assigned = 0;
+  return payments.map((payment, index) => {
+    const isLast = index === payments.length - 1;
+    const percentage = isLast ? round2(100 - assigned) : round2(payment.value / total * 100);
+    assigned += percentage;
+    return { days: daysBetween(invoiceDate, payment.due_date), percentage };
+  });
+}
+
+/** Diferencia entre el total de la factura y lo distribuido en pagos (positiva si falta) */
+export function paymentsDifference(payments: Pick<SiigoPayment, 'value'>[], total: number): number {
+  const paid = payments.reduce((sum, payment) => sum + (Number(payment.value) || 0), 0);
+  return round2(total - paid);
+}
+
+export function paymentsMatchTotal(payments: Pick<SiigoPayment, 'value'>[], total: number): boolean {
+  return Math.abs(paymentsDifference(payments, total)) <= PAYMENTS_TOLERANCE;
+}
+
+/** Los porcentajes de un plazo deben sumar 100 */
+export function isValidInstallmentPlan(installments: PaymentInstallment[]): boolean {
+  const percentage = installments.reduce((sum, installment) => sum + installment.percentage, 0);
+  return installments.length > 0
+    && installments.every(installment => installment.days >= 0 && installment.percentage > 0)
+    && Math.abs(percentage - 100) < 0.01;
+}
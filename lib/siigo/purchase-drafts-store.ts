@@ -0,0 +1,107 @@
+import { sql } from '@/lib/db';
+import { getCurrentCompanyId } from './companies';
+import type { PurchaseDraft, PurchaseDraftListItem, PurchaseDraftSummary } from './purchase-drafts';
+
+export interface PurchaseDraftInput {
+  summary: PurchaseDraftSummary;
+  state: Record<string, unknown>;
+}
+
+interface PurchaseDraftRow {
+  id: string;
+  provider_name: string | null;
+  provider_invoice: string | null;
+  items_count: number;
+  total: string | number;
+  currency_code: string | null;
+  state?: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+function toListItem(row: PurchaseDraftRow): PurchaseDraftListItem {
+  return {
+    id: row.id,
+    summary: {
+      providerName: row.provider_name || '',
+      providerInvoice: row.provider_invoice || '',
+      itemsCount: Number(row.items_count) || 0,
+      total: Number(row.total) || 0,
+      currency: row.currency_code || 'COP'
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Borradores del usuario, los modificados más recientemente primero
+ */
+export async function listPurchaseDrafts(userId: number, companyId = getCurrentCompanyId()): Promise<PurchaseDraftListItem[]> {
+  const rows = await sql`
+    SELECT id, provider_name, provider_invoice, items_count, total, currency_code, created_at, updated_at
+    FROM purchase_drafts
+    WHERE user_id = ${userId} AND company_id = ${companyId}
+    ORDER BY updated_at DESC
+  `;
+  return (rows as PurchaseDraftRow[]).map(toListItem);
+}
+
+export async function getPurchaseDraft(
+  userId: number,
+  id: string,
+  companyId = getCurrentCompanyId()
+): Promise<PurchaseDraft | null> {
+  const rows = await sql`
+    SELECT * FROM purchase_drafts WHERE user_id = ${userId} AND company_id = ${companyId} AND id = ${id}
+  `;
+  const row = rows[0] as PurchaseDraftRow | undefined;
+  return row ? { ...toListItem(row), state: row.state || {} } : null;
+}
+
+export async function createPurchaseDraft(
+  userId: number,
+  { summary, state }: PurchaseDraftInput,
+  companyId = getCurrentCompanyId()
+): Promise<PurchaseDraftListItem> {
+  const rows = await sql`
+    INSERT INTO purchase_drafts (user_id, company_id, provider_name, provider_invoice, items_count, total, currency_code, state)
+    VALUES (
+      ${userId}, ${companyId}, ${summary.providerName}, ${summary.providerInvoice}, ${summary.itemsCount},
+      ${summary.total}, ${summary.currency}, ${JSON.stringify(state)}
+    )
+    RETURNING id, provider_name, provider_invoice, items_count, total, currency_code, created_at, updated_at
+  `;
+  return toListItem(rows[0] as PurchaseDraftRow);
+}
+
+/**
+ * Reemplaza el estado del borrador; devuelve null si no existe o es de otro usuario o empresa
+ */
+export async function updatePurchaseDraft(
+  userId: number,
+  id: string,
+  { summary, state }: PurchaseDraftInput,
+  companyId = getCurrentCompanyId()
+): Promise<PurchaseDraftListItem | null> {
+  const rows = await sql`
+    UPDATE purchase_drafts SET
+      provider_name = ${summary.providerName},
+      provider_invoice = ${summary.providerInvoice},
+      items_count = ${summary.itemsCount},
+      total = ${summary.total},
+      currency_code = ${summary.currency},
+      state = ${JSON.stringify(state)},
+      updated_at = NOW()
+    WHERE user_id = ${userId} AND company_id = ${companyId} AND id = ${id}
+    RETURNING id, provider_name, provider_invoice, items_count, total, currency_code, created_at, updated_at
+  `;
+  return rows.length > 0 ? toListItem(rows[0] as PurchaseDraftRow) : null;
+}
+
+export async function deletePurchaseDraft(userId: number, id: string, companyId = getCurrentCompanyId()): Promise<boolean> {
+  const rows = await sql`
+    DELETE FROM purchase_drafts WHERE user_id = ${userId} AND company_id = ${companyId} AND id = ${id} RETURNING id
+  `;
+  return rows.length > 0;
+}
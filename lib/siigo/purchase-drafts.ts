@@ -0,0 +1,33 @@
+// Datos del borrador que se muestran en la lista sin abrir el formulario completo
+export interface PurchaseDraftSummary {
+  providerName: string;
+  providerInvoice: string;
+  itemsCount: number;
+  total: number;
+  currency: string;
+}
+
+export interface PurchaseDraftListItem {
+  id: string;
+  summary: PurchaseDraftSummary;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PurchaseDraft extends PurchaseDraftListItem {
+  /** Estado del formulario de facturas (InvoiceState) tal como se guardó */
+  state: Record<string, unknown>;
+}
+
+// Cada cuánto se guarda el formulario después del último cambio
+export const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+/** Un formulario sin proveedor, factura ni ítems no se guarda como borrador */
+export function isDraftWorthSaving(summary: PurchaseDraftSummary): boolean {
+  return !!summary.providerName.trim() || !!summary.providerInvoice.trim() || summary.itemsCount > 0;
+}
+
+export function draftTitle(summary: PurchaseDraftSummary): string {
+  const parts = [summary.providerName.trim(), summary.providerInvoice.trim()].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Borrador sin proveedor';
+}
@@ -1,165 +1,132 @@
-// Define the expected response type for the API call
-interface SiigoApiResponse {
-  id: string;
-  number: string;
-  date?: string;
-  status?: string;
-  [key: string]: string | number | boolean | object | null | undefined;
-}
-
+import type {
+  SiigoCustomer,
+  SiigoErrorDetail,
+  SiigoErrorResponse,
+  SiigoPaymentReceiptRequest,
+  SiigoPaymentReceiptResponse,
+  SiigoPurchaseRequest,
+  SiigoPurchaseResponse,
+  SupportDocumentSupplier
+} from '@/types/siigo';
+import { SiigoApiError } from './api';
+import { SiigoClient, siigoClient } from './client';
+import { buildSupportDocumentCustomer } from './support-documents';
 
-interface ImpuestoSiigo {
-  id: number;
+/**
+ * Errores de Siigo ya traducidos al contrato que espera el formulario de facturas
+ * (`details.Message` y `missingFields`).
+ */
+export interface SiigoPurchaseErrorBody {
+  error: string;
+  missingFields: string[];
+  details: {
+    Message: string;
+    Errors: SiigoErrorDetail[];
+  };
 }
 
-interface ItemSiigo {
-  code: string;
-  description: string;
-  quantity: number;
-  price: number;
-  tax: ImpuestoSiigo[];
-  type: string;
+function isSiigoErrorResponse(data: unknown): data is SiigoErrorResponse {
+  return !!data
+    && typeof data === 'object'
+    && Array.isArray((data as SiigoErrorResponse).Errors);
 }
 
-interface PagoSiigo {
-  id: number;
-  value: number;
-  due_date: string;
-}
+/**
+ * Convierte la respuesta de error de Siigo en el cuerpo que devuelve /api/siigo/compras
+ */
+export function mapSiigoPurchaseErrors(data: unknown, fallbackMessage: string): SiigoPurchaseErrorBody {
+  const errors = isSiigoErrorResponse(data) ? data.Errors : [];
+  const message = errors.length > 0
+    ? errors.map((e) => e.Message).filter(Boolean).join(' | ')
+    : fallbackMessage;
+  const missingFields = Array.from(new Set(errors.flatMap((e) => e.Params || [])));
 
-interface DatosCompraSiigo {
-  document: {
-    id: number;
-  };
-  date: string;
-  supplier: {
-    identification: string;
-  };
-  cost_center: number;
-  invoice_prefix: string;
-  invoice_number: string;
-  provider_invoice: string;
-  currency: {
-    code: string;
+  return {
+    error: message,
+    missingFields,
+    details: {
+      Message: message,
+      Errors: errors
+    }
   };
-  exchange_rate: number;
-  observations?: string;
-  items: ItemSiigo[];
-  payments: PagoSiigo[];
-  discount_type: string;
-  supplier_by_item: boolean;
-  tax_included: boolean;
 }
 
+/**
+ * Crea una factura de compra en Siigo (POST /v1/purchases)
+ * @throws SiigoApiError con el status HTTP como código y el cuerpo de Siigo en `details`
+ */
 export async function crearCompraSiigo(
-  token: string,
-  partnerId: string,
-  datosCompra: {
-    document_id: number;
-    fecha: string;
-    proveedor_nit: string;
-    centro_costo_id: number;
-    prefijo_factura_proveedor: string;
-    numero_factura_proveedor: string;
-    codigo_moneda: string;
-    tasa_cambio: number;
-    observaciones?: string;
-    items: Array<{
-      tipo: string;
-      codigo: string;
-      descripcion: string;
-      cantidad: number;
-      precio: number;
-      impuestos_id: number[];
-    }>;
-    pagos: Array<{
-      id: number;
-      valor: number;
-      fecha_vencimiento: string;
-    }>;
+  compra: SiigoPurchaseRequest,
+  client: SiigoClient = siigoClient
+): Promise<SiigoPurchaseResponse> {
+  try {
+    return await client.post<SiigoPurchaseResponse>('purchases', compra);
+  } catch (error) {
+    if (error instanceof SiigoApiError) {
+      console.error('[SIIGO-COMPRAS] Error en la respuesta de Siigo:', {
+        status: error.code,
+        error: error.details
+      });
+    }
+    throw error;
   }
-): Promise<SiigoApiResponse> {
-  const datosParaEnviar: DatosCompraSiigo = {
-    document: {
-      id: datosCompra.document_id,
-    },
-    date: datosCompra.fecha,
-    supplier: {
-      identification: datosCompra.proveedor_nit,
-    },
-    cost_center: datosCompra.centro_costo_id,
-    invoice_prefix: datosCompra.prefijo_factura_proveedor,
-    invoice_number: datosCompra.numero_factura_proveedor,
-      provider_invoice: datosCompra.numero_factura_proveedor,
-    currency: {
-      code: datosCompra.codigo_moneda,
-    },
-    exchange_rate: datosCompra.tasa_cambio,
-    observations: datosCompra.observaciones,
-    items: datosCompra.items.map((item) => ({
-      code: item.codigo,
-      description: item.descripcion,
-      quantity: item.cantidad,
-      price: item.precio,
-      tax: item.impuestos_id.map((impuestoId) => ({ id: impuestoId })),
-      type:
-        item.tipo === "product" ? "Product" :
-        item.tipo === "fixed_asset" ? "FixedAsset" :
-        item.tipo === "account" ? "Account" : item.tipo,
-    })),
-    payments: datosCompra.pagos.map((pago) => ({
-      id: pago.id,
-      value: pago.valor,
-      due_date: pago.fecha_vencimiento,
-    })),
-    discount_type: "Value",
-    supplier_by_item: false,
-    tax_included: false,
-  };
+}
 
-  const apiUrl = "https://api.siigo.com/v1/purchases";
-  
-  try {
-    // Log the payload to send to the API
-    console.log("Enviando datos a Siigo:", JSON.stringify(datosParaEnviar, null, 2));
+/**
+ * Busca el proveedor en los terceros de Siigo y lo crea si no existe
+ */
+export async function ensureSupportDocumentSupplier(
+  supplier: SupportDocumentSupplier,
+  client: SiigoClient = siigoClient
+): Promise<{ customer: SiigoCustomer; created: boolean }> {
+  const identification = supplier.identification.trim();
+  const existing = await client.get<{ results?: SiigoCustomer[] }>('customers', { identification });
+  const found = existing.results?.find(customer => customer.identification === identification);
+  if (found) {
+    return { customer: found, created: false };
+  }
 
-    // Send the request to the API
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        'Partner-Id': partnerId,
-      },
-      body: JSON.stringify(datosParaEnviar as unknown as Record<string, unknown>)
-    });
+  const customer = await client.post<SiigoCustomer>('customers', buildSupportDocumentCustomer(supplier));
+  return { customer, created: true };
+}
 
-    // Get the response data
-    const responseData = await response.json();
+/**
+ * Crea un documento soporte (compra con tipo de documento DS) asegurando antes
+ * que el proveedor exista en Siigo con sus datos DIAN.
+ * @throws SiigoApiError con el status HTTP como código y el cuerpo de Siigo en `details`
+ */
+export async function crearDocumentoSoporteSiigo(
+  compra: SiigoPurchaseRequest,
+  supplier: SupportDocumentSupplier,
+  client: SiigoClient = siigoClient
+): Promise<SiigoPurchaseResponse> {
+  await ensureSupportDocumentSupplier(supplier, client);
 
-    // Check if the response was successful
-    if (!response.ok) {
-      // Get the error data
-      const errorData: { message?: string; [key: string]: unknown } = await response.json().catch(() => ({}));
+  // El documento soporte no lleva factura del proveedor
+  const { provider_invoice, ...documento } = compra;
+  return crearCompraSiigo({
+    ...documento,
+    supplier: { identification: supplier.identification.trim(), branch_office: compra.supplier.branch_office }
+  }, client);
+}
 
-      // Log the error
-      console.error('Error en la respuesta de Siigo:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
+/**
+ * Crea un recibo de pago a proveedor (POST /v1/payment-receipts)
+ * @throws SiigoApiError con el status HTTP como código y el cuerpo de Siigo en `details`
+ */
+export async function crearReciboPagoSiigo(
+  recibo: SiigoPaymentReceiptRequest,
+  client: SiigoClient = siigoClient
+): Promise<SiigoPaymentReceiptResponse> {
+  try {
+    return await client.post<SiigoPaymentReceiptResponse>('payment-receipts', recibo);
+  } catch (error) {
+    if (error instanceof SiigoApiError) {
+      console.error('[SIIGO-RECIBOS] Error en la respuesta de Siigo:', {
+        status: error.code,
+        error: error.details
       });
-
-      // Throw an error
-      throw new Error(`Error al crear la compra: ${errorData.message || response.statusText}`);
     }
-
-    // Return the response data
-    return responseData;
-  } catch (error) {
-    // Log the error
-    console.error("Error en la petición a la API de Siigo:", error);
-
-    // Throw the error
     throw error;
   }
 }
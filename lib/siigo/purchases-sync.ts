@@ -0,0 +1,550 @@
+import { sql } from '@/lib/db';
+import type { SiigoPaymentReceiptResponse, SiigoPurchaseResponse } from '@/types/siigo';
+import { SiigoClient, siigoClient } from './client';
+import { getCurrentCompanyId } from './companies';
+import type { CufeCheck } from './cufe';
+import { copEquivalent } from './exchange-rates';
+import { DuplicatePurchase, DuplicateSearchResult, findDuplicates, mergeDuplicates, PurchaseIdentity } from './duplicates';
+import { addDays } from './payments';
+
+export const PURCHASES_RESOURCE = 'purchases';
+
+// Si una sincronización no reporta progreso en este tiempo se asume que murió y puede retomarse
+const SYNC_LEASE_MINUTES = 15;
+
+/**
+ * Filtro con el que se recorre Siigo en cada pasada. Con marca de agua se hacen dos
+ * pasadas: compras creadas y compras modificadas desde entonces (Siigo deja
+ * `metadata.last_updated` en null hasta la primera modificación).
+ */
+export type PurchaseSyncFilter = 'all' | 'created_start' | 'updated_start';
+
+export type SiigoSyncStatus = 'idle' | 'running' | 'completed' | 'failed';
+
+export interface SiigoSyncState {
+  company_id: string;
+  resource: string;
+  watermark: string | null;
+  status: SiigoSyncStatus;
+  run_filter: PurchaseSyncFilter | null;
+  run_since: string | null;
+  run_max_updated: string | null;
+  last_page: number;
+  synced_count: number;
+  last_error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string | null;
+}
+
+export interface PurchaseSyncPass {
+  filter: PurchaseSyncFilter;
+  since: string | null;
+  startPage: number;
+}
+
+export interface PurchaseSyncOptions {
+  companyId?: string;
+  client?: SiigoClient;
+  pageSize?: number;
+  /** Ignora la marca de agua y cualquier progreso pendiente */
+  full?: boolean;
+}
+
+export interface PurchaseSyncResult {
+  companyId: string;
+  resumed: boolean;
+  pages: number;
+  upserted: number;
+  watermark: string | null;
+}
+
+export class SiigoSyncInProgressError extends Error {
+  /** @param label Lo que se sincroniza, para el mensaje ("compras", "proveedores") */
+  constructor(companyId: string, label = 'compras') {
+    super(`Ya hay una sincronización de ${label} en curso para ${companyId}`);
+    this.name = 'SiigoSyncInProgressError';
+  }
+}
+
+/** Fecha de última modificación de una compra; las nunca modificadas usan la de creación */
+export function purchaseUpdatedAt(purchase: Pick<SiigoPurchaseResponse, 'metadata'>): string | null {
+  return purchase.metadata?.last_updated || purchase.metadata?.created || null;
+}
+
+export function latestTimestamp(current: string | null, candidates: Array<string | null>): string | null {
+  return candidates.reduce<string | null>((latest, value) => {
+    if (!value) return latest;
+    if (!latest) return value;
+    return new Date(value).getTime() > new Date(latest).getTime() ? value : latest;
+  }, current);
+}
+
+/** Formato de fecha y hora que acepta Siigo en los filtros created_start / updated_start */
+export function toSiigoDateTime(value: string): string {
+  return new Date(value).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Decide qué pasadas ejecutar: retoma la que quedó a medias si la hay,
+ * si no parte de la marca de agua, o descarga todo en la primera ejecución.
+ */
+export function planPurchaseSync(state: SiigoSyncState | null, full = false): { resumed: boolean; passes: PurchaseSyncPass[] } {
+  const resumed = !full && !!state?.run_filter;
+  const since = resumed ? state!.run_since : (full ? null : state?.watermark ?? null);
+  const filters: PurchaseSyncFilter[] = since ? ['created_start', 'updated_start'] : ['all'];
+
+  const firstIndex = resumed ? Math.max(filters.indexOf(state!.run_filter!), 0) : 0;
+  const passes = filters.slice(firstIndex).map((filter, index) => ({
+    filter,
+    since,
+    startPage: resumed && index === 0 ? state!.last_page + 1 : 1
+  }));
+
+  return { resumed, passes };
+}
+
+function discountValue(discount: SiigoPurchaseResponse['items'][number]['discount'] | number | undefined): number {
+  if (typeof discount === 'number') return discount;
+  return discount?.value ?? 0;
+}
+
+export async function getPurchaseSyncState(companyId = getCurrentCompanyId()): Promise<SiigoSyncState | null> {
+  const rows = await sql`
+    SELECT * FROM siigo_sync_state
+    WHERE company_id = ${companyId} AND resource = ${PURCHASES_RESOURCE}
+  `;
+  return (rows[0] as SiigoSyncState) || null;
+}
+
+/**
+ * Marca la sincronización de un recurso como en curso. Falla si otra ejecución
+ * tiene el estado tomado y ha reportado progreso recientemente.
+ */
+export async function acquireSyncLease(
+  companyId: string,
+  resource = PURCHASES_RESOURCE,
+  label = 'compras'
+): Promise<SiigoSyncState> {
+  const rows = await sql`
+    INSERT INTO siigo_sync_state (company_id, resource, status, started_at, updated_at)
+    VALUES (${companyId}, ${resource}, 'running', NOW(), NOW())
+    ON CONFLICT (company_id, resource) DO UPDATE SET
+      status = 'running',
+      started_at = NOW(),
+      updated_at = NOW(),
+      last_error = NULL
+    WHERE siigo_sync_state.status <> 'running'
+       OR siigo_sync_state.updated_at < NOW() - (${SYNC_LEASE_MINUTES} * INTERVAL '1 minute')
+    RETURNING *
+  `;
+  if (rows.length === 0) {
+    throw new SiigoSyncInProgressError(companyId, label);
+  }
+  return rows[0] as SiigoSyncState;
+}
+
+/**
+ * Inserta o actualiza una página de compras con sus ítems, impuestos y pagos
+ * en una sola transacción, de modo que una compra nunca queda a medias.
+ */
+export async function savePurchases(companyId: string, purchases: SiigoPurchaseResponse[]): Promise<void> {
+  if (purchases.length === 0) return;
+
+  await sql.transaction((txn) => purchases.flatMap((purchase) => {
+    const items = purchase.items || [];
+    const queries = [
+      txn`
+        INSERT INTO siigo_purchases (
+          id, company_id, document_id, number, name, date,
+          supplier_identification, supplier_branch_office, cost_center,
+          provider_invoice_prefix, provider_invoice_number, currency_code, exchange_rate,
+          total, balance, total_cop, balance_cop, observations, siigo_created_at, siigo_updated_at, raw, synced_at
+        ) VALUES (
+          ${purchase.id}, ${companyId}, ${purchase.document?.id ?? null}, ${purchase.number ?? null},
+          ${purchase.name ?? null}, ${purchase.date || null},
+          ${purchase.supplier?.identification ?? null}, ${purchase.supplier?.branch_office ?? 0},
+          ${purchase.cost_center ?? null},
+          ${purchase.provider_invoice?.prefix ?? null}, ${purchase.provider_invoice?.number ?? null},
+          ${purchase.currency?.code ?? null}, ${purchase.currency?.exchange_rate ?? null},
+          ${purchase.total ?? 0}, ${purchase.balance ?? 0},
+          ${copEquivalent(purchase.total ?? 0, purchase.currency)}, ${copEquivalent(purchase.balance ?? 0, purchase.currency)},
+          ${purchase.observations ?? null},
+          ${purchase.metadata?.created ?? null}, ${purchase.metadata?.last_updated ?? null},
+          ${JSON.stringify(purchase)}, NOW()
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          company_id = EXCLUDED.company_id,
+          document_id = EXCLUDED.document_id,
+          number = EXCLUDED.number,
+          name = EXCLUDED.name,
+          date = EXCLUDED.date,
+          supplier_identification = EXCLUDED.supplier_identification,
+          supplier_branch_office = EXCLUDED.supplier_branch_office,
+          cost_center = EXCLUDED.cost_center,
+          provider_invoice_prefix = EXCLUDED.provider_invoice_prefix,
+          provider_invoice_number = EXCLUDED.provider_invoice_number,
+          currency_code = EXCLUDED.currency_code,
+          exchange_rate = EXCLUDED.exchange_rate,
+          total = EXCLUDED.total,
+          balance = EXCLUDED.balance,
+          total_cop = EXCLUDED.total_cop,
+          balance_cop = EXCLUDED.balance_cop,
+          observations = EXCLUDED.observations,
+          siigo_created_at = EXCLUDED.siigo_created_at,
+          siigo_updated_at = EXCLUDED.siigo_updated_at,
+          raw = EXCLUDED.raw,
+          synced_at = NOW()
+      `,
+      txn`DELETE FROM siigo_purchase_items WHERE purchase_id = ${purchase.id}`,
+      txn`DELETE FROM siigo_purchase_taxes WHERE purchase_id = ${purchase.id}`,
+      txn`DELETE FROM siigo_purchase_payments WHERE purchase_id = ${purchase.id}`
+    ];
+
+    items.forEach((item, position) => {
+      queries.push(txn`
+        INSERT INTO siigo_purchase_items (purchase_id, position, type, code, description, quantity, price, discount, total)
+        VALUES (
+          ${purchase.id}, ${position}, ${item.type ?? null}, ${item.code ?? null}, ${item.description ?? null},
+          ${item.quantity ?? 0}, ${item.price ?? 0}, ${discountValue(item.discount)}, ${item.total ?? 0}
+        )
+      `);
+      (item.taxes || []).forEach((tax) => {
+        queries.push(txn`
+          INSERT INTO siigo_purchase_taxes (purchase_id, item_position, tax_id, name, type, percentage, value)
+          VALUES (${purchase.id}, ${position}, ${tax.id ?? null}, ${tax.name ?? null}, ${tax.type ?? null}, ${tax.percentage ?? null}, ${tax.value ?? 0})
+        `);
+      });
+    });
+
+    (purchase.payments || []).forEach((payment) => {
+      queries.push(txn`
+        INSERT INTO siigo_purchase_payments (purchase_id, payment_id, name, value, due_date)
+        VALUES (${purchase.id}, ${payment.id ?? null}, ${payment.name ?? null}, ${payment.value ?? 0}, ${payment.due_date || null})
+      `);
+    });
+
+    return queries;
+  }));
+}
+
+/**
+ * Sincroniza las compras de Siigo con el espejo local (siigo_purchases).
+ *
+ * Es incremental sobre `metadata.last_updated`: solo trae lo creado o modificado
+ * desde la marca de agua de la empresa. El progreso se guarda tras cada página,
+ * así que si falla, la siguiente ejecución continúa desde la página pendiente.
+ * La marca de agua solo avanza cuando todas las pasadas terminan.
+ */
+export async function syncSiigoPurchases(options: PurchaseSyncOptions = {}): Promise<PurchaseSyncResult> {
+  const companyId = options.companyId || getCurrentCompanyId();
+  const client = options.client || siigoClient;
+  const pageSize = options.pageSize ?? 100;
+
+  const state = await acquireSyncLease(companyId);
+  const { resumed, passes } = planPurchaseSync(state, options.full);
+  let maxUpdated = resumed ? state.run_max_updated : null;
+  let pages = 0;
+  let upserted = 0;
+
+  if (!resumed) {
+    await sql`
+      UPDATE siigo_sync_state SET synced_count = 0, run_max_updated = NULL
+      WHERE company_id = ${companyId} AND resource = ${PURCHASES_RESOURCE}
+    `;
+  }
+
+  console.log(`[SIIGO-SYNC] ${resumed ? 'Retomando' : 'Iniciando'} sincronización de compras (${companyId})`, passes);
+
+  try {
+    for (const pass of passes) {
+      const query = pass.filter === 'all' || !pass.since
+        ? {}
+        : { [pass.filter]: toSiigoDateTime(pass.since) };
+
+      await client.forEachPage<SiigoPurchaseResponse>('purchases', query, async (results, page) => {
+        await savePurchases(companyId, results);
+        maxUpdated = latestTimestamp(maxUpdated, results.map(purchaseUpdatedAt));
+        pages++;
+        upserted += results.length;
+
+        await sql`
+          UPDATE siigo_sync_state SET
+            run_filter = ${pass.filter},
+            run_since = ${pass.since},
+            run_max_updated = ${maxUpdated},
+            last_page = ${page},
+            synced_count = synced_count + ${results.length},
+            updated_at = NOW()
+          WHERE company_id = ${companyId} AND resource = ${PURCHASES_RESOURCE}
+        `;
+      }, { pageSize, startPage: pass.startPage });
+    }
+
+    const watermark = latestTimestamp(state.watermark, [maxUpdated]);
+    await sql`
+      UPDATE siigo_sync_state SET
+        watermark = ${watermark},
+        status = 'completed',
+        run_filter = NULL,
+        run_since = NULL,
+        run_max_updated = NULL,
+        last_page = 0,
+        finished_at = NOW(),
+        updated_at = NOW()
+      WHERE company_id = ${companyId} AND resource = ${PURCHASES_RESOURCE}
+    `;
+
+    console.log(`[SIIGO-SYNC] ✅ ${upserted} compras sincronizadas en ${pages} páginas (${companyId})`);
+    return { companyId, resumed, pages, upserted, watermark };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido';
+    console.error(`[SIIGO-SYNC] ❌ Sincronización interrumpida (${companyId}):`, message);
+    await sql`
+      UPDATE siigo_sync_state SET status = 'failed', last_error = ${message}, updated_at = NOW()
+      WHERE company_id = ${companyId} AND resource = ${PURCHASES_RESOURCE}
+    `;
+    throw error;
+  }
+}
+
+export interface LocalPurchaseFilters {
+  companyId?: string;
+  startDate?: string;
+  endDate?: string;
+  supplierIdentification?: string;
+}
+
+/**
+ * Consulta las compras del espejo local, con la respuesta original de Siigo
+ */
+export async function getLocalPurchases(filters: LocalPurchaseFilters = {}): Promise<SiigoPurchaseResponse[]> {
+  const companyId = filters.companyId || getCurrentCompanyId();
+  const rows = await sql`
+    SELECT raw FROM siigo_purchases
+    WHERE company_id = ${companyId}
+      AND (${filters.startDate ?? null}::date IS NULL OR date >= ${filters.startDate ?? null}::date)
+      AND (${filters.endDate ?? null}::date IS NULL OR date <= ${filters.endDate ?? null}::date)
+      AND (${filters.supplierIdentification ?? null}::text IS NULL OR supplier_identification = ${filters.supplierIdentification ?? null})
+    ORDER BY date DESC, number DESC
+  `;
+  return rows.map((row) => row.raw as SiigoPurchaseResponse);
+}
+
+export async function getLocalPurchase(id: string, companyId: string = getCurrentCompanyId()): Promise<SiigoPurchaseResponse | null> {
+  const rows = await sql`
+    SELECT raw FROM siigo_purchases WHERE company_id = ${companyId} AND id = ${id}
+  `;
+  return rows.length > 0 ? rows[0].raw as SiigoPurchaseResponse : null;
+}
+
+/**
+ * Guarda en el espejo local una nota débito aceptada por Siigo y suma su total
+ * al saldo de la compra referenciada, sin esperar a la próxima sincronización.
+ * Devuelve el nuevo saldo de la compra.
+ */
+export async function recordDebitNote(companyId: string, debitNote: SiigoPurchaseResponse): Promise<number | null> {
+  await savePurchases(companyId, [debitNote]);
+  if (!debitNote.purchase) return null;
+
+  const rows = await sql`
+    UPDATE siigo_purchases SET
+      balance = balance + ${debitNote.total},
+      balance_cop = ROUND((balance + ${debitNote.total}) * CASE WHEN currency_code IS NULL OR currency_code = 'COP' THEN 1 ELSE exchange_rate END, 2),
+      raw = jsonb_set(raw, '{balance}', to_jsonb(balance + ${debitNote.total})),
+      synced_at = NOW()
+    WHERE company_id = ${companyId} AND id = ${debitNote.purchase}
+    RETURNING balance
+  `;
+  return rows.length > 0 ? Number(rows[0].balance) : null;
+}
+
+/**
+ * Compras del proveedor con saldo pendiente, las más antiguas primero
+ */
+export async function getOpenPurchases(
+  supplierIdentification: string,
+  companyId: string = getCurrentCompanyId()
+): Promise<SiigoPurchaseResponse[]> {
+  const rows = await sql`
+    SELECT raw FROM siigo_purchases
+    WHERE company_id = ${companyId}
+      AND supplier_identification = ${supplierIdentification}
+      AND balance > 0
+    ORDER BY date, number
+  `;
+  return rows.map((row) => row.raw as SiigoPurchaseResponse);
+}
+
+export interface PaymentReceiptRecord {
+  receipt: SiigoPaymentReceiptResponse;
+  allocations: Array<{ purchaseId: string; value: number }>;
+  method: string;
+  createdBy?: string;
+}
+
+/**
+ * Guarda un recibo de pago aceptado por Siigo y descuenta los abonos del saldo
+ * de cada compra en el espejo local. Devuelve los saldos resultantes.
+ */
+export async function recordPaymentReceipt(
+  companyId: string,
+  { receipt, allocations, method, createdBy }: PaymentReceiptRecord
+): Promise<Record<string, number>> {
+  const results = await sql.transaction((txn) => [
+    txn`
+      INSERT INTO siigo_payment_receipts (
+        id, company_id, document_id, number, name, date, supplier_identification,
+        payment_type_id, payment_method, total, observations, created_by, raw
+      ) VALUES (
+        ${receipt.id}, ${companyId}, ${receipt.document?.id ?? null}, ${receipt.number ?? null}, ${receipt.name ?? null},
+        ${receipt.date}, ${receipt.supplier.identification}, ${receipt.payment.id}, ${method},
+        ${receipt.payment.value}, ${receipt.observations ?? null}, ${createdBy ?? null}, ${JSON.stringify(receipt)}
+      )
+    `,
+    ...allocations.flatMap((allocation) => [
+      txn`
+        INSERT INTO siigo_payment_receipt_items (receipt_id, purchase_id, value)
+        VALUES (${receipt.id}, ${allocation.purchaseId}, ${allocation.value})
+      `,
+      txn`
+        UPDATE siigo_purchases SET
+          balance = GREATEST(balance - ${allocation.value}, 0),
+          balance_cop = ROUND(GREATEST(balance - ${allocation.value}, 0) * CASE WHEN currency_code IS NULL OR currency_code = 'COP' THEN 1 ELSE exchange_rate END, 2),
+          raw = jsonb_set(raw, '{balance}', to_jsonb(GREATEST(balance - ${allocation.value}, 0))),
+          synced_at = NOW()
+        WHERE company_id = ${companyId} AND id = ${allocation.purchaseId}
+        RETURNING id, balance
+      `
+    ])
+  ]);
+
+  const balances: Record<string, number> = {};
+  results.slice(1).forEach((rows) => {
+    (rows as Array<{ id: string; balance: string | number }>).forEach((row) => {
+      balances[row.id] = Number(row.balance);
+    });
+  });
+  return balances;
+}
+
+export interface DuplicateSearchOptions {
+  companyId?: string;
+  client?: SiigoClient;
+}
+
+// Ventana alrededor de la fecha del documento y tope de páginas al buscar duplicados en Siigo
+const DUPLICATE_LOOKUP_WINDOW_DAYS = 31;
+const DUPLICATE_LOOKUP_MAX_PAGES = 5;
+
+/**
+ * Busca la factura del proveedor en el espejo local y en Siigo. En Siigo solo se
+ * consultan las compras creadas después de la última sincronización (las demás ya
+ * están en el espejo) con fecha cercana a la del documento, y como mucho
+ * DUPLICATE_LOOKUP_MAX_PAGES páginas. Si se llega al tope o Siigo no responde se
+ * informa lo encontrado marcado como incompleto.
+ */
+export async function findDuplicatePurchases(
+  identity: PurchaseIdentity,
+  options: DuplicateSearchOptions = {}
+): Promise<DuplicateSearchResult> {
+  const companyId = options.companyId || getCurrentCompanyId();
+  const client = options.client || siigoClient;
+  const cufe = identity.cufe?.trim() || null;
+
+  const rows = await sql`
+    SELECT raw FROM siigo_purchases
+    WHERE company_id = ${companyId}
+      AND (
+        supplier_identification = ${identity.supplierIdentification}
+        OR (${cufe}::text IS NOT NULL AND LOWER(raw->'provider_invoice'->>'cufe') = LOWER(${cufe}))
+      )
+  `;
+  const local = findDuplicates(rows.map((row) => row.raw as SiigoPurchaseResponse), identity, 'local');
+
+  let remote: DuplicatePurchase[] = [];
+  let incomplete = false;
+  try {
+    const state = await getPurchaseSyncState(companyId);
+    const query = {
+      ...(state?.watermark && { created_start: toSiigoDateTime(state.watermark) }),
+      ...(identity.date && {
+        date_start: addDays(identity.date, -DUPLICATE_LOOKUP_WINDOW_DAYS),
+        date_end: addDays(identity.date, DUPLICATE_LOOKUP_WINDOW_DAYS)
+      })
+    };
+    if (Object.keys(query).length > 0) {
+      const lastPage = await client.forEachPage<SiigoPurchaseResponse>('purchases', query, (results) => {
+        remote.push(...findDuplicates(results, identity, 'siigo'));
+      }, { maxPages: DUPLICATE_LOOKUP_MAX_PAGES });
+      if (lastPage >= DUPLICATE_LOOKUP_MAX_PAGES) {
+        incomplete = true;
+        console.warn(
+          `[SIIGO-COMPRAS] La búsqueda de duplicados en Siigo se detuvo en ${lastPage} páginas; ` +
+          'sincronice las compras para revisar el resto'
+        );
+      }
+    } else {
+      // Sin sincronizaciones ni fecha habría que recorrer todas las compras de Siigo
+      incomplete = true;
+    }
+  } catch (error) {
+    incomplete = true;
+    console.warn('[SIIGO-COMPRAS] No se pudo buscar duplicados en Siigo, se usa el espejo local:', (error as Error).message);
+  }
+
+  return { duplicates: mergeDuplicates(local, remote), incomplete };
+}
+
+export interface DuplicateOverrideRecord {
+  purchase: SiigoPurchaseResponse;
+  duplicates: DuplicatePurchase[];
+  reason: string;
+  createdBy?: string;
+}
+
+/**
+ * Deja constancia de una factura registrada a pesar de estar duplicada
+ */
+export async function recordDuplicateOverride(
+  companyId: string,
+  { purchase, duplicates, reason, createdBy }: DuplicateOverrideRecord
+): Promise<void> {
+  await sql`
+    INSERT INTO siigo_duplicate_overrides (
+      company_id, purchase_id, purchase_name, supplier_identification,
+      provider_invoice_prefix, provider_invoice_number, cufe, reason, duplicates, created_by
+    ) VALUES (
+      ${companyId}, ${purchase.id}, ${purchase.name ?? null}, ${purchase.supplier.identification},
+      ${purchase.provider_invoice?.prefix ?? null}, ${purchase.provider_invoice?.number ?? null},
+      ${purchase.provider_invoice?.cufe ?? null}, ${reason}, ${JSON.stringify(duplicates)}, ${createdBy ?? null}
+    )
+  `;
+}
+
+export interface CufeVerificationRecord {
+  purchase: SiigoPurchaseResponse;
+  /** CUFE enviado en la compra; Siigo no siempre lo devuelve en la respuesta */
+  cufe: string;
+  check: CufeCheck;
+  createdBy?: string;
+}
+
+/**
+ * Guarda el resultado de revisar el CUFE de una compra recién registrada
+ */
+export async function recordCufeVerification(
+  companyId: string,
+  { purchase, cufe, check, createdBy }: CufeVerificationRecord
+): Promise<void> {
+  await sql`
+    INSERT INTO siigo_cufe_verifications (
+      company_id, purchase_id, purchase_name, supplier_identification,
+      cufe, status, expected_cufe, message, created_by
+    ) VALUES (
+      ${companyId}, ${purchase.id}, ${purchase.name ?? null}, ${purchase.supplier.identification},
+      ${cufe}, ${check.status}, ${check.expected}, ${check.message}, ${createdBy ?? null}
+    )
+  `;
+}
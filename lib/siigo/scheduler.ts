@@ -0,0 +1,160 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Cuota de peticiones a Siigo de cada empresa, compartida por todo el proceso:
+// cada llamada de SiigoClient pide turno aquí antes de salir (token bucket)
+
+export type SiigoRequestPriority = 'interactive' | 'background';
+
+export interface SiigoSchedulerConfig {
+  /** Peticiones por minuto que admite la cuenta de Siigo */
+  requestsPerMinute: number;
+  /** Peticiones que pueden salir seguidas cuando el balde está lleno */
+  burst: number;
+}
+
+export interface SiigoThrottleEvent {
+  at: string;
+  endpoint: string;
+  delayMs: number;
+  /** true si la espera la indicó Siigo con Retry-After; si no, es el backoff del cliente */
+  retryAfter: boolean;
+}
+
+export interface SiigoSchedulerStats extends SiigoSchedulerConfig {
+  availableTokens: number;
+  queued: Record<SiigoRequestPriority, number>;
+  /** Fin de la pausa por el último 429; null si no hay pausa */
+  pausedUntil: string | null;
+  granted: Record<SiigoRequestPriority, number>;
+  throttled: number;
+  /** Últimos 429, el más reciente primero */
+  recentThrottles: SiigoThrottleEvent[];
+}
+
+export const SIIGO_THROTTLE_HISTORY = 50;
+
+export function getSiigoSchedulerConfigFromEnv(): SiigoSchedulerConfig {
+  return {
+    requestsPerMinute: Number(process.env.SIIGO_RATE_LIMIT_PER_MINUTE) || 100,
+    burst: Number(process.env.SIIGO_RATE_LIMIT_BURST) || 10
+  };
+}
+
+const priorityContext = new AsyncLocalStorage<SiigoRequestPriority>();
+
+/**
+ * Ejecuta `fn` con la prioridad indicada para todas las llamadas a Siigo que
+ * haga. Las sincronizaciones y el worker de la cola corren como 'background'
+ * para no hacer esperar a quien está usando un formulario.
+ */
+export function runWithSiigoPriority<T>(priority: SiigoRequestPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityContext.run(priority, fn);
+}
+
+export function currentSiigoPriority(): SiigoRequestPriority {
+  return priorityContext.getStore() ?? 'interactive';
+}
+
+export class SiigoScheduler {
+  private readonly config: SiigoSchedulerConfig;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly queues: Record<SiigoRequestPriority, Array<() => void>> = { interactive: [], background: [] };
+  private readonly granted: Record<SiigoRequestPriority, number> = { interactive: 0, background: 0 };
+  private throttled = 0;
+  private readonly throttles: SiigoThrottleEvent[] = [];
+
+  constructor(config: Partial<SiigoSchedulerConfig> = {}) {
+    this.config = { ...getSiigoSchedulerConfigFromEnv(), ...config };
+    this.tokens = this.config.burst;
+  }
+
+  /**
+   * Espera el turno de una petición. Las interactivas pasan antes que todas las
+   * de fondo que estén esperando.
+   */
+  acquire(priority: SiigoRequestPriority = currentSiigoPriority()): Promise<void> {
+    return new Promise(resolve => {
+      this.queues[priority].push(resolve);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Detiene todas las peticiones de la empresa durante `delayMs`: la cuota de
+   * Siigo es de la cuenta, no de la llamada que recibió el 429.
+   */
+  throttle(delayMs: number, event: Pick<SiigoThrottleEvent, 'endpoint' | 'retryAfter'>): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+    // Al reanudar las peticiones salen al ritmo de la cuota, no todas juntas
+    this.tokens = 0;
+    this.refilledAt = this.pausedUntil;
+    this.throttled++;
+    this.throttles.unshift({ at: new Date().toISOString(), delayMs, ...event });
+    this.throttles.splice(SIIGO_THROTTLE_HISTORY);
+  }
+
+  stats(): SiigoSchedulerStats {
+    this.refill();
+    return {
+      ...this.config,
+      availableTokens: Math.floor(this.tokens),
+      queued: { interactive: this.queues.interactive.length, background: this.queues.background.length },
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      granted: { ...this.granted },
+      throttled: this.throttled,
+      recentThrottles: [...this.throttles]
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (now <= this.refilledAt) return;
+    this.tokens = Math.min(this.config.burst, this.tokens + (now - this.refilledAt) * this.config.requestsPerMinute / 60_000);
+    this.refilledAt = now;
+  }
+
+  private dispatch(): void {
+    if (this.timer) return;
+
+    while (this.queues.interactive.length > 0 || this.queues.background.length > 0) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wake(this.pausedUntil - now);
+        return;
+      }
+      this.refill();
+      if (this.tokens < 1) {
+        this.wake(Math.ceil((1 - this.tokens) * 60_000 / this.config.requestsPerMinute));
+        return;
+      }
+
+      this.tokens -= 1;
+      const priority: SiigoRequestPriority = this.queues.interactive.length > 0 ? 'interactive' : 'background';
+      this.granted[priority]++;
+      this.queues[priority].shift()!();
+    }
+  }
+
+  private wake(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.dispatch();
+    }, delayMs);
+  }
+}
+
+// Una instancia por empresa: cada cuenta de Siigo tiene su propia cuota, que
+// comparten todos los clientes y rutas del proceso
+const schedulers = new Map<string, SiigoScheduler>();
+
+export function getSiigoScheduler(companyId: string): SiigoScheduler {
+  let scheduler = schedulers.get(companyId);
+  if (!scheduler) {
+    scheduler = new SiigoScheduler();
+    schedulers.set(companyId, scheduler);
+  }
+  return scheduler;
+}
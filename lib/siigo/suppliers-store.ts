@@ -0,0 +1,257 @@
+import { sql } from '@/lib/db';
+import type { SiigoCustomerResponse } from '@/types/siigo';
+import { SiigoClient, siigoClient } from './client';
+import { getCurrentCompanyId } from './companies';
+import { acquireSyncLease, SiigoSyncState } from './purchases-sync';
+import {
+  buildSupplierCustomer,
+  LocalSupplier,
+  reconcileSuppliers,
+  SiigoSupplier,
+  SupplierConflict,
+  supplierFromSiigoCustomer,
+  SupplierInput
+} from './suppliers';
+
+export const SUPPLIERS_RESOURCE = 'customers';
+
+export interface SupplierSyncOptions {
+  companyId?: string;
+  client?: SiigoClient;
+  pageSize?: number;
+}
+
+export interface SupplierSyncResult {
+  companyId: string;
+  pages: number;
+  synced: number;
+  /** Terceros que ya no están en Siigo y se borraron de la copia local */
+  removed: number;
+  /** Proveedores de Siigo agregados al catálogo local */
+  imported: number;
+  conflicts: number;
+}
+
+export class SiigoSupplierError extends Error {
+  constructor(message: string, public readonly status: 409, public readonly supplier?: SiigoSupplier) {
+    super(message);
+    this.name = 'SiigoSupplierError';
+  }
+}
+
+/**
+ * Inserta o actualiza una página de terceros de Siigo. Cada sucursal es una fila;
+ * el registro completo queda en `raw`.
+ */
+export async function saveSiigoSuppliers(companyId: string, customers: SiigoCustomerResponse[]): Promise<void> {
+  if (customers.length === 0) return;
+
+  await sql.transaction((txn) => customers.map((customer) => {
+    const supplier = supplierFromSiigoCustomer(customer);
+    return txn`
+      INSERT INTO siigo_suppliers (
+        company_id, identification, branch_office, siigo_id, type, id_type, name, active, city_code,
+        siigo_updated_at, raw, synced_at
+      ) VALUES (
+        ${companyId}, ${supplier.identification}, ${supplier.branchOffice}, ${supplier.siigoId}, ${supplier.type},
+        ${supplier.idType}, ${supplier.name}, ${supplier.active}, ${supplier.cityCode}, ${supplier.updatedAt},
+        ${JSON.stringify(customer)}, NOW()
+      )
+      ON CONFLICT (company_id, identification, branch_office) DO UPDATE SET
+        siigo_id = EXCLUDED.siigo_id,
+        type = EXCLUDED.type,
+        id_type = EXCLUDED.id_type,
+        name = EXCLUDED.name,
+        active = EXCLUDED.active,
+        city_code = EXCLUDED.city_code,
+        siigo_updated_at = EXCLUDED.siigo_updated_at,
+        raw = EXCLUDED.raw,
+        synced_at = NOW()
+    `;
+  }));
+}
+
+async function readLocalSuppliers(companyId: string): Promise<LocalSupplier[]> {
+  const rows = await sql`
+    SELECT codigo, nombre, identification FROM proveedores
+    WHERE company_id = ${companyId}
+    ORDER BY codigo
+  `;
+  return rows as LocalSupplier[];
+}
+
+async function readSiigoSuppliers(companyId: string): Promise<SiigoSupplier[]> {
+  const rows = await sql`
+    SELECT raw FROM siigo_suppliers
+    WHERE company_id = ${companyId}
+    ORDER BY identification, branch_office
+  `;
+  return rows.map(row => supplierFromSiigoCustomer(row.raw as SiigoCustomerResponse));
+}
+
+/** Agrega proveedores de Siigo al catálogo local usando la identificación como código */
+async function importLocalSuppliers(companyId: string, suppliers: SiigoSupplier[]): Promise<number> {
+  if (suppliers.length === 0) return 0;
+
+  const results = await sql.transaction((txn) => suppliers.map((supplier) => txn`
+    INSERT INTO proveedores (company_id, codigo, nombre, identification)
+    VALUES (${companyId}, ${supplier.identification}, ${supplier.name}, ${supplier.identification})
+    ON CONFLICT (company_id, codigo) DO NOTHING
+    RETURNING codigo
+  `));
+  return results.reduce((total, rows) => total + rows.length, 0);
+}
+
+async function replaceConflicts(companyId: string, conflicts: SupplierConflict[]): Promise<void> {
+  await sql.transaction((txn) => [
+    txn`DELETE FROM siigo_supplier_conflicts WHERE company_id = ${companyId}`,
+    ...conflicts.map(conflict => txn`
+      INSERT INTO siigo_supplier_conflicts (company_id, kind, identification, local_code, local_name, siigo_name, detail)
+      VALUES (
+        ${companyId}, ${conflict.kind}, ${conflict.identification}, ${conflict.localCode},
+        ${conflict.localName}, ${conflict.siigoName}, ${conflict.detail}
+      )
+    `)
+  ]);
+}
+
+/**
+ * Descarga todos los terceros de Siigo (GET /v1/customers) a la copia local y la
+ * cruza con el catálogo de proveedores: agrega los que faltan localmente y deja
+ * en siigo_supplier_conflicts las diferencias para revisarlas a mano.
+ *
+ * Siigo no filtra terceros por fecha de modificación, así que siempre es una
+ * descarga completa; los terceros que no aparecen se borran de la copia local.
+ */
+export async function syncSiigoSuppliers(options: SupplierSyncOptions = {}): Promise<SupplierSyncResult> {
+  const companyId = options.companyId || getCurrentCompanyId();
+  const client = options.client || siigoClient;
+  const pageSize = options.pageSize ?? 100;
+
+  const state = await acquireSyncLease(companyId, SUPPLIERS_RESOURCE, 'proveedores');
+  let pages = 0;
+  let synced = 0;
+
+  console.log(`[SIIGO-PROVEEDORES] Iniciando sincronización de terceros (${companyId})`);
+
+  try {
+    await client.forEachPage<SiigoCustomerResponse>('customers', {}, async (results, page) => {
+      await saveSiigoSuppliers(companyId, results);
+      pages++;
+      synced += results.length;
+
+      await sql`
+        UPDATE siigo_sync_state SET last_page = ${page}, synced_count = ${synced}, updated_at = NOW()
+        WHERE company_id = ${companyId} AND resource = ${SUPPLIERS_RESOURCE}
+      `;
+    }, { pageSize });
+
+    const removed = await sql`
+      DELETE FROM siigo_suppliers
+      WHERE company_id = ${companyId} AND synced_at < ${state.started_at}
+      RETURNING identification
+    `;
+
+    const { conflicts, missingLocally } = reconcileSuppliers(await readLocalSuppliers(companyId), await readSiigoSuppliers(companyId));
+    const imported = await importLocalSuppliers(companyId, missingLocally);
+    await replaceConflicts(companyId, conflicts);
+
+    await sql`
+      UPDATE siigo_sync_state SET
+        watermark = NOW(),
+        status = 'completed',
+        last_page = 0,
+        finished_at = NOW(),
+        updated_at = NOW()
+      WHERE company_id = ${companyId} AND resource = ${SUPPLIERS_RESOURCE}
+    `;
+
+    console.log(
+      `[SIIGO-PROVEEDORES] ✅ ${synced} terceros sincronizados, ${imported} proveedores nuevos, ` +
+      `${conflicts.length} conflictos (${companyId})`
+    );
+    return { companyId, pages, synced, removed: removed.length, imported, conflicts: conflicts.length };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido';
+    console.error(`[SIIGO-PROVEEDORES] ❌ Sincronización interrumpida (${companyId}):`, message);
+    await sql`
+      UPDATE siigo_sync_state SET status = 'failed', last_error = ${message}, updated_at = NOW()
+      WHERE company_id = ${companyId} AND resource = ${SUPPLIERS_RESOURCE}
+    `;
+    throw error;
+  }
+}
+
+export async function getSupplierSyncState(companyId = getCurrentCompanyId()): Promise<SiigoSyncState | null> {
+  const rows = await sql`
+    SELECT * FROM siigo_sync_state
+    WHERE company_id = ${companyId} AND resource = ${SUPPLIERS_RESOURCE}
+  `;
+  return (rows[0] as SiigoSyncState) || null;
+}
+
+export async function listSupplierConflicts(companyId = getCurrentCompanyId()): Promise<SupplierConflict[]> {
+  const rows = await sql`
+    SELECT kind, identification, local_code, local_name, siigo_name, detail
+    FROM siigo_supplier_conflicts
+    WHERE company_id = ${companyId}
+    ORDER BY kind, identification
+  `;
+  return rows.map(row => ({
+    kind: row.kind,
+    identification: row.identification,
+    localCode: row.local_code,
+    localName: row.local_name,
+    siigoName: row.siigo_name,
+    detail: row.detail
+  }));
+}
+
+/** Sucursales de un proveedor en la copia local de Siigo, la principal primero */
+export async function getSiigoSupplierBranches(identification: string, companyId = getCurrentCompanyId()): Promise<SiigoSupplier[]> {
+  const rows = await sql`
+    SELECT raw FROM siigo_suppliers
+    WHERE company_id = ${companyId} AND identification = ${identification.trim()}
+    ORDER BY branch_office
+  `;
+  return rows.map(row => supplierFromSiigoCustomer(row.raw as SiigoCustomerResponse));
+}
+
+/**
+ * Crea el proveedor en Siigo (POST /v1/customers) y lo agrega a la copia local y
+ * al catálogo de proveedores. Si Siigo ya lo tiene, solo se trae a la copia local.
+ * @throws SiigoSupplierError 409 si la identificación ya existe en Siigo
+ */
+export async function createSiigoSupplier(
+  input: SupplierInput,
+  companyId = getCurrentCompanyId(),
+  client: SiigoClient = siigoClient
+): Promise<SiigoSupplier> {
+  const customer = buildSupplierCustomer(input);
+
+  const existing = await client.get<{ results?: SiigoCustomerResponse[] }>('customers', { identification: customer.identification });
+  const found = (existing.results || []).filter(result => result.identification === customer.identification);
+  if (found.length > 0) {
+    await saveSiigoSuppliers(companyId, found);
+    const supplier = supplierFromSiigoCustomer(found[0]);
+    throw new SiigoSupplierError(
+      `El proveedor ${customer.identification} ya existe en Siigo como "${supplier.name}"`,
+      409,
+      supplier
+    );
+  }
+
+  const created = await client.post<SiigoCustomerResponse>('customers', customer);
+  await saveSiigoSuppliers(companyId, [created]);
+
+  const supplier = supplierFromSiigoCustomer(created);
+  await importLocalSuppliers(companyId, [supplier]);
+  await sql`
+    DELETE FROM siigo_supplier_conflicts
+    WHERE company_id = ${companyId} AND kind = 'missing_in_siigo' AND identification = ${supplier.identification}
+  `;
+
+  console.log(`[SIIGO-PROVEEDORES] Proveedor ${supplier.identification} creado en Siigo (${companyId})`);
+  return supplier;
+}
@@ -0,0 +1,293 @@
+import type {
+  DianIdType,
+  SiigoCustomerRequest,
+  SiigoCustomerResponse,
+  SupportDocumentSupplier
+} from '@/types/siigo';
+import {
+  buildSupportDocumentCustomer,
+  calculateNitCheckDigit,
+  NOT_RESPONSIBLE_FISCAL_CODE,
+  personTypeForIdType
+} from './support-documents';
+
+// Responsabilidades fiscales (RUT, casilla 53) que se pueden asignar al crear un proveedor
+export const FISCAL_RESPONSIBILITIES: Array<{ code: string; name: string }> = [
+  { code: 'O-13', name: 'Gran contribuyente' },
+  { code: 'O-15', name: 'Autorretenedor' },
+  { code: 'O-23', name: 'Agente de retención IVA' },
+  { code: 'O-47', name: 'Régimen simple de tributación' },
+  { code: NOT_RESPONSIBLE_FISCAL_CODE, name: 'No responsable' }
+];
+
+export interface SupplierContact {
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+}
+
+/** Tercero de Siigo (una sucursal) con los datos que usa la aplicación */
+export interface SiigoSupplier {
+  siigoId: string;
+  identification: string;
+  branchOffice: number;
+  type: SiigoCustomerRequest['type'];
+  personType: SiigoCustomerRequest['person_type'];
+  idType: DianIdType;
+  idTypeName: string | null;
+  checkDigit: string | null;
+  nameParts: string[];
+  name: string;
+  commercialName: string | null;
+  active: boolean;
+  vatResponsible: boolean;
+  fiscalResponsibilities: Array<{ code: string; name: string | null }>;
+  address: string | null;
+  countryCode: string | null;
+  stateCode: string | null;
+  cityCode: string | null;
+  cityName: string | null;
+  phone: string | null;
+  email: string | null;
+  contacts: SupplierContact[];
+  updatedAt: string | null;
+}
+
+/** Proveedor del catálogo local (tabla proveedores) */
+export interface LocalSupplier {
+  codigo: string;
+  nombre: string;
+  identification: string | null;
+}
+
+export type SupplierConflictKind =
+  | 'missing_in_siigo'
+  | 'name_mismatch'
+  | 'inactive_in_siigo'
+  | 'check_digit_mismatch'
+  | 'duplicated_locally';
+
+export interface SupplierConflict {
+  kind: SupplierConflictKind;
+  identification: string;
+  localCode: string | null;
+  localName: string | null;
+  siigoName: string | null;
+  detail: string;
+}
+
+export const SUPPLIER_CONFLICT_LABELS: Record<SupplierConflictKind, string> = {
+  missing_in_siigo: 'No existe en Siigo',
+  name_mismatch: 'Nombre distinto',
+  inactive_in_siigo: 'Inactivo en Siigo',
+  check_digit_mismatch: 'DV incorrecto en Siigo',
+  duplicated_locally: 'Repetido en el catálogo local'
+};
+
+export interface SupplierReconciliation {
+  conflicts: SupplierConflict[];
+  /** Proveedores activos de Siigo que no están en el catálogo local */
+  missingLocally: SiigoSupplier[];
+}
+
+/** Datos del formulario para crear un proveedor en Siigo */
+export interface SupplierInput extends SupportDocumentSupplier {
+  commercialName?: string;
+  vatResponsible?: boolean;
+  fiscalResponsibilities?: string[];
+}
+
+function text(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function phoneNumber(phone: { indicative?: string; number?: string; extension?: string } | undefined): string | null {
+  const number = text(phone?.number);
+  if (!number) return null;
+  return [text(phone?.indicative), number, phone?.extension ? `ext. ${phone.extension}` : null]
+    .filter(Boolean)
+    .join(' ');
+}
+
+export function supplierFromSiigoCustomer(customer: SiigoCustomerResponse): SiigoSupplier {
+  const idType = typeof customer.id_type === 'object' ? customer.id_type.code : customer.id_type;
+  const nameParts = (customer.name || []).map(part => part.trim()).filter(Boolean);
+  const contacts: SupplierContact[] = (customer.contacts || []).map(contact => ({
+    firstName: contact.first_name?.trim() || '',
+    lastName: contact.last_name?.trim() || '',
+    email: text(contact.email),
+    phone: phoneNumber(contact.phone)
+  }));
+  const city = customer.address?.city;
+
+  return {
+    siigoId: customer.id,
+    identification: customer.identification.trim(),
+    branchOffice: customer.branch_office ?? 0,
+    type: customer.type,
+    personType: customer.person_type,
+    idType,
+    idTypeName: typeof customer.id_type === 'object' ? customer.id_type.name ?? null : null,
+    checkDigit: text(customer.check_digit),
+    nameParts,
+    name: nameParts.join(' '),
+    commercialName: text(customer.commercial_name),
+    active: customer.active !== false,
+    vatResponsible: customer.vat_responsible === true,
+    fiscalResponsibilities: (customer.fiscal_responsibilities || []).map(({ code, name }) => ({ code, name: name ?? null })),
+    address: text(customer.address?.address),
+    countryCode: text(city?.country_code),
+    stateCode: text(city?.state_code),
+    cityCode: text(city?.city_code),
+    cityName: text(city?.city_name),
+    phone: phoneNumber(customer.phones?.[0]),
+    email: contacts.find(contact => contact.email)?.email ?? null,
+    contacts,
+    updatedAt: customer.metadata?.last_updated || customer.metadata?.created || null
+  };
+}
+
+/**
+ * Identificación con la que se cruzan el catálogo local y Siigo: sin el DV
+ * ("900123456-7") ni puntos o espacios
+ */
+export function localSupplierIdentification(value: string | null | undefined): string {
+  return (value || '')
+    .trim()
+    .replace(/-\d$/, '')
+    .replace(/[^0-9A-Za-z]/g, '')
+    .toUpperCase();
+}
+
+/**
+ * Nombre en mayúsculas, sin tildes ni puntuación, para comparar razones sociales
+ * ("S.A.S." y "SAS" quedan iguales)
+ */
+export function normalizeSupplierName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Las personas naturales pueden estar como "NOMBRE APELLIDO" o "APELLIDO NOMBRE"
+function sameSupplierName(a: string, b: string): boolean {
+  const words = (value: string) => normalizeSupplierName(value).split(' ').sort().join(' ');
+  return words(a) === words(b);
+}
+
+/**
+ * Cruza el catálogo local de proveedores con los terceros de Siigo. Solo se
+ * compara la sucursal principal (0) de cada tercero; los nombres locales nunca se
+ * sobrescriben, las diferencias se reportan como conflictos.
+ */
+export function reconcileSuppliers(local: LocalSupplier[], siigo: SiigoSupplier[]): SupplierReconciliation {
+  const principal = new Map<string, SiigoSupplier>();
+  for (const supplier of siigo) {
+    const key = localSupplierIdentification(supplier.identification);
+    const current = principal.get(key);
+    if (!current || supplier.branchOffice < current.branchOffice) {
+      principal.set(key, supplier);
+    }
+  }
+
+  const conflicts: SupplierConflict[] = [];
+  const localByIdentification = new Map<string, LocalSupplier>();
+
+  for (const row of local) {
+    const identification = localSupplierIdentification(row.identification || row.codigo);
+    if (!identification) continue;
+
+    const previous = localByIdentification.get(identification);
+    if (previous) {
+      conflicts.push({
+        kind: 'duplicated_locally',
+        identification,
+        localCode: row.codigo,
+        localName: row.nombre,
+        siigoName: principal.get(identification)?.name ?? null,
+        detail: `También está con el código ${previous.codigo}`
+      });
+      continue;
+    }
+    localByIdentification.set(identification, row);
+
+    const supplier = principal.get(identification);
+    const conflict = { identification, localCode: row.codigo, localName: row.nombre, siigoName: supplier?.name ?? null };
+
+    if (!supplier) {
+      conflicts.push({ ...conflict, kind: 'missing_in_siigo', detail: 'Se debe crear en Siigo antes de registrarle compras' });
+      continue;
+    }
+    if (!supplier.active) {
+      conflicts.push({ ...conflict, kind: 'inactive_in_siigo', detail: 'Siigo rechazará las compras a este proveedor' });
+    }
+    if (!sameSupplierName(row.nombre, supplier.name)) {
+      conflicts.push({ ...conflict, kind: 'name_mismatch', detail: `En Siigo se llama "${supplier.name}"` });
+    }
+  }
+
+  for (const [identification, supplier] of principal) {
+    if (supplier.idType !== '31' || !supplier.checkDigit) continue;
+    const expected = calculateNitCheckDigit(supplier.identification);
+    if (supplier.checkDigit !== expected) {
+      const row = localByIdentification.get(identification);
+      conflicts.push({
+        kind: 'check_digit_mismatch',
+        identification,
+        localCode: row?.codigo ?? null,
+        localName: row?.nombre ?? null,
+        siigoName: supplier.name,
+        detail: `Siigo tiene DV ${supplier.checkDigit}; según el NIT debería ser ${expected}`
+      });
+    }
+  }
+
+  const missingLocally = [...principal.entries()]
+    .filter(([identification, supplier]) =>
+      supplier.active && supplier.type === 'Supplier' && !localByIdentification.has(identification)
+    )
+    .map(([, supplier]) => supplier);
+
+  return { conflicts, missingLocally };
+}
+
+/**
+ * Tercero para POST /v1/customers a partir del formulario: los datos DIAN del
+ * documento soporte más nombre comercial, IVA y responsabilidades fiscales
+ */
+export function buildSupplierCustomer(input: SupplierInput): SiigoCustomerRequest {
+  const fiscalResponsibilities = input.fiscalResponsibilities?.length
+    ? input.fiscalResponsibilities
+    : [NOT_RESPONSIBLE_FISCAL_CODE];
+
+  return {
+    ...buildSupportDocumentCustomer(input),
+    ...(input.commercialName?.trim() && { commercial_name: input.commercialName.trim() }),
+    vat_responsible: input.vatResponsible === true,
+    fiscal_responsibilities: fiscalResponsibilities.map(code => ({ code }))
+  };
+}
+
+/** Datos DIAN del documento soporte con lo que Siigo tiene del proveedor */
+export function supportSupplierFromSiigo(supplier: SiigoSupplier): SupportDocumentSupplier {
+  const isCompany = personTypeForIdType(supplier.idType) === 'Company';
+  const [firstName = '', ...lastNames] = supplier.nameParts;
+
+  return {
+    idType: supplier.idType,
+    identification: supplier.identification,
+    firstName: isCompany ? supplier.name : firstName,
+    lastName: isCompany ? '' : lastNames.join(' '),
+    address: supplier.address || '',
+    cityCode: supplier.cityCode || '',
+    phone: supplier.phone || '',
+    email: supplier.email || ''
+  };
+}
@@ -0,0 +1,94 @@
+import type { DianIdType, SiigoCustomerRequest, SupportDocumentSupplier } from '@/types/siigo';
+
+export const DIAN_ID_TYPES: Array<{ code: DianIdType; name: string }> = [
+  { code: '13', name: 'Cédula de ciudadanía' },
+  { code: '22', name: 'Cédula de extranjería' },
+  { code: '31', name: 'NIT' },
+  { code: '41', name: 'Pasaporte' },
+  { code: '42', name: 'Documento de identificación extranjero' },
+  { code: '47', name: 'Permiso especial de permanencia (PEP)' },
+  { code: '48', name: 'Permiso por protección temporal (PPT)' }
+];
+
+// Ciudades más usadas con su código DANE
+export const SUPPORT_DOCUMENT_CITIES: Array<{ code: string; name: string }> = [
+  { code: '11001', name: 'Bogotá D.C.' },
+  { code: '05001', name: 'Medellín' },
+  { code: '76001', name: 'Cali' },
+  { code: '08001', name: 'Barranquilla' },
+  { code: '13001', name: 'Cartagena' },
+  { code: '68001', name: 'Bucaramanga' },
+  { code: '54001', name: 'Cúcuta' },
+  { code: '66001', name: 'Pereira' },
+  { code: '17001', name: 'Manizales' },
+  { code: '73001', name: 'Ibagué' },
+  { code: '50001', name: 'Villavicencio' },
+  { code: '47001', name: 'Santa Marta' },
+  { code: '52001', name: 'Pasto' },
+  { code: '41001', name: 'Neiva' },
+  { code: '23001', name: 'Montería' },
+  { code: '63001', name: 'Armenia' },
+  { code: '15001', name: 'Tunja' },
+  { code: '19001', name: 'Popayán' },
+  { code: '20001', name: 'Valledupar' },
+  { code: '25754', name: 'Soacha' }
+];
+
+// Responsabilidad fiscal de quien no está obligado a facturar ("No responsable")
+export const NOT_RESPONSIBLE_FISCAL_CODE = 'R-99-PN';
+
+const NIT_WEIGHTS = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+/**
+ * Dígito de verificación de un NIT según el algoritmo de la DIAN (módulo 11)
+ */
+export function calculateNitCheckDigit(nit: string): string {
+  const digits = nit.replace(/\D/g, '').split('').reverse();
+  const sum = digits.reduce((acc, digit, index) => acc + Number(digit) * NIT_WEIGHTS[index], 0);
+  const remainder = sum % 11;
+  return String(remainder > 1 ? 11 - remainder : remainder);
+}
+
+export function personTypeForIdType(idType: DianIdType): SiigoCustomerRequest['person_type'] {
+  return idType === '31' ? 'Company' : 'Person';
+}
+
+/**
+ * Tercero que Siigo necesita para emitir el documento soporte, con los campos
+ * DIAN que el usuario no captura (tipo de persona, DV, responsabilidad fiscal).
+ */
+export function buildSupportDocumentCustomer(supplier: SupportDocumentSupplier): SiigoCustomerRequest {
+  const personType = personTypeForIdType(supplier.idType);
+  const identification = supplier.identification.trim();
+  const cityCode = supplier.cityCode.trim();
+
+  return {
+    type: 'Supplier',
+    person_type: personType,
+    id_type: supplier.idType,
+    identification,
+    ...(supplier.idType === '31' && { check_digit: calculateNitCheckDigit(identification) }),
+    name: personType === 'Company'
+      ? [supplier.firstName.trim()]
+      : [supplier.firstName.trim(), supplier.lastName.trim()],
+    active: true,
+    vat_responsible: false,
+    fiscal_responsibilities: [{ code: NOT_RESPONSIBLE_FISCAL_CODE }],
+    address: {
+      address: supplier.address.trim(),
+      city: {
+        country_code: 'Co',
+        state_code: cityCode.slice(0, 2),
+        city_code: cityCode
+      }
+    },
+    ...(supplier.phone?.trim() && { phones: [{ number: supplier.phone.trim() }] }),
+    ...(supplier.email?.trim() && {
+      contacts: [{
+        first_name: supplier.firstName.trim(),
+        last_name: supplier.lastName.trim(),
+        email: supplier.email.trim()
+      }]
+    })
+  };
+}
@@ -0,0 +1,103 @@
+import type { SiigoTaxCatalogItem } from '@/types/siigo';
+
+// Tipos de impuesto que Siigo descuenta del total en lugar de sumarlo
+const RETENTION_TYPES = new Set(['Retefuente', 'ReteIVA', 'ReteICA']);
+
+export interface TaxLine {
+  tax: SiigoTaxCatalogItem;
+  /** Positivo para impuestos que suman, negativo para retenciones */
+  value: number;
+}
+
+export interface TaxBreakdown {
+  lines: TaxLine[];
+  /** IVA e impoconsumo */
+  added: number;
+  /** Retenciones, en valor positivo */
+  withheld: number;
+}
+
+// Montos de una línea de la factura
+export interface LineAmounts {
+  /** Base gravable, sin impuestos */
+  base: number;
+  breakdown: TaxBreakdown;
+  /** Base más impuestos menos retenciones */
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isRetentionTax(tax: Pick<SiigoTaxCatalogItem, 'type'>): boolean {
+  return RETENTION_TYPES.has(tax.type);
+}
+
+/** Agrupa el catálogo como lo presenta el formulario: un IVA, un impoconsumo y varias retenciones */
+export function groupTaxesByKind(taxes: SiigoTaxCatalogItem[]) {
+  const active = taxes.filter(tax => tax.active !== false);
+  return {
+    iva: active.filter(tax => tax.type === 'IVA'),
+    consumption: active.filter(tax => tax.type === 'Impoconsumo'),
+    retentions: active.filter(isRetentionTax)
+  };
+}
+
+/** IVA por defecto para líneas nuevas o productos marcados con IVA: el general del 19% si existe */
+export function getDefaultIvaTax(taxes: SiigoTaxCatalogItem[]): SiigoTaxCatalogItem | undefined {
+  const { iva } = groupTaxesByKind(taxes);
+  return iva.find(tax => tax.percentage === 19) || iva.find(tax => tax.percentage > 0);
+}
+
+/**
+ * Calcula los impuestos de una línea sobre su base gravable con las tarifas del catálogo.
+ * Como en Siigo, cada impuesto se redondea a dos decimales por línea y la ReteIVA se
+ * liquida sobre el IVA ya redondeado, no sobre la base. Los ids que no están en el
+ * catálogo se ignoran.
+ */
+export function calculateTaxes(base: number, taxIds: number[] = [], catalog: SiigoTaxCatalogItem[]): TaxBreakdown {
+  const taxes = taxIds
+    .map(id => catalog.find(tax => tax.id === id))
+    .filter((tax): tax is SiigoTaxCatalogItem => !!tax);
+
+  const iva = taxes
+    .filter(tax => tax.type === 'IVA')
+    .reduce((sum, tax) => sum + round2(base * (Number(tax.percentage) / 100)), 0);
+
+  const lines = taxes.map(tax => {
+    const taxBase = tax.type === 'ReteIVA' ? iva : base;
+    const amount = round2(taxBase * (Number(tax.percentage) / 100));
+    return { tax, value: isRetentionTax(tax) ? -amount : amount };
+  });
+
+  return {
+    lines,
+    added: round2(lines.filter(line => line.value > 0).reduce((sum, line) => sum + line.value, 0)),
+    withheld: round2(lines.filter(line => line.value < 0).reduce((sum, line) => sum - line.value, 0))
+  };
+}
+
+/**
+ * Base, impuestos y total de una línea a partir de su valor (cantidad por precio
+ * menos descuento). Con precios con impuestos incluidos la base se obtiene
+ * descontando del valor el IVA y el impoconsumo de la línea; la diferencia de
+ * redondeo la absorbe la base, para que la línea siga sumando lo que cobró el
+ * proveedor. Las retenciones nunca están incluidas en el precio.
+ */
+export function calculateLineAmounts(
+  value: number,
+  taxIds: number[] = [],
+  catalog: SiigoTaxCatalogItem[],
+  taxIncluded = false
+): LineAmounts {
+  const gross = round2(value);
+  const addedRate = taxIds
+    .map(id => catalog.find(tax => tax.id === id))
+    .filter((tax): tax is SiigoTaxCatalogItem => !!tax && !isRetentionTax(tax))
+    .reduce((sum, tax) => sum + Number(tax.percentage), 0);
+
+  const taxableBase = taxIncluded ? round2(gross / (1 + addedRate / 100)) : gross;
+  const breakdown = calculateTaxes(taxableBase, taxIds, catalog);
+  const base = taxIncluded ? round2(gross - breakdown.added) : gross;
+
+  return { base, breakdown, total: round2(base + breakdown.added - breakdown.withheld) };
+}
@@ -0,0 +1,72 @@
+import * as XLSX from 'xlsx';
+import { sql } from '@/lib/db';
+import { getCurrentCompanyId } from './companies';
+import { ElectronicInvoicePrefill, parseUblInvoice, UblCatalogMatch, UblParseError } from './ubl';
+
+interface ZipEntry {
+  name: string;
+  type: number;
+  content?: Uint8Array;
+}
+
+const NOT_FOUND: UblCatalogMatch = { status: 'not_found', codigo: null, nombre: null };
+
+/**
+ * Texto del XML de una factura electrónica subida como .xml o dentro de un .zip
+ * (el lector de zip viene con xlsx). En el zip se prefiere el AttachedDocument.
+ * @throws UblParseError si el archivo no es XML ni trae un XML
+ */
+export function readElectronicInvoiceFile(data: Buffer, fileName: string): string {
+  if (!fileName.toLowerCase().endsWith('.zip')) return data.toString('utf8');
+
+  let entries: ZipEntry[];
+  try {
+    entries = XLSX.CFB.read(data, { type: 'buffer' }).FileIndex;
+  } catch {
+    throw new UblParseError('No se pudo abrir el archivo .zip');
+  }
+  const xmls = entries
+    .filter(entry => entry.content && entry.name.toLowerCase().endsWith('.xml'))
+    .map(entry => Buffer.from(entry.content as Uint8Array).toString('utf8'));
+  const xml = xmls.find(text => text.includes('AttachedDocument')) ?? xmls.find(text => text.includes('<Invoice'));
+  if (!xml) throw new UblParseError('El .zip no trae el XML de la factura electrónica');
+  return xml;
+}
+
+/**
+ * Lee la factura y la cruza con los catálogos locales: el proveedor por NIT (con
+ * o sin dígito de verificación) y cada línea por el código del producto.
+ */
+export async function prefillFromElectronicInvoice(
+  xml: string,
+  companyId = getCurrentCompanyId()
+): Promise<ElectronicInvoicePrefill> {
+  const invoice = parseUblInvoice(xml);
+  const { nit, dv } = invoice.supplier;
+  const codes = Array.from(new Set(invoice.lines.map(line => line.code).filter(Boolean)));
+
+  const [suppliers, products] = await Promise.all([
+    nit
+      ? sql`
+          SELECT codigo, nombre FROM proveedores
+          WHERE company_id = ${companyId}
+            AND (
+              codigo = ${nit}
+              OR regexp_replace(COALESCE(identification, ''), '[^0-9]', '', 'g') IN (${nit}, ${nit + dv})
+            )
+          ORDER BY (codigo = ${nit}) DESC
+          LIMIT 1
+        `
+      : Promise.resolve([]),
+    sql`SELECT codigo, nombre FROM productos_ WHERE company_id = ${companyId} AND codigo = ANY(${codes}::text[])`
+  ]);
+
+  const toMatch = (row?: Record<string, unknown>): UblCatalogMatch =>
+    row ? { status: 'matched', codigo: String(row.codigo), nombre: String(row.nombre) } : NOT_FOUND;
+
+  return {
+    invoice,
+    supplier: toMatch(suppliers[0]),
+    lines: invoice.lines.map(line => toMatch(products.find(product => String(product.codigo) === line.code)))
+  };
+}
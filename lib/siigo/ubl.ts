@@ -0,0 +1,334 @@
+import type { InvoiceItem, SiigoTaxCatalogItem } from '@/types/siigo';
+import { CUFE_TAX_CODES, CufeFields } from './cufe';
+import { groupTaxesByKind } from './taxes';
+import { defaultConceptForItemType } from './withholdings';
+
+// Factura electrónica DIAN (UBL 2.1): el proveedor envía un AttachedDocument con la
+// factura (Invoice) embebida como texto en cac:Attachment/cac:ExternalReference/cbc:Description
+
+export class UblParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UblParseError';
+  }
+}
+
+export interface XmlElement {
+  /** Nombre sin prefijo de espacio de nombres (cbc:ID → ID) */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const TAG = /<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const localName = (qualified: string) => qualified.slice(qualified.indexOf(':') + 1);
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity.toLowerCase()] ?? match;
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  });
+}
+
+/**
+ * Lector XML mínimo para los documentos de la DIAN: elementos, atributos, texto,
+ * CDATA y entidades. Ignora declaraciones, comentarios y DOCTYPE.
+ * @throws UblParseError si el XML está mal formado
+ */
+export function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [document];
+  let index = 0;
+
+  while (index < xml.length) {
+    const current = stack[stack.length - 1];
+    const open = xml.indexOf('<', index);
+    if (open < 0) {
+      current.text += decodeXmlEntities(xml.slice(index));
+      break;
+    }
+    if (open > index) current.text += decodeXmlEntities(xml.slice(index, open));
+
+    const skipTo = (terminator: string) => {
+      const end = xml.indexOf(terminator, open);
+      if (end < 0) throw new UblParseError('El XML está incompleto');
+      return end + terminator.length;
+    };
+    if (xml.startsWith('<![CDATA[', open)) {
+      const end = skipTo(']]>');
+      current.text += xml.slice(open + 9, end - 3);
+      index = end;
+      continue;
+    }
+    if (xml.startsWith('<!--', open)) {
+      index = skipTo('-->');
+      continue;
+    }
+    if (xml.startsWith('<?', open) || xml.startsWith('<!', open)) {
+      index = skipTo('>');
+      continue;
+    }
+
+    TAG.lastIndex = open;
+    const match = TAG.exec(xml);
+    if (!match) throw new UblParseError('El XML está mal formado');
+    const [tag, closing, qualifiedName, rawAttributes, selfClosing] = match;
+    index = open + tag.length;
+
+    if (closing) {
+      if (stack.length === 1 || current.name !== localName(qualifiedName)) {
+        throw new UblParseError(`El XML está mal formado: cierre inesperado de ${qualifiedName}`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of rawAttributes.matchAll(ATTRIBUTE)) {
+      attributes[localName(attribute[1])] = decodeXmlEntities(attribute[2] ?? attribute[3] ?? '');
+    }
+    const element: XmlElement = { name: localName(qualifiedName), attributes, children: [], text: '' };
+    current.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length > 1 || document.children.length === 0) throw new UblParseError('El XML está incompleto');
+  return document.children[0];
+}
+
+/** Elemento en una ruta de nombres separados por "/" a partir de `element` */
+export function findElement(element: XmlElement | undefined, path: string): XmlElement | undefined {
+  return path.split('/').reduce<XmlElement | undefined>(
+    (current, name) => current?.children.find(child => child.name === name),
+    element
+  );
+}
+
+const textAt = (element: XmlElement | undefined, path: string) => findElement(element, path)?.text.trim() ?? '';
+
+const amountAt = (element: XmlElement | undefined, path: string) => Number(textAt(element, path)) || 0;
+
+function findDescendant(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findDescendant(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Código del esquema tributario de la DIAN para el IVA
+const DIAN_IVA_SCHEME = CUFE_TAX_CODES.iva;
+
+export interface UblInvoiceLine {
+  code: string;
+  description: string;
+  quantity: number;
+  /** Precio unitario sin impuestos */
+  unitPrice: number;
+  discount: number;
+  /** Porcentaje de IVA; null si la línea no lo lleva */
+  ivaRate: number | null;
+  /** Valor neto de la línea (cantidad × precio − descuentos) */
+  lineTotal: number;
+}
+
+export interface UblInvoice {
+  /** Número completo como lo emitió el proveedor (FE1024) */
+  id: string;
+  prefix: string;
+  number: string;
+  cufe: string;
+  issueDate: string;
+  dueDate: string | null;
+  currency: string;
+  supplier: {
+    /** NIT sin dígito de verificación */
+    nit: string;
+    dv: string;
+    name: string;
+  };
+  lines: UblInvoiceLine[];
+  /** Base gravable de la factura */
+  taxExclusiveAmount: number;
+  /** Total a pagar según el proveedor, sin las retenciones que practica el comprador */
+  payableAmount: number;
+  /** Datos con los que se recalcula el CUFE (ver lib/siigo/cufe.ts) */
+  cufeFields: CufeFields;
+}
+
+function parseInvoiceLine(line: XmlElement): UblInvoiceLine {
+  const quantity = amountAt(line, 'InvoicedQuantity') || 1;
+  const lineTotal = amountAt(line, 'LineExtensionAmount');
+  const discount = line.children
+    .filter(child => child.name === 'AllowanceCharge' && textAt(child, 'ChargeIndicator') === 'false')
+    .reduce((sum, allowance) => sum + amountAt(allowance, 'Amount'), 0);
+  const baseQuantity = amountAt(line, 'Price/BaseQuantity') || 1;
+  const priceAmount = amountAt(line, 'Price/PriceAmount');
+
+  const ivaSubtotal = line.children
+    .filter(child => child.name === 'TaxTotal')
+    .flatMap(total => total.children.filter(child => child.name === 'TaxSubtotal'))
+    .find(subtotal => textAt(subtotal, 'TaxCategory/TaxScheme/ID') === DIAN_IVA_SCHEME);
+  const ivaRate = ivaSubtotal ? Number(textAt(ivaSubtotal, 'TaxCategory/Percent')) : null;
+
+  return {
+    code: textAt(line, 'Item/SellersItemIdentification/ID') || textAt(line, 'Item/StandardItemIdentification/ID'),
+    description: textAt(line, 'Item/Description'),
+    quantity,
+    unitPrice: priceAmount > 0 ? priceAmount / baseQuantity : (lineTotal + discount) / quantity,
+    discount,
+    ivaRate: ivaRate !== null && Number.isFinite(ivaRate) ? ivaRate : null,
+    lineTotal
+  };
+}
+
+// Impuestos del encabezado de la factura por código DIAN
+function taxAmount(root: XmlElement, schemeId: string): number {
+  return root.children
+    .filter(child => child.name === 'TaxTotal' && textAt(child, 'TaxSubtotal/TaxCategory/TaxScheme/ID') === schemeId)
+    .reduce((sum, total) => sum + amountAt(total, 'TaxAmount'), 0);
+}
+
+/**
+ * Lee una factura electrónica: acepta el AttachedDocument que envía el
+ * proveedor o directamente el Invoice.
+ * @throws UblParseError si el XML no es una factura electrónica
+ */
+export function parseUblInvoice(xml: string): UblInvoice {
+  let root = parseXml(xml.replace(/^\uFEFF/, ''));
+  if (root.name === 'AttachedDocument') {
+    const embedded = textAt(root, 'Attachment/ExternalReference/Description');
+    if (!embedded) throw new UblParseError('El AttachedDocument no trae la factura embebida');
+    root = parseXml(embedded);
+  }
+  if (root.name !== 'Invoice') {
+    throw new UblParseError(`El documento es un ${root.name}; solo se admiten facturas electrónicas (Invoice)`);
+  }
+
+  const id = textAt(root, 'ID');
+  const control = findDescendant(root, 'InvoiceControl');
+  const authorizedPrefix = textAt(control, 'AuthorizedInvoices/Prefix');
+  const prefix = authorizedPrefix && id.startsWith(authorizedPrefix) ? authorizedPrefix : '';
+  const party = findElement(root, 'AccountingSupplierParty/Party');
+  const companyId = findElement(party, 'PartyTaxScheme/CompanyID') ?? findElement(party, 'PartyLegalEntity/CompanyID');
+
+  const lines = root.children.filter(child => child.name === 'InvoiceLine').map(parseInvoiceLine);
+  if (!id || lines.length === 0) throw new UblParseError('La factura electrónica no trae número o líneas');
+  const nit = (companyId?.text.trim() ?? '').replace(/\D/g, '');
+  const issueDate = textAt(root, 'IssueDate');
+  const payableAmount = amountAt(root, 'LegalMonetaryTotal/PayableAmount');
+
+  return {
+    id,
+    prefix,
+    number: id.slice(prefix.length),
+    cufe: textAt(root, 'UUID'),
+    issueDate,
+    dueDate: textAt(root, 'DueDate') || textAt(root, 'PaymentMeans/PaymentDueDate') || null,
+    currency: textAt(root, 'DocumentCurrencyCode') || 'COP',
+    supplier: {
+      nit,
+      dv: companyId?.attributes.schemeID ?? '',
+      name: textAt(party, 'PartyTaxScheme/RegistrationName') || textAt(party, 'PartyName/Name')
+    },
+    lines,
+    taxExclusiveAmount: amountAt(root, 'LegalMonetaryTotal/TaxExclusiveAmount'),
+    payableAmount,
+    cufeFields: {
+      number: id,
+      issueDate,
+      issueTime: textAt(root, 'IssueTime'),
+      subtotal: amountAt(root, 'LegalMonetaryTotal/LineExtensionAmount'),
+      taxes: {
+        iva: taxAmount(root, CUFE_TAX_CODES.iva),
+        inc: taxAmount(root, CUFE_TAX_CODES.inc),
+        ica: taxAmount(root, CUFE_TAX_CODES.ica)
+      },
+      total: payableAmount,
+      supplierNit: nit,
+      customerId: textAt(root, 'AccountingCustomerParty/Party/PartyTaxScheme/CompanyID'),
+      environment: textAt(root, 'ProfileExecutionID')
+    }
+  };
+}
+
+export type UblMatchStatus = 'matched' | 'not_found';
+
+export interface UblCatalogMatch {
+  status: UblMatchStatus;
+  codigo: string | null;
+  nombre: string | null;
+}
+
+// Factura leída y su cruce con los catálogos de proveedores y productos
+export interface ElectronicInvoicePrefill {
+  invoice: UblInvoice;
+  supplier: UblCatalogMatch;
+  /** En el mismo orden de invoice.lines */
+  lines: UblCatalogMatch[];
+}
+
+export type PrefillFieldStatus = UblMatchStatus | 'read' | 'missing';
+
+export interface PrefillField {
+  label: string;
+  value: string;
+  status: PrefillFieldStatus;
+}
+
+/** Campos del formulario llenados desde la factura, con el resultado del cruce de cada uno */
+export function prefillFields({ invoice, supplier, lines }: ElectronicInvoicePrefill): PrefillField[] {
+  const readOrMissing = (label: string, value: string): PrefillField => ({ label, value, status: value ? 'read' : 'missing' });
+  return [
+    {
+      label: 'Proveedor',
+      value: supplier.status === 'matched'
+        ? `${supplier.nombre} (${supplier.codigo})`
+        : `NIT ${invoice.supplier.nit} (${invoice.supplier.name}) no está en proveedores`,
+      status: supplier.status
+    },
+    readOrMissing('Prefijo', invoice.prefix),
+    readOrMissing('Número', invoice.number),
+    readOrMissing('CUFE', invoice.cufe),
+    readOrMissing('Fecha', invoice.issueDate),
+    readOrMissing('Moneda', invoice.currency),
+    ...invoice.lines.map((line, index): PrefillField => ({
+      label: `Ítem ${index + 1}`,
+      value: lines[index]?.status === 'matched'
+        ? `${lines[index].codigo} - ${lines[index].nombre}`
+        : `${line.code || 'sin código'} - ${line.description} no está en productos`,
+      status: lines[index]?.status ?? 'not_found'
+    }))
+  ];
+}
+
+/**
+ * Ítems del formulario a partir de las líneas de la factura. El IVA se toma del
+ * catálogo de Siigo por porcentaje; si el producto no está en el catálogo se
+ * deja el código del proveedor para corregirlo.
+ */
+export function prefillItems(prefill: ElectronicInvoicePrefill, taxes: SiigoTaxCatalogItem[]): InvoiceItem[] {
+  const { iva } = groupTaxesByKind(taxes);
+  return prefill.invoice.lines.map((line, index) => {
+    const match = prefill.lines[index];
+    const ivaTax = line.ivaRate ? iva.find(tax => Math.abs(Number(tax.percentage) - Number(line.ivaRate)) < 0.0001) : undefined;
+    return {
+      id: `ubl-${index + 1}`,
+      type: 'product',
+      code: match?.status === 'matched' && match.codigo ? match.codigo : line.code,
+      description: line.description || match?.nombre || line.code,
+      quantity: line.quantity,
+      price: Math.round(line.unitPrice * 100) / 100,
+      warehouse: '1',
+      taxIds: ivaTax ? [ivaTax.id] : [],
+      withholdingConcept: defaultConceptForItemType('product'),
+      ...(line.discount > 0 && { discount: { value: line.discount } })
+    };
+  });
+}
@@ -0,0 +1,162 @@
+import type { SiigoTaxCatalogItem, WithholdingConcept } from '@/types/siigo';
+import type { DocumentTypeSiigo } from './document-types';
+import { FiscalParameters, uvtToPesos } from './fiscal-parameters';
+
+/*
+ * Motor de retenciones de compras: decide qué retefuente, ReteIVA y ReteICA
+ * aplican a cada línea según el régimen del proveedor, si declara renta, el concepto, el
+ * municipio y los parámetros fiscales del año (UVT, tarifas y bases mínimas),
+ * y las traduce a impuestos del catálogo de Siigo para enviarlas como
+ * cualquier otro impuesto de la línea.
+ */
+
+export type SupplierTaxRegime =
+  | 'responsable_iva'
+  | 'no_responsable_iva'
+  | 'gran_contribuyente'
+  | 'autorretenedor'
+  | 'regimen_simple';
+
+interface SupplierTaxRegimeRule {
+  id: SupplierTaxRegime;
+  name: string;
+  retefuente: boolean;
+  reteiva: boolean;
+  reteica: boolean;
+}
+
+export const SUPPLIER_TAX_REGIMES: SupplierTaxRegimeRule[] = [
+  { id: 'responsable_iva', name: 'Responsable de IVA', retefuente: true, reteiva: true, reteica: true },
+  { id: 'no_responsable_iva', name: 'Persona natural no responsable de IVA', retefuente: true, reteiva: false, reteica: true },
+  // Entre agentes retenedores no se practica ReteIVA al gran contribuyente
+  { id: 'gran_contribuyente', name: 'Gran contribuyente', retefuente: true, reteiva: false, reteica: true },
+  { id: 'autorretenedor', name: 'Autorretenedor', retefuente: false, reteiva: true, reteica: true },
+  // El SIMPLE no está sujeto a retención en la fuente y el ICA se paga dentro del impuesto unificado
+  { id: 'regimen_simple', name: 'Régimen Simple de Tributación', retefuente: false, reteiva: true, reteica: false }
+];
+
+// Conceptos que se eligen en cada línea; las tarifas y bases vienen de los parámetros fiscales del año
+export const WITHHOLDING_CONCEPTS: Array<{ id: WithholdingConcept; name: string }> = [
+  { id: 'compras', name: 'Compras' },
+  { id: 'servicios', name: 'Servicios' },
+  { id: 'honorarios', name: 'Honorarios' },
+  { id: 'arrendamientos', name: 'Arrendamientos' }
+];
+
+export interface WithholdingLine {
+  /** Base gravable de la línea (cantidad × precio − descuento) */
+  base: number;
+  /** IVA de la línea, base de la ReteIVA */
+  iva: number;
+  concept: WithholdingConcept | null | undefined;
+}
+
+export interface WithholdingContext {
+  regime: SupplierTaxRegime;
+  /**
+   * Persona natural que no declara renta: se usa la tarifa de retefuente de no
+   * declarantes. Es independiente del régimen de IVA.
+   */
+  nonDeclarant?: boolean;
+  /**
+   * Pesos por unidad de la moneda de la factura. Las bases mínimas están en UVT,
+   * es decir en pesos; sin tasa las líneas se toman como pesos.
+   */
+  exchangeRate?: number | null;
+  /** Código DANE del municipio donde se practica la ReteICA */
+  cityCode?: string | null;
+  parameters: FiscalParameters;
+  documentType?: Partial<Pick<DocumentTypeSiigo, 'reteiva' | 'reteica'>> | null;
+}
+
+export interface WithholdingSummaryLine {
+  type: 'Retefuente' | 'ReteIVA' | 'ReteICA';
+  concept: WithholdingConcept;
+  /** Tarifa en porcentaje */
+  rate: number;
+  base: number;
+  value: number;
+  tax: SiigoTaxCatalogItem;
+}
+
+export interface WithholdingResult {
+  /** Ids de retenciones del catálogo por línea, en el mismo orden de entrada */
+  taxIds: number[][];
+  summary: WithholdingSummaryLine[];
+  /** Retenciones que aplican pero no existen en el catálogo de Siigo */
+  warnings: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sameRate = (a: number, b: number) => Math.abs(a - b) < 0.0001;
+
+function findRetentionTax(catalog: SiigoTaxCatalogItem[], type: WithholdingSummaryLine['type'], rate: number) {
+  return catalog.find(tax => tax.active !== false && tax.type === type && sameRate(Number(tax.percentage), rate));
+}
+
+/** Concepto sugerido para una línea nueva según su tipo */
+export function defaultConceptForItemType(type: string): WithholdingConcept {
+  return type === 'contable' ? 'servicios' : 'compras';
+}
+
+/**
+ * Calcula las retenciones de la factura. Las bases mínimas se comparan contra
+ * el total de la factura por concepto convertido a pesos, no contra cada línea,
+ * y las retenciones que aplican se asignan a todas las líneas de ese concepto.
+ * Las bases y valores del resultado quedan en la moneda de la factura.
+ */
+export function calculateWithholdings(
+  lines: WithholdingLine[],
+  context: WithholdingContext,
+  catalog: SiigoTaxCatalogItem[]
+): WithholdingResult {
+  const regime = SUPPLIER_TAX_REGIMES.find(rule => rule.id === context.regime) ?? SUPPLIER_TAX_REGIMES[0];
+  const { parameters } = context;
+  const exchangeRate = context.exchangeRate && context.exchangeRate > 0 ? context.exchangeRate : 1;
+  const municipality = parameters.icaMunicipalities.find(m => m.cityCode === context.cityCode);
+  const taxIds: number[][] = lines.map(() => []);
+  const summary = new Map<number, WithholdingSummaryLine>();
+  const warnings = new Set<string>();
+
+  const apply = (index: number, type: WithholdingSummaryLine['type'], concept: WithholdingConcept, rate: number, base: number) => {
+    if (base <= 0 || rate <= 0) return;
+    const tax = findRetentionTax(catalog, type, rate);
+    if (!tax) {
+      warnings.add(`No existe en Siigo una retención ${type} del ${rate.toLocaleString('es-CO')}%`);
+      return;
+    }
+    taxIds[index].push(tax.id);
+    const current = summary.get(tax.id);
+    summary.set(tax.id, {
+      type,
+      concept,
+      rate,
+      tax,
+      base: round2((current?.base || 0) + base),
+      value: round2((current?.value || 0) + base * rate / 100)
+    });
+  };
+
+  parameters.withholdingRates.forEach(conceptRule => {
+    const indexes = lines.map((line, index) => line.concept === conceptRule.concept ? index : -1).filter(index => index >= 0);
+    const conceptBase = indexes.reduce((sum, index) => sum + lines[index].base, 0);
+    if (indexes.length === 0 || conceptBase * exchangeRate < uvtToPesos(conceptRule.minUvt, parameters)) return;
+
+    indexes.forEach(index => {
+      const line = lines[index];
+      if (regime.retefuente) {
+        apply(index, 'Retefuente', conceptRule.concept, context.nonDeclarant ? conceptRule.nonDeclarantRate : conceptRule.rate, line.base);
+      }
+      if (regime.reteiva && context.documentType?.reteiva !== false) {
+        apply(index, 'ReteIVA', conceptRule.concept, parameters.reteivaRate, line.iva);
+      }
+      if (regime.reteica && municipality && context.documentType?.reteica !== false) {
+        // El catálogo de Siigo expresa la ReteICA en porcentaje: 9,66 por mil = 0,966%
+        apply(index, 'ReteICA', conceptRule.concept, municipality.rates[conceptRule.concept] / 10, line.base);
+      }
+    });
+  });
+
+  return { taxIds, summary: Array.from(summary.values()), warnings: Array.from(warnings) };
+}
@@ -27,3 +27,250 @@ export const loginSchema = z.object({
 
 export type RegisterFormData = z.infer<typeof registerSchema>;
 export type LoginFormData = z.infer<typeof loginSchema>;
+
+// Compras en Siigo (ver SiigoPurchaseRequest en types/siigo.ts)
+const siigoPurchaseItemSchema = z.object({
+  type: z.enum(['Product', 'Service', 'FixedAsset', 'Account'], {
+    errorMap: () => ({ message: 'Tipo de ítem inválido' })
+  }),
+  code: z.string().trim().min(1, 'El código del ítem es requerido'),
+  description: z.string().trim().min(1, 'La descripción del ítem es requerida'),
+  quantity: z.number().positive('La cantidad debe ser mayor a 0'),
+  price: z.number().nonnegative('El precio no puede ser negativo'),
+  discount: z.number().nonnegative('El descuento no puede ser negativo').optional(),
+  taxes: z.array(z.object({ id: z.number().int().positive() })).optional(),
+  warehouse: z.number().int().positive().optional()
+});
+
+const siigoPaymentSchema = z.object({
+  id: z.number().int().positive('La forma de pago es requerida'),
+  value: z.number().positive('El valor del pago debe ser mayor a 0'),
+  due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'La fecha de vencimiento debe tener formato YYYY-MM-DD')
+});
+
+export const siigoPurchaseSchema = z.object({
+  document: z.object({
+    id: z.number().int().positive('El tipo de documento es requerido')
+  }),
+  number: z.number().int().positive('El número del documento debe ser mayor a 0').optional(),
+  purchase: z.string().trim().min(1, 'La compra de referencia es requerida').optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'La fecha debe tener formato YYYY-MM-DD'),
+  supplier: z.object({
+    identification: z.string().trim().min(1, 'La identificación del proveedor es requerida'),
+    branch_office: z.number().int().nonnegative()
+  }),
+  cost_center: z.number().int().positive().optional(),
+  provider_invoice: z.object({
+    prefix: z.string().trim(),
+    number: z.string().trim().min(1, 'El número de factura del proveedor es requerido'),
+    // SHA-384 en hexadecimal (ver lib/siigo/cufe.ts)
+    cufe: z.string().trim()
+      .refine(cufe => cufe === '' || /^[0-9a-f]{96}$/i.test(cufe), 'El CUFE debe tener 96 caracteres hexadecimales')
+      .optional()
+  }).optional(),
+  currency: z.object({
+    code: z.string().length(3, 'El código de moneda debe tener 3 letras'),
+    exchange_rate: z.number().positive('La tasa de cambio debe ser mayor a 0')
+  }).optional(),
+  observations: z.string().max(4000).optional(),
+  discount_type: z.enum(['Value', 'Percentage']).optional(),
+  supplier_by_item: z.boolean().optional(),
+  tax_included: z.boolean().optional(),
+  items: z.array(siigoPurchaseItemSchema).min(1, 'Debe agregar al menos un ítem'),
+  payments: z.array(siigoPaymentSchema).min(1, 'Debe registrar al menos un pago'),
+  warehouse: z.string().optional()
+});
+
+export type SiigoPurchaseFormData = z.infer<typeof siigoPurchaseSchema>;
+
+const supportDocumentSupplierFields = z.object({
+  idType: z.enum(['13', '22', '31', '41', '42', '47', '48'], {
+    errorMap: () => ({ message: 'El tipo de identificación no es válido' })
+  }),
+  identification: z.string().trim().regex(/^[0-9A-Za-z]{3,20}$/, 'La identificación debe tener entre 3 y 20 caracteres alfanuméricos'),
+  firstName: z.string().trim().min(1, 'El nombre o razón social es requerido').max(100),
+  lastName: z.string().trim().max(100),
+  address: z.string().trim().min(1, 'La dirección es requerida').max(100),
+  cityCode: z.string().trim().regex(/^\d{5}$/, 'La ciudad debe tener código DANE de 5 dígitos'),
+  phone: z.string().trim().max(20).optional(),
+  email: z.string().trim().email('El correo no es válido').optional().or(z.literal(''))
+});
+
+const requiresLastName = (supplier: { idType: string; lastName: string }) =>
+  supplier.idType === '31' || supplier.lastName.length > 0;
+
+// Datos DIAN del proveedor para el documento soporte (ver SupportDocumentSupplier en types/siigo.ts)
+export const supportDocumentSupplierSchema = supportDocumentSupplierFields.refine(
+  requiresLastName,
+  { message: 'El apellido es requerido para personas naturales', path: ['lastName'] }
+);
+
+// Cuerpo de /api/siigo/compras cuando el tipo de documento es soporte
+export const supportDocumentBodySchema = z.object({
+  support_supplier: supportDocumentSupplierSchema
+});
+
+// Cuerpo de /api/siigo/compras para registrar una factura que ya existe (ver lib/siigo/duplicates.ts)
+export const duplicateOverrideBodySchema = z.object({
+  duplicate_override: z.object({
+    reason: z.string().trim().min(10, 'Explique en al menos 10 caracteres por qué se registra de nuevo la factura').max(500)
+  }).optional()
+});
+
+// Datos del XML de la factura para recalcular el CUFE al registrar la compra (ver CufeFields en lib/siigo/cufe.ts)
+export const cufeVerificationBodySchema = z.object({
+  cufe_verification: z.object({
+    fields: z.object({
+      number: z.string().trim(),
+      issueDate: z.string().trim(),
+      issueTime: z.string().trim(),
+      subtotal: z.number(),
+      taxes: z.object({ iva: z.number(), inc: z.number(), ica: z.number() }),
+      total: z.number(),
+      supplierNit: z.string().trim(),
+      customerId: z.string().trim(),
+      environment: z.string().trim()
+    }),
+    technical_key: z.string().trim().max(255).optional()
+  }).optional()
+});
+
+// Borrador del formulario de facturas (ver lib/siigo/purchase-drafts.ts)
+export const purchaseDraftSchema = z.object({
+  summary: z.object({
+    providerName: z.string().max(255),
+    providerInvoice: z.string().max(100),
+    itemsCount: z.number().int().nonnegative(),
+    total: z.number().finite(),
+    currency: z.string().length(3)
+  }),
+  state: z.record(z.unknown())
+});
+
+// Borrador que se convierte en compra al enviarla a Siigo
+export const purchaseDraftReferenceSchema = z.object({
+  draft_id: z.string().uuid().optional()
+});
+
+// Lote de la carga masiva; request es null para las facturas con errores (ver lib/siigo/bulk-purchases.ts)
+export const bulkPurchaseSubmissionSchema = z.object({
+  purchases: z.array(z.object({
+    reference: z.string().trim().min(1, 'La referencia de la factura es requerida'),
+    request: siigoPurchaseSchema.nullable()
+  })).min(1, 'No hay facturas para enviar').max(100, 'El lote admite máximo 100 facturas')
+});
+
+// Reenvío de una llamada fallida desde la bitácora de Siigo (ver lib/siigo/audit.ts)
+export const siigoAuditReplaySchema = z.object({
+  id: z.number().int().positive('El registro de la bitácora es requerido')
+});
+
+// Reintento o cancelación de una compra de la cola de envíos (ver lib/siigo/outbox.ts)
+export const siigoOutboxItemSchema = z.object({
+  id: z.number().int().positive('La compra de la cola es requerida')
+});
+
+// Plazos de pago preferidos de un proveedor (ver PaymentInstallment en lib/siigo/payments.ts)
+export const supplierPaymentTermsSchema = z.object({
+  codigo: z.string().trim().min(1, 'El código del proveedor es requerido'),
+  paymentTypeId: z.number().int().positive('La forma de pago es requerida'),
+  installments: z.array(z.object({
+    days: z.number().int().nonnegative('Los días no pueden ser negativos'),
+    percentage: z.number().positive('El porcentaje debe ser mayor a 0').max(100)
+  })).min(1, 'Debe definir al menos una cuota')
+    .refine(
+      (installments) => Math.abs(installments.reduce((sum, i) => sum + i.percentage, 0) - 100) < 0.01,
+      'Los porcentajes de las cuotas deben sumar 100'
+    )
+});
+
+export type SupplierPaymentTermsFormData = z.infer<typeof supplierPaymentTermsSchema>;
+
+// Recibo de pago a proveedor (ver PaymentReceiptDraft en lib/siigo/payment-receipts.ts)
+export const paymentReceiptSchema = z.object({
+  documentId: z.number().int().positive('El tipo de documento es requerido'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'La fecha debe tener formato YYYY-MM-DD'),
+  supplierIdentification: z.string().trim().min(1, 'El proveedor es requerido'),
+  paymentTypeId: z.number().int().positive('La cuenta de pago es requerida'),
+  method: z.enum(['transferencia', 'cheque', 'consignacion', 'efectivo', 'tarjeta'], {
+    errorMap: () => ({ message: 'El medio de pago no es válido' })
+  }),
+  observations: z.string().max(4000).optional(),
+  allocations: z.array(z.object({
+    purchaseId: z.string().trim().min(1),
+    quote: z.number().int().positive('La cuota no es válida'),
+    value: z.number().positive('El valor abonado debe ser mayor a 0')
+  })).min(1, 'Debe abonar al menos una compra')
+});
+
+export type PaymentReceiptFormData = z.infer<typeof paymentReceiptSchema>;
+
+// Parámetros fiscales de un año (ver FiscalParameters en lib/siigo/fiscal-parameters.ts)
+const withholdingConceptSchema = z.enum(['compras', 'servicios', 'honorarios', 'arrendamientos']);
+const percentageSchema = z.number().min(0, 'Las tarifas no pueden ser negativas').max(100, 'Las tarifas no pueden superar 100');
+
+export const fiscalParametersSchema = z.object({
+  year: z.number().int().min(2000, 'El año no es válido').max(2100, 'El año no es válido'),
+  uvt: z.number().positive('La UVT debe ser mayor a 0'),
+  reteivaRate: percentageSchema,
+  withholdingRates: z.array(z.object({
+    concept: withholdingConceptSchema,
+    minUvt: z.number().min(0, 'La base mínima no puede ser negativa'),
+    rate: percentageSchema,
+    nonDeclarantRate: percentageSchema
+  })).refine(
+    rates => new Set(rates.map(rate => rate.concept)).size === rates.length,
+    'Cada concepto de retención debe aparecer una sola vez'
+  ),
+  icaMunicipalities: z.array(z.object({
+    cityCode: z.string().trim().regex(/^\d{5}$/, 'El código DANE del municipio debe tener 5 dígitos'),
+    name: z.string().trim().min(1, 'El nombre del municipio es requerido'),
+    rates: z.record(withholdingConceptSchema, z.number().min(0).max(1000, 'La tarifa de ReteICA se expresa en por mil'))
+  })).refine(
+    municipalities => new Set(municipalities.map(m => m.cityCode)).size === municipalities.length,
+    'Cada municipio debe aparecer una sola vez'
+  )
+});
+
+export type FiscalParametersFormData = z.infer<typeof fiscalParametersSchema>;
+
+// Carga de tasas de cambio desde CSV (ver parseExchangeRateCsv en lib/siigo/exchange-rates.ts)
+export const exchangeRateImportSchema = z.object({
+  csv: z.string().min(1, 'El archivo CSV está vacío').max(5_000_000, 'El archivo CSV es demasiado grande'),
+  currency: z.string().trim().regex(/^[A-Za-z]{3}$/, 'El código de moneda debe tener 3 letras'),
+  fileName: z.string().max(255).optional()
+});
+
+// Empresa con sus credenciales de Siigo (ver lib/siigo/companies.ts)
+const companyIdSchema = z.string().trim()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/, 'El identificador de la empresa solo admite letras, números, guiones y guion bajo');
+
+export const companySchema = z.object({
+  id: companyIdSchema,
+  name: z.string().trim().min(1, 'El nombre de la empresa es requerido').max(255),
+  nit: z.string().trim().regex(/^\d{5,15}(-\d)?$/, 'El NIT no es válido').nullable().optional(),
+  siigoUsername: z.string().trim().max(255).nullable().optional(),
+  // Vacía para conservar la guardada
+  siigoAccessKey: z.string().max(500).nullable().optional(),
+  partnerId: z.string().trim().max(100).nullable().optional(),
+  active: z.boolean()
+});
+
+export type CompanyFormData = z.infer<typeof companySchema>;
+
+// Empresa elegida en el selector del encabezado
+export const activeCompanySchema = z.object({
+  companyId: companyIdSchema
+});
+
+// Proveedor nuevo para crear en Siigo desde /proveedores (ver SupplierInput en lib/siigo/suppliers.ts)
+export const siigoSupplierSchema = supportDocumentSupplierFields.extend({
+  commercialName: z.string().trim().max(100).optional(),
+  vatResponsible: z.boolean().default(false),
+  fiscalResponsibilities: z.array(z.string().trim().regex(/^[OR]-\d{2}(-PN)?$/, 'La responsabilidad fiscal no es válida')).max(10).default([])
+}).refine(
+  requiresLastName,
+  { message: 'El apellido es requerido para personas naturales', path: ['lastName'] }
+);
+
+export type SiigoSupplierFormData = z.infer<typeof siigoSupplierSchema>;
@@ -7,7 +7,12 @@ const protectedRoutes = [
   '/admin',
   '/facturacion',
   '/billing',
-  '/facturas'
+  '/facturas',
+  '/recibos-pago',
+  '/borradores',
+  '/carga-masiva',
+  '/cola-envios',
+  '/proveedores'
 ];
 
 // Auth routes that should redirect if already logged in
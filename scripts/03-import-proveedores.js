@@ -7,6 +7,9 @@ import { fileURLToPath } from "url"
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
+// Los proveedores se importan al catálogo de la empresa por defecto (ver scripts/24-scope-catalogs-by-company.sql)
+const companyId = process.env.SIIGO_COMPANY_ID || "default"
+
 console.log("🚀 Iniciando importación de proveedores desde Excel...")
 
 try {
@@ -48,12 +51,15 @@ try {
     await client.query(`
       CREATE TABLE proveedores (
         id SERIAL PRIMARY KEY,
-        codigo VARCHAR(50) UNIQUE NOT NULL,
+        company_id VARCHAR(100) NOT NULL,
+        codigo VARCHAR(50) NOT NULL,
         nombre VARCHAR(255) NOT NULL,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
       
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_proveedores_company_codigo ON proveedores(company_id, codigo);
+      
       CREATE INDEX IF NOT EXISTS idx_proveedores_codigo ON proveedores(codigo);
       CREATE INDEX IF NOT EXISTS idx_proveedores_nombre ON proveedores(nombre);
     `)
@@ -73,13 +79,13 @@ try {
     if (codigo && nombre) {
       try {
         const result = await client.query(
-          `INSERT INTO proveedores (codigo, nombre) 
-           VALUES ($1, $2) 
-           ON CONFLICT (codigo) DO UPDATE SET 
+          `INSERT INTO proveedores (company_id, codigo, nombre) 
+           VALUES ($1, $2, $3) 
+           ON CONFLICT (company_id, codigo) DO UPDATE SET 
            nombre = EXCLUDED.nombre,
            updated_at = CURRENT_TIMESTAMP
            RETURNING (xmax = 0) AS inserted`,
-          [codigo, nombre],
+          [companyId, codigo, nombre],
         )
 
         if (result.rows[0].inserted) {
@@ -10,6 +10,9 @@ dotenv.config();
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Los productos se crean en el catálogo de la empresa por defecto (ver scripts/24-scope-catalogs-by-company.sql)
+const companyId = process.env.SIIGO_COMPANY_ID || 'default';
+
 async function createProductosUnderscore() {
   const client = new Client({
     connectionString: process.env.DATABASE_URL,
@@ -24,12 +27,15 @@ async function createProductosUnderscore() {
     await client.query(`
       CREATE TABLE IF NOT EXISTS productos_ (
         id SERIAL PRIMARY KEY,
-        codigo VARCHAR(50) UNIQUE NOT NULL,
+        company_id VARCHAR(100) NOT NULL,
+        codigo VARCHAR(50) NOT NULL,
         nombre VARCHAR(255) NOT NULL,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
       
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_productos_underscore_company_codigo ON productos_(company_id, codigo);
+      
       CREATE INDEX IF NOT EXISTS idx_productos_underscore_codigo ON productos_(codigo);
       CREATE INDEX IF NOT EXISTS idx_productos_underscore_nombre ON productos_(nombre);
     `);
@@ -50,12 +56,12 @@ async function createProductosUnderscore() {
     for (const producto of productos) {
       try {
         await client.query(
-          `INSERT INTO productos_ (codigo, nombre) 
-           VALUES ($1, $2) 
-           ON CONFLICT (codigo) DO UPDATE SET 
+          `INSERT INTO productos_ (company_id, codigo, nombre) 
+           VALUES ($1, $2, $3) 
+           ON CONFLICT (company_id, codigo) DO UPDATE SET 
            nombre = EXCLUDED.nombre,
            updated_at = CURRENT_TIMESTAMP`,
-          [producto.codigo, producto.nombre]
+          [companyId, producto.codigo, producto.nombre]
         );
         insertados++;
         console.log(`✅ ${insertados}/5 - Insertado: ${producto.codigo} - ${producto.nombre}`);
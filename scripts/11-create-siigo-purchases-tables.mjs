@@ -0,0 +1,42 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createSiigoPurchasesTables() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tablas del espejo de compras de Siigo...');
+    const ddl = readFileSync(join(__dirname, '11-create-siigo-purchases-tables.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tablas siigo_purchases, siigo_purchase_items, siigo_purchase_taxes, siigo_purchase_payments y siigo_sync_state listas');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name LIKE 'siigo_%' ORDER BY table_name
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Ejecuta POST /api/siigo/compras/sync para la primera sincronización');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createSiigoPurchasesTables();
@@ -0,0 +1,89 @@
+-- Script para crear el espejo local de compras de Siigo en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- 1. Compras (una fila por factura de compra de Siigo; raw guarda la respuesta completa)
+CREATE TABLE IF NOT EXISTS siigo_purchases (
+    id VARCHAR(64) PRIMARY KEY,
+    company_id VARCHAR(100) NOT NULL,
+    document_id INTEGER,
+    number INTEGER,
+    name VARCHAR(50),
+    date DATE,
+    supplier_identification VARCHAR(50),
+    supplier_branch_office INTEGER DEFAULT 0,
+    cost_center INTEGER,
+    provider_invoice_prefix VARCHAR(20),
+    provider_invoice_number VARCHAR(50),
+    currency_code VARCHAR(10),
+    exchange_rate NUMERIC(18,6),
+    total NUMERIC(18,2) DEFAULT 0,
+    balance NUMERIC(18,2) DEFAULT 0,
+    observations TEXT,
+    siigo_created_at TIMESTAMPTZ,
+    siigo_updated_at TIMESTAMPTZ,
+    raw JSONB NOT NULL,
+    synced_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Ítems de cada compra
+CREATE TABLE IF NOT EXISTS siigo_purchase_items (
+    id SERIAL PRIMARY KEY,
+    purchase_id VARCHAR(64) NOT NULL REFERENCES siigo_purchases(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    type VARCHAR(20),
+    code VARCHAR(100),
+    description TEXT,
+    quantity NUMERIC(18,4) DEFAULT 0,
+    price NUMERIC(18,4) DEFAULT 0,
+    discount NUMERIC(18,2) DEFAULT 0,
+    total NUMERIC(18,2) DEFAULT 0,
+    UNIQUE (purchase_id, position)
+);
+
+-- 3. Impuestos por ítem
+CREATE TABLE IF NOT EXISTS siigo_purchase_taxes (
+    id SERIAL PRIMARY KEY,
+    purchase_id VARCHAR(64) NOT NULL REFERENCES siigo_purchases(id) ON DELETE CASCADE,
+    item_position INTEGER NOT NULL,
+    tax_id INTEGER,
+    name VARCHAR(100),
+    type VARCHAR(30),
+    percentage NUMERIC(9,4),
+    value NUMERIC(18,2) DEFAULT 0
+);
+
+-- 4. Formas de pago
+CREATE TABLE IF NOT EXISTS siigo_purchase_payments (
+    id SERIAL PRIMARY KEY,
+    purchase_id VARCHAR(64) NOT NULL REFERENCES siigo_purchases(id) ON DELETE CASCADE,
+    payment_id INTEGER,
+    name VARCHAR(100),
+    value NUMERIC(18,2) DEFAULT 0,
+    due_date DATE
+);
+
+-- 5. Estado de la sincronización (marca de agua y progreso por empresa y recurso)
+CREATE TABLE IF NOT EXISTS siigo_sync_state (
+    company_id VARCHAR(100) NOT NULL,
+    resource VARCHAR(50) NOT NULL,
+    watermark TIMESTAMPTZ,
+    status VARCHAR(20) NOT NULL DEFAULT 'idle',
+    run_filter VARCHAR(30),
+    run_since TIMESTAMPTZ,
+    run_max_updated TIMESTAMPTZ,
+    last_page INTEGER NOT NULL DEFAULT 0,
+    synced_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (company_id, resource)
+);
+
+-- 6. Índices para las consultas locales
+CREATE INDEX IF NOT EXISTS idx_siigo_purchases_company_date ON siigo_purchases(company_id, date);
+CREATE INDEX IF NOT EXISTS idx_siigo_purchases_supplier ON siigo_purchases(supplier_identification);
+CREATE INDEX IF NOT EXISTS idx_siigo_purchases_updated ON siigo_purchases(siigo_updated_at);
+CREATE INDEX IF NOT EXISTS idx_siigo_purchase_items_purchase ON siigo_purchase_items(purchase_id);
+CREATE INDEX IF NOT EXISTS idx_siigo_purchase_taxes_purchase ON siigo_purchase_taxes(purchase_id);
+CREATE INDEX IF NOT EXISTS idx_siigo_purchase_payments_purchase ON siigo_purchase_payments(purchase_id);
@@ -0,0 +1,42 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createSiigoCatalogs() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tablas de catálogos de Siigo...');
+    const ddl = readFileSync(join(__dirname, '12-create-siigo-catalogs.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Catálogos de Siigo listos');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name IN ('siigo_taxes', 'siigo_payment_types', 'siigo_cost_centers') ORDER BY table_name
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Los catálogos se llenan en la primera consulta a su API');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createSiigoCatalogs();
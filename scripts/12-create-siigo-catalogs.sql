@@ -0,0 +1,39 @@
+-- Script para crear los catálogos de Siigo sincronizados localmente
+-- Ejecutar este script directamente en la consola de Neon
+
+-- 1. Impuestos (GET /v1/taxes)
+CREATE TABLE IF NOT EXISTS siigo_taxes (
+    company_id VARCHAR(100) NOT NULL,
+    id INTEGER NOT NULL,
+    name VARCHAR(150) NOT NULL,
+    type VARCHAR(30) NOT NULL,
+    percentage NUMERIC(9,4) NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT true,
+    synced_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (company_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_siigo_taxes_type ON siigo_taxes(company_id, type);
+
+-- 2. Formas de pago (GET /v1/payment-types?document_type=FC)
+CREATE TABLE IF NOT EXISTS siigo_payment_types (
+    company_id VARCHAR(100) NOT NULL,
+    id INTEGER NOT NULL,
+    name VARCHAR(150) NOT NULL,
+    type VARCHAR(30),
+    active BOOLEAN NOT NULL DEFAULT true,
+    due_date BOOLEAN NOT NULL DEFAULT false,
+    synced_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (company_id, id)
+);
+
+-- 3. Centros de costo (GET /v1/cost-centers)
+CREATE TABLE IF NOT EXISTS siigo_cost_centers (
+    company_id VARCHAR(100) NOT NULL,
+    id INTEGER NOT NULL,
+    code VARCHAR(50),
+    name VARCHAR(150) NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT true,
+    synced_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (company_id, id)
+);
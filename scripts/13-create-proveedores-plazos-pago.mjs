@@ -0,0 +1,42 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createProveedoresPlazosPago() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tabla proveedores_plazos_pago...');
+    const ddl = readFileSync(join(__dirname, '13-create-proveedores-plazos-pago.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tabla proveedores_plazos_pago creada exitosamente');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name = 'proveedores_plazos_pago'
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Los plazos se guardan desde el formulario de facturas');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createProveedoresPlazosPago();
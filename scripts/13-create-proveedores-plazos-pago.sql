@@ -0,0 +1,16 @@
+-- Script para crear la tabla de plazos de pago por proveedor en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- 1. Plazo preferido de cada proveedor en cada empresa: forma de pago de la cuenta de Siigo
+--    de la empresa y cuotas [{ days, percentage }]
+CREATE TABLE IF NOT EXISTS proveedores_plazos_pago (
+    company_id VARCHAR(100) NOT NULL,
+    proveedor_codigo VARCHAR(50) NOT NULL,
+    payment_type_id INTEGER NOT NULL,
+    cuotas JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proveedores_plazos_pago_company_codigo
+    ON proveedores_plazos_pago(company_id, proveedor_codigo);
@@ -0,0 +1,43 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createSiigoPaymentReceipts() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tablas de recibos de pago...');
+    const ddl = readFileSync(join(__dirname, '14-create-siigo-payment-receipts.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tablas de recibos de pago creadas exitosamente');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name IN ('siigo_payment_receipts', 'siigo_payment_receipt_items')
+      ORDER BY table_name
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Los recibos se crean desde /recibos-pago');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createSiigoPaymentReceipts();
@@ -0,0 +1,37 @@
+-- Script para crear los recibos de pago a proveedores (RP) en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- 1. Las formas de pago se sincronizan por tipo de documento (FC para compras, RP para las cuentas de pago)
+ALTER TABLE siigo_payment_types ADD COLUMN IF NOT EXISTS document_type VARCHAR(5) NOT NULL DEFAULT 'FC';
+ALTER TABLE siigo_payment_types DROP CONSTRAINT IF EXISTS siigo_payment_types_pkey;
+ALTER TABLE siigo_payment_types ADD PRIMARY KEY (company_id, document_type, id);
+
+-- 2. Recibos de pago creados desde la aplicación (raw guarda la respuesta de Siigo)
+CREATE TABLE IF NOT EXISTS siigo_payment_receipts (
+    id VARCHAR(64) PRIMARY KEY,
+    company_id VARCHAR(100) NOT NULL,
+    document_id INTEGER,
+    number INTEGER,
+    name VARCHAR(50),
+    date DATE NOT NULL,
+    supplier_identification VARCHAR(50) NOT NULL,
+    payment_type_id INTEGER NOT NULL,
+    payment_method VARCHAR(30) NOT NULL,
+    total NUMERIC(18,2) NOT NULL,
+    observations TEXT,
+    created_by VARCHAR(255),
+    raw JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 3. Valor abonado a cada compra
+CREATE TABLE IF NOT EXISTS siigo_payment_receipt_items (
+    id SERIAL PRIMARY KEY,
+    receipt_id VARCHAR(64) NOT NULL REFERENCES siigo_payment_receipts(id) ON DELETE CASCADE,
+    purchase_id VARCHAR(64) NOT NULL,
+    value NUMERIC(18,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_siigo_payment_receipts_supplier ON siigo_payment_receipts(company_id, supplier_identification);
+CREATE INDEX IF NOT EXISTS idx_siigo_payment_receipt_items_purchase ON siigo_payment_receipt_items(purchase_id);
+CREATE INDEX IF NOT EXISTS idx_siigo_purchases_open ON siigo_purchases(company_id, supplier_identification) WHERE balance > 0;
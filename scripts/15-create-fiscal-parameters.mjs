@@ -0,0 +1,41 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createFiscalParameters() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tablas de parámetros fiscales...');
+    const ddl = readFileSync(join(__dirname, '15-create-fiscal-parameters.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tablas de parámetros fiscales creadas exitosamente');
+
+    const result = await client.query(`
+      SELECT year, uvt, reteiva_rate FROM fiscal_parameters ORDER BY year
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Los parámetros se administran en /administracion/parametros-fiscales');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createFiscalParameters();
@@ -0,0 +1,65 @@
+-- Script para crear las tablas de parámetros fiscales por año en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- 1. Parámetros generales del año gravable
+CREATE TABLE IF NOT EXISTS fiscal_parameters (
+    year INTEGER PRIMARY KEY,
+    uvt NUMERIC(12,2) NOT NULL CHECK (uvt > 0),
+    reteiva_rate NUMERIC(6,3) NOT NULL,
+    updated_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Retención en la fuente por concepto: base mínima en UVT y tarifas (%)
+CREATE TABLE IF NOT EXISTS fiscal_withholding_rates (
+    year INTEGER NOT NULL REFERENCES fiscal_parameters(year) ON DELETE CASCADE,
+    concept VARCHAR(30) NOT NULL,
+    min_uvt NUMERIC(8,2) NOT NULL DEFAULT 0,
+    rate NUMERIC(6,3) NOT NULL,
+    non_declarant_rate NUMERIC(6,3) NOT NULL,
+    PRIMARY KEY (year, concept)
+);
+
+-- 3. Tarifas de ReteICA por municipio (código DANE) y concepto, en por mil
+CREATE TABLE IF NOT EXISTS fiscal_ica_rates (
+    year INTEGER NOT NULL REFERENCES fiscal_parameters(year) ON DELETE CASCADE,
+    city_code VARCHAR(10) NOT NULL,
+    city_name VARCHAR(100) NOT NULL,
+    concept VARCHAR(30) NOT NULL,
+    rate_per_mil NUMERIC(6,3) NOT NULL,
+    PRIMARY KEY (year, city_code, concept)
+);
+
+-- 4. Valores iniciales (UVT según resoluciones DIAN); luego se administran desde /administracion/parametros-fiscales
+INSERT INTO fiscal_parameters (year, uvt, reteiva_rate, updated_by) VALUES
+    (2024, 47065, 15, 'script'),
+    (2025, 49799, 15, 'script'),
+    (2026, 52374, 15, 'script')
+ON CONFLICT (year) DO NOTHING;
+
+INSERT INTO fiscal_withholding_rates (year, concept, min_uvt, rate, non_declarant_rate)
+SELECT y.year, c.concept, c.min_uvt, c.rate, c.non_declarant_rate
+FROM (VALUES (2024), (2025), (2026)) AS y(year)
+CROSS JOIN (VALUES
+    ('compras', 27, 2.5, 3.5),
+    ('servicios', 4, 4, 6),
+    ('honorarios', 0, 11, 10),
+    ('arrendamientos', 27, 3.5, 3.5)
+) AS c(concept, min_uvt, rate, non_declarant_rate)
+ON CONFLICT (year, concept) DO NOTHING;
+
+INSERT INTO fiscal_ica_rates (year, city_code, city_name, concept, rate_per_mil)
+SELECT y.year, r.city_code, r.city_name, r.concept, r.rate_per_mil
+FROM (VALUES (2024), (2025), (2026)) AS y(year)
+CROSS JOIN (VALUES
+    ('11001', 'Bogotá D.C.', 'compras', 4.14), ('11001', 'Bogotá D.C.', 'servicios', 9.66),
+    ('11001', 'Bogotá D.C.', 'honorarios', 9.66), ('11001', 'Bogotá D.C.', 'arrendamientos', 9.66),
+    ('05001', 'Medellín', 'compras', 5), ('05001', 'Medellín', 'servicios', 10),
+    ('05001', 'Medellín', 'honorarios', 10), ('05001', 'Medellín', 'arrendamientos', 10),
+    ('76001', 'Cali', 'compras', 3.3), ('76001', 'Cali', 'servicios', 10),
+    ('76001', 'Cali', 'honorarios', 10), ('76001', 'Cali', 'arrendamientos', 10),
+    ('08001', 'Barranquilla', 'compras', 4), ('08001', 'Barranquilla', 'servicios', 8),
+    ('08001', 'Barranquilla', 'honorarios', 8), ('08001', 'Barranquilla', 'arrendamientos', 8)
+) AS r(city_code, city_name, concept, rate_per_mil)
+ON CONFLICT (year, city_code, concept) DO NOTHING;
@@ -0,0 +1,41 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createExchangeRates() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tabla exchange_rates y totales en pesos...');
+    const ddl = readFileSync(join(__dirname, '16-create-exchange-rates.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tabla exchange_rates creada exitosamente');
+
+    const result = await client.query(`
+      SELECT currency_code, COUNT(*) AS tasas, MAX(rate_date) AS ultima FROM exchange_rates GROUP BY currency_code
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Cargue el CSV de la TRM en /administracion/parametros-fiscales');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createExchangeRates();
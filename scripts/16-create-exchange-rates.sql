@@ -0,0 +1,23 @@
+-- Script para crear el histórico de tasas de cambio y los totales en pesos de las compras en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- 1. Tasas diarias (TRM para USD) cargadas desde CSV
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    currency_code VARCHAR(3) NOT NULL,
+    rate_date DATE NOT NULL,
+    rate NUMERIC(18,6) NOT NULL CHECK (rate > 0),
+    source VARCHAR(255),
+    loaded_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (currency_code, rate_date)
+);
+
+-- 2. Equivalente en pesos de las compras en moneda extranjera, para analíticas
+ALTER TABLE siigo_purchases ADD COLUMN IF NOT EXISTS total_cop NUMERIC(18,2);
+ALTER TABLE siigo_purchases ADD COLUMN IF NOT EXISTS balance_cop NUMERIC(18,2);
+
+UPDATE siigo_purchases SET
+    total_cop = CASE WHEN currency_code IS NULL OR currency_code = 'COP' THEN total ELSE ROUND(total * exchange_rate, 2) END,
+    balance_cop = CASE WHEN currency_code IS NULL OR currency_code = 'COP' THEN balance ELSE ROUND(balance * exchange_rate, 2) END
+WHERE total_cop IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_siigo_purchases_currency ON siigo_purchases(company_id, currency_code, date);
@@ -0,0 +1,43 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createDuplicateOverrides() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando índices y tabla de duplicados...');
+    const ddl = readFileSync(join(__dirname, '17-create-duplicate-overrides.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Índices y tabla de duplicados creados exitosamente');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name = 'siigo_duplicate_overrides'
+      ORDER BY table_name
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. El formulario de facturas advierte las facturas ya registradas');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createDuplicateOverrides();
@@ -0,0 +1,26 @@
+-- Script para detectar facturas de proveedor duplicadas en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- 1. Búsqueda de la factura del proveedor en el espejo de compras
+CREATE INDEX IF NOT EXISTS idx_siigo_purchases_provider_invoice
+    ON siigo_purchases(company_id, supplier_identification, provider_invoice_number);
+CREATE INDEX IF NOT EXISTS idx_siigo_purchases_cufe
+    ON siigo_purchases(company_id, LOWER(raw->'provider_invoice'->>'cufe'));
+
+-- 2. Facturas registradas a pesar de estar duplicadas (duplicates guarda los documentos encontrados)
+CREATE TABLE IF NOT EXISTS siigo_duplicate_overrides (
+    id SERIAL PRIMARY KEY,
+    company_id VARCHAR(100) NOT NULL,
+    purchase_id VARCHAR(64) NOT NULL,
+    purchase_name VARCHAR(50),
+    supplier_identification VARCHAR(50) NOT NULL,
+    provider_invoice_prefix VARCHAR(20),
+    provider_invoice_number VARCHAR(50),
+    cufe VARCHAR(255),
+    reason TEXT NOT NULL,
+    duplicates JSONB NOT NULL,
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_siigo_duplicate_overrides_supplier ON siigo_duplicate_overrides(company_id, supplier_identification);
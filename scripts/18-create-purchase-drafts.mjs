@@ -0,0 +1,43 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createPurchaseDrafts() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tabla de borradores de compras...');
+    const ddl = readFileSync(join(__dirname, '18-create-purchase-drafts.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tabla de borradores creada exitosamente');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name = 'purchase_drafts'
+      ORDER BY table_name
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Los borradores se listan en /borradores');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createPurchaseDrafts();
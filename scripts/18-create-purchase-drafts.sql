@@ -0,0 +1,19 @@
+-- Script para crear los borradores de compras en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- Estado del formulario de facturas de cada usuario (state guarda el InvoiceState completo)
+CREATE TABLE IF NOT EXISTS purchase_drafts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id VARCHAR(100) NOT NULL,
+    provider_name VARCHAR(255),
+    provider_invoice VARCHAR(100),
+    items_count INTEGER NOT NULL DEFAULT 0,
+    total NUMERIC(18,2) NOT NULL DEFAULT 0,
+    currency_code VARCHAR(3),
+    state JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_drafts_user ON purchase_drafts(user_id, company_id, updated_at DESC);
@@ -0,0 +1,43 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createCufeVerifications() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando tabla de verificaciones del CUFE...');
+    const ddl = readFileSync(join(__dirname, '19-create-cufe-verifications.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tabla de verificaciones del CUFE creada exitosamente');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name = 'siigo_cufe_verifications'
+      ORDER BY table_name
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Las compras guardan el resultado de la verificación del CUFE');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createCufeVerifications();
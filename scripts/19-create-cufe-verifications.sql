@@ -0,0 +1,21 @@
+-- Script para guardar la verificación del CUFE de las compras en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- Resultado de revisar el CUFE al registrar cada compra (ver lib/siigo/cufe.ts)
+CREATE TABLE IF NOT EXISTS siigo_cufe_verifications (
+    id SERIAL PRIMARY KEY,
+    company_id VARCHAR(100) NOT NULL,
+    purchase_id VARCHAR(64) NOT NULL,
+    purchase_name VARCHAR(50),
+    supplier_identification VARCHAR(50) NOT NULL,
+    cufe VARCHAR(255) NOT NULL,
+    -- verified, mismatch, format_only, invalid_format o purchase_mismatch
+    status VARCHAR(20) NOT NULL,
+    expected_cufe VARCHAR(255),
+    message TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_siigo_cufe_verifications_purchase ON siigo_cufe_verifications(company_id, purchase_id);
+CREATE INDEX IF NOT EXISTS idx_siigo_cufe_verifications_status ON siigo_cufe_verifications(company_id, status);
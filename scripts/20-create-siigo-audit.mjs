@@ -0,0 +1,43 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createSiigoAudit() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando la bitácora de llamadas a Siigo...');
+    const ddl = readFileSync(join(__dirname, '20-create-siigo-audit.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Bitácora de llamadas a Siigo creada exitosamente');
+
+    const result = await client.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_name = 'siigo_audit'
+      ORDER BY table_name
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Cada llamada a Siigo queda en siigo_audit (ver /administracion/auditoria-siigo)');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createSiigoAudit();
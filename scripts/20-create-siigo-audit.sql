@@ -0,0 +1,27 @@
+-- Script para crear la bitácora de llamadas a Siigo en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- Cada petición HTTP a Siigo, con las credenciales ocultas (ver lib/siigo/audit.ts)
+CREATE TABLE IF NOT EXISTS siigo_audit (
+    id SERIAL PRIMARY KEY,
+    company_id VARCHAR(100) NOT NULL,
+    -- Comparten correlation_id las llamadas de una misma petición al sistema
+    correlation_id VARCHAR(64) NOT NULL,
+    user_email VARCHAR(255),
+    method VARCHAR(10) NOT NULL,
+    endpoint TEXT NOT NULL,
+    attempt INTEGER NOT NULL DEFAULT 1,
+    payload JSONB,
+    -- NULL si Siigo no respondió (timeout o error de red)
+    status INTEGER,
+    response JSONB,
+    duration_ms INTEGER NOT NULL,
+    error TEXT,
+    -- Registro original cuando la llamada es un reenvío desde la administración
+    replay_of INTEGER REFERENCES siigo_audit(id),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_siigo_audit_created ON siigo_audit(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_siigo_audit_correlation ON siigo_audit(correlation_id);
+CREATE INDEX IF NOT EXISTS idx_siigo_audit_user ON siigo_audit(company_id, user_email, created_at DESC);
@@ -0,0 +1,31 @@
+-- Script para crear la cola de envíos de compras a Siigo en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- Cada compra se guarda aquí antes de enviarla; un worker reintenta las que fallan (ver lib/siigo/outbox.ts)
+CREATE TABLE IF NOT EXISTS siigo_outbox (
+    id SERIAL PRIMARY KEY,
+    company_id VARCHAR(100) NOT NULL,
+    -- pending, processing, sent, failed, needs_attention o cancelled
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    kind VARCHAR(20) NOT NULL,
+    -- Compra y datos adicionales del formulario (OutboxPurchaseSubmission)
+    submission JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    -- Mientras se envía; si vence, otro worker la vuelve a tomar
+    locked_until TIMESTAMPTZ,
+    -- Status HTTP y error del último intento fallido (NULL si Siigo no respondió)
+    last_status INTEGER,
+    last_error TEXT,
+    error_details JSONB,
+    -- Compra creada en Siigo, saldo y verificación del CUFE
+    result JSONB,
+    created_by VARCHAR(255) NOT NULL,
+    cancelled_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_siigo_outbox_due ON siigo_outbox(company_id, status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_siigo_outbox_created ON siigo_outbox(company_id, created_at DESC);
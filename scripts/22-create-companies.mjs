@@ -0,0 +1,54 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function createCompanies() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Creando la tabla de empresas...');
+    const ddl = readFileSync(join(__dirname, '22-create-companies.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Tabla de empresas creada exitosamente');
+
+    // La empresa de las variables de entorno sigue usando SIIGO_USERNAME/SIIGO_ACCESS_KEY
+    // mientras no se le guarden credenciales desde /administracion/empresas
+    const defaultCompanyId = process.env.SIIGO_COMPANY_ID || 'default';
+    await client.query(
+      `INSERT INTO companies (id, name) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING`,
+      [defaultCompanyId, process.env.SIIGO_COMPANY_NAME || 'Empresa principal']
+    );
+    if (defaultCompanyId !== 'default') {
+      const { rowCount } = await client.query(
+        `UPDATE uploaded_files SET company_id = $1 WHERE company_id = 'default'`,
+        [defaultCompanyId]
+      );
+      console.log(`✅ ${rowCount} archivos de analíticas asignados a la empresa ${defaultCompanyId}`);
+    }
+
+    const result = await client.query('SELECT id, name, active FROM companies ORDER BY name');
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Registre las demás empresas y sus credenciales en /administracion/empresas');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+createCompanies();
@@ -0,0 +1,23 @@
+-- Script para crear las empresas y sus credenciales de Siigo en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- Cada empresa tiene su propia cuenta de Siigo (ver lib/siigo/companies.ts). El id es
+-- el company_id de las demás tablas; la empresa de SIIGO_COMPANY_ID es la por defecto
+CREATE TABLE IF NOT EXISTS companies (
+    id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    nit VARCHAR(20),
+    siigo_username VARCHAR(255),
+    -- Cifrada con AES-256-GCM usando SIIGO_CREDENTIALS_KEY (ver lib/siigo/credentials.ts)
+    siigo_access_key_encrypted TEXT,
+    siigo_partner_id VARCHAR(100),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Los archivos de analíticas quedan a nombre de la empresa con la que se subieron
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS company_id VARCHAR(100) NOT NULL DEFAULT 'default';
+
+CREATE INDEX IF NOT EXISTS idx_uploaded_files_company ON uploaded_files(company_id, document_type, year, month);
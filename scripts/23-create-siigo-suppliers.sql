@@ -0,0 +1,41 @@
+-- Script para crear la copia local de los terceros de Siigo en Neon PostgreSQL
+-- Ejecutar este script directamente en la consola de Neon
+
+-- Terceros de Siigo (GET /v1/customers), una fila por sucursal. El registro completo
+-- (tipo de identificación, DV, dirección, contactos, responsabilidades) queda en raw
+CREATE TABLE IF NOT EXISTS siigo_suppliers (
+    company_id VARCHAR(100) NOT NULL,
+    identification VARCHAR(50) NOT NULL,
+    branch_office INTEGER NOT NULL DEFAULT 0,
+    siigo_id VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL,
+    id_type VARCHAR(5),
+    name VARCHAR(255) NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    city_code VARCHAR(10),
+    siigo_updated_at TIMESTAMPTZ,
+    raw JSONB NOT NULL,
+    synced_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (company_id, identification, branch_office)
+);
+
+-- Diferencias entre el catálogo local de proveedores y Siigo de la última sincronización
+-- (ver reconcileSuppliers en lib/siigo/suppliers.ts)
+CREATE TABLE IF NOT EXISTS siigo_supplier_conflicts (
+    id SERIAL PRIMARY KEY,
+    company_id VARCHAR(100) NOT NULL,
+    kind VARCHAR(30) NOT NULL,
+    identification VARCHAR(50) NOT NULL,
+    local_code VARCHAR(50),
+    local_name VARCHAR(255),
+    siigo_name VARCHAR(255),
+    detail TEXT NOT NULL,
+    detected_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- El catálogo importado de Proveedores.xlsx no siempre trae la identificación
+ALTER TABLE proveedores ADD COLUMN IF NOT EXISTS identification VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_siigo_suppliers_name ON siigo_suppliers(company_id, name);
+CREATE INDEX IF NOT EXISTS idx_siigo_supplier_conflicts_company ON siigo_supplier_conflicts(company_id, kind);
+CREATE INDEX IF NOT EXISTS idx_proveedores_identification ON proveedores(identification);
@@ -0,0 +1,61 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const { Client } = pg;
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Tablas cuyo company_id se creó con DEFAULT 'default' (uploaded_files viene del script 22)
+const SCOPED_TABLES = ['uploaded_files', 'proveedores', 'productos_', 'proveedores_plazos_pago'];
+
+async function scopeCatalogsByCompany() {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✅ Conectado a la base de datos');
+
+    console.log('🔧 Agregando company_id a proveedores, productos y plazos de pago...');
+    const ddl = readFileSync(join(__dirname, '24-scope-catalogs-by-company.sql'), 'utf8');
+    await client.query(ddl);
+    console.log('✅ Catálogos separados por empresa');
+
+    // Las filas anteriores a la multiempresa son de la empresa por defecto. Sin DEFAULT,
+    // una inserción que olvide company_id falla en vez de quedar oculta en 'default'
+    const defaultCompanyId = process.env.SIIGO_COMPANY_ID || 'default';
+    for (const table of SCOPED_TABLES) {
+      const { rowCount } = await client.query(
+        `UPDATE ${table} SET company_id = $1 WHERE company_id = 'default'`,
+        [defaultCompanyId]
+      );
+      await client.query(`ALTER TABLE ${table} ALTER COLUMN company_id DROP DEFAULT`);
+      console.log(`✅ ${rowCount} filas de ${table} asignadas a la empresa ${defaultCompanyId}`);
+    }
+
+    const result = await client.query(`
+      SELECT 'proveedores' AS tabla, company_id, COUNT(*) AS filas FROM proveedores GROUP BY company_id
+      UNION ALL
+      SELECT 'productos_', company_id, COUNT(*) FROM productos_ GROUP BY company_id
+      UNION ALL
+      SELECT 'proveedores_plazos_pago', company_id, COUNT(*) FROM proveedores_plazos_pago GROUP BY company_id
+      ORDER BY 1, 2
+    `);
+    console.table(result.rows);
+
+    console.log('\n🎉 Proceso completado. Cada empresa ve solo sus proveedores, productos y plazos de pago');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  } finally {
+    await client.end();
+  }
+}
+
+scopeCatalogsByCompany();
@@ -0,0 +1,19 @@
+-- Script para separar por empresa los catálogos de proveedores, productos y plazos de pago
+-- Ejecutar con node scripts/24-scope-catalogs-by-company.mjs, que además asigna las
+-- filas existentes a la empresa de SIIGO_COMPANY_ID
+
+-- 1. Cada empresa tiene su catálogo; el código es único dentro de la empresa
+ALTER TABLE proveedores ADD COLUMN IF NOT EXISTS company_id VARCHAR(100) NOT NULL DEFAULT 'default';
+ALTER TABLE proveedores DROP CONSTRAINT IF EXISTS proveedores_codigo_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proveedores_company_codigo ON proveedores(company_id, codigo);
+
+ALTER TABLE productos_ ADD COLUMN IF NOT EXISTS company_id VARCHAR(100) NOT NULL DEFAULT 'default';
+ALTER TABLE productos_ DROP CONSTRAINT IF EXISTS productos__codigo_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_productos_underscore_company_codigo ON productos_(company_id, codigo);
+
+-- 2. El plazo guarda una forma de pago (payment_type_id) de la cuenta de Siigo de la empresa
+ALTER TABLE proveedores_plazos_pago ADD COLUMN IF NOT EXISTS company_id VARCHAR(100) NOT NULL DEFAULT 'default';
+ALTER TABLE proveedores_plazos_pago DROP CONSTRAINT IF EXISTS proveedores_plazos_pago_proveedor_codigo_fkey;
+ALTER TABLE proveedores_plazos_pago DROP CONSTRAINT IF EXISTS proveedores_plazos_pago_pkey;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proveedores_plazos_pago_company_codigo
+    ON proveedores_plazos_pago(company_id, proveedor_codigo);
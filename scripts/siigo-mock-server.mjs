@@ -0,0 +1,556 @@
+// Servidor local que imita la API de Siigo para desarrollo sin credenciales y pruebas de integración.
+//
+// Uso:
+//   npm run siigo:mock
+//   SIIGO_API_URL=http://localhost:4010/v1 SIIGO_AUTH_URL=http://localhost:4010/auth npm run dev
+//
+// Variables opcionales:
+//   SIIGO_MOCK_PORT        Puerto (default 4010)
+//   SIIGO_MOCK_TOKEN_TTL   Segundos de vida del token (default 86400)
+//   SIIGO_MOCK_RATE_LIMIT  Peticiones por minuto antes de responder 429 (default 0 = sin límite)
+//
+// Simulación de fallos: POST /__mock/faults con { "status": 401 | 429 | 500, "path": "/v1/purchases", "times": 1 }
+// El estado se reinicia con POST /__mock/reset.
+
+import http from "http"
+import { randomUUID } from "crypto"
+import { fileURLToPath } from "url"
+
+const DEFAULT_PORT = 4010
+
+function seedState() {
+  return {
+    documentTypes: [
+      {
+        id: 27524, code: "1", name: "Factura de compra", description: "Factura de compra", type: "FC",
+        active: true, cost_center: true, cost_center_mandatory: false, automatic_number: true,
+        consecutive: 1, decimals: true, consumption_tax: true, reteiva: true, reteica: true, document_support: false,
+      },
+      {
+        id: 27525, code: "2", name: "Factura de compra sede norte", description: "Segundo consecutivo FC", type: "FC",
+        active: true, cost_center: true, cost_center_mandatory: true, automatic_number: true,
+        consecutive: 1, decimals: true, consumption_tax: false, reteiva: true, reteica: true, document_support: false,
+      },
+      {
+        id: 27526, code: "3", name: "Factura de compra manual", description: "FC con numeración manual", type: "FC",
+        active: true, cost_center: true, cost_center_mandatory: false, automatic_number: false,
+        consecutive: 1, decimals: true, consumption_tax: true, reteiva: true, reteica: false, document_support: false,
+      },
+      {
+        id: 27530, code: "1", name: "Nota débito en compras", description: "Nota débito", type: "ND",
+        active: true, cost_center: false, cost_center_mandatory: false, automatic_number: true,
+        consecutive: 1, decimals: true, consumption_tax: false, reteiva: false, reteica: false, document_support: false,
+      },
+      {
+        id: 27540, code: "1", name: "Documento soporte", description: "Documento soporte electrónico", type: "DS",
+        active: true, cost_center: true, cost_center_mandatory: false, automatic_number: true,
+        consecutive: 1, decimals: true, consumption_tax: false, reteiva: true, reteica: true, document_support: true,
+      },
+      {
+        id: 27550, code: "1", name: "Recibo de pago", description: "Recibo de pago a proveedores", type: "RP",
+        active: true, cost_center: false, cost_center_mandatory: false, automatic_number: true,
+        consecutive: 1, decimals: true, consumption_tax: false, reteiva: false, reteica: false, document_support: false,
+      },
+    ],
+    taxes: [
+      { id: 18384, name: "IVA 19%", type: "IVA", percentage: 19, active: true },
+      { id: 18385, name: "IVA 5%", type: "IVA", percentage: 5, active: true },
+      { id: 18386, name: "IVA Excluido", type: "IVA", percentage: 0, active: true },
+      { id: 18390, name: "Impoconsumo 8%", type: "Impoconsumo", percentage: 8, active: true },
+      { id: 18400, name: "Retención compras 2,5%", type: "Retefuente", percentage: 2.5, active: true },
+      { id: 18401, name: "Retención servicios 4%", type: "Retefuente", percentage: 4, active: true },
+      { id: 18402, name: "Retención honorarios 11%", type: "Retefuente", percentage: 11, active: true },
+      { id: 18403, name: "Retención arrendamientos 3,5%", type: "Retefuente", percentage: 3.5, active: true },
+      { id: 18404, name: "Retención servicios no declarantes 6%", type: "Retefuente", percentage: 6, active: true },
+      { id: 18405, name: "Retención honorarios no declarantes 10%", type: "Retefuente", percentage: 10, active: true },
+      { id: 18410, name: "ReteIVA 15%", type: "ReteIVA", percentage: 15, active: true },
+      { id: 18420, name: "ReteICA Bogotá 9,66 x mil", type: "ReteICA", percentage: 0.966, active: true },
+      { id: 18421, name: "ReteICA Bogotá 4,14 x mil", type: "ReteICA", percentage: 0.414, active: true },
+    ],
+    paymentTypes: [
+      { id: 8467, name: "OTROS", type: "Proveedor", active: true, due_date: true },
+      { id: 8468, name: "Efectivo", type: "Proveedor", active: true, due_date: false },
+      { id: 8469, name: "Crédito proveedor", type: "Proveedor", active: true, due_date: true },
+      { id: 8470, name: "Transferencia bancaria", type: "Proveedor", active: true, due_date: false },
+      // Cuentas de pago de los recibos (document_type=RP)
+      { id: 8480, name: "Bancolombia Cta. Corriente", type: "Proveedor", active: true, due_date: false, documentType: "RP" },
+      { id: 8481, name: "Davivienda Cta. Ahorros", type: "Proveedor", active: true, due_date: false, documentType: "RP" },
+      { id: 8482, name: "Caja general", type: "Proveedor", active: true, due_date: false, documentType: "RP" },
+    ],
+    costCenters: [
+      { id: 235, code: "1", name: "Administración", active: true },
+      { id: 236, code: "2", name: "Operaciones", active: true },
+      { id: 237, code: "3", name: "Ventas", active: false },
+    ],
+    customers: [],
+    purchases: [],
+    paymentReceipts: [],
+    faults: [],
+    requestLog: [],
+    tokens: new Map(),
+  }
+}
+
+let state = seedState()
+
+const config = {
+  tokenTtl: Number(process.env.SIIGO_MOCK_TOKEN_TTL || 86400),
+  rateLimit: Number(process.env.SIIGO_MOCK_RATE_LIMIT || 0),
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers })
+  res.end(body === undefined ? "" : JSON.stringify(body))
+}
+
+function siigoError(res, status, code, message, params = []) {
+  send(res, status, { Status: status, Errors: [{ Code: code, Message: message, Params: params }] })
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = ""
+    req.on("data", (chunk) => (data += chunk))
+    req.on("end", () => {
+      if (!data) return resolve(undefined)
+      try {
+        resolve(JSON.parse(data))
+      } catch {
+        resolve(null)
+      }
+    })
+  })
+}
+
+function paginate(items, query) {
+  const page = Math.max(Number(query.get("page") || 1), 1)
+  const pageSize = Math.min(Math.max(Number(query.get("page_size") || 25), 1), 100)
+  const start = (page - 1) * pageSize
+  const results = items.slice(start, start + pageSize)
+  const hasNext = start + pageSize < items.length
+  return {
+    pagination: { page, page_size: pageSize, total_results: items.length },
+    results,
+    _links: hasNext ? { next: { href: `?page=${page + 1}&page_size=${pageSize}` } } : {},
+  }
+}
+
+function takeFault(path) {
+  const index = state.faults.findIndex((f) => !f.path || path.startsWith(f.path))
+  if (index === -1) return null
+  const fault = state.faults[index]
+  fault.times -= 1
+  if (fault.times <= 0) state.faults.splice(index, 1)
+  return fault
+}
+
+function isRateLimited() {
+  if (!config.rateLimit) return false
+  const windowStart = Date.now() - 60 * 1000
+  state.requestLog = state.requestLog.filter((ts) => ts > windowStart)
+  if (state.requestLog.length >= config.rateLimit) return true
+  state.requestLog.push(Date.now())
+  return false
+}
+
+function round2(value) {
+  return Math.round(value * 100) / 100
+}
+
+// Los filtros aceptan fecha (yyyy-MM-dd) o fecha y hora (yyyy-MM-ddTHH:mm:ssZ)
+function inRange(value, start, end) {
+  if (!value) return !start && !end
+  const compare = (bound) => bound.length > 10
+    ? new Date(value).getTime() - new Date(bound).getTime()
+    : value.slice(0, 10).localeCompare(bound)
+  if (start && compare(start) < 0) return false
+  if (end && compare(end) > 0) return false
+  return true
+}
+
+function filterPurchases(query) {
+  const dateStart = query.get("date_start") || query.get("start_date")
+  const dateEnd = query.get("date_end") || query.get("end_date")
+  const createdStart = query.get("created_start")
+  const createdEnd = query.get("created_end")
+  const updatedStart = query.get("updated_start")
+  const updatedEnd = query.get("updated_end")
+  const documentId = query.get("document_id")
+
+  return state.purchases.filter((p) => {
+    if (documentId && String(p.document.id) !== documentId) return false
+    if ((dateStart || dateEnd) && !inRange(p.date, dateStart, dateEnd)) return false
+    if ((createdStart || createdEnd) && !inRange(p.metadata.created, createdStart, createdEnd)) return false
+    if (updatedStart || updatedEnd) {
+      const updated = p.metadata.last_updated || p.metadata.created
+      if (!inRange(updated, updatedStart, updatedEnd)) return false
+    }
+    return true
+  })
+}
+
+/**
+ * Valida y registra una compra con las mismas reglas básicas que aplica Siigo.
+ * Devuelve { errors } o { purchase }.
+ */
+function createPurchase(body) {
+  const errors = []
+  const required = (value, param, message) => {
+    if (value === undefined || value === null || value === "") {
+      errors.push({ Code: "parameter_required", Message: message, Params: [param] })
+    }
+  }
+
+  required(body.document?.id, "document.id", "The document id is required")
+  required(body.date, "date", "The date is required")
+  required(body.supplier?.identification, "supplier.identification", "The supplier identification is required")
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    errors.push({ Code: "parameter_required", Message: "At least one item is required", Params: ["items"] })
+  }
+  if (!Array.isArray(body.payments) || body.payments.length === 0) {
+    errors.push({ Code: "parameter_required", Message: "At least one payment is required", Params: ["payments"] })
+  }
+  if (errors.length > 0) return { errors }
+
+  const documentType = state.documentTypes.find((d) => d.id === Number(body.document.id))
+  if (!documentType) {
+    errors.push({ Code: "invalid_reference", Message: "The document type doesn't exist", Params: ["document.id"] })
+  } else {
+    if (documentType.cost_center_mandatory && !body.cost_center) {
+      errors.push({ Code: "parameter_required", Message: "The cost center is mandatory for this document", Params: ["cost_center"] })
+    }
+    if (!documentType.automatic_number && !body.number) {
+      errors.push({ Code: "parameter_required", Message: "The number is required for manual numbering", Params: ["number"] })
+    }
+    if (!documentType.automatic_number && state.purchases.some((p) => p.document.id === documentType.id && p.number === Number(body.number))) {
+      errors.push({ Code: "already_exists", Message: "The document number is already registered", Params: ["number"] })
+    }
+  }
+  // La nota débito se registra contra una compra existente del mismo proveedor
+  const referenced = body.purchase ? state.purchases.find((p) => p.id === body.purchase) : null
+  if (documentType?.type === "ND" && !referenced) {
+    errors.push({ Code: "invalid_reference", Message: "The referenced purchase doesn't exist", Params: ["purchase"] })
+  } else if (referenced && referenced.supplier.identification !== body.supplier.identification) {
+    errors.push({ Code: "invalid_reference", Message: "The referenced purchase belongs to another supplier", Params: ["purchase"] })
+  }
+  // El documento soporte se emite a un tercero ya creado en Siigo
+  if (documentType?.document_support && !state.customers.some((c) => c.identification === body.supplier.identification)) {
+    errors.push({ Code: "invalid_reference", Message: "The supplier doesn't exist", Params: ["supplier.identification"] })
+  }
+  if (body.cost_center && !state.costCenters.some((c) => c.id === Number(body.cost_center) && c.active)) {
+    errors.push({ Code: "invalid_reference", Message: "The cost center doesn't exist or is inactive", Params: ["cost_center"] })
+  }
+
+  const duplicated = body.provider_invoice?.number && state.purchases.some((p) =>
+    p.supplier.identification === body.supplier.identification &&
+    p.provider_invoice?.prefix === body.provider_invoice.prefix &&
+    p.provider_invoice?.number === body.provider_invoice.number
+  )
+  if (duplicated) {
+    errors.push({ Code: "already_exists", Message: "The provider invoice is already registered", Params: ["provider_invoice.number"] })
+  }
+
+  let subtotal = 0
+  let taxTotal = 0
+  const items = body.items.map((item, index) => {
+    const gross = round2(Number(item.quantity || 0) * Number(item.price || 0) - Number(item.discount || 0))
+    const catalogTaxes = (item.taxes || []).map((t) => {
+      const tax = state.taxes.find((x) => x.id === Number(t.id))
+      if (!tax) {
+        errors.push({ Code: "invalid_reference", Message: `The tax ${t.id} doesn't exist`, Params: [`items[${index}].taxes`] })
+      }
+      return tax
+    }).filter(Boolean)
+    const isRetention = (tax) => ["Retefuente", "ReteIVA", "ReteICA"].includes(tax.type)
+    // Con tax_included el precio trae el IVA y el impoconsumo: la base se despeja del valor de la línea
+    const addedRate = catalogTaxes.filter((t) => !isRetention(t)).reduce((sum, t) => sum + t.percentage, 0)
+    const taxableBase = body.tax_included ? round2(gross / (1 + addedRate / 100)) : gross
+    // La ReteIVA se calcula sobre el IVA de la línea
+    const iva = catalogTaxes.filter((t) => t.type === "IVA").reduce((sum, t) => sum + round2(taxableBase * t.percentage / 100), 0)
+    const taxes = catalogTaxes.map((tax) => {
+      const sign = isRetention(tax) ? -1 : 1
+      const taxBase = tax.type === "ReteIVA" ? iva : taxableBase
+      return { id: tax.id, name: tax.name, type: tax.type, percentage: tax.percentage, value: round2(sign * taxBase * tax.percentage / 100) }
+    })
+    const itemTaxes = taxes.reduce((sum, t) => sum + t.value, 0)
+    const added = round2(taxes.filter((t) => t.value > 0).reduce((sum, t) => sum + t.value, 0))
+    const base = body.tax_included ? round2(gross - added) : gross
+    subtotal += base
+    taxTotal += itemTaxes
+    return { ...item, id: randomUUID(), taxes, total: round2(base + itemTaxes) }
+  })
+
+  const total = round2(subtotal + taxTotal)
+  const payments = body.payments.map((p, index) => {
+    const paymentType = state.paymentTypes.find((x) => x.id === Number(p.id) && !x.documentType)
+    if (!paymentType) {
+      errors.push({ Code: "invalid_reference", Message: `The payment type ${p.id} doesn't exist`, Params: [`payments[${index}].id`] })
+    }
+    return { id: Number(p.id), name: paymentType?.name || "", value: Number(p.value), due_date: p.due_date }
+  })
+  const paid = round2(payments.reduce((sum, p) => sum + p.value, 0))
+  if (Math.abs(paid - total) > 1) {
+    errors.push({ Code: "invalid_total_payments", Message: `The payments total (${paid}) doesn't match the purchase total (${total})`, Params: ["payments"] })
+  }
+
+  if (errors.length > 0) return { errors }
+
+  const number = documentType.automatic_number ? documentType.consecutive++ : Number(body.number)
+  const now = new Date().toISOString()
+  const purchase = {
+    id: randomUUID(),
+    document: { id: documentType.id },
+    number,
+    name: `${documentType.type}-${documentType.code}-${number}`,
+    date: body.date,
+    supplier: { id: randomUUID(), identification: body.supplier.identification, branch_office: body.supplier.branch_office ?? 0 },
+    purchase: referenced?.id,
+    cost_center: body.cost_center,
+    provider_invoice: body.provider_invoice,
+    discount_type: body.discount_type || "Value",
+    currency: body.currency,
+    total,
+    balance: total,
+    observations: body.observations,
+    items,
+    payments,
+    ...(documentType.document_support && {
+      stamp: { status: "Accepted", cude: randomUUID().replace(/-/g, ""), observations: "Documento validado por la DIAN" },
+    }),
+    metadata: { created: now, last_updated: null },
+  }
+  state.purchases.push(purchase)
+  if (referenced) {
+    referenced.balance = round2(referenced.balance + total)
+    referenced.metadata.last_updated = now
+  }
+  return { purchase }
+}
+
+/**
+ * Valida y registra un recibo de pago a proveedor: cada ítem abona a una compra
+ * identificada por prefijo y consecutivo, sin superar su saldo.
+ * Devuelve { errors } o { receipt }.
+ */
+function createPaymentReceipt(body) {
+  const errors = []
+  const documentType = state.documentTypes.find((d) => d.id === Number(body.document?.id))
+  if (!documentType || documentType.type !== "RP") {
+    errors.push({ Code: "invalid_reference", Message: "The document type doesn't exist or isn't RP", Params: ["document.id"] })
+  }
+  if (!body.date) errors.push({ Code: "parameter_required", Message: "The date is required", Params: ["date"] })
+  if (!body.supplier?.identification) {
+    errors.push({ Code: "parameter_required", Message: "The supplier identification is required", Params: ["supplier.identification"] })
+  }
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    errors.push({ Code: "parameter_required", Message: "At least one item is required", Params: ["items"] })
+  }
+  const account = state.paymentTypes.find((x) => x.id === Number(body.payment?.id) && x.documentType === "RP")
+  if (!account) {
+    errors.push({ Code: "invalid_reference", Message: "The payment account doesn't exist", Params: ["payment.id"] })
+  }
+  if (errors.length > 0) return { errors }
+
+  const matches = body.items.map((item, index) => {
+    const purchase = state.purchases.find((p) =>
+      p.name === `${item.due?.prefix}-${item.due?.consecutive}` &&
+      p.supplier.identification === body.supplier.identification
+    )
+    const value = round2(Number(item.value || 0))
+    if (!purchase) {
+      errors.push({ Code: "invalid_reference", Message: "The due doesn't exist for this supplier", Params: [`items[${index}].due`] })
+    } else if (value <= 0 || value > purchase.balance + 0.01) {
+      errors.push({ Code: "invalid_value", Message: `The value exceeds the balance (${purchase.balance})`, Params: [`items[${index}].value`] })
+    }
+    return { purchase, value }
+  })
+  const total = round2(matches.reduce((sum, m) => sum + m.value, 0))
+  if (Math.abs(round2(Number(body.payment.value || 0)) - total) > 0.01) {
+    errors.push({ Code: "invalid_total_payments", Message: `The payment value doesn't match the items total (${total})`, Params: ["payment.value"] })
+  }
+  if (errors.length > 0) return { errors }
+
+  const number = documentType.consecutive++
+  const now = new Date().toISOString()
+  matches.forEach(({ purchase, value }) => {
+    purchase.balance = round2(purchase.balance - value)
+    purchase.metadata.last_updated = now
+  })
+  const receipt = {
+    id: randomUUID(),
+    document: { id: documentType.id },
+    number,
+    name: `RP-${documentType.code}-${number}`,
+    date: body.date,
+    type: body.type || "DebtPayment",
+    supplier: { identification: body.supplier.identification, branch_office: body.supplier.branch_office ?? 0 },
+    items: body.items,
+    payment: { id: account.id, name: account.name, value: total },
+    observations: body.observations,
+    metadata: { created: now, last_updated: null },
+  }
+  state.paymentReceipts.push(receipt)
+  return { receipt }
+}
+
+function createCustomer(body) {
+  const errors = []
+  for (const param of ["type", "person_type", "id_type", "identification"]) {
+    if (!body[param]) errors.push({ Code: "parameter_required", Message: `The ${param} is required`, Params: [param] })
+  }
+  if (!Array.isArray(body.name) || body.name.length === 0) {
+    errors.push({ Code: "parameter_required", Message: "The name is required", Params: ["name"] })
+  }
+  if (!body.address?.address || !body.address?.city?.city_code || !body.address?.city?.state_code) {
+    errors.push({ Code: "parameter_required", Message: "The address and city are required", Params: ["address"] })
+  }
+  if (body.identification && state.customers.some((c) => c.identification === body.identification)) {
+    errors.push({ Code: "already_exists", Message: "The customer is already registered", Params: ["identification"] })
+  }
+  if (errors.length > 0) return { errors }
+
+  const customer = { ...body, id: randomUUID(), metadata: { created: new Date().toISOString(), last_updated: null } }
+  state.customers.push(customer)
+  return { customer }
+}
+
+async function handleMockControl(req, res, path) {
+  if (path === "/__mock/reset" && req.method === "POST") {
+    state = seedState()
+    return send(res, 200, { reset: true })
+  }
+  if (path === "/__mock/faults" && req.method === "POST") {
+    const body = (await readBody(req)) || {}
+    const fault = { status: Number(body.status || 500), path: body.path, times: Number(body.times || 1), retryAfter: body.retryAfter }
+    state.faults.push(fault)
+    return send(res, 201, fault)
+  }
+  if (path === "/__mock/state" && req.method === "GET") {
+    return send(res, 200, {
+      purchases: state.purchases.length,
+      customers: state.customers.length,
+      paymentReceipts: state.paymentReceipts.length,
+      faults: state.faults,
+    })
+  }
+  return send(res, 404, { message: "Unknown mock control endpoint" })
+}
+
+async function handleAuth(req, res) {
+  const body = (await readBody(req)) || {}
+  if (!req.headers["partner-id"]) {
+    return siigoError(res, 400, "invalid_partner_id", "The Partner-Id header is required", ["Partner-Id"])
+  }
+  if (!body.username || !body.access_key) {
+    return send(res, 401, { error: "invalid_client", error_description: "Invalid username or access_key" })
+  }
+  const token = randomUUID()
+  state.tokens.set(token, Date.now() + config.tokenTtl * 1000)
+  send(res, 200, { access_token: token, expires_in: config.tokenTtl, token_type: "Bearer", scope: "SiigoAPI" })
+}
+
+function isAuthorized(req) {
+  const header = req.headers.authorization || ""
+  const token = header.replace(/^Bearer\s+/i, "")
+  const expiresAt = state.tokens.get(token)
+  return !!expiresAt && expiresAt > Date.now()
+}
+
+async function handleApi(req, res, path, query) {
+  if (!req.headers["partner-id"]) {
+    return siigoError(res, 400, "invalid_partner_id", "The Partner-Id header is required", ["Partner-Id"])
+  }
+  if (!isAuthorized(req)) {
+    return send(res, 401, { Status: 401, Errors: [{ Code: "unauthorized", Message: "Invalid or expired token" }] })
+  }
+
+  if (path === "/v1/document-types" && req.method === "GET") {
+    const type = query.get("type")
+    return send(res, 200, state.documentTypes.filter((d) => !type || d.type === type))
+  }
+  if (path === "/v1/taxes" && req.method === "GET") {
+    return send(res, 200, state.taxes)
+  }
+  if (path === "/v1/payment-types" && req.method === "GET") {
+    const documentType = query.get("document_type") || "FC"
+    return send(res, 200, state.paymentTypes
+      .filter((p) => (p.documentType || "FC") === documentType)
+      .map(({ documentType: _documentType, ...paymentType }) => paymentType))
+  }
+  if (path === "/v1/cost-centers" && req.method === "GET") {
+    return send(res, 200, state.costCenters)
+  }
+  if (path === "/v1/customers" && req.method === "GET") {
+    const identification = query.get("identification")
+    return send(res, 200, paginate(state.customers.filter((c) => !identification || c.identification === identification), query))
+  }
+  if (path === "/v1/customers" && req.method === "POST") {
+    const body = await readBody(req)
+    if (!body) return siigoError(res, 400, "invalid_json", "The request body must be valid JSON")
+    const { errors, customer } = createCustomer(body)
+    if (errors) return send(res, 400, { Status: 400, Errors: errors })
+    return send(res, 201, customer)
+  }
+  if (path === "/v1/purchases" && req.method === "GET") {
+    return send(res, 200, paginate(filterPurchases(query), query))
+  }
+  if (path === "/v1/purchases" && req.method === "POST") {
+    const body = await readBody(req)
+    if (!body) return siigoError(res, 400, "invalid_json", "The request body must be valid JSON")
+    const { errors, purchase } = createPurchase(body)
+    if (errors) return send(res, 400, { Status: 400, Errors: errors })
+    return send(res, 201, purchase)
+  }
+  if (path === "/v1/payment-receipts" && req.method === "POST") {
+    const body = await readBody(req)
+    if (!body) return siigoError(res, 400, "invalid_json", "The request body must be valid JSON")
+    const { errors, receipt } = createPaymentReceipt(body)
+    if (errors) return send(res, 400, { Status: 400, Errors: errors })
+    return send(res, 201, receipt)
+  }
+  const purchaseMatch = path.match(/^\/v1\/purchases\/([\w-]+)$/)
+  if (purchaseMatch && req.method === "GET") {
+    const purchase = state.purchases.find((p) => p.id === purchaseMatch[1])
+    return purchase ? send(res, 200, purchase) : siigoError(res, 404, "not_found", "The purchase doesn't exist")
+  }
+
+  return siigoError(res, 404, "not_found", `Resource ${req.method} ${path} not found in the mock`)
+}
+
+export function createSiigoMockServer() {
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url, "http://localhost")
+    const path = url.pathname.replace(/\/+$/, "")
+
+    try {
+      if (path.startsWith("/__mock")) return await handleMockControl(req, res, path)
+
+      const fault = takeFault(path)
+      if (fault) {
+        const headers = fault.status === 429 ? { "Retry-After": String(fault.retryAfter ?? 1) } : {}
+        return send(res, fault.status, { Status: fault.status, Errors: [{ Code: "mock_fault", Message: `Simulated ${fault.status}` }] }, headers)
+      }
+      if (isRateLimited()) {
+        return send(res, 429, { Status: 429, Errors: [{ Code: "too_many_requests", Message: "Rate limit exceeded" }] }, { "Retry-After": "60" })
+      }
+
+      if (path === "/auth" && req.method === "POST") return await handleAuth(req, res)
+      if (path.startsWith("/v1/")) return await handleApi(req, res, path, url.searchParams)
+
+      return siigoError(res, 404, "not_found", `Resource ${req.method} ${path} not found in the mock`)
+    } catch (error) {
+      console.error("❌ Error en el mock de Siigo:", error)
+      return siigoError(res, 500, "internal_error", error.message)
+    }
+  })
+}
+
+// Ejecución directa: node scripts/siigo-mock-server.mjs
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.SIIGO_MOCK_PORT || DEFAULT_PORT)
+  createSiigoMockServer().listen(port, () => {
+    console.log(`🧪 Mock de Siigo escuchando en http://localhost:${port}`)
+    console.log(`   SIIGO_API_URL=http://localhost:${port}/v1`)
+    console.log(`   SIIGO_AUTH_URL=http://localhost:${port}/auth`)
+  })
+}
@@ -50,8 +50,8 @@ export interface RespuestaPaginada<T> {
   error?: string;
 }
 
-// URL base de la API de Siigo
-export const SIIGO_API_BASE_URL = 'https://api.siigo.com/v1';
+// URL base de la API de Siigo (SIIGO_API_URL permite apuntar al mock local)
+export const SIIGO_API_BASE_URL = (process.env.SIIGO_API_URL || 'https://api.siigo.com/v1').replace(/\/+$/, '');
 
 // Endpoints de la API de Siigo
 export const SIIGO_API_ENDPOINTS = {
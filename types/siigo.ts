@@ -9,13 +9,25 @@ export interface InvoiceItem {
   quantity: number;
   price: number;
   warehouse?: string;
-  hasIVA?: boolean;
+  taxIds?: number[]; // Impuestos del catálogo de Siigo aplicados a la línea
+  withholdingConcept?: WithholdingConcept; // Concepto de retención; sin concepto la línea no lleva retenciones
   discount?: {
     value?: number;
     percentage?: number;
   };
 }
 
+// Conceptos de retención en la fuente que maneja el formulario de compras
+export type WithholdingConcept = 'compras' | 'servicios' | 'honorarios' | 'arrendamientos';
+
+// Fila de la sección de pagos del formulario (una cuota)
+export interface InvoicePayment {
+  id: string;
+  paymentTypeId: number | null;
+  value: number;
+  dueDate: string;
+}
+
 // Tipos según la documentación oficial de Siigo
 export interface SiigoDocument {
   id: number;
@@ -29,6 +41,7 @@ export interface SiigoSupplier {
 export interface SiigoProviderInvoice {
   prefix: string;
   number: string;
+  cufe?: string;
 }
 
 export interface SiigoCurrency {
@@ -40,14 +53,26 @@ export interface SiigoTax {
   id: number;
 }
 
+// Impuesto del catálogo de Siigo (GET /v1/taxes)
+export type SiigoTaxType = 'IVA' | 'Impoconsumo' | 'Retefuente' | 'ReteIVA' | 'ReteICA' | string;
+
+export interface SiigoTaxCatalogItem {
+  id: number;
+  name: string;
+  type: SiigoTaxType;
+  percentage: number;
+  active: boolean;
+}
+
 export interface SiigoItem {
-  type: 'Product' | 'Service' | 'FixedAsset';
+  type: 'Product' | 'Service' | 'FixedAsset' | 'Account';
   code: string;
   description: string;
   quantity: number;
   price: number;
   discount?: number; // Número simple, no objeto
   taxes?: SiigoTax[];
+  warehouse?: number;
 }
 
 export interface SiigoPayment {
@@ -56,9 +81,28 @@ export interface SiigoPayment {
   due_date: string;
 }
 
+// Centro de costo del catálogo de Siigo (GET /v1/cost-centers)
+export interface SiigoCostCenterCatalogItem {
+  id: number;
+  code: string;
+  name: string;
+  active: boolean;
+}
+
+// Forma de pago del catálogo de Siigo (GET /v1/payment-types)
+export interface SiigoPaymentTypeCatalogItem {
+  id: number;
+  name: string;
+  type: string;
+  active: boolean;
+  due_date: boolean; // Si la forma de pago maneja fecha de vencimiento (crédito)
+}
+
 // Request completo para la API de Siigo
 export interface SiigoPurchaseRequest {
   document: SiigoDocument;
+  number?: number; // Solo para tipos de documento con numeración manual
+  purchase?: string; // Compra de referencia de una nota débito (id de Siigo)
   date: string;
   supplier: SiigoSupplier;
   cost_center?: number;
@@ -73,6 +117,125 @@ export interface SiigoPurchaseRequest {
   warehouse?: string;
 }
 
+// Cuota de una compra que se abona en un recibo de pago
+export interface SiigoPaymentReceiptDue {
+  prefix: string; // Prefijo del documento de la compra, ej. "FC-1"
+  consecutive: number; // Número de la compra
+  quote: number; // Número de la cuota
+  date: string;
+}
+
+// Recibo de pago a proveedores (POST /v1/payment-receipts)
+export interface SiigoPaymentReceiptRequest {
+  document: SiigoDocument;
+  date: string;
+  type: 'DebtPayment';
+  supplier: SiigoSupplier;
+  items: Array<{ due: SiigoPaymentReceiptDue; value: number }>;
+  payment: { id: number; value: number };
+  observations?: string;
+}
+
+export interface SiigoPaymentReceiptResponse extends SiigoPaymentReceiptRequest {
+  id: string;
+  number: number;
+  name: string;
+  metadata?: {
+    created: string;
+    last_updated?: string | null;
+  };
+}
+
+// Tipos de identificación DIAN que acepta Siigo para terceros
+export type DianIdType = '13' | '22' | '31' | '41' | '42' | '47' | '48';
+
+// Datos del proveedor que la DIAN exige en el documento soporte (formulario)
+export interface SupportDocumentSupplier {
+  idType: DianIdType;
+  identification: string;
+  firstName: string; // Razón social cuando es NIT
+  lastName: string;
+  address: string;
+  cityCode: string; // Código DANE de 5 dígitos; los dos primeros son el departamento
+  phone?: string;
+  email?: string;
+}
+
+// Tercero en Siigo (POST /v1/customers)
+export interface SiigoCustomerRequest {
+  type: 'Customer' | 'Supplier' | 'Other';
+  person_type: 'Person' | 'Company';
+  id_type: DianIdType;
+  identification: string;
+  check_digit?: string;
+  name: string[];
+  commercial_name?: string;
+  active?: boolean;
+  vat_responsible?: boolean;
+  fiscal_responsibilities?: Array<{ code: string }>;
+  address: {
+    address: string;
+    city: {
+      country_code: string;
+      state_code: string;
+      city_code: string;
+    };
+  };
+  phones?: Array<{ number: string }>;
+  contacts?: Array<{ first_name: string; last_name: string; email: string }>;
+}
+
+export interface SiigoCustomer extends SiigoCustomerRequest {
+  id: string;
+}
+
+// Tercero tal como lo devuelve GET /v1/customers (el tipo de identificación y la
+// responsabilidad fiscal vienen con su nombre, y cada sucursal es un registro aparte)
+export interface SiigoCustomerResponse {
+  id: string;
+  type: SiigoCustomerRequest['type'];
+  person_type: SiigoCustomerRequest['person_type'];
+  id_type: DianIdType | { code: DianIdType; name?: string };
+  identification: string;
+  branch_office?: number;
+  check_digit?: string;
+  name: string[];
+  commercial_name?: string;
+  active?: boolean;
+  vat_responsible?: boolean;
+  fiscal_responsibilities?: Array<{ code: string; name?: string }>;
+  address?: {
+    address?: string;
+    city?: {
+      country_code?: string;
+      state_code?: string;
+      state_name?: string;
+      city_code?: string;
+      city_name?: string;
+    };
+    postal_code?: string;
+  };
+  phones?: Array<{ indicative?: string; number: string; extension?: string }>;
+  contacts?: Array<{
+    first_name?: string;
+    last_name?: string;
+    email?: string;
+    phone?: { indicative?: string; number?: string; extension?: string };
+  }>;
+  metadata?: {
+    created: string;
+    last_updated?: string | null;
+  };
+}
+
+// Estado del envío a la DIAN de documentos electrónicos (documento soporte)
+export interface SiigoStamp {
+  status: 'Draft' | 'Accepted' | 'Rejected' | string;
+  cude?: string;
+  observations?: string;
+  errors?: string;
+}
+
 // Respuesta de la API de Siigo
 export interface SiigoPurchaseResponse {
   id: string;
@@ -80,6 +243,7 @@ export interface SiigoPurchaseResponse {
   number: number;
   name: string;
   date: string;
+  purchase?: string;
   supplier: SiigoSupplier;
   cost_center?: number;
   provider_invoice?: SiigoProviderInvoice;
@@ -88,6 +252,7 @@ export interface SiigoPurchaseResponse {
   total: number;
   balance: number;
   observations?: string;
+  stamp?: SiigoStamp;
   items: Array<{
     type: string;
     id: string;
@@ -120,6 +285,19 @@ export interface SiigoPurchaseResponse {
   };
 }
 
+// Error individual devuelto por Siigo (ej: { Code: 'invalid_reference', Params: ['supplier'] })
+export interface SiigoErrorDetail {
+  Code: string;
+  Message: string;
+  Params?: string[];
+  Detail?: string;
+}
+
+export interface SiigoErrorResponse {
+  Status?: number;
+  Errors: SiigoErrorDetail[];
+}
+
 // Tipos auxiliares para mantener compatibilidad
 export type SiigoPurchaseItemRequest = SiigoItem;
 export type SiigoPaymentRequest = SiigoPayment;
@@ -136,8 +314,7 @@ export interface FormData {
   costCenter?: string;
   observations?: string;
   sedeEnvio?: string;
-  hasIVA?: boolean;
-  ivaPercentage?: number;
+  taxIncluded?: boolean;
   items: InvoiceItem[];
 }
 